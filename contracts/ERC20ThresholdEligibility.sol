@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRatingEligibility} from "./IRatingEligibility.sol";
+
+/// @notice The part of ERC-20 this module reads
+interface IERC20Balance {
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/// @title ERC20ThresholdEligibility - Lets holders of a minimum token balance rate
+/// @author crypt-seal-vault
+/// @notice Approves accounts holding at least `minBalance` of `token`
+/// @dev The balance is read when the rating is submitted, so tokens moved between accounts can rate from each of
+/// them. Use a non-transferable token or an allowlist where that matters.
+contract ERC20ThresholdEligibility is IRatingEligibility {
+    // Token whose balance is checked
+    IERC20Balance public immutable token;
+
+    // Minimum balance (in the token's smallest unit) needed to rate
+    uint256 public immutable minBalance;
+
+    /// @param token_ ERC-20 token
+    /// @param minBalance_ Minimum balance needed to rate
+    constructor(address token_, uint256 minBalance_) {
+        require(token_.code.length > 0, "Token is not a contract");
+        require(minBalance_ > 0, "Minimum balance must be positive");
+        token = IERC20Balance(token_);
+        minBalance = minBalance_;
+    }
+
+    /// @inheritdoc IRatingEligibility
+    function isEligible(address account, bytes32) external view returns (bool) {
+        return token.balanceOf(account) >= minBalance;
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRatingEligibility} from "./IRatingEligibility.sol";
+
+/// @notice The part of ERC-721 this module reads
+interface IERC721Balance {
+    function balanceOf(address owner) external view returns (uint256);
+}
+
+/// @title ERC721OwnershipEligibility - Lets holders of an NFT collection rate
+/// @author crypt-seal-vault
+/// @notice Approves accounts owning at least one token of `collection`
+/// @dev Ownership is read when the rating is submitted; an NFT passed on after rating lets its next owner rate too
+contract ERC721OwnershipEligibility is IRatingEligibility {
+    // Collection whose holders may rate
+    IERC721Balance public immutable collection;
+
+    /// @param collection_ ERC-721 collection
+    constructor(address collection_) {
+        require(collection_.code.length > 0, "Collection is not a contract");
+        collection = IERC721Balance(collection_);
+    }
+
+    /// @inheritdoc IRatingEligibility
+    function isEligible(address account, bytes32) external view returns (bool) {
+        return collection.balanceOf(account) > 0;
+    }
+}
@@ -1,429 +1,999 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint8, euint32, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RatingStorage} from "./RatingStorage.sol";
 
 /// @title EncryptedRatingSystem - Privacy-Preserving Rating Management System
 /// @author crypt-seal-vault
 /// @notice Users can submit encrypted ratings (1-10 scale) and view aggregated statistics without revealing individual data
-contract EncryptedRatingSystem is SepoliaConfig {
-    struct RatingEntry {
-        address submitter; // Submitter address
-        string subject; // What is being rated (e.g., "Leadership", "Team Performance", "Service Quality")
-        euint32 encryptedRating; // Encrypted rating value (1-10)
-        uint256 timestamp; // Submission timestamp
-        bool isActive; // Active status
-    }
-
-    // Rating entry storage
-    mapping(uint256 => RatingEntry) public ratingEntries;
-    uint256 public entryCount; // Total entry count
-
-    // User management
-    mapping(address => bool) public hasSubmitted; // Has user submitted for this subject
-    mapping(address => mapping(bytes32 => uint256)) public userSubjectEntryId; // User's entry ID per subject
-
-    // Encrypted aggregate data
-    mapping(bytes32 => euint32) private _encryptedRatingSum; // Encrypted sum per subject
-    mapping(bytes32 => uint32) private _subjectEntryCount; // Entry count per subject
-
-    // Global statistics
-    euint32 private _encryptedGlobalSum; // Encrypted sum of all ratings
-    uint32 private _globalEntryCount; // Total active entry count
-
-    // Decrypted statistical results
-    mapping(bytes32 => uint32) private _decryptedSubjectAverage; // Subject average rating
-    mapping(bytes32 => bool) private _subjectStatsFinalized; // Are subject stats decrypted
-    mapping(uint256 => bytes32) private _subjectStatsRequest; // Track subject stats requests
-
-    uint32 private _decryptedGlobalAverage; // Decrypted global average rating
-    bool private _globalStatsFinalized; // Are global stats decrypted
-    mapping(uint256 => bool) private _globalStatsRequest; // Track global stats requests
-
-    // Events
-    event RatingSubmitted(uint256 indexed entryId, address indexed submitter, string subject, uint256 timestamp);
-    event RatingUpdated(uint256 indexed entryId, address indexed submitter, string newSubject);
-    event RatingDeleted(uint256 indexed entryId, address indexed submitter);
-    event SubjectStatsRequested(bytes32 indexed subjectHash, uint256 requestId);
-    event SubjectStatsPublished(bytes32 indexed subjectHash, uint32 averageRating, uint32 count);
-    event GlobalStatsRequested(uint256 requestId);
-    event GlobalStatsPublished(uint32 averageRating, uint32 totalCount);
+/// @dev State lives in RatingStorage; rating submission runs in RatingSubmissionModule, statistics publication in
+/// RatingStatsModule and configuration in RatingAdminModule, all via delegatecall to stay under the contract size
+/// limit. The modules are deployed separately, since embedding their creation code would exceed the initcode limit.
+contract EncryptedRatingSystem is RatingStorage {
+    // Module the statistics requests and decryption callbacks are delegated to
+    address public immutable statsModule;
+    // Module the registry, role, pause and ownership functions are delegated to
+    address public immutable adminModule;
+    // Module the rating submissions, updates and deletions are delegated to
+    address public immutable submissionModule;
+
+    /// @param defaultMinRespondents_ Minimum respondents before a subject aggregate can be decrypted
+    /// @param globalMinRespondents_ Minimum respondents before the global aggregate can be decrypted
+    /// @param statsModule_ Deployed RatingStatsModule
+    /// @param adminModule_ Deployed RatingAdminModule
+    /// @param submissionModule_ Deployed RatingSubmissionModule
+    constructor(
+        uint32 defaultMinRespondents_,
+        uint32 globalMinRespondents_,
+        address statsModule_,
+        address adminModule_,
+        address submissionModule_
+    ) {
+        require(defaultMinRespondents_ > 0 && globalMinRespondents_ > 0, "Threshold must be positive");
+        require(
+            statsModule_.code.length > 0 && adminModule_.code.length > 0 && submissionModule_.code.length > 0,
+            "Module is not a contract"
+        );
+        statsModule = statsModule_;
+        adminModule = adminModule_;
+        submissionModule = submissionModule_;
+        owner = msg.sender;
+        defaultMinRespondents = defaultMinRespondents_;
+        globalMinRespondents = globalMinRespondents_;
+        ratingScale = MAX_RATING;
+        _initialized = true;
+    }
 
-    /// @notice Submit new rating entry (each address can submit one rating per subject)
-    /// @param encryptedRating Encrypted rating value (1-10)
-    /// @param inputProof Input proof for encrypted rating
-    /// @param subject Subject being rated (e.g., "Leadership", "Team Performance")
-    function submitRating(
-        externalEuint32 encryptedRating,
-        bytes calldata inputProof,
-        string memory subject
+    /// @notice Configure a clone deployed by RatingCampaignFactory
+    /// @dev Clones skip the constructor, so this sets the FHEVM config and owner instead.
+    /// Every subject is registered and opened with the given schedule.
+    /// @param owner_ Owner of the instance
+    /// @param defaultMinRespondents_ Minimum respondents before a subject aggregate can be decrypted
+    /// @param globalMinRespondents_ Minimum respondents before the global aggregate can be decrypted
+    /// @param ratingScale_ Highest accepted rating (MIN_RATING..MAX_RATING)
+    /// @param subjects Subject names to register and open
+    /// @param opensAt Ratings accepted from this timestamp (0 = immediately)
+    /// @param closesAt Ratings accepted until this timestamp (0 = no deadline)
+    function initialize(
+        address owner_,
+        uint32 defaultMinRespondents_,
+        uint32 globalMinRespondents_,
+        uint32 ratingScale_,
+        string[] calldata subjects,
+        uint256 opensAt,
+        uint256 closesAt
     ) external {
-        require(bytes(subject).length > 0, "Subject cannot be empty");
-        require(bytes(subject).length <= 100, "Subject too long");
-
-        bytes32 subjectHash = keccak256(bytes(subject));
-        require(!hasSubmittedForSubject(msg.sender, subject), "Already submitted for this subject");
-
-        euint32 rating = FHE.fromExternal(encryptedRating, inputProof);
-
-        // Validate rating is between 1-10 (we'll check this in callback, but add basic bounds)
-        // Note: Full validation would require decryption, which defeats privacy
-
-        uint256 entryId = entryCount++;
-        ratingEntries[entryId] = RatingEntry({
-            submitter: msg.sender,
-            subject: subject,
-            encryptedRating: rating,
-            timestamp: block.timestamp,
-            isActive: true
-        });
-
-        hasSubmitted[msg.sender] = true; // Track that user has submitted at least one rating
-        userSubjectEntryId[msg.sender][subjectHash] = entryId;
-
-        // Update aggregate data
-        if (_subjectEntryCount[subjectHash] == 0) {
-            _encryptedRatingSum[subjectHash] = rating;
-        } else {
-            _encryptedRatingSum[subjectHash] = FHE.add(_encryptedRatingSum[subjectHash], rating);
-        }
-        _subjectEntryCount[subjectHash]++;
+        require(!_initialized, "Already initialized");
+        require(owner_ != address(0), "Invalid owner");
+        require(defaultMinRespondents_ > 0 && globalMinRespondents_ > 0, "Threshold must be positive");
+        require(ratingScale_ > MIN_RATING && ratingScale_ <= MAX_RATING, "Invalid rating scale");
+        _initialized = true;
+
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        owner = owner_;
+        defaultMinRespondents = defaultMinRespondents_;
+        globalMinRespondents = globalMinRespondents_;
+        ratingScale = ratingScale_;
 
-        // Update global statistics
-        if (_globalEntryCount == 0) {
-            _encryptedGlobalSum = rating;
-        } else {
-            _encryptedGlobalSum = FHE.add(_encryptedGlobalSum, rating);
+        for (uint256 i = 0; i < subjects.length; i++) {
+            bytes32 subjectHash = _registerSubject(subjects[i], "", opensAt, closesAt);
+            _subjects[subjectHash].status = SubjectStatus.Open;
+            emit SubjectStatusChanged(subjectHash, SubjectStatus.Open);
         }
-        _globalEntryCount++;
-
-    // Set permissions
-    FHE.allowThis(rating);
-    FHE.allow(rating, msg.sender);
-    FHE.allowThis(_encryptedRatingSum[subjectHash]);
-    FHE.allowThis(_encryptedGlobalSum);
-
-    // Allow user to decrypt aggregate data
-    FHE.allow(_encryptedRatingSum[subjectHash], msg.sender);
-    FHE.allow(_encryptedGlobalSum, msg.sender);
-
-        emit RatingSubmitted(entryId, msg.sender, subject, block.timestamp);
     }
 
-    /// @notice Update existing rating entry (only callable by original submitter)
-    /// @param encryptedRating New encrypted rating value (1-10)
-    /// @param inputProof Input proof for encrypted rating
-    /// @param newSubject New subject (can be same or different)
-    function updateRating(
-        externalEuint32 encryptedRating,
-        bytes calldata inputProof,
-        string memory newSubject
+    /// @notice Submit new rating entry (each address can submit one rating per subject)
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function submitRating(
+        externalEuint8 /*encryptedRating*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*subject*/,
+        bytes32[] calldata /*eligibilityProof*/
     ) external {
-        require(hasSubmitted[msg.sender], "No entry to update");
-        require(bytes(newSubject).length > 0, "Subject cannot be empty");
-        require(bytes(newSubject).length <= 100, "Subject too long");
-
-        // Find user's current active entry
-        uint256 entryId = 0;
-        bool found = false;
-        
-        for (uint256 i = 0; i < entryCount; i++) {
-            if (ratingEntries[i].submitter == msg.sender && ratingEntries[i].isActive) {
-                entryId = i;
-                found = true;
-                break;
-            }
-        }
-        require(found, "No active entry found");
-
-        RatingEntry storage entry = ratingEntries[entryId];
-        euint32 newRating = FHE.fromExternal(encryptedRating, inputProof);
-
-        // Remove old rating from aggregates
-        bytes32 oldSubjectHash = keccak256(bytes(entry.subject));
-        _encryptedRatingSum[oldSubjectHash] = FHE.sub(_encryptedRatingSum[oldSubjectHash], oldEncryptedRating);
-        _subjectEntryCount[oldSubjectHash]--;
-        
-        if (_subjectEntryCount[oldSubjectHash] == 0) {
-            delete _encryptedRatingSum[oldSubjectHash];
-        }
-
-        _encryptedGlobalSum = FHE.sub(_encryptedGlobalSum, oldEncryptedRating);
-        _globalEntryCount--;
-
-        // Store old encrypted rating for subtraction
-        euint32 oldEncryptedRating = entry.encryptedRating;
-        
-        // Update entry - ensure atomic update
-        entry.encryptedRating = newRating;
-        entry.subject = newSubject;
-        entry.timestamp = block.timestamp;
-
-        // Add new rating to aggregates
-        bytes32 newSubjectHash = keccak256(bytes(newSubject));
-        if (_subjectEntryCount[newSubjectHash] == 0) {
-            _encryptedRatingSum[newSubjectHash] = newRating;
-        } else {
-            _encryptedRatingSum[newSubjectHash] = FHE.add(_encryptedRatingSum[newSubjectHash], newRating);
-        }
-        _subjectEntryCount[newSubjectHash]++;
-
-        _encryptedGlobalSum = FHE.add(_encryptedGlobalSum, newRating);
-        _globalEntryCount++;
-
-        // Update permissions
-        FHE.allowThis(newRating);
-        FHE.allow(newRating, msg.sender);
-        FHE.allowThis(_encryptedRatingSum[newSubjectHash]);
-        FHE.allowThis(_encryptedGlobalSum);
-        
-        // Clean up old subject permissions if still has entries
-        if (_subjectEntryCount[oldSubjectHash] > 0) {
-            FHE.allowThis(_encryptedRatingSum[oldSubjectHash]);
-        }
-
-        // Allow user to decrypt aggregate data
-        FHE.allow(_encryptedRatingSum[newSubjectHash], msg.sender);
-        FHE.allow(_encryptedGlobalSum, msg.sender);
-
-        emit RatingUpdated(entryId, msg.sender, newSubject);
+        _delegateTo(submissionModule);
     }
 
-    /// @notice Delete rating entry (only callable by original submitter)
-    function deleteRating() external {
-        require(hasSubmitted[msg.sender], "No entry to delete");
-
-        // Find and delete user's active entry
-        for (uint256 i = 0; i < entryCount; i++) {
-            if (ratingEntries[i].submitter == msg.sender && ratingEntries[i].isActive) {
-                RatingEntry storage entry = ratingEntries[i];
+    /// @notice Submit a rating signed by a respondent, with the caller (a relayer) paying the gas
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function submitRatingFor(
+        address /*respondent*/,
+        externalEuint8 /*encryptedRating*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*subject*/,
+        uint256 /*deadline*/,
+        bytes calldata /*signature*/,
+        bytes32[] calldata /*eligibilityProof*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                // Remove from aggregate data
-                bytes32 subjectHash = keccak256(bytes(entry.subject));
-                _encryptedRatingSum[subjectHash] = FHE.sub(_encryptedRatingSum[subjectHash], entry.encryptedRating);
-                _subjectEntryCount[subjectHash]--;
-                
-                if (_subjectEntryCount[subjectHash] == 0) {
-                    delete _encryptedRatingSum[subjectHash];
-                } else {
-                    FHE.allowThis(_encryptedRatingSum[subjectHash]);
-                }
+    /// @notice Submit a rating together with the respondent's encrypted segment (e.g. their department)
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function submitSegmentedRating(
+        externalEuint8 /*encryptedRating*/,
+        externalEuint8 /*encryptedSegment*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*subject*/,
+        bytes32[] calldata /*eligibilityProof*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                _encryptedGlobalSum = FHE.sub(_encryptedGlobalSum, entry.encryptedRating);
-                _globalEntryCount--;
+    /// @notice Submit a rating under a registered member key instead of an address (anonymity mode only)
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function submitAnonymousRating(
+        address /*member*/,
+        bytes32 /*nullifier*/,
+        externalEuint8 /*encryptedRating*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*subject*/,
+        bytes32[] calldata /*membershipProof*/,
+        bytes calldata /*signature*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                entry.isActive = false;
-                hasSubmitted[msg.sender] = false;
+    /// @notice Answer every question of a campaign in one transaction
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function submitCampaign(
+        uint256 /*campaignId*/,
+        externalEuint8[] calldata /*encryptedAnswers*/,
+        bytes calldata /*inputProof*/,
+        bytes32[] calldata /*eligibilityProof*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                FHE.allowThis(_encryptedRatingSum[subjectHash]);
-                FHE.allowThis(_encryptedGlobalSum);
+    /// @notice Update the caller's rating of a subject (only callable by original submitter)
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function updateRating(
+        string calldata /*subject*/,
+        externalEuint8 /*encryptedRating*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*newSubject*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                // Allow user to decrypt updated aggregate data
-                FHE.allow(_encryptedRatingSum[subjectHash], msg.sender);
-                FHE.allow(_encryptedGlobalSum, msg.sender);
+    /// @notice Update a rating as signed by its respondent, with the caller (a relayer) paying the gas
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function updateRatingFor(
+        address /*respondent*/,
+        string calldata /*subject*/,
+        externalEuint8 /*encryptedRating*/,
+        bytes calldata /*inputProof*/,
+        string calldata /*newSubject*/,
+        uint256 /*deadline*/,
+        bytes calldata /*signature*/
+    ) external {
+        _delegateTo(submissionModule);
+    }
 
-                emit RatingDeleted(i, msg.sender);
-                return;
-            }
-        }
-        revert("No active entry found");
+    /// @notice Delete the caller's rating of a subject (only callable by original submitter)
+    /// @dev Runs in RatingSubmissionModule, which documents the arguments
+    function deleteRating(string calldata /*subject*/) external {
+        _delegateTo(submissionModule);
     }
 
     /// @notice Get rating entry information
+    /// @dev Reverts with private counts, since entries name their subject. A view cannot tell its callers apart, so
+    /// respondents keep track of their own entries off chain in that mode.
     /// @param entryId Entry ID
     /// @return subject Subject being rated
     /// @return timestamp Submission timestamp
     /// @return submitter Submitter address
     /// @return isActive Active status
-    function getEntry(uint256 entryId) external view returns (
+    function getEntry(
+        uint256 entryId
+    ) external view returns (string memory subject, uint256 timestamp, address submitter, bool isActive) {
+        require(!privateCounts, "Counts are private");
+        RatingEntry storage entry = _ratingEntries[entryId];
+        return (entry.subject, entry.timestamp, entry.submitter, entry.isActive);
+    }
+
+    /// @notice Get a page of the entries currently about a subject, deleted ones included
+    /// @dev Entries are listed in submission order, except that moving an entry to another subject swaps the
+    /// subject's last entry into its place. Reverts with private counts, which keep no per-subject list.
+    /// @param subject Subject name
+    /// @param offset Index of the first entry to return
+    /// @param limit Maximum number of entries to return (at most MAX_PAGE_SIZE)
+    /// @return entries Entries from offset on (empty past the end)
+    /// @return total Number of entries listed for the subject
+    function getEntriesBySubject(
         string memory subject,
-        uint256 timestamp,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (EntryInfo[] memory entries, uint256 total) {
+        require(!privateCounts, "Counts are private");
+        return _entryPage(_subjectEntryIds[keccak256(bytes(subject))], offset, limit);
+    }
+
+    /// @notice Get a page of the entries an address submitted, deleted ones included
+    /// @dev Anonymous entries store no address and are never listed here. Reverts with private counts, like getEntry()
+    /// @param submitter Submitter address
+    /// @param offset Index of the first entry to return
+    /// @param limit Maximum number of entries to return (at most MAX_PAGE_SIZE)
+    /// @return entries Entries from offset on, in submission order (empty past the end)
+    /// @return total Number of entries the address submitted
+    function getEntriesBySubmitter(
         address submitter,
-        bool isActive
-    ) {
-        RatingEntry storage entry = ratingEntries[entryId];
-        return (entry.subject, entry.timestamp, entry.submitter, entry.isActive);
+        uint256 offset,
+        uint256 limit
+    ) external view returns (EntryInfo[] memory entries, uint256 total) {
+        require(!privateCounts, "Counts are private");
+        return _entryPage(_submitterEntryIds[submitter], offset, limit);
     }
 
     /// @notice Get entry's encrypted rating (only accessible by submitter and contract)
+    /// @dev Reverts with private counts, like getEntry()
     /// @param entryId Entry ID
     /// @return Encrypted rating value
-    function getEncryptedRating(uint256 entryId) external view returns (euint32) {
-        require(entryId < entryCount, "Entry does not exist");
-        return ratingEntries[entryId].encryptedRating;
+    function getEncryptedRating(uint256 entryId) external view returns (euint8) {
+        require(!privateCounts, "Counts are private");
+        require(entryId < _entryCount, "Entry does not exist");
+        return _ratingEntries[entryId].encryptedRating;
+    }
+
+    /// @notice Get entry's encrypted rejection flag (only accessible by submitter and contract)
+    /// @dev Decrypts to true when the submitted rating was outside MIN_RATING..ratingScale and was counted as zero.
+    /// Reverts with private counts, like getEntry().
+    /// @param entryId Entry ID
+    /// @return Encrypted rejection flag
+    function getRejectedFlag(uint256 entryId) external view returns (ebool) {
+        require(!privateCounts, "Counts are private");
+        require(entryId < _entryCount, "Entry does not exist");
+        return _ratingEntries[entryId].isRejected;
+    }
+
+    /// @notice Check if a user has an active rating of any subject
+    /// @dev Reverts with private counts, since the answer would tell who has responded
+    /// @param user User address
+    /// @return Whether the user has an active rating
+    function hasSubmitted(address user) external view returns (bool) {
+        require(!privateCounts, "Counts are private");
+        return _hasSubmitted[user];
+    }
+
+    /// @notice Get the ID of a user's latest entry for a subject
+    /// @dev Reverts with private counts, like hasSubmitted()
+    /// @param user User address
+    /// @param subjectHash keccak256 of the subject name
+    /// @return Entry ID (0 when the user never rated the subject, so check hasSubmittedForSubject() first)
+    function userSubjectEntryId(address user, bytes32 subjectHash) external view returns (uint256) {
+        require(!privateCounts, "Counts are private");
+        return _userSubjectEntryId[user][subjectHash];
     }
 
     /// @notice Check if user has submitted for a specific subject
+    /// @dev Reverts with private counts, like hasSubmitted()
     /// @param user User address
     /// @param subject Subject name
     /// @return Whether user has submitted for this subject
-    function hasSubmittedForSubject(address user, string memory subject) public view returns (bool) {
-        bytes32 subjectHash = keccak256(bytes(subject));
-        return userSubjectEntryId[user][subjectHash] > 0 && ratingEntries[userSubjectEntryId[user][subjectHash]].isActive;
+    function hasSubmittedForSubject(address user, string memory subject) external view returns (bool) {
+        require(!privateCounts, "Counts are private");
+        return _hasSubmittedFor(user, keccak256(bytes(subject)));
+    }
+
+    /// @notice Look up the anonymous entry submitted with a nullifier
+    /// @dev Reverts with private counts, since a member's nullifiers can be computed by anyone
+    /// @param nullifier Nullifier passed to submitAnonymousRating()
+    /// @return used Whether the nullifier has been used
+    /// @return entryId Entry ID (0 if unused)
+    function getNullifierEntry(bytes32 nullifier) external view returns (bool used, uint256 entryId) {
+        require(!privateCounts, "Counts are private");
+        uint256 stored = _nullifierEntryId[nullifier];
+        return (stored > 0, stored > 0 ? stored - 1 : 0);
     }
 
     /// @notice Get encrypted statistics for specific subject
+    /// @dev The handles are those of the last released statistics, which allowUserToDecrypt() shares. They are unset
+    /// until a request first meets the threshold, and keep their values while later requests are withheld.
     /// @param subject Subject name
-    /// @return encryptedSum Encrypted sum for this subject
-    /// @return count Entry count for this subject
-    function getEncryptedSubjectStats(string memory subject) external view returns (euint32 encryptedSum, uint32 count) {
+    /// @return encryptedSum Encrypted sum for this subject, as last released
+    /// @return count Entry count for this subject, rejected ratings included (always 0 with private counts)
+    /// @return encryptedCount Encrypted count of accepted ratings, the divisor of the sum's average
+    function getEncryptedSubjectStats(
+        string memory subject
+    ) external view returns (euint32 encryptedSum, uint32 count, euint32 encryptedCount) {
         require(bytes(subject).length > 0, "Subject cannot be empty");
         bytes32 subjectHash = keccak256(bytes(subject));
-        return (_encryptedRatingSum[subjectHash], _subjectEntryCount[subjectHash]);
+        return (_releasedSubjectSum[subjectHash], _subjectEntryCount[subjectHash], _releasedSubjectCount[subjectHash]);
     }
 
     /// @notice Get encrypted global statistics
-    /// @return encryptedSum Encrypted sum of all ratings
-    /// @return count Total active entry count
-    function getEncryptedGlobalStats() external view returns (euint32 encryptedSum, uint32 count) {
-        return (_encryptedGlobalSum, _globalEntryCount);
+    /// @dev Released handles, as in getEncryptedSubjectStats()
+    /// @return encryptedSum Encrypted sum of all ratings, as last released
+    /// @return count Total active entry count, rejected ratings included (always 0 with private counts)
+    /// @return encryptedCount Encrypted count of accepted ratings, the divisor of the sum's average
+    function getEncryptedGlobalStats()
+        external
+        view
+        returns (euint32 encryptedSum, uint32 count, euint32 encryptedCount)
+    {
+        return (_releasedGlobalSum, _globalEntryCount, _releasedGlobalCount);
     }
 
-    /// @notice Request decryption of subject-specific statistics
-    /// @param subject Subject name
-    function requestSubjectStats(string memory subject) external {
-        require(bytes(subject).length > 0, "Subject cannot be empty");
-        bytes32 subjectHash = keccak256(bytes(subject));
-        require(_subjectEntryCount[subjectHash] > 0, "No data for this subject");
-        require(!_subjectStatsFinalized[subjectHash], "Subject stats already finalized");
+    /// @notice Request decryption of subject-specific statistics (subject name as the only argument)
+    /// @dev Can be called again after new submissions; every completed request publishes a new snapshot.
+    /// Runs in RatingStatsModule.
+    function requestSubjectStats(string calldata /*subject*/) external {
+        _delegateTo(statsModule);
+    }
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(_encryptedRatingSum[subjectHash]);
+    /// @notice Callback function for subject statistics decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function subjectStatsCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
+    }
 
-        uint256 requestId = FHE.requestDecryption(cts, this.subjectStatsCallback.selector);
-        require(requestId > 0, "Invalid decryption request");
-        _subjectStatsRequest[requestId] = subjectHash;
+    /// @notice Request decryption of a subject's rating histogram (subject name as the only argument)
+    /// @dev All buckets are decrypted in a single request; completing it replaces the published histogram.
+    /// Runs in RatingStatsModule.
+    function requestSubjectHistogram(string calldata /*subject*/) external {
+        _delegateTo(statsModule);
+    }
 
-        emit SubjectStatsRequested(subjectHash, requestId);
+    /// @notice Callback function for subject histogram decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function subjectHistogramCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
     }
 
-    /// @notice Callback function for subject statistics decryption
-    function subjectStatsCallback(uint256 requestId, bytes memory cleartexts, bytes[] memory /*signatures*/) public returns (bool) {
-        bytes32 subjectHash = _subjectStatsRequest[requestId];
-        require(subjectHash != bytes32(0), "Invalid request");
-        require(!_subjectStatsFinalized[subjectHash], "Already finalized");
-        require(_subjectEntryCount[subjectHash] > 0, "No data");
-
-        uint32 totalRating;
-        require(cleartexts.length >= 4, "Invalid cleartext length");
-        assembly {
-            totalRating := shr(224, mload(add(cleartexts, 32)))
-        }
+    /// @notice Check whether a subject's average is below its alert threshold (subject name as the only argument)
+    /// @dev Only the comparison result is decrypted; the average stays encrypted. Runs in RatingStatsModule.
+    function requestThresholdAlert(string calldata /*subject*/) external {
+        _delegateTo(statsModule);
+    }
 
-        uint32 count = _subjectEntryCount[subjectHash];
-        require(count > 0, "No entries for this subject");
-        _decryptedSubjectAverage[subjectHash] = totalRating / count;
+    /// @notice Callback function for threshold alert decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function thresholdAlertCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
+    }
 
-        _subjectStatsFinalized[subjectHash] = true;
-        delete _subjectStatsRequest[requestId];
+    /// @notice Get the latest published threshold alert of a subject
+    /// @param subject Subject name
+    /// @return threshold Average the subject was compared against, scaled by STATS_PRECISION
+    /// @return below Whether the average was below the threshold
+    /// @return count Entry count when the comparison was sent for decryption
+    /// @return blockNumber Block in which the result was published (0 = never)
+    function getThresholdAlert(
+        string memory subject
+    ) external view returns (uint32 threshold, bool below, uint32 count, uint256 blockNumber) {
+        AlertSnapshot storage alert = _alerts[keccak256(bytes(subject))];
+        return (alert.threshold, alert.below, alert.count, alert.blockNumber);
+    }
 
-        emit SubjectStatsPublished(subjectHash, _decryptedSubjectAverage[subjectHash], count);
-        return true;
+    /// @notice Request a ranking of subjects by average rating without decrypting any average
+    /// @dev Only pairwise comparison bits are decrypted. Runs in RatingStatsModule, which documents the arguments.
+    function requestRanking(string[] calldata /*subjects*/) external {
+        _delegateTo(statsModule);
     }
 
-    /// @notice Request decryption of global statistics
-    function requestGlobalStats() external {
-        require(_globalEntryCount > 0, "No data to decrypt");
-        require(!_globalStatsFinalized, "Global stats already finalized");
+    /// @notice Callback function for ranking decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function rankingCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
+    }
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(_encryptedGlobalSum);
+    /// @notice Get the number of published rankings
+    /// @return Number of rankings (the latest ranking ID)
+    function getRankingCount() external view returns (uint256) {
+        return _rankings.length;
+    }
 
-        uint256 requestId = FHE.requestDecryption(cts, this.globalStatsCallback.selector);
-        require(requestId > 0, "Invalid decryption request");
-        _globalStatsRequest[requestId] = true;
+    /// @notice Get a published ranking
+    /// @param rankingId Ranking number (1-based, as emitted in RankingPublished)
+    /// @return subjects Subjects ordered from the highest to the lowest average
+    /// @return blockNumber Block in which the ranking was published
+    function getRanking(uint256 rankingId) external view returns (string[] memory subjects, uint256 blockNumber) {
+        require(rankingId > 0 && rankingId <= _rankings.length, "Ranking does not exist");
+        Ranking storage ranking = _rankings[rankingId - 1];
+        return (ranking.subjects, ranking.blockNumber);
+    }
 
-        emit GlobalStatsRequested(requestId);
+    /// @notice Request decryption of a subject's per-segment statistics (subject name as the only argument)
+    /// @dev Segments below the subject's respondent threshold publish no values. Runs in RatingStatsModule.
+    function requestSegmentStats(string calldata /*subject*/) external {
+        _delegateTo(statsModule);
     }
 
-    /// @notice Callback function for global statistics decryption
-    function globalStatsCallback(uint256 requestId, bytes memory cleartexts, bytes[] memory /*signatures*/) public returns (bool) {
-        require(_globalStatsRequest[requestId], "Invalid request");
-        require(!_globalStatsFinalized, "Already finalized");
-        require(_globalEntryCount > 0, "No active entries");
+    /// @notice Callback function for segment statistics decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function segmentStatsCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
+    }
 
-        uint32 totalRating;
-        require(cleartexts.length >= 4, "Invalid cleartext length");
-        assembly {
-            totalRating := shr(224, mload(add(cleartexts, 32)))
-        }
+    /// @notice Get the latest published per-segment statistics of a subject
+    /// @param subject Subject name
+    /// @return averages Average rating per segment, scaled by STATS_PRECISION (0 where withheld)
+    /// @return counts Entry count per segment (0 where withheld below the respondent threshold)
+    /// @return blockNumber Block in which they were published (0 = never)
+    function getSegmentStats(
+        string memory subject
+    )
+        external
+        view
+        returns (uint32[MAX_SEGMENTS] memory averages, uint32[MAX_SEGMENTS] memory counts, uint256 blockNumber)
+    {
+        SegmentSnapshot storage snapshot = _segmentStats[keccak256(bytes(subject))];
+        return (snapshot.averages, snapshot.counts, snapshot.blockNumber);
+    }
+
+    /// @notice Request decryption of global statistics
+    /// @dev Can be called again after new submissions; every completed request publishes a new snapshot.
+    /// Runs in RatingStatsModule.
+    function requestGlobalStats() external {
+        _delegateTo(statsModule);
+    }
 
-        require(_globalEntryCount > 0, "No active entries");
-        _decryptedGlobalAverage = totalRating / _globalEntryCount;
+    /// @notice Callback function for global statistics decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function globalStatsCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
+    }
 
-        _globalStatsFinalized = true;
-        delete _globalStatsRequest[requestId];
+    /// @notice Request decryption of global statistics and those of several subjects in a single request
+    /// @dev Publishes the same snapshots as the individual requests, reported in one AllStatsPublished event.
+    /// Runs in RatingStatsModule, which documents the arguments.
+    function requestAllStats(string[] calldata /*subjects*/) external {
+        _delegateTo(statsModule);
+    }
 
-        emit GlobalStatsPublished(_decryptedGlobalAverage, _globalEntryCount);
-        return true;
+    /// @notice Callback function for batched statistics decryption
+    /// @dev Only accepts cleartexts signed by the KMS for the given request. Runs in RatingStatsModule.
+    function allStatsCallback(
+        uint256 /*requestId*/,
+        bytes calldata /*cleartexts*/,
+        bytes calldata /*decryptionProof*/
+    ) external returns (bool) {
+        _delegateTo(statsModule);
     }
 
     /// @notice Check if subject statistics are available
     /// @param subject Subject name
-    /// @return Whether subject statistics have been decrypted
+    /// @return Whether at least one subject snapshot has been published
     function isSubjectStatsFinalized(string memory subject) external view returns (bool) {
         bytes32 subjectHash = keccak256(bytes(subject));
-        return _subjectStatsFinalized[subjectHash];
+        return _subjectSnapshots[subjectHash].length > 0;
     }
 
-    /// @notice Get decrypted subject statistics (only available after finalization)
+    /// @notice Get the latest decrypted subject statistics (only available after finalization)
     /// @param subject Subject name
-    /// @return averageRating Average rating for this subject
-    /// @return count Entry count for this subject
-    function getSubjectStats(string memory subject) external view returns (uint32 averageRating, uint32 count) {
-        bytes32 subjectHash = keccak256(bytes(subject));
-        require(_subjectStatsFinalized[subjectHash], "Subject stats not available yet");
-        return (_decryptedSubjectAverage[subjectHash], _subjectEntryCount[subjectHash]);
+    /// @return averageRating Average rating for this subject, scaled by STATS_PRECISION (790 means 7.90)
+    /// @return count Entry count the average was computed over
+    /// @return stdDev Standard deviation of the ratings, scaled by STATS_PRECISION
+    /// @return noiseScale Bound of the noise added to the rating sum (0 = exact), so the average is off by at most
+    /// noiseScale / count
+    function getSubjectStats(
+        string memory subject
+    ) external view returns (uint32 averageRating, uint32 count, uint32 stdDev, uint32 noiseScale) {
+        StatsSnapshot[] storage snapshots = _subjectSnapshots[keccak256(bytes(subject))];
+        require(snapshots.length > 0, "Subject stats not available yet");
+        StatsSnapshot storage latest = snapshots[snapshots.length - 1];
+        return (latest.averageRating, latest.count, latest.stdDev, latest.noiseScale);
+    }
+
+    /// @notice Get the number of published subject snapshots
+    /// @param subject Subject name
+    /// @return Number of snapshots (the latest snapshot ID)
+    function getSubjectSnapshotCount(string memory subject) external view returns (uint256) {
+        return _subjectSnapshots[keccak256(bytes(subject))].length;
+    }
+
+    /// @notice Get a past subject snapshot
+    /// @param subject Subject name
+    /// @param snapshotId Snapshot number (1-based, as emitted in SubjectStatsPublished)
+    /// @return averageRating Average rating in this snapshot, scaled by STATS_PRECISION
+    /// @return count Entry count in this snapshot
+    /// @return blockNumber Block in which the snapshot was published
+    /// @return stdDev Standard deviation in this snapshot, scaled by STATS_PRECISION
+    /// @return noiseScale Bound of the noise added to the rating sum in this snapshot (0 = exact)
+    function getSubjectSnapshot(
+        string memory subject,
+        uint256 snapshotId
+    )
+        external
+        view
+        returns (uint32 averageRating, uint32 count, uint256 blockNumber, uint32 stdDev, uint32 noiseScale)
+    {
+        StatsSnapshot[] storage snapshots = _subjectSnapshots[keccak256(bytes(subject))];
+        require(snapshotId > 0 && snapshotId <= snapshots.length, "Snapshot does not exist");
+        StatsSnapshot storage snapshot = snapshots[snapshotId - 1];
+        return (snapshot.averageRating, snapshot.count, snapshot.blockNumber, snapshot.stdDev, snapshot.noiseScale);
+    }
+
+    /// @notice Get the latest published rating histogram for a subject
+    /// @dev Rejected (out-of-range) ratings fall in no bucket, so the buckets can sum to less than count
+    /// @param subject Subject name
+    /// @return buckets Entry count per rating value (buckets[i] holds rating MIN_RATING + i)
+    /// @return count Entry count when the histogram was sent for decryption
+    /// @return blockNumber Block in which the histogram was published
+    function getSubjectHistogram(
+        string memory subject
+    ) external view returns (uint32[HISTOGRAM_BUCKETS] memory buckets, uint32 count, uint256 blockNumber) {
+        HistogramSnapshot storage histogram = _subjectHistograms[keccak256(bytes(subject))];
+        require(histogram.blockNumber > 0, "Histogram not available yet");
+        return (histogram.buckets, histogram.count, histogram.blockNumber);
     }
 
     /// @notice Check if global statistics are available
-    /// @return Whether global statistics have been decrypted
+    /// @return Whether at least one global snapshot has been published
     function isGlobalStatsFinalized() external view returns (bool) {
-        return _globalStatsFinalized;
+        return _globalSnapshots.length > 0;
+    }
+
+    /// @notice Get the latest decrypted global statistics (only available after finalization)
+    /// @return averageRating Global average rating, scaled by STATS_PRECISION
+    /// @return totalCount Entry count the average was computed over
+    /// @return stdDev Standard deviation of all ratings, scaled by STATS_PRECISION
+    /// @return noiseScale Bound of the noise added to the rating sum (0 = exact), so the average is off by at most
+    /// noiseScale / totalCount
+    function getGlobalStats()
+        external
+        view
+        returns (uint32 averageRating, uint32 totalCount, uint32 stdDev, uint32 noiseScale)
+    {
+        require(_globalSnapshots.length > 0, "Global stats not available yet");
+        StatsSnapshot storage latest = _globalSnapshots[_globalSnapshots.length - 1];
+        return (latest.averageRating, latest.count, latest.stdDev, latest.noiseScale);
+    }
+
+    /// @notice Get the number of published global snapshots
+    /// @return Number of snapshots (the latest snapshot ID)
+    function getGlobalSnapshotCount() external view returns (uint256) {
+        return _globalSnapshots.length;
     }
 
-    /// @notice Get decrypted global statistics (only available after finalization)
-    /// @return averageRating Global average rating
-    /// @return totalCount Total active entry count
-    function getGlobalStats() external view returns (uint32 averageRating, uint32 totalCount) {
-        require(_globalStatsFinalized, "Global stats not available yet");
-        return (_decryptedGlobalAverage, _globalEntryCount);
+    /// @notice Get a past global snapshot
+    /// @param snapshotId Snapshot number (1-based, as emitted in GlobalStatsPublished)
+    /// @return averageRating Average rating in this snapshot, scaled by STATS_PRECISION
+    /// @return totalCount Entry count in this snapshot
+    /// @return blockNumber Block in which the snapshot was published
+    /// @return stdDev Standard deviation in this snapshot, scaled by STATS_PRECISION
+    /// @return noiseScale Bound of the noise added to the rating sum in this snapshot (0 = exact)
+    function getGlobalSnapshot(
+        uint256 snapshotId
+    )
+        external
+        view
+        returns (uint32 averageRating, uint32 totalCount, uint256 blockNumber, uint32 stdDev, uint32 noiseScale)
+    {
+        require(snapshotId > 0 && snapshotId <= _globalSnapshots.length, "Snapshot does not exist");
+        StatsSnapshot storage snapshot = _globalSnapshots[snapshotId - 1];
+        return (snapshot.averageRating, snapshot.count, snapshot.blockNumber, snapshot.stdDev, snapshot.noiseScale);
     }
 
     /// @notice Get total entry count
-    /// @return Total entry count
+    /// @dev Reverts with private counts
+    /// @return Total entry count, deleted entries included
     function getEntryCount() external view returns (uint256) {
-        return entryCount;
+        require(!privateCounts, "Counts are private");
+        return _entryCount;
     }
 
     /// @notice Get global active entry count
+    /// @dev Reverts with private counts
     /// @return Active entry count
     function getActiveEntryCount() external view returns (uint32) {
+        require(!privateCounts, "Counts are private");
         return _globalEntryCount;
     }
 
     /// @notice Get subject entry count
+    /// @dev Reverts with private counts
     /// @param subject Subject name
     /// @return Entry count for this subject
     function getSubjectEntryCount(string memory subject) external view returns (uint32) {
+        require(!privateCounts, "Counts are private");
         bytes32 subjectHash = keccak256(bytes(subject));
         return _subjectEntryCount[subjectHash];
     }
 
+    /// @notice Register a new subject in Draft status (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function registerSubject(
+        string calldata /*name*/,
+        string calldata /*description*/,
+        uint256 /*opensAt*/,
+        uint256 /*closesAt*/
+    ) external returns (uint256 /*subjectId*/) {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Update a subject's description and schedule (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function updateSubject(
+        string calldata /*subject*/,
+        string calldata /*description*/,
+        uint256 /*opensAt*/,
+        uint256 /*closesAt*/
+    ) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Move a subject forward in its lifecycle (moderator only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setSubjectStatus(string calldata /*subject*/, SubjectStatus /*status*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the number of registered subjects
+    /// @return Number of subjects (the latest subject ID)
+    function getSubjectCount() external view returns (uint256) {
+        return _subjectHashes.length;
+    }
+
+    /// @notice Get a registered subject by ID
+    /// @param subjectId Subject ID (1-based, as emitted in SubjectRegistered)
+    /// @return name Display name
+    /// @return description Subject description
+    /// @return opensAt Timestamp from which ratings are accepted
+    /// @return closesAt Timestamp until which ratings are accepted (0 = no deadline)
+    /// @return status Lifecycle status
+    function getSubject(
+        uint256 subjectId
+    )
+        external
+        view
+        returns (string memory name, string memory description, uint256 opensAt, uint256 closesAt, SubjectStatus status)
+    {
+        require(subjectId > 0 && subjectId <= _subjectHashes.length, "Unknown subject");
+        Subject storage info = _subjects[_subjectHashes[subjectId - 1]];
+        return (info.name, info.description, info.opensAt, info.closesAt, info.status);
+    }
+
+    /// @notice Get a page of registered subjects, in ID order
+    /// @param offset Index of the first subject to return (subject ID - 1)
+    /// @param limit Maximum number of subjects to return (at most MAX_PAGE_SIZE)
+    /// @return subjects Subjects from offset on (empty past the end)
+    /// @return total Number of registered subjects
+    function getSubjects(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Subject[] memory subjects, uint256 total) {
+        total = _subjectHashes.length;
+        uint256 size = _pageSize(offset, limit, total);
+        subjects = new Subject[](size);
+        for (uint256 i = 0; i < size; i++) {
+            subjects[i] = _subjects[_subjectHashes[offset + i]];
+        }
+    }
+
+    /// @notice Check whether a subject currently accepts ratings
+    /// @param subject Subject name
+    /// @return Whether the subject is open, within its schedule and asked by no campaign past its deadline
+    function isSubjectOpen(string memory subject) external view returns (bool) {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        Subject storage info = _subjects[subjectHash];
+        return info.id != 0 && _isOpen(info) && _campaignsOpen(subjectHash);
+    }
+
+    /// @notice Create a survey campaign from registered subjects (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function createCampaign(
+        string calldata /*name*/,
+        string[] calldata /*questions*/
+    ) external returns (uint256 /*campaignId*/) {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the number of campaigns
+    /// @return Number of campaigns (the latest campaign ID)
+    function getCampaignCount() external view returns (uint256) {
+        return _campaigns.length;
+    }
+
+    /// @notice Get a campaign by ID
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    /// @return name Survey name
+    /// @return questions Ordered subject names, one per question
+    function getCampaign(uint256 campaignId) external view returns (string memory name, string[] memory questions) {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        Campaign storage campaign = _campaigns[campaignId - 1];
+        return (campaign.name, campaign.questions);
+    }
+
+    /// @notice Set the time after which a campaign no longer accepts questionnaires (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setCampaignDeadline(uint256 /*campaignId*/, uint256 /*closesAt*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get a campaign's deadline and whether its final results were requested
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    /// @return closesAt Timestamp from which questionnaires are refused (0 = no deadline)
+    /// @return resultsRequested Whether requestCampaignResults() has been called for the campaign
+    function getCampaignDeadline(uint256 campaignId) external view returns (uint256 closesAt, bool resultsRequested) {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        return (_campaignClosesAt[campaignId], _campaignResultsRequested[campaignId]);
+    }
+
+    /// @notice Request decryption of a campaign's final results once its deadline has passed
+    /// @dev Callable by anyone, once per campaign. Runs in RatingStatsModule, which documents the arguments.
+    function requestCampaignResults(uint256 /*campaignId*/) external {
+        _delegateTo(statsModule);
+    }
+
+    /// @notice Set the minimum respondent count for a subject (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setSubjectMinRespondents(string calldata /*subject*/, uint32 /*minRespondents*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the minimum respondent count for a subject
+    /// @param subject Subject name
+    /// @return Minimum respondents before the subject aggregate can be decrypted
+    function getSubjectMinRespondents(string memory subject) external view returns (uint32) {
+        return _minRespondents(keccak256(bytes(subject)));
+    }
+
+    /// @notice Add bounded random noise to a subject's sums before they are decrypted (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setSubjectNoiseScale(string calldata /*subject*/, uint32 /*noiseScale*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Set the average below which a subject raises an alert (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setAlertThreshold(string calldata /*subject*/, uint32 /*threshold*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the alert threshold of a subject
+    /// @param subject Subject name
+    /// @return Average rating that raises an alert, scaled by STATS_PRECISION (0 = no alert)
+    function getAlertThreshold(string memory subject) external view returns (uint32) {
+        return _alertThresholds[keccak256(bytes(subject))];
+    }
+
+    /// @notice Get the noise bound applied to a subject's next statistics request
+    /// @param subject Subject name
+    /// @return Noise bound of the rating sum (0 = exact results)
+    function getSubjectNoiseScale(string memory subject) external view returns (uint32) {
+        return _noiseScales[keccak256(bytes(subject))];
+    }
+
+    /// @notice Get the noise bound applied to the next global statistics request
+    /// @dev The largest noise bound ever set on a subject
+    /// @return Noise bound of the global rating sum (0 = exact results)
+    function getGlobalNoiseScale() external view returns (uint32) {
+        return _globalNoiseScale;
+    }
+
+    /// @notice Get how many noisy statistics requests a subject has left
+    /// @param subject Subject name
+    /// @return Requests left of NOISE_BUDGET (NOISE_BUDGET while the subject has no noise scale)
+    function getRemainingNoiseBudget(string memory subject) external view returns (uint256) {
+        return NOISE_BUDGET - _noisyRequests[keccak256(bytes(subject))];
+    }
+
+    /// @notice Switch anonymity mode on or off before the first rating is submitted (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setAnonymousMode(bool /*enabled*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Publish the Merkle root of the member keys allowed to rate anonymously (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setAnonymousMembersRoot(bytes32 /*root*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Switch private counts on or off before the first rating is submitted (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setPrivateCounts(bool /*enabled*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Restrict a subject to the addresses in a Merkle allowlist (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setEligibilityRoot(string calldata /*subject*/, bytes32 /*root*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Restrict every question of a campaign to the addresses in one Merkle allowlist (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setCampaignEligibilityRoot(uint256 /*campaignId*/, bytes32 /*root*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Define the respondent segments before the first rating is submitted (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setSegments(string[] calldata /*names*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the respondent segments, in the order of their encrypted index
+    /// @return Segment names
+    function getSegments() external view returns (string[] memory) {
+        return _segments;
+    }
+
+    /// @notice Consult an eligibility module before accepting ratings for a subject (admin only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function setEligibilityModule(string calldata /*subject*/, address /*module*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Get the eligibility module consulted for a subject
+    /// @param subject Subject name
+    /// @return IRatingEligibility contract (0 = none)
+    function getEligibilityModule(string memory subject) external view returns (address) {
+        return _eligibilityModules[keccak256(bytes(subject))];
+    }
+
+    /// @notice Get the Merkle root of the addresses allowed to rate a subject
+    /// @param subject Subject name
+    /// @return Allowlist root (0 = anyone may rate)
+    function getEligibilityRoot(string memory subject) external view returns (bytes32) {
+        return _eligibilityRoots[keccak256(bytes(subject))];
+    }
+
+    /// @notice Check whether an account may rate a subject
+    /// @param subject Subject name
+    /// @param account Account to check
+    /// @param eligibilityProof Merkle proof for the account (ignored if the subject has no allowlist)
+    /// @return True if the subject's eligibility module approves the account and the proof places it on the
+    /// subject's allowlist, for whichever of the two the subject has
+    function isEligible(
+        string memory subject,
+        address account,
+        bytes32[] calldata eligibilityProof
+    ) external view returns (bool) {
+        return _isEligible(keccak256(bytes(subject)), account, eligibilityProof);
+    }
+
+    /// @notice Check whether a member key may rate anonymously
+    /// @param member Address of the member key
+    /// @param membershipProof Merkle proof of the member key against anonymousMembersRoot
+    /// @return True if the proof places the member key in the published tree
+    function isAnonymousMember(address member, bytes32[] calldata membershipProof) external view returns (bool) {
+        return anonymousMembersRoot != bytes32(0) && _isMember(anonymousMembersRoot, member, membershipProof);
+    }
+
+    /// @notice Get the only nullifier a member key may rate a subject with
+    /// @param member Address of the member key
+    /// @param subject Subject name
+    /// @return keccak256(abi.encode(member, keccak256(bytes(subject))))
+    function getAnonymousNullifier(address member, string memory subject) external pure returns (bytes32) {
+        return keccak256(abi.encode(member, keccak256(bytes(subject))));
+    }
+
     /// @notice Allow user to decrypt aggregate data
-    /// @dev Anyone can call this to get permission to decrypt public statistics
+    /// @dev Callers can grant themselves access to public statistics; auditors can grant it to any address.
+    /// Only the sums of the last released statistics are shared, each with its encrypted count of accepted ratings:
+    /// they met the respondent threshold and republishing limit when they were sent for decryption, so the live
+    /// sums cannot be read after every rating. Aggregates never released, subjects published with noise, and the
+    /// global aggregates once any subject has noise (its exact sum would follow from theirs), are skipped. With
+    /// private counts every aggregate is skipped.
     /// @param user User address to grant decryption permission
     /// @param subjects Array of subject names to grant permission for
     function allowUserToDecrypt(address user, string[] memory subjects) external {
+        require(user == msg.sender || hasRole(AUDITOR_ROLE, msg.sender), "Caller is missing role");
         // Allow user to decrypt global aggregates
-        FHE.allow(_encryptedGlobalSum, user);
-        
+        if (!privateCounts && FHE.isInitialized(_releasedGlobalSum) && _globalNoiseScale == 0) {
+            FHE.allow(_releasedGlobalSum, user);
+            FHE.allow(_releasedGlobalCount, user);
+        }
+
         // Allow user to decrypt subject-specific aggregates
-        for (uint256 i = 0; i < subjects.length; i++) {
+        for (uint256 i = 0; i < subjects.length && !privateCounts; i++) {
             bytes32 subjectHash = keccak256(bytes(subjects[i]));
-            if (_subjectEntryCount[subjectHash] > 0) {
-                FHE.allow(_encryptedRatingSum[subjectHash], user);
+            if (FHE.isInitialized(_releasedSubjectSum[subjectHash]) && _noiseScales[subjectHash] == 0) {
+                FHE.allow(_releasedSubjectSum[subjectHash], user);
+                FHE.allow(_releasedSubjectCount[subjectHash], user);
+            }
+        }
+
+        emit DecryptionAccessGranted(user, msg.sender);
+    }
+
+    /// @notice Grant a role (owner only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function grantRole(bytes32 /*role*/, address /*account*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Revoke a role (owner only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function revokeRole(bytes32 /*role*/, address /*account*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Stop submissions, updates and deletions (admin only)
+    /// @dev Runs in RatingAdminModule
+    function pause() external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Resume submissions, updates and deletions (admin only)
+    /// @dev Runs in RatingAdminModule
+    function unpause() external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Propose a new owner, who takes over once it calls acceptOwnership() (owner only)
+    /// @dev Runs in RatingAdminModule, which documents the arguments
+    function transferOwnership(address /*newOwner*/) external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice Complete an ownership transfer (pending owner only)
+    /// @dev Runs in RatingAdminModule
+    function acceptOwnership() external {
+        _delegateTo(adminModule);
+    }
+
+    /// @notice EIP-712 domain separator for relayed ratings
+    /// @dev Computed from address(this), so every factory clone has its own domain
+    /// @return Domain separator (name "EncryptedRatingSystem", version "1")
+    function domainSeparator() external view returns (bytes32) {
+        return _domainSeparator();
+    }
+
+    /// @notice Read a page of entries from an entry ID list
+    function _entryPage(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit
+    ) private view returns (EntryInfo[] memory entries, uint256 total) {
+        total = ids.length;
+        uint256 size = _pageSize(offset, limit, total);
+        entries = new EntryInfo[](size);
+        for (uint256 i = 0; i < size; i++) {
+            uint256 entryId = ids[offset + i];
+            RatingEntry storage entry = _ratingEntries[entryId];
+            entries[i] = EntryInfo(entryId, entry.subject, entry.timestamp, entry.submitter, entry.isActive);
+        }
+    }
+
+    /// @notice Number of items a page starting at offset holds out of total
+    function _pageSize(uint256 offset, uint256 limit, uint256 total) private pure returns (uint256) {
+        require(limit <= MAX_PAGE_SIZE, "Page too large");
+        if (offset >= total) return 0;
+        return total - offset < limit ? total - offset : limit;
+    }
+
+    /// @notice Run the current call in a module against this contract's storage
+    /// @dev Returns or reverts with the module's result, never back to the caller
+    function _delegateTo(address module) private {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
             }
         }
     }
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IRatingEligibility - Pluggable respondent check for EncryptedRatingSystem
+/// @author crypt-seal-vault
+/// @notice Subjects configured with an eligibility module only accept ratings from accounts it approves
+interface IRatingEligibility {
+    /// @notice Check whether an account may rate a subject
+    /// @param account Respondent address
+    /// @param subjectHash keccak256 of the subject name
+    /// @return True if the account may submit a rating
+    function isEligible(address account, bytes32 subjectHash) external view returns (bool);
+}
@@ -0,0 +1,298 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {RatingStorage} from "./RatingStorage.sol";
+
+/// @title RatingAdminModule - Configuration and access control for EncryptedRatingSystem
+/// @author crypt-seal-vault
+/// @notice Manages the subject registry, campaigns, respondent thresholds, roles, pausing and ownership
+/// @dev Passed to the EncryptedRatingSystem constructor, which delegatecalls into it like RatingStatsModule, so
+/// every change lands in the rating instance's storage and msg.sender is the original caller.
+contract RatingAdminModule is RatingStorage {
+    /// @notice Register a new subject in Draft status (admin only)
+    /// @param name Display name, used as the subject key when submitting ratings
+    /// @param description Subject description
+    /// @param opensAt Timestamp from which ratings are accepted (0 = as soon as opened)
+    /// @param closesAt Timestamp until which ratings are accepted (0 = no deadline)
+    /// @return subjectId Sequential ID of the new subject
+    function registerSubject(
+        string memory name,
+        string memory description,
+        uint256 opensAt,
+        uint256 closesAt
+    ) external onlyRole(ADMIN_ROLE) returns (uint256 subjectId) {
+        subjectId = _subjects[_registerSubject(name, description, opensAt, closesAt)].id;
+    }
+
+    /// @notice Update a subject's description and schedule (admin only)
+    /// @param subject Subject name
+    /// @param description New description
+    /// @param opensAt New opening timestamp (0 = as soon as opened)
+    /// @param closesAt New closing timestamp (0 = no deadline)
+    function updateSubject(
+        string memory subject,
+        string memory description,
+        uint256 opensAt,
+        uint256 closesAt
+    ) external onlyRole(ADMIN_ROLE) {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        Subject storage info = _subjects[subjectHash];
+        require(info.id != 0, "Unknown subject");
+        require(info.status != SubjectStatus.Archived, "Subject is archived");
+        require(closesAt == 0 || closesAt > opensAt, "Invalid schedule");
+
+        info.description = description;
+        info.opensAt = opensAt;
+        info.closesAt = closesAt;
+
+        emit SubjectUpdated(subjectHash, opensAt, closesAt);
+    }
+
+    /// @notice Move a subject forward in its lifecycle (moderator only)
+    /// @dev Status only moves forward (Draft -> Open -> Closed -> Archived); steps may be skipped
+    /// @param subject Subject name
+    /// @param status New status
+    function setSubjectStatus(string memory subject, SubjectStatus status) external onlyRole(MODERATOR_ROLE) {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        Subject storage info = _subjects[subjectHash];
+        require(info.id != 0, "Unknown subject");
+        require(status > info.status, "Invalid status transition");
+        info.status = status;
+
+        emit SubjectStatusChanged(subjectHash, status);
+    }
+
+    /// @notice Create a survey campaign from registered subjects (admin only)
+    /// @param name Survey name
+    /// @param questions Ordered subject names, one per question
+    /// @return campaignId Sequential ID of the new campaign
+    function createCampaign(
+        string memory name,
+        string[] memory questions
+    ) external onlyRole(ADMIN_ROLE) returns (uint256 campaignId) {
+        require(bytes(name).length > 0, "Campaign name cannot be empty");
+        require(questions.length > 0 && questions.length <= MAX_CAMPAIGN_QUESTIONS, "Invalid question count");
+        for (uint256 i = 0; i < questions.length; i++) {
+            require(_subjects[keccak256(bytes(questions[i]))].id != 0, "Unknown subject");
+            for (uint256 j = 0; j < i; j++) {
+                require(keccak256(bytes(questions[i])) != keccak256(bytes(questions[j])), "Duplicate question");
+            }
+        }
+
+        _campaigns.push(Campaign({name: name, questions: questions}));
+        campaignId = _campaigns.length;
+        for (uint256 i = 0; i < questions.length; i++) {
+            _subjectCampaignIds[keccak256(bytes(questions[i]))].push(campaignId);
+        }
+
+        emit CampaignCreated(campaignId, name, questions.length);
+    }
+
+    /// @notice Set the time after which a campaign no longer accepts questionnaires (admin only)
+    /// @dev Closes the question subjects along with submitCampaign(): from the deadline on, no rating of any of them
+    /// is submitted, updated or deleted, so the final results cannot change once published. The deadline is fixed
+    /// once the campaign's final results have been requested.
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    /// @param closesAt Closing timestamp (0 = no deadline)
+    function setCampaignDeadline(uint256 campaignId, uint256 closesAt) external onlyRole(ADMIN_ROLE) {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        require(!_campaignResultsRequested[campaignId], "Results already requested");
+        _campaignClosesAt[campaignId] = closesAt;
+
+        emit CampaignDeadlineUpdated(campaignId, closesAt);
+    }
+
+    /// @notice Set the minimum respondent count for a subject (admin only)
+    /// @param subject Subject name
+    /// @param minRespondents Minimum respondents before the subject aggregate can be decrypted
+    function setSubjectMinRespondents(string memory subject, uint32 minRespondents) external onlyRole(ADMIN_ROLE) {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        require(minRespondents > 0, "Threshold must be positive");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        _subjectMinRespondents[subjectHash] = minRespondents;
+
+        emit SubjectMinRespondentsUpdated(subjectHash, minRespondents);
+    }
+
+    /// @notice Add bounded random noise to a subject's sums before they are decrypted (admin only)
+    /// @dev Noise is drawn uniformly from [-noiseScale, noiseScale) for the rating sum, and SQUARE_NOISE_FACTOR times
+    /// that for the sum of squares. Each snapshot records the scale it was published with. The global sums take the
+    /// largest scale any subject was ever given, since the exact global sum minus the other subjects' would reveal a
+    /// noisy subject's exact sum. The scale is fixed once the subject has ratings, since an exact snapshot taken
+    /// after a noisy one would reveal the noise by subtraction.
+    /// @param subject Subject name
+    /// @param noiseScale Noise bound, a power of two up to MAX_NOISE_SCALE (0 publishes exact results)
+    function setSubjectNoiseScale(string memory subject, uint32 noiseScale) external onlyRole(ADMIN_ROLE) {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        require(noiseScale <= MAX_NOISE_SCALE, "Noise scale too large");
+        require(noiseScale == 0 || noiseScale & (noiseScale - 1) == 0, "Noise scale not a power of two");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        // The encrypted count is created by the subject's first rating, in either counting mode
+        require(!FHE.isInitialized(_encryptedSubjectCount[subjectHash]), "Ratings already submitted");
+        _noiseScales[subjectHash] = noiseScale;
+        if (noiseScale > _globalNoiseScale) {
+            _globalNoiseScale = noiseScale;
+        }
+
+        emit NoiseScaleUpdated(subjectHash, noiseScale);
+    }
+
+    /// @notice Set the average below which a subject raises an alert (admin only)
+    /// @param subject Subject name
+    /// @param threshold Average rating scaled by STATS_PRECISION, e.g. 600 for 6.00 (0 removes the alert)
+    function setAlertThreshold(string memory subject, uint32 threshold) external onlyRole(ADMIN_ROLE) {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        require(threshold <= MAX_RATING * STATS_PRECISION, "Threshold above the rating scale");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        _alertThresholds[subjectHash] = threshold;
+
+        emit AlertThresholdUpdated(subjectHash, threshold);
+    }
+
+    /// @notice Restrict a subject to the addresses in a Merkle allowlist (admin only)
+    /// @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(account)))) and pairs are hashed in sorted order,
+    /// as built by task:set-eligibility. Ratings already submitted are kept.
+    /// @param subject Subject name
+    /// @param root Merkle root of eligible addresses (0 lets anyone rate again)
+    function setEligibilityRoot(string memory subject, bytes32 root) external onlyRole(ADMIN_ROLE) {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        require(_subjects[subjectHash].id != 0, "Unknown subject");
+        _setEligibilityRoot(subjectHash, root);
+    }
+
+    /// @notice Restrict every question of a campaign to the addresses in one Merkle allowlist (admin only)
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    /// @param root Merkle root of eligible addresses (0 lets anyone answer again)
+    function setCampaignEligibilityRoot(uint256 campaignId, bytes32 root) external onlyRole(ADMIN_ROLE) {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        string[] storage questions = _campaigns[campaignId - 1].questions;
+        for (uint256 i = 0; i < questions.length; i++) {
+            _setEligibilityRoot(keccak256(bytes(questions[i])), root);
+        }
+    }
+
+    /// @notice Define the respondent segments before the first rating is submitted (admin only)
+    /// @dev Segment N is identified by the encrypted value N passed to submitSegmentedRating(). The set is fixed once
+    /// entries exist, since the per-segment aggregates are kept by position.
+    /// @param names Segment names, e.g. ["Engineering", "Sales"] (at most MAX_SEGMENTS, empty to disable segments)
+    function setSegments(string[] calldata names) external onlyRole(ADMIN_ROLE) {
+        require(_entryCount == 0, "Ratings already submitted");
+        require(names.length <= MAX_SEGMENTS, "Too many segments");
+        delete _segments;
+        for (uint256 i = 0; i < names.length; i++) {
+            require(bytes(names[i]).length > 0, "Segment cannot be empty");
+            _segments.push(names[i]);
+        }
+
+        emit SegmentsConfigured(names);
+    }
+
+    /// @notice Consult an eligibility module before accepting ratings for a subject (admin only)
+    /// @dev Applies on top of the subject's Merkle allowlist, if any. Ratings already submitted are kept.
+    /// @param subject Subject name
+    /// @param module IRatingEligibility contract, e.g. ERC20ThresholdEligibility (0 removes the check)
+    function setEligibilityModule(string memory subject, address module) external onlyRole(ADMIN_ROLE) {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        require(_subjects[subjectHash].id != 0, "Unknown subject");
+        require(module == address(0) || module.code.length > 0, "Module is not a contract");
+        _eligibilityModules[subjectHash] = module;
+
+        emit EligibilityModuleUpdated(subjectHash, module);
+    }
+
+    /// @notice Switch anonymity mode on or off before the first rating is submitted (admin only)
+    /// @dev In anonymity mode ratings are only accepted through submitAnonymousRating(). The mode is fixed once
+    /// entries exist, since duplicates are detected by address or by nullifier but never across both.
+    /// @param enabled Whether entries are keyed by nullifiers instead of addresses
+    function setAnonymousMode(bool enabled) external onlyRole(ADMIN_ROLE) {
+        require(_entryCount == 0, "Ratings already submitted");
+        anonymousMode = enabled;
+
+        emit AnonymousModeUpdated(enabled);
+    }
+
+    /// @notice Publish the Merkle root of the member keys allowed to rate anonymously (admin only)
+    /// @dev Members register the address of a key derived from a secret only they know; the leaves are built like
+    /// eligibility allowlists. Replacing the root admits new members without resetting the nullifiers already used.
+    /// @param root Merkle root of the member keys (0 = no one may rate anonymously)
+    function setAnonymousMembersRoot(bytes32 root) external onlyRole(ADMIN_ROLE) {
+        anonymousMembersRoot = root;
+
+        emit AnonymousMembersRootUpdated(root);
+    }
+
+    /// @notice Switch private counts on or off before the first rating is submitted (admin only)
+    /// @dev With private counts, entry counts are kept as encrypted counters instead of plaintext ones, so respondent
+    /// thresholds are applied homomorphically, and no view or event says who rated what. Transaction calldata still
+    /// names the sender and subject of each rating, so this only hides counts from readers of the contract's state.
+    /// Threshold alerts and rankings need plaintext counts, and histograms add up to them, so all three are
+    /// unavailable. The mode is fixed once entries exist, since the counters of the other mode would be missing them.
+    /// @param enabled Whether entry counts are encrypted
+    function setPrivateCounts(bool enabled) external onlyRole(ADMIN_ROLE) {
+        require(_entryCount == 0, "Ratings already submitted");
+        privateCounts = enabled;
+
+        emit PrivateCountsUpdated(enabled);
+    }
+
+    /// @notice Grant a role (owner only)
+    /// @param role Role identifier
+    /// @param account Account receiving the role
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        require(role == ADMIN_ROLE || role == MODERATOR_ROLE || role == AUDITOR_ROLE, "Unknown role");
+        require(!_roles[role][account], "Role already granted");
+        _roles[role][account] = true;
+
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    /// @notice Revoke a role (owner only)
+    /// @param role Role identifier
+    /// @param account Account losing the role
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        require(_roles[role][account], "Role not granted");
+        _roles[role][account] = false;
+
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    /// @notice Stop submissions, updates and deletions (admin only)
+    function pause() external onlyRole(ADMIN_ROLE) {
+        require(!paused, "Contract is paused");
+        paused = true;
+
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume submissions, updates and deletions (admin only)
+    function unpause() external onlyRole(ADMIN_ROLE) {
+        require(paused, "Contract is not paused");
+        paused = false;
+
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Propose a new owner, who takes over once it calls acceptOwnership() (owner only)
+    /// @param newOwner Proposed owner (the zero address cancels a pending transfer)
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Complete an ownership transfer (pending owner only)
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Caller is not the pending owner");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /// @notice Store a subject's allowlist root and announce it
+    function _setEligibilityRoot(bytes32 subjectHash, bytes32 root) private {
+        _eligibilityRoots[subjectHash] = root;
+
+        emit EligibilityRootUpdated(subjectHash, root);
+    }
+}
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {EncryptedRatingSystem} from "./EncryptedRatingSystem.sol";
+
+/// @title RatingCampaignFactory - Deploys isolated rating instances per campaign
+/// @author crypt-seal-vault
+/// @notice Each campaign gets its own EncryptedRatingSystem clone, so its subjects and global average
+/// are not mixed with other teams' feedback
+contract RatingCampaignFactory {
+    struct RatingInstance {
+        address instance; // Deployed EncryptedRatingSystem clone
+        address owner; // Owner of the clone
+        string name; // Campaign name
+        uint256 createdAt; // Creation timestamp
+    }
+
+    // EncryptedRatingSystem deployment whose code every clone runs
+    address public immutable implementation;
+
+    // Deployed instances (instance N is stored at index N - 1)
+    RatingInstance[] private _instances;
+
+    event RatingInstanceCreated(
+        uint256 indexed instanceId,
+        address indexed instance,
+        address indexed owner,
+        string name,
+        uint32 ratingScale
+    );
+
+    /// @param implementation_ Deployed EncryptedRatingSystem used as the clone template
+    constructor(address implementation_) {
+        require(implementation_.code.length > 0, "Implementation is not a contract");
+        implementation = implementation_;
+    }
+
+    /// @notice Deploy a configured rating instance for a campaign
+    /// @param name Campaign name
+    /// @param owner_ Owner of the new instance
+    /// @param subjects Subject names, registered and opened on the new instance
+    /// @param ratingScale Highest accepted rating (2-10)
+    /// @param opensAt Ratings accepted from this timestamp (0 = immediately)
+    /// @param closesAt Ratings accepted until this timestamp (0 = no deadline)
+    /// @param minRespondents Minimum respondents before subject and global aggregates can be decrypted
+    /// @return instanceId Instance ID (1-based)
+    /// @return instance Address of the new instance
+    function createRatingInstance(
+        string calldata name,
+        address owner_,
+        string[] calldata subjects,
+        uint32 ratingScale,
+        uint256 opensAt,
+        uint256 closesAt,
+        uint32 minRespondents
+    ) external returns (uint256 instanceId, address instance) {
+        require(bytes(name).length > 0, "Campaign name cannot be empty");
+        require(subjects.length > 0, "No subjects");
+
+        instance = _clone(implementation);
+        EncryptedRatingSystem(instance).initialize(
+            owner_,
+            minRespondents,
+            minRespondents,
+            ratingScale,
+            subjects,
+            opensAt,
+            closesAt
+        );
+
+        _instances.push(RatingInstance({instance: instance, owner: owner_, name: name, createdAt: block.timestamp}));
+        instanceId = _instances.length;
+
+        emit RatingInstanceCreated(instanceId, instance, owner_, name, ratingScale);
+    }
+
+    /// @notice Get the number of deployed instances
+    /// @return Instance count
+    function getInstanceCount() external view returns (uint256) {
+        return _instances.length;
+    }
+
+    /// @notice Get a deployed instance
+    /// @param instanceId Instance ID (1-based)
+    /// @return instance Address of the instance
+    /// @return owner Owner at creation
+    /// @return name Campaign name
+    /// @return createdAt Creation timestamp
+    function getInstance(
+        uint256 instanceId
+    ) external view returns (address instance, address owner, string memory name, uint256 createdAt) {
+        require(instanceId > 0 && instanceId <= _instances.length, "Unknown instance");
+        RatingInstance storage info = _instances[instanceId - 1];
+        return (info.instance, info.owner, info.name, info.createdAt);
+    }
+
+    /// @notice Deploy an EIP-1167 minimal proxy delegating to target
+    function _clone(address target) private returns (address instance) {
+        assembly ("memory-safe") {
+            mstore(0x00, or(shr(0xe8, shl(0x60, target)), 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000))
+            mstore(0x20, or(shl(0x78, target), 0x5af43d82803e903d91602b57fd5bf3))
+            instance := create(0, 0x09, 0x37)
+        }
+        require(instance != address(0), "Clone failed");
+    }
+}
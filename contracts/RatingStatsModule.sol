@@ -0,0 +1,780 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {RatingStorage} from "./RatingStorage.sol";
+
+/// @title RatingStatsModule - Statistics publication for EncryptedRatingSystem
+/// @author crypt-seal-vault
+/// @notice Sends encrypted aggregates for decryption and publishes the decrypted results as snapshots
+/// @dev Passed to the EncryptedRatingSystem constructor, which delegatecalls into it so that decryption requests,
+/// callbacks and snapshots all use the rating instance's storage and address. Called directly it only sees its own
+/// empty storage.
+contract RatingStatsModule is RatingStorage {
+    /// @notice Request decryption of subject-specific statistics
+    /// @dev Can be called again after new submissions; every request that is not withheld publishes a new snapshot.
+    /// With a noise scale set, only NOISE_BUDGET requests are ever accepted for the subject, since fresh noise over
+    /// the same sums could otherwise be averaged away. The encrypted count of accepted ratings is decrypted along
+    /// with the sums, all three zeroed unless it meets the respondent threshold and at least that many accepted
+    /// ratings were added or removed since the subject's last released result. A zero count is withheld.
+    /// @param subject Subject name
+    function requestSubjectStats(string memory subject) external {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        (bytes32[] memory cts, StatsRequest memory request) = _prepareSubjectStats(keccak256(bytes(subject)));
+
+        uint256 requestId = FHE.requestDecryption(cts, this.subjectStatsCallback.selector);
+        _subjectStatsRequest[requestId] = request;
+
+        emit SubjectStatsRequested(request.subjectHash, requestId);
+    }
+
+    /// @notice Callback function for subject statistics decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request
+    function subjectStatsCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        StatsRequest memory request = _subjectStatsRequest[requestId];
+        require(request.subjectHash != bytes32(0), "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (uint32 totalRating, uint64 totalSquares, uint32 count) = _decodeStats(cleartexts, 0);
+        delete _subjectStatsRequest[requestId];
+        if (count == 0) {
+            emit SubjectStatsWithheld(request.subjectHash, requestId);
+            return true;
+        }
+
+        (uint32 averageRating, uint32 stdDev) = _publishSubjectStats(request, totalRating, totalSquares, count);
+        emit SubjectStatsPublished(
+            request.subjectHash,
+            _subjectSnapshots[request.subjectHash].length,
+            averageRating,
+            count,
+            stdDev
+        );
+        return true;
+    }
+
+    /// @notice Request a check of whether a subject's average is below its alert threshold
+    /// @dev Compares sum * STATS_PRECISION against threshold * count homomorphically, counting accepted ratings
+    /// only, so only the resulting boolean is decrypted and the average itself stays encrypted. The products are
+    /// computed on 64 bits, since a scaled 32-bit sum would wrap past a few million ratings. The result is withheld
+    /// like subject statistics, since comparisons repeated after every rating would narrow each one down. Refused
+    /// for subjects with a noise scale, whose exact average repeated comparisons would narrow down.
+    /// @param subject Subject name
+    function requestThresholdAlert(string memory subject) external {
+        require(!privateCounts, "Counts are private");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        uint32 threshold = _alertThresholds[subjectHash];
+        require(threshold > 0, "No alert threshold set");
+        require(_noiseScales[subjectHash] == 0, "Subject results are noised");
+        uint32 count = _subjectEntryCount[subjectHash];
+        require(count > 0, "No data for this subject");
+        require(count >= _minRespondents(subjectHash), "Not enough respondents");
+
+        ebool released = _releaseSubject(subjectHash);
+        ebool below = FHE.lt(
+            FHE.mul(FHE.asEuint64(_encryptedRatingSum[subjectHash]), uint64(STATS_PRECISION)),
+            FHE.mul(FHE.asEuint64(_encryptedSubjectCount[subjectHash]), uint64(threshold))
+        );
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(released);
+        cts[1] = FHE.toBytes32(FHE.and(released, below));
+
+        uint256 requestId = FHE.requestDecryption(cts, this.thresholdAlertCallback.selector);
+        _alertRequest[requestId] = AlertRequest({subjectHash: subjectHash, threshold: threshold, count: count});
+
+        emit ThresholdAlertRequested(subjectHash, requestId);
+    }
+
+    /// @notice Callback function for threshold alert decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request
+    function thresholdAlertCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        AlertRequest memory request = _alertRequest[requestId];
+        require(request.subjectHash != bytes32(0), "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (bool released, bool below) = abi.decode(cleartexts, (bool, bool));
+        if (!released) {
+            delete _alertRequest[requestId];
+            emit ThresholdAlertWithheld(request.subjectHash, requestId);
+            return true;
+        }
+        _alerts[request.subjectHash] = AlertSnapshot({
+            threshold: request.threshold,
+            count: request.count,
+            below: below,
+            blockNumber: block.number
+        });
+        delete _alertRequest[requestId];
+
+        emit SubjectBelowThreshold(request.subjectHash, request.threshold, below);
+        return true;
+    }
+
+    /// @notice Request a ranking of subjects by average rating without decrypting any average
+    /// @dev For every pair (i, j), average i > average j exactly when sum i * count j > sum j * count i. The products
+    /// are computed on 64-bit ciphertexts with the encrypted counts of accepted ratings, and only the comparison bits
+    /// are decrypted. They are all zeroed, and the ranking withheld, unless every subject would have its statistics
+    /// released. Subjects with a noise scale are refused, as their comparisons would be exact.
+    /// @param subjects Subjects to rank (2 to MAX_RANKING_SUBJECTS, each meeting its respondent threshold)
+    function requestRanking(string[] calldata subjects) external {
+        require(!privateCounts, "Counts are private");
+        uint256 n = subjects.length;
+        require(n >= 2 && n <= MAX_RANKING_SUBJECTS, "Invalid subject count");
+
+        euint64[] memory sums = new euint64[](n);
+        euint64[] memory counts = new euint64[](n);
+        ebool released = FHE.asEbool(true);
+        for (uint256 i = 0; i < n; i++) {
+            bytes32 subjectHash = keccak256(bytes(subjects[i]));
+            for (uint256 j = 0; j < i; j++) {
+                require(keccak256(bytes(subjects[j])) != subjectHash, "Duplicate subject");
+            }
+            require(_noiseScales[subjectHash] == 0, "Subject results are noised");
+            require(_subjectEntryCount[subjectHash] > 0, "No data for this subject");
+            require(_subjectEntryCount[subjectHash] >= _minRespondents(subjectHash), "Not enough respondents");
+
+            sums[i] = FHE.asEuint64(_encryptedRatingSum[subjectHash]);
+            counts[i] = FHE.asEuint64(_encryptedSubjectCount[subjectHash]);
+            released = FHE.and(released, _releasable(subjectHash));
+        }
+        for (uint256 i = 0; i < n; i++) {
+            _consumeChanges(keccak256(bytes(subjects[i])), released);
+        }
+
+        // The release flag comes first, followed by the comparisons
+        bytes32[] memory cts = new bytes32[](1 + (n * (n - 1)) / 2);
+        cts[0] = FHE.toBytes32(released);
+        uint256 k = 1;
+        for (uint256 i = 0; i < n; i++) {
+            for (uint256 j = i + 1; j < n; j++) {
+                ebool higher = FHE.gt(FHE.mul(sums[i], counts[j]), FHE.mul(sums[j], counts[i]));
+                cts[k++] = FHE.toBytes32(FHE.and(released, higher));
+            }
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.rankingCallback.selector);
+        for (uint256 i = 0; i < n; i++) {
+            _rankingRequest[requestId].push(subjects[i]);
+        }
+
+        emit RankingRequested(requestId, n);
+    }
+
+    /// @notice Callback function for ranking decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request. Each subject is
+    /// ranked by the number of comparisons it won; subjects with equal averages end up in an unspecified order.
+    function rankingCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        string[] storage subjects = _rankingRequest[requestId];
+        uint256 n = subjects.length;
+        require(n > 0, "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        if (_word(cleartexts, 0) == 0) {
+            delete _rankingRequest[requestId];
+            emit RankingWithheld(requestId);
+            return true;
+        }
+
+        // Cleartexts hold one 32-byte word per comparison after the release flag, in the order they were requested
+        uint256[] memory wins = new uint256[](n);
+        uint256 offset = 64;
+        for (uint256 i = 0; i < n; i++) {
+            for (uint256 j = i + 1; j < n; j++) {
+                uint256 bit;
+                assembly {
+                    bit := mload(add(cleartexts, offset))
+                }
+                wins[bit != 0 ? i : j]++;
+                offset += 32;
+            }
+        }
+
+        Ranking storage ranking = _rankings.push();
+        ranking.blockNumber = block.number;
+        bool[] memory placed = new bool[](n);
+        for (uint256 position = 0; position < n; position++) {
+            uint256 best = n;
+            for (uint256 i = 0; i < n; i++) {
+                if (!placed[i] && (best == n || wins[i] > wins[best])) best = i;
+            }
+            placed[best] = true;
+            ranking.subjects.push(subjects[best]);
+        }
+        delete _rankingRequest[requestId];
+
+        emit RankingPublished(_rankings.length, ranking.subjects);
+        return true;
+    }
+
+    /// @notice Request decryption of a subject's rating histogram
+    /// @dev All buckets are decrypted in a single request; completing it replaces the published histogram. The
+    /// buckets are zeroed, and the histogram withheld, unless the subject's statistics would be released. Refused
+    /// for subjects with a noise scale, since the exact buckets would give away the sum the noise protects.
+    /// @param subject Subject name
+    function requestSubjectHistogram(string memory subject) external {
+        require(!privateCounts, "Counts are private");
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        require(_noiseScales[subjectHash] == 0, "Subject results are noised");
+        require(_subjectEntryCount[subjectHash] > 0, "No data for this subject");
+        require(_subjectEntryCount[subjectHash] >= _minRespondents(subjectHash), "Not enough respondents");
+
+        ebool released = _releaseSubject(subjectHash);
+        euint32 zero = FHE.asEuint32(0);
+        euint32[HISTOGRAM_BUCKETS] storage buckets = _encryptedHistogram[subjectHash];
+        bytes32[] memory cts = new bytes32[](HISTOGRAM_BUCKETS);
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            cts[i] = FHE.toBytes32(FHE.select(released, buckets[i], zero));
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.subjectHistogramCallback.selector);
+        _histogramRequest[requestId] = StatsRequest({subjectHash: subjectHash, noiseScale: 0});
+
+        emit SubjectHistogramRequested(subjectHash, requestId);
+    }
+
+    /// @notice Callback function for subject histogram decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request
+    function subjectHistogramCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        StatsRequest memory request = _histogramRequest[requestId];
+        require(request.subjectHash != bytes32(0), "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint32[HISTOGRAM_BUCKETS] memory buckets = abi.decode(cleartexts, (uint32[10]));
+        // Rejected ratings match no bucket, so the buckets add up to the accepted ratings
+        uint32 count;
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            count += buckets[i];
+        }
+        delete _histogramRequest[requestId];
+        if (count == 0) {
+            emit SubjectHistogramWithheld(request.subjectHash, requestId);
+            return true;
+        }
+        _subjectHistograms[request.subjectHash] = HistogramSnapshot({
+            buckets: buckets,
+            count: count,
+            blockNumber: block.number
+        });
+
+        emit SubjectHistogramPublished(request.subjectHash, buckets, count);
+        return true;
+    }
+
+    /// @notice Request decryption of a subject's per-segment statistics
+    /// @dev Segment counts are encrypted, so the respondent threshold is applied homomorphically: a segment below it
+    /// is sent for decryption as a zero sum and count, revealing neither, and so is every segment unless the
+    /// subject's statistics would be released. Unused segment slots are sent as zeros too, which keeps the
+    /// cleartexts a fixed-size array. Refused for subjects with a noise scale, whose segment sums are exact.
+    /// @param subject Subject name
+    function requestSegmentStats(string memory subject) external {
+        require(_segments.length > 0, "No segments configured");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        require(_noiseScales[subjectHash] == 0, "Subject results are noised");
+        require(privateCounts || _subjectEntryCount[subjectHash] > 0, "No data for this subject");
+
+        uint32 threshold = _minRespondents(subjectHash);
+        ebool subjectReleased = _releaseSubject(subjectHash);
+        euint32 zero = FHE.asEuint32(0);
+        bytes32[] memory cts = new bytes32[](2 * MAX_SEGMENTS);
+        for (uint256 i = 0; i < MAX_SEGMENTS; i++) {
+            euint32 sum = zero;
+            euint32 count = zero;
+            if (i < _segments.length) {
+                count = _encryptedSegmentCount[subjectHash][i];
+                ebool released = FHE.and(subjectReleased, FHE.ge(count, threshold));
+                sum = FHE.select(released, _encryptedSegmentSum[subjectHash][i], zero);
+                count = FHE.select(released, count, zero);
+            }
+            cts[i] = FHE.toBytes32(sum);
+            cts[MAX_SEGMENTS + i] = FHE.toBytes32(count);
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.segmentStatsCallback.selector);
+        _segmentStatsRequest[requestId] = subjectHash;
+
+        emit SegmentStatsRequested(subjectHash, requestId);
+    }
+
+    /// @notice Callback function for segment statistics decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request
+    function segmentStatsCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        bytes32 subjectHash = _segmentStatsRequest[requestId];
+        require(subjectHash != bytes32(0), "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (uint32[MAX_SEGMENTS] memory sums, uint32[MAX_SEGMENTS] memory counts) = abi.decode(
+            cleartexts,
+            (uint32[8], uint32[8])
+        );
+        uint32[MAX_SEGMENTS] memory averages;
+        for (uint256 i = 0; i < MAX_SEGMENTS; i++) {
+            averages[i] = counts[i] > 0 ? _average(sums[i], counts[i]) : 0;
+        }
+        _segmentStats[subjectHash] = SegmentSnapshot({averages: averages, counts: counts, blockNumber: block.number});
+        delete _segmentStatsRequest[requestId];
+
+        emit SegmentStatsPublished(subjectHash, averages, counts);
+        return true;
+    }
+
+    /// @notice Request decryption of global statistics
+    /// @dev Can be called again after new submissions; every request that is not withheld publishes a new snapshot.
+    /// The threshold and republishing limit are applied homomorphically, as in requestSubjectStats. Once any
+    /// subject has a noise scale, the global sums are noised with the largest one and share a NOISE_BUDGET of
+    /// their own.
+    function requestGlobalStats() external {
+        (bytes32[] memory cts, uint32 noiseScale) = _prepareGlobalStats();
+
+        uint256 requestId = FHE.requestDecryption(cts, this.globalStatsCallback.selector);
+        _globalStatsRequest[requestId] = noiseScale + 1;
+
+        emit GlobalStatsRequested(requestId);
+    }
+
+    /// @notice Callback function for global statistics decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request
+    function globalStatsCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        uint32 stored = _globalStatsRequest[requestId];
+        require(stored > 0, "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (uint32 totalRating, uint64 totalSquares, uint32 count) = _decodeStats(cleartexts, 0);
+        delete _globalStatsRequest[requestId];
+        if (count == 0) {
+            emit GlobalStatsWithheld(requestId);
+            return true;
+        }
+
+        (uint32 averageRating, uint32 stdDev) = _publishGlobalStats(totalRating, totalSquares, count, stored - 1);
+        emit GlobalStatsPublished(_globalSnapshots.length, averageRating, count, stdDev);
+        return true;
+    }
+
+    /// @notice Request decryption of global statistics and those of several subjects in a single request
+    /// @dev Each subject is checked, noised and thresholded as in requestSubjectStats, and the global sums as in
+    /// requestGlobalStats. The callback publishes a snapshot for the global statistics and every subject that was
+    /// not withheld, and reports them all in one AllStatsPublished event.
+    /// @param subjects Subjects to include (1 to MAX_BATCH_SUBJECTS, no duplicates)
+    function requestAllStats(string[] calldata subjects) external {
+        uint256 n = subjects.length;
+        require(n > 0 && n <= MAX_BATCH_SUBJECTS, "Invalid subject count");
+
+        bytes32[] memory subjectHashes = new bytes32[](n);
+        for (uint256 i = 0; i < n; i++) {
+            require(bytes(subjects[i]).length > 0, "Subject cannot be empty");
+            subjectHashes[i] = keccak256(bytes(subjects[i]));
+            for (uint256 j = 0; j < i; j++) {
+                require(subjectHashes[j] != subjectHashes[i], "Duplicate subject");
+            }
+        }
+
+        uint256 requestId = _requestStatsBatch(subjectHashes, true, 0);
+        emit AllStatsRequested(requestId, n);
+    }
+
+    /// @notice Request decryption of a campaign's final results once its deadline has passed
+    /// @dev Callable by anyone, e.g. a keeper watching deadlines, and only once per campaign. Every question is
+    /// noised and thresholded as in requestSubjectStats, and all of them are decrypted in one request that publishes
+    /// a snapshot per question, reported in one AllStatsPublished event without global statistics. A question that
+    /// requestSubjectStats would refuse (no data, too few respondents, privacy budget exhausted) is withheld with a
+    /// zero count rather than reverting, so no respondent can keep the other questions from being published.
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    function requestCampaignResults(uint256 campaignId) external {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        uint256 closesAt = _campaignClosesAt[campaignId];
+        require(closesAt != 0 && block.timestamp >= closesAt, "Campaign is still open");
+        require(!_campaignResultsRequested[campaignId], "Results already requested");
+        _campaignResultsRequested[campaignId] = true;
+
+        string[] storage questions = _campaigns[campaignId - 1].questions;
+        bytes32[] memory subjectHashes = new bytes32[](questions.length);
+        for (uint256 i = 0; i < questions.length; i++) {
+            subjectHashes[i] = keccak256(bytes(questions[i]));
+        }
+
+        uint256 requestId = _requestStatsBatch(subjectHashes, false, campaignId);
+        emit CampaignResultsRequested(campaignId, requestId);
+    }
+
+    /// @notice Callback function for batched statistics decryption
+    /// @dev Reverts unless the cleartexts carry valid KMS signatures for the handles of this request. Withheld
+    /// results publish no snapshot and are reported with a zero average and count, as are global statistics that
+    /// were not requested.
+    function allStatsCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external returns (bool) {
+        BatchStatsRequest memory request = _batchStatsRequest[requestId];
+        require(request.subjects.length > 0, "Invalid request");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        delete _batchStatsRequest[requestId];
+
+        // Cleartexts hold the global values, if requested, followed by each subject's
+        uint32 globalAverage;
+        uint32 globalCount;
+        if (request.includesGlobal) {
+            (globalAverage, globalCount) = _publishBatchGlobal(cleartexts, request.globalNoiseScale);
+        }
+        (bytes32[] memory subjectHashes, uint32[] memory averages, uint32[] memory counts) = _publishBatchSubjects(
+            request.subjects,
+            cleartexts,
+            request.includesGlobal ? STATS_WORDS : 0
+        );
+
+        emit AllStatsPublished(requestId, globalAverage, globalCount, subjectHashes, averages, counts);
+        if (request.campaignId != 0) {
+            emit CampaignResultsPublished(request.campaignId, requestId);
+        }
+        return true;
+    }
+
+    /// @notice Publish the global snapshot of a batched request, unless withheld
+    /// @return average Published average (0 if withheld)
+    /// @return count Decrypted count (0 if withheld)
+    function _publishBatchGlobal(
+        bytes memory cleartexts,
+        uint32 noiseScale
+    ) private returns (uint32 average, uint32 count) {
+        uint32 totalRating;
+        uint64 totalSquares;
+        (totalRating, totalSquares, count) = _decodeStats(cleartexts, 0);
+        if (count > 0) {
+            (average, ) = _publishGlobalStats(totalRating, totalSquares, count, noiseScale);
+        }
+    }
+
+    /// @notice Publish the subject snapshots of a batched request, skipping withheld ones
+    /// @param index Word index of the first subject's values in the cleartexts
+    function _publishBatchSubjects(
+        StatsRequest[] memory requests,
+        bytes memory cleartexts,
+        uint256 index
+    ) private returns (bytes32[] memory subjectHashes, uint32[] memory averages, uint32[] memory counts) {
+        uint256 n = requests.length;
+        subjectHashes = new bytes32[](n);
+        averages = new uint32[](n);
+        counts = new uint32[](n);
+        for (uint256 i = 0; i < n; i++) {
+            subjectHashes[i] = requests[i].subjectHash;
+            (uint32 totalRating, uint64 totalSquares, uint32 count) = _decodeStats(cleartexts, index + STATS_WORDS * i);
+            if (count > 0) {
+                (averages[i], ) = _publishSubjectStats(requests[i], totalRating, totalSquares, count);
+            }
+            counts[i] = count;
+        }
+    }
+
+    /// @notice Send the sums of several subjects, and optionally the global ones, for decryption in one request
+    /// @return requestId Decryption request ID, answered through allStatsCallback
+    function _requestStatsBatch(
+        bytes32[] memory subjectHashes,
+        bool includeGlobal,
+        uint256 campaignId
+    ) private returns (uint256 requestId) {
+        uint256 n = subjectHashes.length;
+        bytes32[] memory globalCts;
+        uint32 globalNoiseScale;
+        if (includeGlobal) {
+            (globalCts, globalNoiseScale) = _prepareGlobalStats();
+        }
+
+        bytes32[] memory cts = new bytes32[](globalCts.length + STATS_WORDS * n);
+        StatsRequest[] memory requests = new StatsRequest[](n);
+        for (uint256 k = 0; k < globalCts.length; k++) {
+            cts[k] = globalCts[k];
+        }
+        for (uint256 i = 0; i < n; i++) {
+            bytes32[] memory subjectCts;
+            if (campaignId != 0 && !_statsAvailable(subjectHashes[i])) {
+                (subjectCts, requests[i]) = _withheldStats(subjectHashes[i]);
+            } else {
+                (subjectCts, requests[i]) = _prepareSubjectStats(subjectHashes[i]);
+            }
+            for (uint256 k = 0; k < STATS_WORDS; k++) {
+                cts[globalCts.length + STATS_WORDS * i + k] = subjectCts[k];
+            }
+        }
+
+        requestId = FHE.requestDecryption(cts, this.allStatsCallback.selector);
+        BatchStatsRequest storage request = _batchStatsRequest[requestId];
+        request.includesGlobal = includeGlobal;
+        request.globalNoiseScale = globalNoiseScale;
+        request.campaignId = campaignId;
+        for (uint256 i = 0; i < n; i++) {
+            request.subjects.push(requests[i]);
+        }
+    }
+
+    /// @notice Check a subject for a statistics request and prepare the handles to decrypt
+    /// @dev With a noise scale set, spends one request of the subject's NOISE_BUDGET and adds fresh noise to both
+    /// sums. The budget is never restored: every noisy result is another sample of the same sums, and averaging
+    /// enough of them would wear the noise down. With private counts an unrated subject is withheld like one below
+    /// its threshold, so a request does not tell whether anyone has rated it. The plaintext checks only turn away
+    /// requests that cannot succeed; what is released is decided on the encrypted counts of accepted ratings.
+    function _prepareSubjectStats(
+        bytes32 subjectHash
+    ) private returns (bytes32[] memory cts, StatsRequest memory request) {
+        if (privateCounts) {
+            if (!FHE.isInitialized(_encryptedSubjectCount[subjectHash])) {
+                return _withheldStats(subjectHash);
+            }
+        } else {
+            require(_subjectEntryCount[subjectHash] > 0, "No data for this subject");
+            require(_subjectEntryCount[subjectHash] >= _minRespondents(subjectHash), "Not enough respondents");
+        }
+
+        euint32 sum = _encryptedRatingSum[subjectHash];
+        euint64 squares = _encryptedSquareSum[subjectHash];
+        euint32 count = _encryptedSubjectCount[subjectHash];
+        uint32 noiseScale = _noiseScales[subjectHash];
+        ebool released = _releaseSubject(subjectHash);
+        if (noiseScale > 0) {
+            require(_noisyRequests[subjectHash] < NOISE_BUDGET, "Privacy budget exhausted");
+            _noisyRequests[subjectHash]++;
+            (sum, squares) = _addNoise(sum, squares, noiseScale);
+        } else {
+            _releasedSubjectSum[subjectHash] = _keepReleased(released, sum, _releasedSubjectSum[subjectHash]);
+            _releasedSubjectCount[subjectHash] = _keepReleased(released, count, _releasedSubjectCount[subjectHash]);
+        }
+
+        cts = _statsHandles(sum, squares, count, released);
+        request = StatsRequest({subjectHash: subjectHash, noiseScale: noiseScale});
+    }
+
+    /// @notice Whether _prepareSubjectStats would accept a subject
+    /// @dev With private counts the threshold is applied homomorphically, so only the privacy budget can refuse one
+    function _statsAvailable(bytes32 subjectHash) private view returns (bool) {
+        if (
+            !privateCounts &&
+            (_subjectEntryCount[subjectHash] == 0 || _subjectEntryCount[subjectHash] < _minRespondents(subjectHash))
+        ) {
+            return false;
+        }
+        return _noiseScales[subjectHash] == 0 || _noisyRequests[subjectHash] < NOISE_BUDGET;
+    }
+
+    /// @notice Whether a subject's results may be released: its encrypted count of accepted ratings meets the
+    /// respondent threshold, and at least that many accepted ratings were added or removed since its last released
+    /// result. Nothing is decrypted, so a withheld request reveals neither count.
+    function _releasable(bytes32 subjectHash) private returns (ebool) {
+        uint32 threshold = _minRespondents(subjectHash);
+        return
+            FHE.and(
+                FHE.ge(_encryptedSubjectCount[subjectHash], threshold),
+                FHE.ge(_encryptedSubjectChanges[subjectHash], threshold)
+            );
+    }
+
+    /// @notice Start counting a subject's changes afresh if its results are released
+    function _consumeChanges(bytes32 subjectHash, ebool released) private {
+        euint32 changes = _changesOrZero(_encryptedSubjectChanges[subjectHash]);
+        _encryptedSubjectChanges[subjectHash] = FHE.select(released, FHE.asEuint32(0), changes);
+        FHE.allowThis(_encryptedSubjectChanges[subjectHash]);
+    }
+
+    /// @notice Check whether a subject's results may be released, and start counting its changes afresh if so
+    function _releaseSubject(bytes32 subjectHash) private returns (ebool released) {
+        released = _releasable(subjectHash);
+        _consumeChanges(subjectHash, released);
+    }
+
+    /// @notice A change count, or an encrypted zero for an aggregate no rating has changed yet
+    function _changesOrZero(euint32 changes) private returns (euint32) {
+        return FHE.isInitialized(changes) ? changes : FHE.asEuint32(0);
+    }
+
+    /// @notice A newly released value if released, otherwise the previously released one (zero before the first)
+    function _keepReleased(ebool released, euint32 value, euint32 previous) private returns (euint32 kept) {
+        kept = FHE.select(released, value, FHE.isInitialized(previous) ? previous : FHE.asEuint32(0));
+        FHE.allowThis(kept);
+    }
+
+    /// @notice Zero handles standing in for a subject's sums, which the callback reports as withheld
+    function _withheldStats(bytes32 subjectHash) private returns (bytes32[] memory cts, StatsRequest memory request) {
+        euint32 zero = FHE.asEuint32(0);
+        cts = new bytes32[](STATS_WORDS);
+        cts[0] = FHE.toBytes32(zero);
+        cts[1] = FHE.toBytes32(FHE.asEuint64(0));
+        cts[2] = FHE.toBytes32(zero);
+        request = StatsRequest({subjectHash: subjectHash, noiseScale: 0});
+    }
+
+    /// @notice Check the global aggregates for a statistics request and prepare the handles to decrypt
+    /// @dev Once any subject has a noise scale, spends one request of the global NOISE_BUDGET and adds noise of the
+    /// largest scale, which keeps the global sum from revealing a noisy subject's exact sum
+    /// @return cts Handles to decrypt
+    /// @return noiseScale Noise bound applied to the sums (0 = none)
+    function _prepareGlobalStats() private returns (bytes32[] memory cts, uint32 noiseScale) {
+        if (!privateCounts) {
+            require(_globalEntryCount > 0, "No data to decrypt");
+            require(_globalEntryCount >= globalMinRespondents, "Not enough respondents");
+        }
+
+        euint32 sum = _encryptedGlobalSum;
+        euint64 squares = _encryptedGlobalSquareSum;
+        noiseScale = _globalNoiseScale;
+        euint32 changes = _changesOrZero(_encryptedGlobalChanges);
+        ebool released = FHE.and(
+            FHE.ge(_encryptedGlobalCount, globalMinRespondents),
+            FHE.ge(changes, globalMinRespondents)
+        );
+        _encryptedGlobalChanges = FHE.select(released, FHE.asEuint32(0), changes);
+        FHE.allowThis(_encryptedGlobalChanges);
+        if (noiseScale > 0) {
+            require(_globalNoisyRequests < NOISE_BUDGET, "Privacy budget exhausted");
+            _globalNoisyRequests++;
+            (sum, squares) = _addNoise(sum, squares, noiseScale);
+        } else {
+            _releasedGlobalSum = _keepReleased(released, sum, _releasedGlobalSum);
+            _releasedGlobalCount = _keepReleased(released, _encryptedGlobalCount, _releasedGlobalCount);
+        }
+
+        cts = _statsHandles(sum, squares, _encryptedGlobalCount, released);
+    }
+
+    /// @notice Add fresh bounded noise to a sum and sum of squares
+    /// @dev Offset by noiseScale so the noise stays unsigned; publishing subtracts it again
+    function _addNoise(euint32 sum, euint64 squares, uint32 noiseScale) private returns (euint32, euint64) {
+        return (
+            FHE.add(sum, FHE.randEuint32(2 * noiseScale)),
+            FHE.add(squares, FHE.randEuint64(uint64(2 * noiseScale * SQUARE_NOISE_FACTOR)))
+        );
+    }
+
+    /// @notice Append a subject snapshot computed from decrypted sums
+    function _publishSubjectStats(
+        StatsRequest memory request,
+        uint32 totalRating,
+        uint64 totalSquares,
+        uint32 count
+    ) private returns (uint32 averageRating, uint32 stdDev) {
+        StatsSnapshot memory snapshot = _snapshot(totalRating, totalSquares, count, request.noiseScale);
+        _subjectSnapshots[request.subjectHash].push(snapshot);
+        return (snapshot.averageRating, snapshot.stdDev);
+    }
+
+    /// @notice Append a global snapshot computed from decrypted sums
+    function _publishGlobalStats(
+        uint32 totalRating,
+        uint64 totalSquares,
+        uint32 count,
+        uint32 noiseScale
+    ) private returns (uint32 averageRating, uint32 stdDev) {
+        StatsSnapshot memory snapshot = _snapshot(totalRating, totalSquares, count, noiseScale);
+        _globalSnapshots.push(snapshot);
+        return (snapshot.averageRating, snapshot.stdDev);
+    }
+
+    /// @notice Snapshot of decrypted sums, removing the noise offset first
+    function _snapshot(
+        uint32 totalRating,
+        uint64 totalSquares,
+        uint32 count,
+        uint32 noiseScale
+    ) private view returns (StatsSnapshot memory snapshot) {
+        if (noiseScale > 0) {
+            totalRating = uint32(_removeOffset(totalRating, noiseScale));
+            totalSquares = _removeOffset(totalSquares, noiseScale * SQUARE_NOISE_FACTOR);
+        }
+
+        // Average over the accepted ratings that made up the sum when it was sent for decryption
+        snapshot.averageRating = _average(totalRating, count);
+        if (snapshot.averageRating > MAX_RATING * STATS_PRECISION) {
+            snapshot.averageRating = MAX_RATING * STATS_PRECISION; // Noise can push the sum past the highest one
+        }
+        snapshot.count = count;
+        snapshot.blockNumber = block.number;
+        snapshot.stdDev = _stdDev(totalRating, totalSquares, count);
+        snapshot.noiseScale = noiseScale;
+    }
+
+    /// @notice Handles of a sum, sum of squares and encrypted count, all zeroed unless released
+    function _statsHandles(
+        euint32 sum,
+        euint64 squares,
+        euint32 count,
+        ebool released
+    ) private returns (bytes32[] memory cts) {
+        euint32 zero = FHE.asEuint32(0);
+        cts = new bytes32[](STATS_WORDS);
+        cts[0] = FHE.toBytes32(FHE.select(released, sum, zero));
+        cts[1] = FHE.toBytes32(FHE.select(released, squares, FHE.asEuint64(0)));
+        cts[2] = FHE.toBytes32(FHE.select(released, count, zero));
+    }
+
+    /// @notice Decrypted sum, sum of squares and count of a statistics request
+    /// @dev Cleartexts hold one 32-byte word per handle, and the values are read from word index on, so a batched
+    /// request can decode each of its results in turn
+    function _decodeStats(
+        bytes memory cleartexts,
+        uint256 index
+    ) private pure returns (uint32 sum, uint64 squares, uint32 count) {
+        sum = uint32(_word(cleartexts, index));
+        squares = uint64(_word(cleartexts, index + 1));
+        count = uint32(_word(cleartexts, index + 2));
+    }
+
+    /// @notice 32-byte word at a given index of ABI-encoded cleartexts
+    function _word(bytes memory cleartexts, uint256 index) private pure returns (uint256 value) {
+        assembly {
+            value := mload(add(cleartexts, mul(add(index, 1), 32)))
+        }
+    }
+
+    /// @notice Mean of a decrypted sum, scaled by STATS_PRECISION and rounded down
+    function _average(uint32 sum, uint32 count) private pure returns (uint32) {
+        return uint32((uint256(sum) * STATS_PRECISION) / count);
+    }
+
+    /// @notice Noisy decrypted sum minus the offset that kept its noise unsigned, floored at zero
+    function _removeOffset(uint64 noisySum, uint64 noiseScale) private pure returns (uint64) {
+        return noisySum > noiseScale ? noisySum - noiseScale : 0;
+    }
+
+    /// @notice Population standard deviation from a decrypted sum and sum of squares, scaled by STATS_PRECISION
+    /// @dev n * sum(x^2) - sum(x)^2 equals n^2 * variance, so its square root divided by n is the deviation.
+    /// Noisy sums can make it negative, which is reported as zero.
+    function _stdDev(uint32 sum, uint64 sumOfSquares, uint32 count) private pure returns (uint32) {
+        if (uint256(count) * sumOfSquares <= uint256(sum) * sum) return 0;
+        uint256 scaledVariance = uint256(count) * sumOfSquares - uint256(sum) * sum;
+        uint256 precisionSquared = uint256(STATS_PRECISION) * STATS_PRECISION;
+        return uint32(_sqrt(scaledVariance * precisionSquared) / count);
+    }
+
+    /// @notice Integer square root, rounded down (Babylonian method)
+    function _sqrt(uint256 x) private pure returns (uint256 y) {
+        if (x == 0) return 0;
+        uint256 z = (x + 1) / 2;
+        y = x;
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+    }
+}
@@ -0,0 +1,458 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ebool, euint8, euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IRatingEligibility} from "./IRatingEligibility.sol";
+
+/// @title RatingStorage - State shared by EncryptedRatingSystem and its modules
+/// @author crypt-seal-vault
+/// @notice Declares the types, constants, storage layout, events and access checks of a rating instance
+/// @dev EncryptedRatingSystem delegatecalls into modules that inherit this contract, so every module reads and
+/// writes the rating instance's storage. Append new state at the end only.
+abstract contract RatingStorage is SepoliaConfig {
+    enum SubjectStatus {
+        Draft, // Registered, not yet accepting ratings
+        Open, // Accepting ratings within its open/close window
+        Closed, // No longer accepting ratings; results stay available
+        Archived // Retired from listings
+    }
+
+    struct Subject {
+        uint256 id; // Sequential subject ID (1-based, 0 means not registered)
+        string name; // Display name, also the key ratings are submitted against
+        string description; // Shown to respondents
+        uint256 opensAt; // Ratings accepted from this timestamp (0 = as soon as opened)
+        uint256 closesAt; // Ratings accepted until this timestamp (0 = no deadline)
+        SubjectStatus status; // Lifecycle status
+    }
+
+    struct RatingEntry {
+        address submitter; // Submitter address (zero for anonymous entries)
+        string subject; // What is being rated (e.g., "Leadership", "Team Performance", "Service Quality")
+        euint8 encryptedRating; // Encrypted rating value (1-10), zeroed if submitted out of range
+        ebool isRejected; // Encrypted flag set when the submitted rating was out of range
+        uint256 timestamp; // Submission timestamp
+        bool isActive; // Active status
+    }
+
+    struct EntryInfo {
+        uint256 id; // Entry ID
+        string subject; // Subject being rated
+        uint256 timestamp; // Submission timestamp (of the latest update, if any)
+        address submitter; // Submitter address (zero for anonymous entries)
+        bool isActive; // Active status
+    }
+
+    struct Campaign {
+        string name; // Survey name
+        string[] questions; // Ordered questions, each a registered subject with its own aggregates
+    }
+
+    struct StatsSnapshot {
+        uint32 averageRating; // Decrypted average rating, scaled by STATS_PRECISION
+        uint32 count; // Number of accepted ratings the average was computed over
+        uint256 blockNumber; // Block in which the snapshot was published
+        uint32 stdDev; // Population standard deviation of the ratings, scaled by STATS_PRECISION
+        uint32 noiseScale; // Bound of the noise added to the rating sum before decryption (0 = exact)
+    }
+
+    struct HistogramSnapshot {
+        uint32[10] buckets; // Decrypted entry count per rating value (bucket i holds rating MIN_RATING + i)
+        uint32 count; // Number of accepted ratings in the buckets
+        uint256 blockNumber; // Block in which the histogram was published
+    }
+
+    struct SegmentSnapshot {
+        uint32[8] averages; // Decrypted average rating per segment, scaled by STATS_PRECISION
+        uint32[8] counts; // Decrypted entry count per segment (0 = withheld below the respondent threshold)
+        uint256 blockNumber; // Block in which the snapshot was published
+    }
+
+    struct AlertSnapshot {
+        uint32 threshold; // Average the subject was compared against, scaled by STATS_PRECISION
+        uint32 count; // Entry count when the comparison was sent for decryption
+        bool below; // Whether the average was below the threshold
+        uint256 blockNumber; // Block in which the result was published
+    }
+
+    struct Ranking {
+        string[] subjects; // Subjects ordered from the highest to the lowest average
+        uint256 blockNumber; // Block in which the ranking was published
+    }
+
+    struct AlertRequest {
+        bytes32 subjectHash; // Subject the request belongs to
+        uint32 threshold; // Threshold captured when the comparison was sent for decryption
+        uint32 count; // Entry count captured when the comparison was sent for decryption
+    }
+
+    struct StatsRequest {
+        bytes32 subjectHash; // Subject the request belongs to
+        uint32 noiseScale; // Noise bound applied to the sums sent for decryption (0 = none)
+    }
+
+    struct BatchStatsRequest {
+        bool includesGlobal; // Whether the global values precede the subjects' in the cleartexts
+        uint32 globalNoiseScale; // Noise bound applied to the global sums (0 = none)
+        StatsRequest[] subjects; // Subject requests, in the order their sums follow the global ones
+        uint256 campaignId; // Campaign whose final results were requested (0 = none)
+    }
+
+    // Accepted rating range (inclusive)
+    uint32 public constant MIN_RATING = 1;
+    uint32 public constant MAX_RATING = 10;
+    uint256 public constant HISTOGRAM_BUCKETS = 10; // One bucket per accepted rating value
+    uint256 public constant MAX_CAMPAIGN_QUESTIONS = 6; // Keeps one submitCampaign call under the per-tx HCU limit
+    uint256 public constant MAX_SEGMENTS = 8; // Each segment adds an encrypted comparison to every segmented rating
+    uint32 public constant STATS_PRECISION = 100; // Published averages and deviations are scaled by this (2 decimals)
+    uint256 public constant MAX_RANKING_SUBJECTS = 5; // 10 encrypted pairwise comparisons, within the per-tx HCU limit
+    uint32 public constant MAX_NOISE_SCALE = 1024; // Largest noise bound a subject can be configured with
+    uint32 public constant SQUARE_NOISE_FACTOR = 16; // Power of two covering a rating square's larger range (100 vs 10)
+    uint32 public constant NOISE_BUDGET = 4; // Noisy results per subject, since averaging samples wears the noise down
+    uint256 internal constant STATS_WORDS = 3; // Cleartext words per statistics result: sum, sum of squares, count
+    uint256 public constant MAX_PAGE_SIZE = 100; // Most entries or subjects a paginated view returns in one call
+    uint256 public constant MAX_BATCH_SUBJECTS = 10; // Most subjects requestAllStats decrypts in one request
+
+    // Roles (the owner implicitly holds every role)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE"); // Manages subjects, campaigns, thresholds and pausing
+    bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE"); // Moves subjects through their lifecycle
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE"); // Grants aggregate decryption to other addresses
+
+    // EIP-712 types of the ratings a relayer submits on a respondent's behalf
+    bytes32 public constant SUBMIT_RATING_TYPEHASH = keccak256(
+        "SubmitRating(address respondent,bytes32 encryptedRating,bytes inputProof,"
+        "string subject,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 public constant UPDATE_RATING_TYPEHASH = keccak256(
+        "UpdateRating(address respondent,string subject,bytes32 encryptedRating,bytes inputProof,"
+        "string newSubject,uint256 nonce,uint256 deadline)"
+    );
+    // EIP-712 type of an anonymous rating, signed by the member key its nullifier is derived from
+    bytes32 public constant ANONYMOUS_RATING_TYPEHASH = keccak256(
+        "AnonymousRating(bytes32 nullifier,bytes32 encryptedRating,bytes inputProof)"
+    );
+
+    // Contract owner (grants and revokes roles, holds every role)
+    address public owner;
+    address public pendingOwner; // Proposed owner until it calls acceptOwnership()
+
+    mapping(bytes32 => mapping(address => bool)) internal _roles; // Explicitly granted roles
+
+    // Emergency stop for submit, update and delete
+    bool public paused;
+
+    // Highest rating accepted by this instance (MIN_RATING..ratingScale, at most MAX_RATING)
+    uint32 public ratingScale;
+
+    // Set once configured, by the constructor or by initialize() on a factory clone
+    bool internal _initialized;
+
+    // Minimum respondent counts (k-anonymity) before an aggregate can be decrypted
+    uint32 public defaultMinRespondents; // Applies to subjects without an explicit threshold
+    uint32 public globalMinRespondents; // Applies to the global aggregate
+    mapping(bytes32 => uint32) internal _subjectMinRespondents; // Per-subject threshold override
+
+    // Subject registry
+    mapping(bytes32 => Subject) internal _subjects; // Subject by name hash
+    bytes32[] internal _subjectHashes; // Subject hashes by ID (ID N is stored at index N - 1)
+
+    // Survey campaigns (campaign N is stored at index N - 1)
+    Campaign[] internal _campaigns;
+
+    // Rating entry storage
+    mapping(uint256 => RatingEntry) internal _ratingEntries; // Entries by ID, readable through the gated entry views
+    uint256 internal _entryCount; // Total entry count, deleted entries included
+
+    // User management
+    mapping(address => bool) internal _hasSubmitted; // Whether the user has an active rating of any subject
+    mapping(address => mapping(bytes32 => uint256)) internal _userSubjectEntryId; // User's entry ID per subject
+
+    // Encrypted aggregate data. Ratings are widened into the sums: a rating sum holds at most 10 per entry and fits
+    // 32 bits, while sums of squares grow ten times faster and are kept in 64 bits so they cannot wrap
+    mapping(bytes32 => euint32) internal _encryptedRatingSum; // Encrypted sum per subject
+    mapping(bytes32 => euint64) internal _encryptedSquareSum; // Encrypted sum of squared ratings per subject
+    mapping(bytes32 => uint32) internal _subjectEntryCount; // Active entry count per subject, rejected ratings included
+    mapping(bytes32 => euint32[HISTOGRAM_BUCKETS]) internal _encryptedHistogram; // Encrypted histogram per subject
+
+    // Global statistics
+    euint32 internal _encryptedGlobalSum; // Encrypted sum of all ratings
+    euint64 internal _encryptedGlobalSquareSum; // Encrypted sum of all squared ratings
+    uint32 internal _globalEntryCount; // Total active entry count, rejected ratings included
+
+    // Decrypted statistical results (one snapshot per completed decryption, snapshot N is stored at index N - 1)
+    mapping(bytes32 => StatsSnapshot[]) internal _subjectSnapshots; // Subject snapshots
+    mapping(uint256 => StatsRequest) internal _subjectStatsRequest; // Track subject stats requests
+
+    StatsSnapshot[] internal _globalSnapshots; // Global snapshots
+    mapping(uint256 => uint32) internal _globalStatsRequest; // Noise bound + 1 per pending global request (0 = none)
+
+    mapping(bytes32 => HistogramSnapshot) internal _subjectHistograms; // Latest published histogram per subject
+    mapping(uint256 => StatsRequest) internal _histogramRequest; // Track histogram requests
+
+    // Next EIP-712 nonce per respondent; each relayed submission or update consumes one
+    mapping(address => uint256) public nonces;
+
+    // Anonymity mode: entries are keyed by nullifiers derived from public member keys and store no address
+    bool public anonymousMode;
+    mapping(bytes32 => uint256) internal _nullifierEntryId; // Entry ID + 1 per used nullifier (0 = unused)
+
+    // Merkle root of the addresses allowed to rate each subject (0 = anyone may rate)
+    mapping(bytes32 => bytes32) internal _eligibilityRoots;
+
+    // IRatingEligibility module consulted for each subject (0 = none)
+    mapping(bytes32 => address) internal _eligibilityModules;
+
+    // Respondent segments (e.g. departments); a respondent in segment N submits the encrypted value N
+    string[] internal _segments;
+    mapping(uint256 => euint8) internal _entrySegments; // Encrypted segment per entry (uninitialized = none given)
+    mapping(bytes32 => euint32[MAX_SEGMENTS]) internal _encryptedSegmentSum; // Encrypted sum per segment
+    mapping(bytes32 => euint32[MAX_SEGMENTS]) internal _encryptedSegmentCount; // Encrypted count per segment
+    mapping(bytes32 => SegmentSnapshot) internal _segmentStats; // Latest published segment statistics per subject
+    mapping(uint256 => bytes32) internal _segmentStatsRequest; // Subject of each segment statistics request
+
+    // Differential-privacy noise: bounded encrypted random noise added to sums before decryption
+    mapping(bytes32 => uint32) internal _noiseScales; // Noise bound per subject (0 = exact results)
+    mapping(bytes32 => uint256) internal _noisyRequests; // Noisy results requested per subject (at most NOISE_BUDGET)
+    uint32 internal _globalNoiseScale; // Largest noise bound any subject was given, applied to the global sums
+    uint32 internal _globalNoisyRequests; // Noisy global results requested (at most NOISE_BUDGET)
+
+    // Threshold alerts: only whether a subject's average is below a configured value is ever decrypted
+    mapping(bytes32 => uint32) internal _alertThresholds; // Threshold per subject, scaled by STATS_PRECISION (0 = none)
+    mapping(bytes32 => AlertSnapshot) internal _alerts; // Latest published alert result per subject
+    mapping(uint256 => AlertRequest) internal _alertRequest; // Pending alert decryptions
+
+    // Confidential rankings: only pairwise comparison bits between subject averages are ever decrypted
+    Ranking[] internal _rankings; // Published rankings
+    mapping(uint256 => string[]) internal _rankingRequest; // Subjects of each pending ranking decryption
+
+    // Private counts: the plaintext entry counts are not kept, only the encrypted counts of accepted ratings, which
+    // are kept in either mode and only decrypted together with the sums they belong to
+    bool public privateCounts;
+    euint32 internal _encryptedGlobalCount; // Encrypted count of active, accepted ratings
+    mapping(bytes32 => euint32) internal _encryptedSubjectCount; // Same, per subject
+
+    // Entry indexes behind the paginated views; deleted entries stay listed with isActive unset
+    mapping(bytes32 => uint256[]) internal _subjectEntryIds; // Entry IDs per current subject (empty: private counts)
+    mapping(uint256 => uint256) internal _subjectEntryPosition; // Index of each entry in its subject's list
+    mapping(address => uint256[]) internal _submitterEntryIds; // Entry IDs per submitter (anonymous entries excluded)
+
+    // Batched statistics: global and subject sums decrypted together in a single request
+    mapping(uint256 => BatchStatsRequest) internal _batchStatsRequest; // Pending requestAllStats decryptions
+
+    // Campaign deadlines: questionnaires close at a fixed time, after which anyone can publish the final results
+    mapping(uint256 => uint256) internal _campaignClosesAt; // Closing timestamp per campaign ID (0 = no deadline)
+    mapping(uint256 => bool) internal _campaignResultsRequested; // Whether a campaign's final results were requested
+    mapping(bytes32 => uint256[]) internal _subjectCampaignIds; // Campaigns asking each subject, closing it
+
+    // Merkle root of the member keys allowed to rate anonymously (0 = no members yet)
+    bytes32 public anonymousMembersRoot;
+
+    mapping(address => uint256) internal _activeEntryCounts; // Active entries per submitter, behind _hasSubmitted
+
+    // Republishing limit: accepted ratings added to or removed from each aggregate since its last released result.
+    // A result is only released once this reaches the respondent threshold again, so no single rating can be read
+    // back from the difference between two results
+    mapping(bytes32 => euint32) internal _encryptedSubjectChanges; // Per subject, across every kind of result
+    euint32 internal _encryptedGlobalChanges; // Global aggregates
+
+    // Sums and counts of the last released statistics, the only aggregates shared through ACL grants
+    mapping(bytes32 => euint32) internal _releasedSubjectSum;
+    mapping(bytes32 => euint32) internal _releasedSubjectCount;
+    euint32 internal _releasedGlobalSum;
+    euint32 internal _releasedGlobalCount;
+
+    // Events. Rating events leave the subject out, and with private counts they are not emitted at all, since
+    // their entry IDs and submitters would count and attribute the ratings
+    event RatingSubmitted(uint256 indexed entryId, address indexed submitter, uint256 timestamp);
+    event AnonymousRatingSubmitted(uint256 indexed entryId, bytes32 indexed nullifier, uint256 timestamp);
+    event RatingUpdated(uint256 indexed entryId, address indexed submitter);
+    event RatingDeleted(uint256 indexed entryId, address indexed submitter);
+    event SubjectStatsRequested(bytes32 indexed subjectHash, uint256 requestId);
+    event SubjectStatsPublished(
+        bytes32 indexed subjectHash,
+        uint256 indexed snapshotId,
+        uint32 averageRating,
+        uint32 count,
+        uint32 stdDev
+    );
+    event GlobalStatsRequested(uint256 requestId);
+    event GlobalStatsPublished(uint256 indexed snapshotId, uint32 averageRating, uint32 totalCount, uint32 stdDev);
+    event SubjectHistogramRequested(bytes32 indexed subjectHash, uint256 requestId);
+    event SubjectHistogramPublished(bytes32 indexed subjectHash, uint32[HISTOGRAM_BUCKETS] buckets, uint32 count);
+    event SubjectHistogramWithheld(bytes32 indexed subjectHash, uint256 requestId);
+    event SubjectRegistered(bytes32 indexed subjectHash, uint256 indexed subjectId, string name);
+    event SubjectUpdated(bytes32 indexed subjectHash, uint256 opensAt, uint256 closesAt);
+    event SubjectStatusChanged(bytes32 indexed subjectHash, SubjectStatus status);
+    event CampaignCreated(uint256 indexed campaignId, string name, uint256 questionCount);
+    event CampaignSubmitted(uint256 indexed campaignId, address indexed respondent);
+    event SubjectMinRespondentsUpdated(bytes32 indexed subjectHash, uint32 minRespondents);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event DecryptionAccessGranted(address indexed user, address indexed sender);
+    event AnonymousModeUpdated(bool enabled);
+    event AnonymousMembersRootUpdated(bytes32 root);
+    event EligibilityRootUpdated(bytes32 indexed subjectHash, bytes32 root);
+    event EligibilityModuleUpdated(bytes32 indexed subjectHash, address module);
+    event SegmentsConfigured(string[] names);
+    event NoiseScaleUpdated(bytes32 indexed subjectHash, uint32 noiseScale);
+    event AlertThresholdUpdated(bytes32 indexed subjectHash, uint32 threshold);
+    event ThresholdAlertRequested(bytes32 indexed subjectHash, uint256 requestId);
+    event SubjectBelowThreshold(bytes32 indexed subjectHash, uint32 threshold, bool below);
+    event ThresholdAlertWithheld(bytes32 indexed subjectHash, uint256 requestId);
+    event RankingRequested(uint256 requestId, uint256 subjectCount);
+    event RankingPublished(uint256 indexed rankingId, string[] subjects);
+    event RankingWithheld(uint256 requestId);
+    event PrivateCountsUpdated(bool enabled);
+    event SubjectStatsWithheld(bytes32 indexed subjectHash, uint256 requestId);
+    event GlobalStatsWithheld(uint256 requestId);
+    event SegmentStatsRequested(bytes32 indexed subjectHash, uint256 requestId);
+    event SegmentStatsPublished(
+        bytes32 indexed subjectHash,
+        uint32[MAX_SEGMENTS] averages,
+        uint32[MAX_SEGMENTS] counts
+    );
+    event AllStatsRequested(uint256 requestId, uint256 subjectCount);
+    event AllStatsPublished(
+        uint256 indexed requestId,
+        uint32 globalAverage,
+        uint32 globalCount,
+        bytes32[] subjectHashes,
+        uint32[] averages,
+        uint32[] counts
+    );
+    event CampaignDeadlineUpdated(uint256 indexed campaignId, uint256 closesAt);
+    event CampaignResultsRequested(uint256 indexed campaignId, uint256 requestId);
+    event CampaignResultsPublished(uint256 indexed campaignId, uint256 requestId);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Caller is not the owner");
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        require(hasRole(role, msg.sender), "Caller is missing role");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused, "Contract is paused");
+        _;
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role Role identifier (ADMIN_ROLE, MODERATOR_ROLE or AUDITOR_ROLE)
+    /// @param account Account to check
+    /// @return True if the account was granted the role or is the owner
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return account == owner || _roles[role][account];
+    }
+
+    /// @notice Add a subject to the registry in Draft status
+    /// @return subjectHash Hash of the subject name
+    function _registerSubject(
+        string memory name,
+        string memory description,
+        uint256 opensAt,
+        uint256 closesAt
+    ) internal returns (bytes32 subjectHash) {
+        require(bytes(name).length > 0, "Subject cannot be empty");
+        require(bytes(name).length <= 100, "Subject too long");
+        require(closesAt == 0 || closesAt > opensAt, "Invalid schedule");
+        subjectHash = keccak256(bytes(name));
+        require(_subjects[subjectHash].id == 0, "Subject already registered");
+
+        _subjectHashes.push(subjectHash);
+        uint256 subjectId = _subjectHashes.length;
+        _subjects[subjectHash] = Subject({
+            id: subjectId,
+            name: name,
+            description: description,
+            opensAt: opensAt,
+            closesAt: closesAt,
+            status: SubjectStatus.Draft
+        });
+
+        emit SubjectRegistered(subjectHash, subjectId, name);
+    }
+
+    /// @notice Minimum respondent count for a subject, falling back to the deployment default
+    function _minRespondents(bytes32 subjectHash) internal view returns (uint32) {
+        uint32 threshold = _subjectMinRespondents[subjectHash];
+        return threshold == 0 ? defaultMinRespondents : threshold;
+    }
+
+    /// @notice Whether a subject is in Open status and within its open/close window
+    function _isOpen(Subject storage info) internal view returns (bool) {
+        return
+            info.status == SubjectStatus.Open &&
+            block.timestamp >= info.opensAt &&
+            (info.closesAt == 0 || block.timestamp < info.closesAt);
+    }
+
+    /// @notice Whether no campaign asking a subject has passed its deadline
+    /// @dev Loops over the subject's campaigns, which admins create, so the cost grows with campaigns reusing a subject
+    function _campaignsOpen(bytes32 subjectHash) internal view returns (bool) {
+        uint256[] storage campaignIds = _subjectCampaignIds[subjectHash];
+        for (uint256 i = 0; i < campaignIds.length; i++) {
+            uint256 closesAt = _campaignClosesAt[campaignIds[i]];
+            if (closesAt != 0 && block.timestamp >= closesAt) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /// @notice Whether a user has an active address-keyed entry for a subject
+    /// @dev Unused lookups return entry 0, and a rating moved to another subject leaves its old lookup behind, so
+    /// the entry must also belong to the user and still be about the subject
+    function _hasSubmittedFor(address user, bytes32 subjectHash) internal view returns (bool) {
+        RatingEntry storage entry = _ratingEntries[_userSubjectEntryId[user][subjectHash]];
+        return entry.isActive && entry.submitter == user && keccak256(bytes(entry.subject)) == subjectHash;
+    }
+
+    /// @notice Whether the subject's eligibility module and Merkle allowlist, if set, both accept an account
+    function _isEligible(
+        bytes32 subjectHash,
+        address account,
+        bytes32[] calldata eligibilityProof
+    ) internal view returns (bool) {
+        address module = _eligibilityModules[subjectHash];
+        if (module != address(0) && !IRatingEligibility(module).isEligible(account, subjectHash)) return false;
+
+        bytes32 root = _eligibilityRoots[subjectHash];
+        return root == bytes32(0) || _isMember(root, account, eligibilityProof);
+    }
+
+    /// @notice Whether a Merkle proof places an account in the tree with the given root
+    function _isMember(bytes32 root, address account, bytes32[] calldata proof) internal pure returns (bool) {
+        // Leaves are double-hashed so no inner node can pass for a leaf
+        bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            node =
+                node < sibling
+                    ? keccak256(abi.encodePacked(node, sibling))
+                    : keccak256(abi.encodePacked(sibling, node));
+        }
+        return node == root;
+    }
+
+    /// @notice EIP-712 domain separator, computed from address(this) so every factory clone has its own domain
+    function _domainSeparator() internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                    keccak256("EncryptedRatingSystem"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+}
@@ -0,0 +1,626 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32, euint64, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {RatingStorage} from "./RatingStorage.sol";
+
+/// @title RatingSubmissionModule - Rating submission, update and deletion for EncryptedRatingSystem
+/// @author crypt-seal-vault
+/// @notice Records encrypted ratings and keeps the encrypted aggregates in step with them
+/// @dev Delegatecalled by EncryptedRatingSystem like the other modules, so entries and aggregates are stored in the
+/// rating instance, FHE handles are owned by its address and input proofs are checked against the original sender.
+contract RatingSubmissionModule is RatingStorage {
+    /// @notice Submit new rating entry (each address can submit one rating per subject)
+    /// @param encryptedRating Encrypted rating value (1-10)
+    /// @param inputProof Input proof for encrypted rating
+    /// @param subject Subject being rated (e.g., "Leadership", "Team Performance")
+    /// @param eligibilityProof Merkle proof that the caller is on the subject's allowlist (empty if it has none)
+    function submitRating(
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        string memory subject,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        require(bytes(subject).length <= 100, "Subject too long");
+
+        _recordRating(msg.sender, subject, FHE.fromExternal(encryptedRating, inputProof), eligibilityProof);
+    }
+
+    /// @notice Submit a rating signed by a respondent, with the caller (a relayer) paying the gas
+    /// @dev The encrypted input must be created for the caller, since input proofs are bound to msg.sender.
+    /// The entry, its decryption rights and the one-rating-per-subject rule belong to the respondent.
+    /// @param respondent Account that signed the SubmitRating message
+    /// @param encryptedRating Encrypted rating value (1-10)
+    /// @param inputProof Input proof for encrypted rating
+    /// @param subject Subject being rated
+    /// @param deadline Timestamp after which the signature is no longer accepted
+    /// @param signature Respondent's EIP-712 signature
+    /// @param eligibilityProof Merkle proof that the respondent is on the subject's allowlist (empty if it has none)
+    function submitRatingFor(
+        address respondent,
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        string calldata subject,
+        uint256 deadline,
+        bytes calldata signature,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused {
+        require(bytes(subject).length > 0, "Subject cannot be empty");
+        require(bytes(subject).length <= 100, "Subject too long");
+        bytes32 structHash = _hashRating(
+            SUBMIT_RATING_TYPEHASH,
+            respondent,
+            encryptedRating,
+            keccak256(inputProof),
+            keccak256(bytes(subject)),
+            deadline
+        );
+        _useSignature(respondent, structHash, deadline, signature);
+
+        _recordRating(respondent, subject, FHE.fromExternal(encryptedRating, inputProof), eligibilityProof);
+    }
+
+    /// @notice Submit a rating under a registered member key instead of an address (anonymity mode only)
+    /// @dev Neither the entry nor the event records the respondent's address, and nobody but the contract can
+    /// decrypt the rating. Ratings are signed by a member key: a key derived from a secret only the respondent knows,
+    /// whose address the admins published in anonymousMembersRoot. The nullifier is derived from the member key and
+    /// the subject, so each member rates a subject at most once. Anonymity mode is pseudonymous, not unlinkable: the
+    /// member key is public in the call and the nullifier can be recomputed by anyone holding the published member
+    /// list, so every anonymous rating is tied to its member key, and to the respondent by whoever registered the
+    /// member keys. Only the wallet address is kept off chain, and only if a relayer sends the transaction.
+    /// Anonymous entries cannot be updated or deleted, and subjects with an allowlist or eligibility module do not
+    /// accept them, since proving eligibility would reveal the respondent's address.
+    /// @param member Address of the member key that signed the rating
+    /// @param nullifier getAnonymousNullifier(member, subject); each nullifier can be used once
+    /// @param encryptedRating Encrypted rating value (1-10)
+    /// @param inputProof Input proof for encrypted rating
+    /// @param subject Subject being rated
+    /// @param membershipProof Merkle proof of the member key against anonymousMembersRoot
+    /// @param signature Member key's EIP-712 AnonymousRating signature over the nullifier and encrypted rating
+    function submitAnonymousRating(
+        address member,
+        bytes32 nullifier,
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        string calldata subject,
+        bytes32[] calldata membershipProof,
+        bytes calldata signature
+    ) external whenNotPaused {
+        require(anonymousMode, "Anonymous mode is off");
+        require(
+            anonymousMembersRoot != bytes32(0) && _isMember(anonymousMembersRoot, member, membershipProof),
+            "Not a registered member"
+        );
+        bytes32 subjectHash = keccak256(bytes(subject));
+        require(nullifier == keccak256(abi.encode(member, subjectHash)), "Invalid nullifier");
+        require(_nullifierEntryId[nullifier] == 0, "Nullifier already used");
+        _requireOpen(subjectHash);
+        require(
+            _eligibilityRoots[subjectHash] == bytes32(0) && _eligibilityModules[subjectHash] == address(0),
+            "Subject requires an eligibility proof"
+        );
+        _checkMemberSignature(member, nullifier, encryptedRating, inputProof, signature);
+
+        (uint256 entryId, , ) = _storeEntry(
+            address(0),
+            subject,
+            subjectHash,
+            FHE.fromExternal(encryptedRating, inputProof)
+        );
+        _nullifierEntryId[nullifier] = entryId + 1;
+
+        if (!privateCounts) emit AnonymousRatingSubmitted(entryId, nullifier, block.timestamp);
+    }
+
+    /// @notice Submit a rating together with the respondent's encrypted segment (e.g. their department)
+    /// @dev The segment is never decrypted; it only steers the rating into the subject's per-segment aggregates.
+    /// A value outside the configured segments counts towards the subject but no segment. The segment stays with
+    /// the entry, so updates and deletions move the segment aggregates as well.
+    /// @param encryptedRating Encrypted rating value (1-10)
+    /// @param encryptedSegment Encrypted segment index (position in getSegments())
+    /// @param inputProof Input proof covering both values
+    /// @param subject Subject being rated
+    /// @param eligibilityProof Merkle proof that the caller is on the subject's allowlist (empty if it has none)
+    function submitSegmentedRating(
+        externalEuint8 encryptedRating,
+        externalEuint8 encryptedSegment,
+        bytes calldata inputProof,
+        string calldata subject,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused {
+        require(_segments.length > 0, "No segments configured");
+
+        uint256 entryId = _recordRating(
+            msg.sender,
+            subject,
+            FHE.fromExternal(encryptedRating, inputProof),
+            eligibilityProof
+        );
+        euint8 segment = FHE.fromExternal(encryptedSegment, inputProof);
+        _entrySegments[entryId] = segment;
+        FHE.allowThis(segment);
+        FHE.allow(segment, msg.sender);
+
+        RatingEntry storage entry = _ratingEntries[entryId];
+        _moveSegmentAggregates(keccak256(bytes(subject)), entry.encryptedRating, entry.isRejected, segment, true);
+    }
+
+    /// @notice Answer every question of a campaign in one transaction
+    /// @dev All answers come from a single encrypted input, so one proof covers them.
+    /// Each answer is recorded as a rating of the question's subject. Closes at the campaign's deadline, if any.
+    /// @param campaignId Campaign ID (1-based, as emitted in CampaignCreated)
+    /// @param encryptedAnswers Encrypted answers (1-10), in question order
+    /// @param inputProof Input proof covering all answers
+    /// @param eligibilityProof Merkle proof checked against every question's allowlist (empty if none has one)
+    function submitCampaign(
+        uint256 campaignId,
+        externalEuint8[] calldata encryptedAnswers,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused {
+        require(campaignId > 0 && campaignId <= _campaigns.length, "Unknown campaign");
+        uint256 closesAt = _campaignClosesAt[campaignId];
+        require(closesAt == 0 || block.timestamp < closesAt, "Campaign is closed");
+        string[] storage questions = _campaigns[campaignId - 1].questions;
+        require(encryptedAnswers.length == questions.length, "Answer count mismatch");
+
+        for (uint256 i = 0; i < questions.length; i++) {
+            _recordRating(
+                msg.sender,
+                questions[i],
+                FHE.fromExternal(encryptedAnswers[i], inputProof),
+                eligibilityProof
+            );
+        }
+
+        if (!privateCounts) emit CampaignSubmitted(campaignId, msg.sender);
+    }
+
+    /// @notice Update the caller's rating of a subject (only callable by original submitter)
+    /// @dev The entry is found through _userSubjectEntryId, so the cost does not grow with the number of entries
+    /// @param subject Subject of the rating to update
+    /// @param encryptedRating New encrypted rating value (1-10)
+    /// @param inputProof Input proof for encrypted rating
+    /// @param newSubject New subject (can be same or different)
+    function updateRating(
+        string memory subject,
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        string memory newSubject
+    ) external whenNotPaused {
+        _updateRating(msg.sender, subject, FHE.fromExternal(encryptedRating, inputProof), newSubject);
+    }
+
+    /// @notice Update a rating as signed by its respondent, with the caller (a relayer) paying the gas
+    /// @dev As with submitRatingFor(), the encrypted input must be created for the caller
+    /// @param respondent Account that signed the UpdateRating message
+    /// @param subject Subject of the rating to update
+    /// @param encryptedRating New encrypted rating value (1-10)
+    /// @param inputProof Input proof for encrypted rating
+    /// @param newSubject New subject (can be same or different)
+    /// @param deadline Timestamp after which the signature is no longer accepted
+    /// @param signature Respondent's EIP-712 signature
+    function updateRatingFor(
+        address respondent,
+        string calldata subject,
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        string calldata newSubject,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused {
+        bytes32 structHash = _hashUpdate(
+            respondent,
+            keccak256(bytes(subject)),
+            encryptedRating,
+            keccak256(inputProof),
+            keccak256(bytes(newSubject)),
+            deadline
+        );
+        _useSignature(respondent, structHash, deadline, signature);
+
+        _updateRating(respondent, subject, FHE.fromExternal(encryptedRating, inputProof), newSubject);
+    }
+
+    /// @notice Delete the caller's rating of a subject (only callable by original submitter)
+    /// @dev Like updateRating(), costs the same however many entries exist
+    /// @param subject Subject of the rating to delete
+    function deleteRating(string memory subject) external whenNotPaused {
+        bytes32 subjectHash = keccak256(bytes(subject));
+        uint256 entryId = _activeEntryOf(msg.sender, subjectHash);
+        RatingEntry storage entry = _ratingEntries[entryId];
+
+        // Remove from aggregate data (results of closed subjects are final)
+        _requireOpen(subjectHash);
+        _moveAggregates(subjectHash, entry.encryptedRating, entry.isRejected, false);
+        if (FHE.isInitialized(_entrySegments[entryId])) {
+            _moveSegmentAggregates(
+                subjectHash,
+                entry.encryptedRating,
+                entry.isRejected,
+                _entrySegments[entryId],
+                false
+            );
+        }
+
+        entry.isActive = false;
+        _hasSubmitted[msg.sender] = --_activeEntryCounts[msg.sender] > 0;
+
+        // Allow user to decrypt updated aggregate data (once enough respondents are in)
+        _allowAggregates(subjectHash, msg.sender);
+
+        if (!privateCounts) emit RatingDeleted(entryId, msg.sender);
+    }
+
+    /// @notice Store a new rating entry for a respondent and add it to the subject and global aggregates
+    /// @param respondent Account the entry belongs to
+    /// @param subject Registered subject being rated
+    /// @param submitted Encrypted rating as submitted (sanitized here)
+    /// @param eligibilityProof Merkle proof for the subject's allowlist, if it has one
+    function _recordRating(
+        address respondent,
+        string memory subject,
+        euint8 submitted,
+        bytes32[] calldata eligibilityProof
+    ) private returns (uint256 entryId) {
+        require(!anonymousMode, "Anonymous mode is on");
+        bytes32 subjectHash = keccak256(bytes(subject));
+        _requireOpen(subjectHash);
+        require(_isEligible(subjectHash, respondent, eligibilityProof), "Not eligible for this subject");
+        require(!_hasSubmittedFor(respondent, subjectHash), "Already submitted for this subject");
+
+        euint8 rating;
+        ebool rejected;
+        (entryId, rating, rejected) = _storeEntry(respondent, subject, subjectHash, submitted);
+
+        _hasSubmitted[respondent] = true; // Track that user has submitted at least one rating
+        _activeEntryCounts[respondent]++;
+        _userSubjectEntryId[respondent][subjectHash] = entryId;
+
+        // Set permissions
+        FHE.allow(rating, respondent);
+        FHE.allow(rejected, respondent);
+
+        // Allow user to decrypt aggregate data (once enough respondents are in)
+        _allowAggregates(subjectHash, respondent);
+
+        if (!privateCounts) emit RatingSubmitted(entryId, respondent, block.timestamp);
+    }
+
+    /// @notice Sanitize a rating, store it as a new entry and add it to the subject and global aggregates
+    /// @param submitter Address stored with the entry (zero for anonymous entries)
+    /// @return entryId ID of the new entry
+    /// @return rating Sanitized encrypted rating, accessible to the contract only
+    /// @return rejected Encrypted rejection flag, accessible to the contract only
+    function _storeEntry(
+        address submitter,
+        string memory subject,
+        bytes32 subjectHash,
+        euint8 submitted
+    ) private returns (uint256 entryId, euint8 rating, ebool rejected) {
+        // Out-of-range ratings are zeroed homomorphically so they never reach the sums
+        (rating, rejected) = _sanitizeRating(submitted);
+
+        entryId = _entryCount++;
+        _ratingEntries[entryId] = RatingEntry({
+            submitter: submitter,
+            subject: subject,
+            encryptedRating: rating,
+            isRejected: rejected,
+            timestamp: block.timestamp,
+            isActive: true
+        });
+
+        // Index the entry for the paginated views; with private counts no list may grow per subject
+        if (!privateCounts) {
+            _subjectEntryPosition[entryId] = _subjectEntryIds[subjectHash].length;
+            _subjectEntryIds[subjectHash].push(entryId);
+        }
+        if (submitter != address(0)) {
+            _submitterEntryIds[submitter].push(entryId);
+        }
+
+        // Update subject and global aggregates
+        _moveAggregates(subjectHash, rating, rejected, true);
+
+        FHE.allowThis(rating);
+        FHE.allowThis(rejected);
+    }
+
+    /// @notice Replace a respondent's active entry for a subject and move it between the subject aggregates
+    /// @param respondent Owner of the entry
+    /// @param subject Subject of the entry to replace
+    /// @param submitted Encrypted rating as submitted (sanitized here)
+    /// @param newSubject New subject (can be same or different)
+    function _updateRating(
+        address respondent,
+        string memory subject,
+        euint8 submitted,
+        string memory newSubject
+    ) private {
+        require(bytes(newSubject).length > 0, "Subject cannot be empty");
+        require(bytes(newSubject).length <= 100, "Subject too long");
+        bytes32 oldSubjectHash = keccak256(bytes(subject));
+        bytes32 newSubjectHash = keccak256(bytes(newSubject));
+        uint256 entryId = _activeEntryOf(respondent, oldSubjectHash);
+        if (newSubjectHash != oldSubjectHash) {
+            require(!_hasSubmittedFor(respondent, newSubjectHash), "Already submitted for this subject");
+            delete _userSubjectEntryId[respondent][oldSubjectHash];
+            _userSubjectEntryId[respondent][newSubjectHash] = entryId;
+            if (!privateCounts) {
+                _moveEntryIndex(entryId, oldSubjectHash, newSubjectHash);
+            }
+        }
+
+        RatingEntry storage entry = _ratingEntries[entryId];
+        (euint8 newRating, ebool rejected) = _sanitizeRating(submitted);
+
+        // Ratings can only move between subjects that are both still open
+        _requireOpen(oldSubjectHash);
+        _requireOpen(newSubjectHash);
+        // Eligibility was proven at submission, so ratings only move between subjects sharing an allowlist
+        require(
+            _eligibilityRoots[newSubjectHash] == _eligibilityRoots[oldSubjectHash] &&
+                _eligibilityModules[newSubjectHash] == _eligibilityModules[oldSubjectHash],
+            "Not eligible for this subject"
+        );
+
+        // Move the rating from the old subject's aggregates to the new one's
+        _moveAggregates(oldSubjectHash, entry.encryptedRating, entry.isRejected, false);
+        _moveAggregates(newSubjectHash, newRating, rejected, true);
+        if (FHE.isInitialized(_entrySegments[entryId])) {
+            euint8 segment = _entrySegments[entryId];
+            _moveSegmentAggregates(oldSubjectHash, entry.encryptedRating, entry.isRejected, segment, false);
+            _moveSegmentAggregates(newSubjectHash, newRating, rejected, segment, true);
+        }
+
+        // Update entry - ensure atomic update
+        entry.encryptedRating = newRating;
+        entry.isRejected = rejected;
+        entry.subject = newSubject;
+        entry.timestamp = block.timestamp;
+
+        // Update permissions
+        FHE.allowThis(newRating);
+        FHE.allow(newRating, respondent);
+        FHE.allowThis(rejected);
+        FHE.allow(rejected, respondent);
+
+        // Allow user to decrypt aggregate data (once enough respondents are in)
+        _allowAggregates(newSubjectHash, respondent);
+
+        if (!privateCounts) emit RatingUpdated(entryId, respondent);
+    }
+
+    /// @notice Move an entry from one subject's entry list to another's
+    /// @dev Swaps the last entry of the old list into the vacated slot, so that list's order changes
+    function _moveEntryIndex(uint256 entryId, bytes32 oldSubjectHash, bytes32 newSubjectHash) private {
+        uint256[] storage oldIds = _subjectEntryIds[oldSubjectHash];
+        uint256 position = _subjectEntryPosition[entryId];
+        uint256 lastId = oldIds[oldIds.length - 1];
+        oldIds[position] = lastId;
+        _subjectEntryPosition[lastId] = position;
+        oldIds.pop();
+
+        _subjectEntryPosition[entryId] = _subjectEntryIds[newSubjectHash].length;
+        _subjectEntryIds[newSubjectHash].push(entryId);
+    }
+
+    /// @notice ID of a respondent's active address-keyed entry for a subject, reverting if there is none
+    function _activeEntryOf(address respondent, bytes32 subjectHash) private view returns (uint256) {
+        require(_hasSubmittedFor(respondent, subjectHash), "No active entry found");
+        return _userSubjectEntryId[respondent][subjectHash];
+    }
+
+    /// @notice Revert unless the subject is registered and currently accepts ratings
+    function _requireOpen(bytes32 subjectHash) private view {
+        Subject storage info = _subjects[subjectHash];
+        require(info.id != 0, "Unknown subject");
+        require(_isOpen(info), "Subject is not open");
+        require(_campaignsOpen(subjectHash), "Campaign is closed");
+    }
+
+    /// @notice EIP-712 struct hash of a relayed rating, bound to the respondent's current nonce
+    function _hashRating(
+        bytes32 typeHash,
+        address respondent,
+        externalEuint8 encryptedRating,
+        bytes32 inputProofHash,
+        bytes32 subjectHash,
+        uint256 deadline
+    ) private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    typeHash,
+                    respondent,
+                    encryptedRating,
+                    inputProofHash,
+                    subjectHash,
+                    nonces[respondent],
+                    deadline
+                )
+            );
+    }
+
+    /// @notice EIP-712 struct hash of a relayed update, which also names the subject of the rating it replaces
+    function _hashUpdate(
+        address respondent,
+        bytes32 subjectHash,
+        externalEuint8 encryptedRating,
+        bytes32 inputProofHash,
+        bytes32 newSubjectHash,
+        uint256 deadline
+    ) private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    UPDATE_RATING_TYPEHASH,
+                    respondent,
+                    subjectHash,
+                    encryptedRating,
+                    inputProofHash,
+                    newSubjectHash,
+                    nonces[respondent],
+                    deadline
+                )
+            );
+    }
+
+    /// @notice Check a respondent's EIP-712 signature over structHash and consume their nonce
+    function _useSignature(address respondent, bytes32 structHash, uint256 deadline, bytes calldata signature) private {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash));
+        require(respondent != address(0) && _recover(digest, signature) == respondent, "Invalid signature");
+        nonces[respondent]++;
+    }
+
+    /// @notice Require the member key's EIP-712 signature of an anonymous rating
+    /// @dev No nonce is needed: the nullifier can only be used once
+    function _checkMemberSignature(
+        address member,
+        bytes32 nullifier,
+        externalEuint8 encryptedRating,
+        bytes calldata inputProof,
+        bytes calldata signature
+    ) private view {
+        bytes32 structHash = keccak256(
+            abi.encode(ANONYMOUS_RATING_TYPEHASH, nullifier, encryptedRating, keccak256(inputProof))
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash));
+        require(_recover(digest, signature) == member, "Invalid signature");
+    }
+
+    /// @notice Signer of a 65-byte (r, s, v) signature, or the zero address if it is malformed
+    /// @dev Rejects upper-range s values so a signature cannot be replayed in its malleable form
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+        return ecrecover(digest, uint8(signature[64]), r, s);
+    }
+
+    /// @notice Grant a user access to the subject and global sums of their last released statistics
+    /// @dev Only released sums are shared, which met the respondent threshold and republishing limit homomorphically
+    /// when they were sent for decryption, so a grant reveals nothing a published snapshot did not. Each sum is
+    /// shared with its encrypted count of accepted ratings. Noisy subjects never release an exact sum, nor does the
+    /// global aggregate once any subject has noise. With private counts no sum is shared at all.
+    function _allowAggregates(bytes32 subjectHash, address user) private {
+        if (privateCounts) return;
+        if (FHE.isInitialized(_releasedSubjectSum[subjectHash]) && _noiseScales[subjectHash] == 0) {
+            FHE.allow(_releasedSubjectSum[subjectHash], user);
+            FHE.allow(_releasedSubjectCount[subjectHash], user);
+        }
+        if (FHE.isInitialized(_releasedGlobalSum) && _globalNoiseScale == 0) {
+            FHE.allow(_releasedGlobalSum, user);
+            FHE.allow(_releasedGlobalCount, user);
+        }
+    }
+
+    /// @notice Add a rating to, or remove it from, the subject and global aggregates without decrypting it
+    /// @dev Moves the sums, sums of squares, entry counts and histogram together and re-grants the contract access.
+    /// The square of a rating (at most 100) is computed on 8 bits; both values are then cast to their sum's width.
+    /// A rejected rating is zeroed, so it only moves the plaintext entry counts, never the sums or the encrypted
+    /// counts of accepted ratings that averages and thresholds are computed from.
+    function _moveAggregates(bytes32 subjectHash, euint8 rating, ebool rejected, bool increment) private {
+        euint32 value = FHE.asEuint32(rating);
+        euint64 squared = FHE.asEuint64(FHE.mul(rating, rating));
+        if (increment) {
+            _encryptedRatingSum[subjectHash] = FHE.add(_encryptedRatingSum[subjectHash], value);
+            _encryptedSquareSum[subjectHash] = FHE.add(_encryptedSquareSum[subjectHash], squared);
+            _encryptedGlobalSum = FHE.add(_encryptedGlobalSum, value);
+            _encryptedGlobalSquareSum = FHE.add(_encryptedGlobalSquareSum, squared);
+        } else {
+            _encryptedRatingSum[subjectHash] = FHE.sub(_encryptedRatingSum[subjectHash], value);
+            _encryptedSquareSum[subjectHash] = FHE.sub(_encryptedSquareSum[subjectHash], squared);
+            _encryptedGlobalSum = FHE.sub(_encryptedGlobalSum, value);
+            _encryptedGlobalSquareSum = FHE.sub(_encryptedGlobalSquareSum, squared);
+        }
+        _moveEncryptedCounts(subjectHash, FHE.asEuint32(FHE.not(rejected)), increment);
+        // Histograms would reveal the counts, so private counts leave them out
+        if (!privateCounts) {
+            if (increment) {
+                _subjectEntryCount[subjectHash]++;
+                _globalEntryCount++;
+            } else {
+                _subjectEntryCount[subjectHash]--;
+                _globalEntryCount--;
+            }
+            _updateHistogram(subjectHash, rating, increment);
+        }
+
+        FHE.allowThis(_encryptedRatingSum[subjectHash]);
+        FHE.allowThis(_encryptedSquareSum[subjectHash]);
+        FHE.allowThis(_encryptedGlobalSum);
+        FHE.allowThis(_encryptedGlobalSquareSum);
+    }
+
+    /// @notice Move the encrypted subject and global counts of accepted ratings, like FHECounter
+    /// @dev Either way the accepted rating counts as a change towards the next released result
+    /// @param accepted Encrypted 1 for an accepted rating, 0 for a rejected one
+    function _moveEncryptedCounts(bytes32 subjectHash, euint32 accepted, bool increment) private {
+        if (increment) {
+            _encryptedSubjectCount[subjectHash] = FHE.add(_encryptedSubjectCount[subjectHash], accepted);
+            _encryptedGlobalCount = FHE.add(_encryptedGlobalCount, accepted);
+        } else {
+            _encryptedSubjectCount[subjectHash] = FHE.sub(_encryptedSubjectCount[subjectHash], accepted);
+            _encryptedGlobalCount = FHE.sub(_encryptedGlobalCount, accepted);
+        }
+        _encryptedSubjectChanges[subjectHash] = FHE.add(_encryptedSubjectChanges[subjectHash], accepted);
+        _encryptedGlobalChanges = FHE.add(_encryptedGlobalChanges, accepted);
+        FHE.allowThis(_encryptedSubjectCount[subjectHash]);
+        FHE.allowThis(_encryptedGlobalCount);
+        FHE.allowThis(_encryptedSubjectChanges[subjectHash]);
+        FHE.allowThis(_encryptedGlobalChanges);
+    }
+
+    /// @notice Add a rating to, or remove it from, the subject histogram without decrypting it
+    /// @dev Each bucket moves by the encrypted FHE.eq result cast to 1 or 0 (a cast is far cheaper in HCU than
+    /// FHE.select, which matters for multi-question submissions); a zeroed rating matches no bucket
+    function _updateHistogram(bytes32 subjectHash, euint8 rating, bool increment) private {
+        euint32[HISTOGRAM_BUCKETS] storage buckets = _encryptedHistogram[subjectHash];
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            euint32 hit = FHE.asEuint32(FHE.eq(rating, uint8(MIN_RATING + i)));
+            buckets[i] = increment ? FHE.add(buckets[i], hit) : FHE.sub(buckets[i], hit);
+            FHE.allowThis(buckets[i]);
+        }
+    }
+
+    /// @notice Add a rating to, or remove it from, the sum and count of its segment without decrypting either
+    /// @dev Every configured segment is touched, and FHE.select only moves the one whose index matches, so the
+    /// transaction does not reveal which segment changed. A rejected rating moves no segment count.
+    function _moveSegmentAggregates(
+        bytes32 subjectHash,
+        euint8 rating,
+        ebool rejected,
+        euint8 segment,
+        bool increment
+    ) private {
+        euint32[MAX_SEGMENTS] storage sums = _encryptedSegmentSum[subjectHash];
+        euint32[MAX_SEGMENTS] storage counts = _encryptedSegmentCount[subjectHash];
+        euint32 value = FHE.asEuint32(rating);
+        euint32 zero = FHE.asEuint32(0);
+        ebool accepted = FHE.not(rejected);
+        for (uint256 i = 0; i < _segments.length; i++) {
+            ebool inSegment = FHE.eq(segment, uint8(i));
+            euint32 share = FHE.select(inSegment, value, zero);
+            euint32 hit = FHE.asEuint32(FHE.and(inSegment, accepted));
+            sums[i] = increment ? FHE.add(sums[i], share) : FHE.sub(sums[i], share);
+            counts[i] = increment ? FHE.add(counts[i], hit) : FHE.sub(counts[i], hit);
+            FHE.allowThis(sums[i]);
+            FHE.allowThis(counts[i]);
+        }
+    }
+
+    /// @notice Zero out a rating that falls outside MIN_RATING..ratingScale without decrypting it
+    /// @param rating Encrypted rating as submitted
+    /// @return accepted The rating if in range, otherwise an encrypted zero
+    /// @return rejected Encrypted flag, true when the rating was out of range
+    function _sanitizeRating(euint8 rating) private returns (euint8 accepted, ebool rejected) {
+        ebool inRange = FHE.and(FHE.ge(rating, uint8(MIN_RATING)), FHE.le(rating, uint8(ratingScale)));
+        accepted = FHE.select(inRange, rating, FHE.asEuint8(0));
+        rejected = FHE.not(inRange);
+    }
+}
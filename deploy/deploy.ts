@@ -3,14 +3,55 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute } = hre.deployments;
+
+  // Minimum respondents before a subject (or the global) aggregate can be decrypted
+  const minRespondents = Number(process.env.MIN_RESPONDENTS ?? 3);
+  const globalMinRespondents = Number(process.env.GLOBAL_MIN_RESPONDENTS ?? minRespondents);
+
+  // The rating system delegatecalls into these modules, which are too large to deploy from its constructor
+  const modules: string[] = [];
+  for (const name of ["RatingStatsModule", "RatingAdminModule", "RatingSubmissionModule"]) {
+    const deployedModule = await deploy(name, { from: deployer, log: true });
+    modules.push(deployedModule.address);
+  }
 
   const deployedRatingSystem = await deploy("EncryptedRatingSystem", {
     from: deployer,
+    args: [minRespondents, globalMinRespondents, ...modules],
     log: true,
   });
 
   console.log(`EncryptedRatingSystem contract: `, deployedRatingSystem.address);
+
+  // Ratings are only accepted for registered, open subjects; seed the ones the UI used to hardcode
+  if (deployedRatingSystem.newlyDeployed) {
+    const subjects = [
+      ["Leadership", "How well the team is led and supported"],
+      ["Team Performance", "How well the team delivers together"],
+      ["Customer Service", "Quality of service to customers"],
+      ["Product Quality", "Quality of what we ship"],
+      ["Work Environment", "Day-to-day working conditions"],
+      ["Company Culture", "Values and how people treat each other"],
+      ["Management", "Quality of management decisions"],
+      ["Communication", "Clarity and openness of communication"],
+      ["Innovation", "Openness to new ideas and approaches"],
+      ["Work-Life Balance", "Room for life outside work"],
+    ];
+    for (const [name, description] of subjects) {
+      await execute("EncryptedRatingSystem", { from: deployer, log: true }, "registerSubject", name, description, 0, 0);
+      await execute("EncryptedRatingSystem", { from: deployer, log: true }, "setSubjectStatus", name, 1); // Open
+    }
+  }
+
+  // Per-campaign instances are EIP-1167 clones of the shared deployment, which is already initialized
+  const deployedFactory = await deploy("RatingCampaignFactory", {
+    from: deployer,
+    args: [deployedRatingSystem.address],
+    log: true,
+  });
+
+  console.log(`RatingCampaignFactory contract: `, deployedFactory.address);
 };
 export default func;
 func.id = "deploy_rating_system"; // id required to prevent reexecution
@@ -11,6 +11,9 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/RatingAlerts";
+import "./tasks/RatingEligibility";
+import "./tasks/RatingSystemAdmin";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -18,15 +18,58 @@ async function main() {
 
   console.log("\n📦 Deploying EncryptedRatingSystem...");
   
+  // Minimum respondents before a subject (or the global) aggregate can be decrypted
+  const minRespondents = Number(process.env.MIN_RESPONDENTS ?? 3);
+  const globalMinRespondents = Number(process.env.GLOBAL_MIN_RESPONDENTS ?? minRespondents);
+  console.log(`Minimum respondents: ${minRespondents} per subject, ${globalMinRespondents} global`);
+
+  // The rating system delegatecalls into these modules, which are too large to deploy from its constructor
+  const modules: string[] = [];
+  for (const name of ["RatingStatsModule", "RatingAdminModule", "RatingSubmissionModule"]) {
+    const module = await (await ethers.getContractFactory(name)).deploy();
+    await module.waitForDeployment();
+    modules.push(await module.getAddress());
+    console.log(`  - ${name}: ${modules[modules.length - 1]}`);
+  }
+
   const EncryptedRatingSystem = await ethers.getContractFactory("EncryptedRatingSystem");
-  const ratingSystem = await EncryptedRatingSystem.deploy();
+  const ratingSystem = await EncryptedRatingSystem.deploy(minRespondents, globalMinRespondents, ...modules);
 
   await ratingSystem.waitForDeployment();
 
   const address = await ratingSystem.getAddress();
   console.log("\n✅ EncryptedRatingSystem deployed to:", address);
+
+  // Ratings are only accepted for registered, open subjects
+  console.log("\n📋 Registering default subjects...");
+  const subjects = [
+    ["Leadership", "How well the team is led and supported"],
+    ["Team Performance", "How well the team delivers together"],
+    ["Customer Service", "Quality of service to customers"],
+    ["Product Quality", "Quality of what we ship"],
+    ["Work Environment", "Day-to-day working conditions"],
+    ["Company Culture", "Values and how people treat each other"],
+    ["Management", "Quality of management decisions"],
+    ["Communication", "Clarity and openness of communication"],
+    ["Innovation", "Openness to new ideas and approaches"],
+    ["Work-Life Balance", "Room for life outside work"],
+  ];
+  for (const [name, description] of subjects) {
+    await (await ratingSystem.registerSubject(name, description, 0, 0)).wait();
+    await (await ratingSystem.setSubjectStatus(name, 1)).wait(); // Open
+    console.log(`  - ${name}`);
+  }
+
+  // Per-campaign instances are clones of the deployment above
+  console.log("\n📦 Deploying RatingCampaignFactory...");
+  const RatingCampaignFactory = await ethers.getContractFactory("RatingCampaignFactory");
+  const campaignFactory = await RatingCampaignFactory.deploy(address);
+  await campaignFactory.waitForDeployment();
+  const factoryAddress = await campaignFactory.getAddress();
+  console.log("✅ RatingCampaignFactory deployed to:", factoryAddress);
+
   console.log("\n📝 Next steps:");
-  console.log("1. Update ui/src/abi/RatingSystemAddresses.ts with the new address");
+  console.log("1. Update ui/src/abi/RatingSystemAddresses.ts with the new addresses");
   console.log("2. Restart the frontend: cd ui && npm run dev");
 }
 
@@ -0,0 +1,191 @@
+import { deployments, ethers, fhevm } from "hardhat";
+import type { EncryptedRatingSystem } from "../types";
+
+/**
+ * Deadline keeper
+ * ===============
+ *
+ * Watches the closing times of subjects and campaigns and, once one has passed, requests the
+ * decryption of its final results: requestSubjectStats() for a subject, requestCampaignResults()
+ * for a campaign. Both are open to anyone, so the keeper needs gas but no role. It then has the
+ * local mock decryption oracle publish the results and logs them. The EncryptedRatingSystem
+ * deployment and the instances of its RatingCampaignFactory are watched.
+ *
+ * Run it next to a Hardhat node:
+ *   npx hardhat node
+ *   npm run keeper:local                      (KEEPER_INTERVAL defaults to 15 seconds)
+ *
+ * A subject counts as final once a snapshot was published after its deadline, and a campaign once
+ * its results were requested, so a restarted keeper does not request them again. Requests the
+ * contract refuses (e.g. too few respondents) are logged once and not retried.
+ */
+
+const INTERVAL = Number(process.env.KEEPER_INTERVAL ?? 15) * 1000;
+const PAGE_SIZE = 100; // EncryptedRatingSystem.MAX_PAGE_SIZE
+const STATS_PRECISION = 100; // EncryptedRatingSystem.STATS_PRECISION
+
+// Subjects and campaigns this run has settled, as "<instance>:subject:<name>" / "<instance>:campaign:<id>"
+const settled = new Set<string>();
+
+// The shared deployment and every factory instance, as in the relayer
+async function watchedInstances(): Promise<string[]> {
+  const instances = [(await deployments.get("EncryptedRatingSystem")).address];
+
+  const factoryDeployment = await deployments.getOrNull("RatingCampaignFactory");
+  if (factoryDeployment) {
+    const factory = await ethers.getContractAt("RatingCampaignFactory", factoryDeployment.address);
+    const count = Number(await factory.getInstanceCount());
+    for (let id = 1; id <= count; id++) {
+      const [instance] = await factory.getInstance(id);
+      instances.push(instance);
+    }
+  }
+  return instances;
+}
+
+function revertReason(error: unknown): string {
+  const err = error as { reason?: string; shortMessage?: string; message?: string };
+  return err.reason ?? err.shortMessage ?? err.message ?? "Request failed";
+}
+
+function formatStat(value: bigint): string {
+  return (Number(value) / STATS_PRECISION).toFixed(2);
+}
+
+// Earliest timestamp of the next block; the node's clock runs ahead of ours after evm_increaseTime
+async function currentTime(): Promise<number> {
+  const latest = await ethers.provider.getBlock("latest");
+  return Math.max(latest!.timestamp, Math.floor(Date.now() / 1000));
+}
+
+// Whether the latest snapshot of a subject was published at or after its deadline
+async function isPublishedSince(ratingSystem: EncryptedRatingSystem, subject: string, closesAt: bigint) {
+  const snapshotCount = await ratingSystem.getSubjectSnapshotCount(subject);
+  if (snapshotCount === 0n) {
+    return false;
+  }
+  const [, , blockNumber] = await ratingSystem.getSubjectSnapshot(subject, snapshotCount);
+  const block = await ethers.provider.getBlock(blockNumber);
+  return BigInt(block!.timestamp) >= closesAt;
+}
+
+async function publishSubject(ratingSystem: EncryptedRatingSystem, subject: string) {
+  const before = await ratingSystem.getSubjectSnapshotCount(subject);
+
+  // Simulate first so refused requests never cost gas
+  await ratingSystem.requestSubjectStats.staticCall(subject);
+  const tx = await ratingSystem.requestSubjectStats(subject);
+  console.log(`🔓 ${subject} closed, requested its final results: ${tx.hash}`);
+  await tx.wait();
+  await fhevm.awaitDecryptionOracle();
+
+  if ((await ratingSystem.getSubjectSnapshotCount(subject)) === before) {
+    console.log(`   ${subject}: withheld (too few accepted ratings, or too few changes since the last result)`);
+    return;
+  }
+  const [average, count, stdDev] = await ratingSystem.getSubjectStats(subject);
+  console.log(`   ${subject}: average ${formatStat(average)}/10 over ${count} ratings (σ ${formatStat(stdDev)})`);
+}
+
+async function publishCampaign(ratingSystem: EncryptedRatingSystem, campaignId: number) {
+  const [name, questions] = await ratingSystem.getCampaign(campaignId);
+
+  await ratingSystem.requestCampaignResults.staticCall(campaignId);
+  const tx = await ratingSystem.requestCampaignResults(campaignId);
+  console.log(`🔓 Campaign "${name}" closed, requested its final results: ${tx.hash}`);
+  const receipt = await tx.wait();
+  await fhevm.awaitDecryptionOracle();
+
+  const requested = receipt!.logs
+    .map((log) => ratingSystem.interface.parseLog(log))
+    .find((event) => event?.name === "CampaignResultsRequested");
+  const [published] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished(requested!.args.requestId));
+  if (!published) {
+    console.log(`   "${name}": no results published yet`);
+    return;
+  }
+  questions.forEach((question, i) => {
+    const count = published.args.counts[i];
+    console.log(
+      count > 0n
+        ? `   ${question}: average ${formatStat(published.args.averages[i])}/10 over ${count} ratings`
+        : `   ${question}: withheld (too few accepted ratings or changes, or privacy budget exhausted)`,
+    );
+  });
+}
+
+// Runs publish once per key; a refused request is logged and not retried
+async function settle(key: string, label: string, publish: () => Promise<void>) {
+  if (settled.has(key)) {
+    return;
+  }
+  try {
+    await publish();
+  } catch (error: unknown) {
+    console.warn(`⏭️  ${label}: ${revertReason(error)}`);
+  }
+  settled.add(key);
+}
+
+async function keepInstance(ratingSystem: EncryptedRatingSystem, address: string) {
+  const now = await currentTime();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const [subjects, total] = await ratingSystem.getSubjects(offset, PAGE_SIZE);
+    for (const subject of subjects) {
+      const key = `${address}:subject:${subject.name}`;
+      if (subject.closesAt === 0n || now < subject.closesAt || settled.has(key)) {
+        continue;
+      }
+      if (await isPublishedSince(ratingSystem, subject.name, subject.closesAt)) {
+        settled.add(key);
+        continue;
+      }
+      await settle(key, subject.name, () => publishSubject(ratingSystem, subject.name));
+    }
+    if (offset + PAGE_SIZE >= total) {
+      break;
+    }
+  }
+
+  const campaignCount = Number(await ratingSystem.getCampaignCount());
+  for (let campaignId = 1; campaignId <= campaignCount; campaignId++) {
+    const [closesAt, resultsRequested] = await ratingSystem.getCampaignDeadline(campaignId);
+    if (closesAt === 0n || now < closesAt || resultsRequested) {
+      continue;
+    }
+    await settle(`${address}:campaign:${campaignId}`, `Campaign ${campaignId}`, () =>
+      publishCampaign(ratingSystem, campaignId),
+    );
+  }
+}
+
+async function main() {
+  await fhevm.initializeCLIApi();
+  if (!fhevm.isMock) {
+    throw new Error("The keeper drives the mock decryption oracle of a local Hardhat node (npm run keeper:local)");
+  }
+
+  const [keeper] = await ethers.getSigners();
+  const balance = await ethers.provider.getBalance(keeper.address);
+  console.log(`Keeper account: ${keeper.address} (${ethers.formatEther(balance)} ETH)`);
+  console.log(`Checking deadlines every ${INTERVAL / 1000}s`);
+
+  // Keep watching until the process is stopped
+  for (;;) {
+    for (const address of await watchedInstances()) {
+      const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", address, keeper);
+      try {
+        await keepInstance(ratingSystem, address);
+      } catch (error: unknown) {
+        console.error(`${address}: ${revertReason(error)}`);
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
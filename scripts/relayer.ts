@@ -0,0 +1,192 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { deployments, ethers } from "hardhat";
+
+/**
+ * Gasless rating relayer
+ * ======================
+ *
+ * Pays the gas for ratings that respondents signed with EIP-712 and forwards them to
+ * submitRatingFor() / updateRatingFor(). On instances in anonymity mode it also forwards
+ * submitAnonymousRating(), so the respondent's wallet does not send the transaction. The rating
+ * stays tied to the member key that signed it. Only the
+ * EncryptedRatingSystem deployment and the instances of its RatingCampaignFactory are relayed.
+ *
+ * Run it next to a Hardhat node:
+ *   npx hardhat node
+ *   npm run relayer:local                     (RELAYER_PORT defaults to 8787)
+ *
+ * Endpoints:
+ *   GET  /relayer   -> { address }  Ratings must be encrypted for this address, since input proofs
+ *                                   are bound to the account sending the transaction
+ *   POST /submit    -> { txHash }   Body: { contract, respondent, encryptedRating, inputProof, subject,
+ *                                           deadline, signature, eligibilityProof }
+ *   POST /update    -> { txHash }   Body: { contract, respondent, subject, encryptedRating, inputProof,
+ *                                           newSubject, deadline, signature }
+ *   POST /anonymous -> { txHash }   Body: { contract, member, nullifier, encryptedRating, inputProof, subject,
+ *                                           membershipProof, signature }
+ */
+
+const PORT = Number(process.env.RELAYER_PORT ?? 8787);
+
+type RelayRequest = {
+  contract: string;
+  respondent: string;
+  member: string;
+  nullifier: string;
+  encryptedRating: string;
+  inputProof: string;
+  subject: string;
+  newSubject?: string;
+  deadline: number;
+  signature: string;
+  eligibilityProof?: string[];
+  membershipProof?: string[];
+};
+
+function signedArgs(request: RelayRequest) {
+  return [
+    request.respondent,
+    request.encryptedRating,
+    request.inputProof,
+    request.subject,
+    request.deadline,
+    request.signature,
+  ];
+}
+
+// Contract method and arguments per endpoint
+const RELAYED_CALLS: Record<string, { method: string; args: (request: RelayRequest) => unknown[] }> = {
+  "/submit": {
+    method: "submitRatingFor",
+    args: (request) => [...signedArgs(request), request.eligibilityProof ?? []],
+  },
+  "/update": {
+    method: "updateRatingFor",
+    args: (request) => [
+      request.respondent,
+      request.subject,
+      request.encryptedRating,
+      request.inputProof,
+      request.newSubject ?? request.subject,
+      request.deadline,
+      request.signature,
+    ],
+  },
+  "/anonymous": {
+    method: "submitAnonymousRating",
+    args: (request) => [
+      request.member,
+      request.nullifier,
+      request.encryptedRating,
+      request.inputProof,
+      request.subject,
+      request.membershipProof ?? [],
+      request.signature,
+    ],
+  },
+};
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(payload));
+}
+
+// The shared deployment and every factory instance; anything else would let callers spend our gas freely
+async function isRelayable(address: string): Promise<boolean> {
+  const shared = await deployments.get("EncryptedRatingSystem");
+  if (address.toLowerCase() === shared.address.toLowerCase()) {
+    return true;
+  }
+
+  const factoryDeployment = await deployments.getOrNull("RatingCampaignFactory");
+  if (!factoryDeployment) {
+    return false;
+  }
+  const factory = await ethers.getContractAt("RatingCampaignFactory", factoryDeployment.address);
+  const count = Number(await factory.getInstanceCount());
+  for (let id = 1; id <= count; id++) {
+    const [instance] = await factory.getInstance(id);
+    if (instance.toLowerCase() === address.toLowerCase()) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function main() {
+  const [relayer] = await ethers.getSigners();
+  const balance = await ethers.provider.getBalance(relayer.address);
+  console.log(`Relayer account: ${relayer.address} (${ethers.formatEther(balance)} ETH)`);
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      sendJson(res, 204, {});
+      return;
+    }
+
+    if (req.method === "GET" && req.url === "/relayer") {
+      sendJson(res, 200, { address: relayer.address });
+      return;
+    }
+
+    const call = RELAYED_CALLS[req.url ?? ""];
+    if (req.method !== "POST" || !call) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    try {
+      const request = JSON.parse(await readBody(req)) as RelayRequest;
+      if (!ethers.isAddress(request.contract)) {
+        sendJson(res, 400, { error: "Invalid contract address" });
+        return;
+      }
+      if (!(await isRelayable(request.contract))) {
+        sendJson(res, 400, { error: "Contract is not relayed" });
+        return;
+      }
+
+      const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", request.contract, relayer);
+      const relay = ratingSystem.getFunction(call.method);
+      const args = call.args(request);
+
+      // Simulate first so invalid signatures and rejected ratings never cost gas
+      await relay.staticCall(...args);
+      const tx = await relay.send(...args);
+      console.log(`${call.method} for ${request.respondent ?? "an anonymous respondent"}: ${tx.hash}`);
+
+      sendJson(res, 200, { txHash: tx.hash });
+    } catch (error: unknown) {
+      const err = error as { reason?: string; shortMessage?: string; message?: string };
+      const message = err.reason ?? err.shortMessage ?? err.message ?? "Relay failed";
+      console.error(`${call.method} rejected: ${message}`);
+      sendJson(res, 400, { error: message });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Gasless relayer listening on http://localhost:${PORT}`);
+  });
+
+  // Keep serving until the process is stopped
+  await new Promise(() => {});
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,98 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Threshold alerts
+ * ================
+ *
+ * A subject with an alert threshold can be checked against it without decrypting its average: the contract compares
+ * the encrypted sum with threshold * count and only the resulting boolean is published, in SubjectBelowThreshold.
+ *
+ * Examples:
+ *   npx hardhat --network localhost task:set-alert --subject "Team Performance" --threshold 6
+ *   npx hardhat --network localhost task:check-alert --subject "Team Performance"
+ */
+
+const STATS_PRECISION = 100;
+
+async function getRatingSystem(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const deployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("EncryptedRatingSystem");
+  console.log(`EncryptedRatingSystem: ${deployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", deployment.address);
+  return ratingSystem.connect(signers[0]);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-alert --subject "Team Performance" --threshold 6.5
+ */
+task("task:set-alert", "Sets the average below which a subject raises an alert (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("subject", "The subject to watch")
+  .addParam("threshold", "Average rating that raises an alert, with up to two decimals (0 removes the alert)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const threshold = Math.round(Number(taskArguments.threshold) * STATS_PRECISION);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw new Error(`Argument --threshold is not a non-negative number`);
+    }
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.setAlertThreshold(taskArguments.subject, threshold);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      threshold === 0
+        ? `Removed the alert of ${taskArguments.subject}`
+        : `${taskArguments.subject} alerts below an average of ${(threshold / STATS_PRECISION).toFixed(2)}`,
+    );
+  });
+
+/**
+ * On a local Hardhat node the mock decryption oracle answers right away; elsewhere the result is published once the
+ * decryption oracle calls back, and a later run prints it.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:check-alert --subject "Team Performance"
+ */
+task("task:check-alert", "Checks whether a subject's average is below its alert threshold")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("subject", "The subject to check")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+    const [, , , previousBlock] = await ratingSystem.getThresholdAlert(taskArguments.subject);
+
+    const tx = await ratingSystem.requestThresholdAlert(taskArguments.subject);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (!fhevm.isMock) {
+      console.log("Alert requested. The result is published in SubjectBelowThreshold once the oracle answers.");
+      return;
+    }
+    await fhevm.awaitDecryptionOracle();
+
+    const [threshold, below, count, blockNumber] = await ratingSystem.getThresholdAlert(taskArguments.subject);
+    if (blockNumber === previousBlock) {
+      console.log("Alert withheld: too few accepted ratings, or too few changes since the subject's last result.");
+      return;
+    }
+    const average = (Number(threshold) / STATS_PRECISION).toFixed(2);
+    console.log(
+      below
+        ? `ALERT: ${taskArguments.subject} is below an average of ${average} (${count} ratings)`
+        : `${taskArguments.subject} is at or above an average of ${average} (${count} ratings)`,
+    );
+  });
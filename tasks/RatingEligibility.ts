@@ -0,0 +1,244 @@
+import { AbiCoder, getAddress, isAddress, keccak256, solidityPackedKeccak256 } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+/**
+ * Respondent allowlists
+ * =====================
+ *
+ * A subject with an eligibility root only accepts ratings from the addresses in its Merkle tree. The task below
+ * builds the tree from a CSV file, publishes the root on chain and writes every address's proof to
+ * ui/public/eligibility/<contract address>.json, which the UI serves and reads when a respondent submits.
+ *
+ * In anonymity mode, task:set-anonymous-members does the same for the member keys allowed to rate anonymously: each
+ * respondent registers the address of the key the UI derives from their wallet, and its proof is written to the same
+ * file under "members".
+ *
+ * Subjects can also consult an eligibility module, such as the stock ERC-20 balance and ERC-721 ownership checks,
+ * which task:set-eligibility-module deploys and attaches.
+ *
+ * Examples:
+ *   npx hardhat --network localhost task:set-eligibility --subject "Leadership" --csv respondents.csv
+ *   npx hardhat --network localhost task:set-anonymous-members --csv member-keys.csv
+ *   npx hardhat --network localhost task:set-eligibility-module --subject "Leadership" --erc20 0x... --min-balance 1000
+ *   npx hardhat --network localhost task:set-eligibility-module --subject "Leadership" --erc721 0x...
+ */
+
+export type EligibilityTree = {
+  root: string;
+  // Proof per checksummed address
+  proofs: Record<string, string[]>;
+};
+
+type EligibilityFile = {
+  subjects: Record<string, { root: string; proofs: Record<string, string[]> }>;
+  members?: { root: string; proofs: Record<string, string[]> };
+};
+
+// Leaves are double-hashed like EncryptedRatingSystem.isEligible() expects
+function leafOf(address: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? solidityPackedKeccak256(["bytes32", "bytes32"], [a, b])
+    : solidityPackedKeccak256(["bytes32", "bytes32"], [b, a]);
+}
+
+/**
+ * Builds the Merkle tree of an allowlist with sorted-pair hashing. A node without a sibling moves up unchanged.
+ */
+export function buildEligibilityTree(addresses: string[]): EligibilityTree {
+  const accounts = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (accounts.length === 0) {
+    throw new Error("The allowlist is empty");
+  }
+
+  let layer = accounts.map(leafOf);
+  const positions = accounts.map((_, index) => index);
+  const proofs: Record<string, string[]> = Object.fromEntries(accounts.map((account) => [account, []]));
+
+  while (layer.length > 1) {
+    accounts.forEach((account, index) => {
+      const sibling = positions[index] ^ 1;
+      if (sibling < layer.length) {
+        proofs[account].push(layer[sibling]);
+      }
+      positions[index] = positions[index] >> 1;
+    });
+
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layer = next;
+  }
+
+  return { root: layer[0], proofs };
+}
+
+// Reads the first column of every row; a header row and blank lines are skipped
+function readAllowlist(file: string): string[] {
+  const rows = readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.split(",")[0].trim())
+    .filter((cell) => cell.length > 0);
+
+  return rows.filter((cell, index) => {
+    if (isAddress(cell)) return true;
+    if (index === 0) return false;
+    throw new Error(`Invalid address in ${file}: ${cell}`);
+  });
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-eligibility --subject "Leadership" --csv respondents.csv
+ */
+task("task:set-eligibility", "Restricts a subject to the addresses listed in a CSV file (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("subject", "The subject to restrict")
+  .addParam("csv", "CSV file with one respondent address per row (first column)")
+  .addOptionalParam("out", "Directory receiving the proofs file", "ui/public/eligibility")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const tree = buildEligibilityTree(readAllowlist(taskArguments.csv));
+    console.log(`Allowlist of ${Object.keys(tree.proofs).length} addresses, root ${tree.root}`);
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedRatingSystem");
+    console.log(`EncryptedRatingSystem: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", deployment.address);
+
+    const tx = await ratingSystem.connect(signers[0]).setEligibilityRoot(taskArguments.subject, tree.root);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // One file per contract, keyed by subject, so the UI can serve several allowlists side by side
+    const outDir = path.resolve(hre.config.paths.root, taskArguments.out);
+    const outFile = path.join(outDir, `${deployment.address.toLowerCase()}.json`);
+    const published: EligibilityFile = existsSync(outFile)
+      ? JSON.parse(readFileSync(outFile, "utf8"))
+      : { subjects: {} };
+    published.subjects[taskArguments.subject] = {
+      root: tree.root,
+      proofs: Object.fromEntries(Object.entries(tree.proofs).map(([account, proof]) => [account.toLowerCase(), proof])),
+    };
+
+    mkdirSync(outDir, { recursive: true });
+    writeFileSync(outFile, JSON.stringify(published, null, 2) + "\n");
+    console.log(`Proofs written to ${path.relative(hre.config.paths.root, outFile)}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-anonymous-members --csv member-keys.csv
+ */
+task("task:set-anonymous-members", "Registers the member keys listed in a CSV file for anonymous ratings (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("csv", "CSV file with one member key address per row (first column)")
+  .addOptionalParam("out", "Directory receiving the proofs file", "ui/public/eligibility")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const tree = buildEligibilityTree(readAllowlist(taskArguments.csv));
+    console.log(`${Object.keys(tree.proofs).length} member keys, root ${tree.root}`);
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedRatingSystem");
+    console.log(`EncryptedRatingSystem: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", deployment.address);
+
+    const tx = await ratingSystem.connect(signers[0]).setAnonymousMembersRoot(tree.root);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const outDir = path.resolve(hre.config.paths.root, taskArguments.out);
+    const outFile = path.join(outDir, `${deployment.address.toLowerCase()}.json`);
+    const published: EligibilityFile = existsSync(outFile)
+      ? JSON.parse(readFileSync(outFile, "utf8"))
+      : { subjects: {} };
+    published.members = {
+      root: tree.root,
+      proofs: Object.fromEntries(Object.entries(tree.proofs).map(([account, proof]) => [account.toLowerCase(), proof])),
+    };
+
+    mkdirSync(outDir, { recursive: true });
+    writeFileSync(outFile, JSON.stringify(published, null, 2) + "\n");
+    console.log(`Proofs written to ${path.relative(hre.config.paths.root, outFile)}`);
+  });
+
+/**
+ * Pass --module to attach an existing IRatingEligibility contract, --erc20 with --min-balance or --erc721 to deploy
+ * a stock module first, or none of them to remove the subject's module.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:set-eligibility-module --subject "Leadership" --erc721 0x...
+ */
+task("task:set-eligibility-module", "Restricts a subject to token or NFT holders (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("subject", "The subject to restrict")
+  .addOptionalParam("module", "An existing IRatingEligibility contract")
+  .addOptionalParam("erc20", "ERC-20 token whose holders may rate")
+  .addOptionalParam("minBalance", "Minimum ERC-20 balance, in the token's smallest unit")
+  .addOptionalParam("erc721", "ERC-721 collection whose holders may rate")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const sources = [taskArguments.module, taskArguments.erc20, taskArguments.erc721].filter(Boolean);
+    if (sources.length > 1) {
+      throw new Error("Pass only one of --module, --erc20 and --erc721");
+    }
+    if (sources.length === 1 && !ethers.isAddress(sources[0])) {
+      throw new Error(`${sources[0]} is not a valid address`);
+    }
+
+    const signers = await ethers.getSigners();
+    let moduleAddress: string = taskArguments.module ?? ethers.ZeroAddress;
+    if (taskArguments.erc20) {
+      if (!taskArguments.minBalance || BigInt(taskArguments.minBalance) <= 0n) {
+        throw new Error("Argument --min-balance must be a positive integer");
+      }
+      const factory = await ethers.getContractFactory("ERC20ThresholdEligibility", signers[0]);
+      const module = await factory.deploy(taskArguments.erc20, BigInt(taskArguments.minBalance));
+      moduleAddress = await module.getAddress();
+      console.log(`ERC20ThresholdEligibility deployed at ${moduleAddress}`);
+    } else if (taskArguments.erc721) {
+      const factory = await ethers.getContractFactory("ERC721OwnershipEligibility", signers[0]);
+      const module = await factory.deploy(taskArguments.erc721);
+      moduleAddress = await module.getAddress();
+      console.log(`ERC721OwnershipEligibility deployed at ${moduleAddress}`);
+    }
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedRatingSystem");
+    console.log(`EncryptedRatingSystem: ${deployment.address}`);
+
+    const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", deployment.address);
+    const tx = await ratingSystem.connect(signers[0]).setEligibilityModule(taskArguments.subject, moduleAddress);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      moduleAddress === ethers.ZeroAddress
+        ? `Removed the eligibility module of ${taskArguments.subject}`
+        : `${taskArguments.subject} now consults ${moduleAddress}`,
+    );
+  });
@@ -1,21 +1,36 @@
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
-task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+  await fhevm.initializeCLIApi();
+
   const { deploy } = deployments;
   const { deployer } = await ethers.getNamedSigners();
   const deployerAddress = await deployer.getAddress();
 
   // Deploy EncryptedRatingSystem if not already deployed
+  const modules: string[] = [];
+  for (const name of ["RatingStatsModule", "RatingAdminModule", "RatingSubmissionModule"]) {
+    modules.push((await deploy(name, { from: deployerAddress, log: true })).address);
+  }
+  // Low respondent thresholds so the two Leadership ratings below can be decrypted
   const ratingSystemDeployment = await deploy("EncryptedRatingSystem", {
     from: deployerAddress,
-    args: [],
+    args: [2, 2, ...modules],
     log: true,
   });
 
   const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", ratingSystemDeployment.address);
   console.log("✅ EncryptedRatingSystem deployed at:", await ratingSystem.getAddress());
 
+  // Register and open the subjects rated below
+  if (ratingSystemDeployment.newlyDeployed) {
+    for (const name of ["Leadership", "Team Performance", "Service Quality"]) {
+      await (await ratingSystem.connect(deployer).registerSubject(name, "", 0, 0)).wait();
+      await (await ratingSystem.connect(deployer).setSubjectStatus(name, 1)).wait(); // Open
+    }
+  }
+
   // Get or create signers for testing
   const [, user1, user2, user3, user4] = await ethers.getSigners();
 
@@ -29,14 +44,12 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
   const rating1 = 9;
   const encryptedInput1 = await (ratingSystem.runner?.provider as any)?.fhevmInstance
     ?.createEncryptedInput(await ratingSystem.getAddress(), user1.address)
-    .add32(rating1)
+    .add8(rating1)
     .encrypt();
 
-  const tx1 = await ratingSystem.connect(user1).submitRating(
-    encryptedInput1.handles[0],
-    encryptedInput1.inputProof,
-    "Leadership"
-  );
+  const tx1 = await ratingSystem
+    .connect(user1)
+    .submitRating(encryptedInput1.handles[0], encryptedInput1.inputProof, "Leadership", []);
   await tx1.wait();
   console.log("✅ Rating submitted successfully");
 
@@ -45,14 +58,12 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
   const rating2 = 8;
   const encryptedInput2 = await (ratingSystem.runner?.provider as any)?.fhevmInstance
     ?.createEncryptedInput(await ratingSystem.getAddress(), user2.address)
-    .add32(rating2)
+    .add8(rating2)
     .encrypt();
 
-  const tx2 = await ratingSystem.connect(user2).submitRating(
-    encryptedInput2.handles[0],
-    encryptedInput2.inputProof,
-    "Team Performance"
-  );
+  const tx2 = await ratingSystem
+    .connect(user2)
+    .submitRating(encryptedInput2.handles[0], encryptedInput2.inputProof, "Team Performance", []);
   await tx2.wait();
   console.log("✅ Rating submitted successfully");
 
@@ -61,14 +72,12 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
   const rating3 = 7;
   const encryptedInput3 = await (ratingSystem.runner?.provider as any)?.fhevmInstance
     ?.createEncryptedInput(await ratingSystem.getAddress(), user3.address)
-    .add32(rating3)
+    .add8(rating3)
     .encrypt();
 
-  const tx3 = await ratingSystem.connect(user3).submitRating(
-    encryptedInput3.handles[0],
-    encryptedInput3.inputProof,
-    "Leadership"
-  );
+  const tx3 = await ratingSystem
+    .connect(user3)
+    .submitRating(encryptedInput3.handles[0], encryptedInput3.inputProof, "Leadership", []);
   await tx3.wait();
   console.log("✅ Rating submitted successfully");
 
@@ -77,14 +86,12 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
   const rating4 = 10;
   const encryptedInput4 = await (ratingSystem.runner?.provider as any)?.fhevmInstance
     ?.createEncryptedInput(await ratingSystem.getAddress(), user4.address)
-    .add32(rating4)
+    .add8(rating4)
     .encrypt();
 
-  const tx4 = await ratingSystem.connect(user4).submitRating(
-    encryptedInput4.handles[0],
-    encryptedInput4.inputProof,
-    "Service Quality"
-  );
+  const tx4 = await ratingSystem
+    .connect(user4)
+    .submitRating(encryptedInput4.handles[0], encryptedInput4.inputProof, "Service Quality", []);
   await tx4.wait();
   console.log("✅ Rating submitted successfully");
 
@@ -110,16 +117,17 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
 
     // Wait for decryption to complete
     console.log("⏳ Waiting for decryption to complete...");
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await fhevm.awaitDecryptionOracle();
 
     // Check if finalized
     const isFinalized = await ratingSystem.isGlobalStatsFinalized();
     if (isFinalized) {
-      const [avgRating, totalCount] = await ratingSystem.getGlobalStats();
+      const [avgRating, totalCount, stdDev] = await ratingSystem.getGlobalStats();
       console.log("\n📈 Global Statistics (Decrypted):");
-      console.log(`Average Rating: ${avgRating.toString()}/10`);
+      console.log(`Average Rating: ${(Number(avgRating) / 100).toFixed(2)}/10`);
+      console.log(`Standard Deviation: ${(Number(stdDev) / 100).toFixed(2)}`);
       console.log(`Total Entries: ${totalCount.toString()}`);
-      console.log(`Expected Average: ${Math.floor((rating1 + rating2 + rating3 + rating4) / 4)}/10`);
+      console.log(`Expected Average: ${((rating1 + rating2 + rating3 + rating4) / 4).toFixed(2)}/10`);
     } else {
       console.log("⚠️ Stats not yet finalized (may need more time or manual trigger)");
     }
@@ -135,15 +143,15 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
     await leadershipRequestTx.wait();
     console.log("✅ Leadership decryption requested");
 
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await fhevm.awaitDecryptionOracle();
 
     const isLeadershipFinalized = await ratingSystem.isSubjectStatsFinalized("Leadership");
     if (isLeadershipFinalized) {
       const [leadershipAvg, leadershipCount] = await ratingSystem.getSubjectStats("Leadership");
       console.log("\n📈 Leadership Statistics (Decrypted):");
-      console.log(`Average Rating: ${leadershipAvg.toString()}/10`);
+      console.log(`Average Rating: ${(Number(leadershipAvg) / 100).toFixed(2)}/10`);
       console.log(`Total Entries: ${leadershipCount.toString()}`);
-      console.log(`Expected Average: ${Math.floor((rating1 + rating3) / 2)}/10`);
+      console.log(`Expected Average: ${((rating1 + rating3) / 2).toFixed(2)}/10`);
     }
   } catch (error: any) {
     console.log("⚠️ Leadership stats decryption pending");
@@ -154,36 +162,37 @@ task("task:RatingSystem").setAction(async function (taskArguments: TaskArguments
   const newRating1 = 10;
   const encryptedInputUpdate = await (ratingSystem.runner?.provider as any)?.fhevmInstance
     ?.createEncryptedInput(await ratingSystem.getAddress(), user1.address)
-    .add32(newRating1)
+    .add8(newRating1)
     .encrypt();
 
-  const updateTx = await ratingSystem.connect(user1).updateRating(
-    encryptedInputUpdate.handles[0],
-    encryptedInputUpdate.inputProof,
-    "Leadership"
-  );
+  const updateTx = await ratingSystem
+    .connect(user1)
+    .updateRating("Leadership", encryptedInputUpdate.handles[0], encryptedInputUpdate.inputProof, "Leadership");
   await updateTx.wait();
   console.log("✅ Rating updated successfully");
 
   // Test 8: User2 deletes their rating
   console.log("\n6️⃣ User2 deleting their Team Performance rating");
-  const deleteTx = await ratingSystem.connect(user2).deleteRating();
+  const deleteTx = await ratingSystem.connect(user2).deleteRating("Team Performance");
   await deleteTx.wait();
   console.log("✅ Rating deleted successfully");
 
   const finalCount = await ratingSystem.getActiveEntryCount();
   console.log(`\nFinal Active Entries: ${finalCount}`);
 
-  // Check if we need to request updated global stats
+  // Stats can be requested again after changes; each decryption publishes a new snapshot
   console.log("\n🔄 Requesting updated global statistics after changes...");
   try {
-    // Note: In production, this would require a new decryption request
-    // For testing, we'll just check the current state
-    const currentFinalized = await ratingSystem.isGlobalStatsFinalized();
-    if (currentFinalized) {
-      const [currentAvg, currentCount] = await ratingSystem.getGlobalStats();
-      console.log("📊 Current Global Stats (may be outdated):");
-      console.log(`Average Rating: ${currentAvg.toString()}/10`);
+    const refreshTx = await ratingSystem.connect(deployer).requestGlobalStats();
+    await refreshTx.wait();
+
+    await fhevm.awaitDecryptionOracle();
+
+    const snapshotCount = await ratingSystem.getGlobalSnapshotCount();
+    if (snapshotCount > 0n) {
+      const [currentAvg, currentCount, blockNumber] = await ratingSystem.getGlobalSnapshot(snapshotCount);
+      console.log(`📊 Global Stats Snapshot #${snapshotCount.toString()} (block ${blockNumber.toString()}):`);
+      console.log(`Average Rating: ${(Number(currentAvg) / 100).toFixed(2)}/10`);
       console.log(`Total Entries: ${currentCount.toString()}`);
     }
   } catch (error: any) {
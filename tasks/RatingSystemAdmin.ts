@@ -0,0 +1,261 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Administration of an EncryptedRatingSystem deployment
+ * =====================================================
+ *
+ * Roles (the owner implicitly holds all of them):
+ *   - admin     : manages subjects, campaigns and thresholds; pauses and unpauses
+ *   - moderator : moves subjects through their lifecycle
+ *   - auditor   : grants aggregate decryption access to other addresses
+ *
+ * Examples:
+ *   npx hardhat --network localhost task:grant-role --role moderator --account 0x...
+ *   npx hardhat --network localhost task:revoke-role --role moderator --account 0x...
+ *   npx hardhat --network sepolia task:pause
+ *   npx hardhat --network sepolia task:unpause
+ *   npx hardhat --network localhost task:set-anonymous-mode --enabled true
+ *   npx hardhat --network localhost task:set-private-counts --enabled true
+ *   npx hardhat --network localhost task:set-segments --names "Engineering,Sales"
+ *   npx hardhat --network localhost task:set-noise-scale --subject "Leadership" --scale 8
+ *   npx hardhat --network localhost task:fulfill-decryptions
+ */
+
+const ROLES: Record<string, string> = {
+  admin: "ADMIN_ROLE",
+  moderator: "MODERATOR_ROLE",
+  auditor: "AUDITOR_ROLE",
+};
+
+async function getRatingSystem(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const deployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("EncryptedRatingSystem");
+  console.log(`EncryptedRatingSystem: ${deployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const ratingSystem = await ethers.getContractAt("EncryptedRatingSystem", deployment.address);
+  return ratingSystem.connect(signers[0]);
+}
+
+async function getRole(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const roleName = ROLES[String(taskArguments.role).toLowerCase()];
+  if (!roleName) {
+    throw new Error(`Argument --role must be one of: ${Object.keys(ROLES).join(", ")}`);
+  }
+  if (!hre.ethers.isAddress(taskArguments.account)) {
+    throw new Error(`Argument --account is not a valid address`);
+  }
+  return hre.ethers.id(roleName);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:grant-role --role auditor --account 0x...
+ */
+task("task:grant-role", "Grants a role on the EncryptedRatingSystem contract (owner only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("role", "The role to grant (admin, moderator or auditor)")
+  .addParam("account", "The account receiving the role")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const role = await getRole(taskArguments, hre);
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.grantRole(role, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Granted ${taskArguments.role} to ${taskArguments.account}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:revoke-role --role auditor --account 0x...
+ */
+task("task:revoke-role", "Revokes a role on the EncryptedRatingSystem contract (owner only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("role", "The role to revoke (admin, moderator or auditor)")
+  .addParam("account", "The account losing the role")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const role = await getRole(taskArguments, hre);
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.revokeRole(role, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Revoked ${taskArguments.role} from ${taskArguments.account}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pause
+ */
+task("task:pause", "Stops rating submissions, updates and deletions (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.pause();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`EncryptedRatingSystem paused`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:unpause
+ */
+task("task:unpause", "Resumes rating submissions, updates and deletions (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.unpause();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`EncryptedRatingSystem unpaused`);
+  });
+
+/**
+ * Anonymity mode keys entries by respondent nullifiers instead of addresses. It can only be switched before the
+ * first rating is submitted.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:set-anonymous-mode --enabled true
+ */
+task("task:set-anonymous-mode", "Switches anonymity mode on or off before any rating exists (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("enabled", "Whether ratings are submitted anonymously (true or false)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+      throw new Error(`Argument --enabled must be true or false`);
+    }
+    const enabled = taskArguments.enabled === "true";
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.setAnonymousMode(enabled);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Anonymity mode ${enabled ? "enabled" : "disabled"}`);
+  });
+
+/**
+ * With private counts, entry counts are encrypted and no view or event of the contract says who rated what; transaction
+ * calldata still does. It can only be switched before the first rating is submitted.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:set-private-counts --enabled true
+ */
+task("task:set-private-counts", "Switches private counts on or off before any rating exists (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("enabled", "Whether entry counts are kept encrypted (true or false)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+      throw new Error(`Argument --enabled must be true or false`);
+    }
+    const enabled = taskArguments.enabled === "true";
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.setPrivateCounts(enabled);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Private counts ${enabled ? "enabled" : "disabled"}`);
+  });
+
+/**
+ * Respondents submit their segment encrypted, as its position in the list. Segments can only be set before the
+ * first rating is submitted.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:set-segments --names "Engineering,Sales"
+ */
+task("task:set-segments", "Defines the respondent segments before any rating exists (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("names", "Comma-separated segment names, in index order")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const names = String(taskArguments.names)
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.setSegments(names);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    names.forEach((name, index) => console.log(`Segment ${index}: ${name}`));
+  });
+
+/**
+ * A subject with a noise scale publishes its sum off by a random amount in [-scale, scale), so its average is off
+ * by at most scale / count. Only NOISE_BUDGET noisy results are ever published for it, and the global sums are
+ * noised with the largest scale set on any subject. The scale can only be changed before the subject's first rating.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:set-noise-scale --subject "Leadership" --scale 8
+ */
+task("task:set-noise-scale", "Adds differential-privacy noise to a subject's published statistics (admin only)")
+  .addOptionalParam("address", "Optionally specify the EncryptedRatingSystem contract address")
+  .addParam("subject", "The subject to publish with noise")
+  .addParam("scale", "Noise bound of the rating sum, a power of two up to 1024 (0 disables the noise)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const scale = Number(taskArguments.scale);
+    if (!Number.isInteger(scale) || scale < 0) {
+      throw new Error(`Argument --scale is not a non-negative integer`);
+    }
+    const ratingSystem = await getRatingSystem(taskArguments, hre);
+
+    const tx = await ratingSystem.setSubjectNoiseScale(taskArguments.subject, scale);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      scale === 0
+        ? `${taskArguments.subject} publishes exact statistics`
+        : `${taskArguments.subject} publishes sums within ±${scale}, ${await ratingSystem.getRemainingNoiseBudget(taskArguments.subject)} requests left`,
+    );
+  });
+
+/**
+ * Publishes the pending statistics decryptions of a local Hardhat node. Its mock decryption oracle answers
+ * with mock KMS signatures, which the rating contract verifies exactly like the real ones on Sepolia.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:fulfill-decryptions
+ */
+task("task:fulfill-decryptions", "Fulfills pending decryption requests on a local Hardhat node").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("Decryptions are only fulfilled locally on the Hardhat mock network");
+    }
+
+    await fhevm.awaitDecryptionOracle();
+    console.log("Pending decryption requests fulfilled");
+  },
+);
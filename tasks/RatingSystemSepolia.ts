@@ -41,12 +41,12 @@ task("task:RatingSystemSepolia", "Test EncryptedRatingSystem on Sepolia")
 
       const encryptedInput = await fhevm
         .createEncryptedInput(RatingSystemDeployment.address, user1.address)
-        .add32(ratingValue)
+        .add8(ratingValue)
         .encrypt();
 
       const submitTx = await ratingSystem
         .connect(user1)
-        .submitRating(encryptedInput.handles[0], encryptedInput.inputProof, "Product Quality");
+        .submitRating(encryptedInput.handles[0], encryptedInput.inputProof, "Product Quality", []);
       console.log(`Wait for submit tx: ${submitTx.hash}...`);
 
       const submitReceipt = await submitTx.wait();
@@ -58,12 +58,12 @@ task("task:RatingSystemSepolia", "Test EncryptedRatingSystem on Sepolia")
 
       const encryptedInput2 = await fhevm
         .createEncryptedInput(RatingSystemDeployment.address, user2.address)
-        .add32(ratingValue2)
+        .add8(ratingValue2)
         .encrypt();
 
       const submitTx2 = await ratingSystem
         .connect(user2)
-        .submitRating(encryptedInput2.handles[0], encryptedInput2.inputProof, "Customer Service");
+        .submitRating(encryptedInput2.handles[0], encryptedInput2.inputProof, "Customer Service", []);
       console.log(`Wait for submit tx: ${submitTx2.hash}...`);
 
       const submitReceipt2 = await submitTx2.wait();
@@ -0,0 +1,1881 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { EncryptedRatingSystem, EncryptedRatingSystem__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Wallet } from "ethers";
+import { buildEligibilityTree } from "../tasks/RatingEligibility";
+import { deployModules } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// Mirrors EncryptedRatingSystem.SubjectStatus
+const SubjectStatus = { Draft: 0, Open: 1, Closed: 2, Archived: 3 };
+
+// Member keys for anonymity mode, derived from secrets the respondents keep off-chain. The admins publish the Merkle
+// root of their addresses and never learn which respondent holds which key beyond what registration tells them.
+const memberKeys = {
+  alice: new ethers.Wallet(ethers.id("alice's secret")),
+  bob: new ethers.Wallet(ethers.id("bob's secret")),
+};
+const members = buildEligibilityTree(Object.values(memberKeys).map((key) => key.address));
+
+async function deployFixture(minRespondents: number = 1, globalMinRespondents: number = 1) {
+  const factory = (await ethers.getContractFactory("EncryptedRatingSystem")) as EncryptedRatingSystem__factory;
+  const ratingSystem = (await factory.deploy(
+    minRespondents,
+    globalMinRespondents,
+    ...(await deployModules()),
+  )) as EncryptedRatingSystem;
+  const ratingSystemAddress = await ratingSystem.getAddress();
+
+  // Ratings are only accepted for registered, open subjects
+  await (await ratingSystem.registerSubject("Leadership", "How well the team is led", 0, 0)).wait();
+  await (await ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Open)).wait();
+
+  return { ratingSystem, ratingSystemAddress };
+}
+
+describe("EncryptedRatingSystem", function () {
+  let signers: Signers;
+  let ratingSystem: EncryptedRatingSystem;
+  let ratingSystemAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ ratingSystem, ratingSystemAddress } = await deployFixture());
+  });
+
+  async function submit(signer: HardhatEthersSigner, rating: number, subject: string, eligibilityProof: string[] = []) {
+    const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signer.address).add8(rating).encrypt();
+    const tx = await ratingSystem
+      .connect(signer)
+      .submitRating(encrypted.handles[0], encrypted.inputProof, subject, eligibilityProof);
+    await tx.wait();
+  }
+
+  async function canDecrypt(handle: string, user: HardhatEthersSigner) {
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint32, handle, ratingSystemAddress, user);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Only released sums are shared, so a statistics request releases the current ones first
+  async function decryptSums(subject: string, user: HardhatEthersSigner) {
+    await (await ratingSystem.requestAllStats([subject])).wait();
+    await (await ratingSystem.connect(user).allowUserToDecrypt(user.address, [subject])).wait();
+    const [subjectSum, , subjectCount] = await ratingSystem.getEncryptedSubjectStats(subject);
+    const [globalSum, , globalCount] = await ratingSystem.getEncryptedGlobalStats();
+    return {
+      subject: await fhevm.userDecryptEuint(FhevmType.euint32, subjectSum, ratingSystemAddress, user),
+      global: await fhevm.userDecryptEuint(FhevmType.euint32, globalSum, ratingSystemAddress, user),
+      subjectCount: await fhevm.userDecryptEuint(FhevmType.euint32, subjectCount, ratingSystemAddress, user),
+      globalCount: await fhevm.userDecryptEuint(FhevmType.euint32, globalCount, ratingSystemAddress, user),
+    };
+  }
+
+  // The only nullifier a member key may rate a subject with
+  function nullifierFor(member: string, subject: string) {
+    return ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [member, ethers.id(subject)]),
+    );
+  }
+
+  // Signs a rating with a member key; sender submits it, so the input is encrypted for the sender
+  async function submitAnonymous(
+    sender: HardhatEthersSigner,
+    memberKey: Wallet,
+    rating: number,
+    subject: string,
+    nullifier: string = nullifierFor(memberKey.address, subject),
+  ) {
+    const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, sender.address).add8(rating).encrypt();
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await memberKey.signTypedData(
+      { name: "EncryptedRatingSystem", version: "1", chainId, verifyingContract: ratingSystemAddress },
+      {
+        AnonymousRating: [
+          { name: "nullifier", type: "bytes32" },
+          { name: "encryptedRating", type: "bytes32" },
+          { name: "inputProof", type: "bytes" },
+        ],
+      },
+      { nullifier, encryptedRating: encrypted.handles[0], inputProof: encrypted.inputProof },
+    );
+    return ratingSystem
+      .connect(sender)
+      .submitAnonymousRating(
+        memberKey.address,
+        nullifier,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        subject,
+        members.proofs[memberKey.address] ?? [],
+        signature,
+      );
+  }
+
+  describe("rating range enforcement", function () {
+    it("should add an in-range rating to the aggregates", async function () {
+      await submit(signers.alice, 7, "Leadership");
+
+      const sums = await decryptSums("Leadership", signers.alice);
+      expect(sums.subject).to.eq(7);
+      expect(sums.global).to.eq(7);
+      expect(sums.subjectCount).to.eq(1);
+      expect(sums.globalCount).to.eq(1);
+
+      const rejected = await ratingSystem.getRejectedFlag(0);
+      expect(await fhevm.userDecryptEbool(rejected, ratingSystemAddress, signers.alice)).to.eq(false);
+    });
+
+    for (const outOfRange of [0, 11]) {
+      it(`should not move the aggregates for a rating of ${outOfRange}`, async function () {
+        await submit(signers.alice, 7, "Leadership");
+        await submit(signers.bob, outOfRange, "Leadership");
+
+        const sums = await decryptSums("Leadership", signers.bob);
+        expect(sums.subject).to.eq(7);
+        expect(sums.global).to.eq(7);
+        expect(sums.subjectCount).to.eq(1);
+        expect(sums.globalCount).to.eq(1);
+
+        const rejected = await ratingSystem.getRejectedFlag(1);
+        expect(await fhevm.userDecryptEbool(rejected, ratingSystemAddress, signers.bob)).to.eq(true);
+
+        // The rejected rating counts towards neither the published average nor its count
+        await ratingSystem.requestSubjectStats("Leadership");
+        await ratingSystem.requestGlobalStats();
+        await fhevm.awaitDecryptionOracle();
+        const [average, count, stdDev] = await ratingSystem.getSubjectStats("Leadership");
+        expect([average, count, stdDev]).to.deep.eq([700n, 1n, 0n]);
+        const [globalAverage, globalCount] = await ratingSystem.getGlobalStats();
+        expect([globalAverage, globalCount]).to.deep.eq([700n, 1n]);
+      });
+    }
+
+    it("should zero out an out-of-range rating on update", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 4, "Leadership");
+
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.bob.address).add8(255).encrypt();
+      const tx = await ratingSystem
+        .connect(signers.bob)
+        .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Leadership");
+      await tx.wait();
+
+      const sums = await decryptSums("Leadership", signers.bob);
+      expect(sums.subject).to.eq(7);
+      expect(sums.global).to.eq(7);
+      expect(sums.subjectCount).to.eq(1);
+
+      const rejected = await ratingSystem.getRejectedFlag(1);
+      expect(await fhevm.userDecryptEbool(rejected, ratingSystemAddress, signers.bob)).to.eq(true);
+    });
+
+    it("should withhold statistics when rejected ratings make up the respondent threshold", async function () {
+      await ratingSystem.setSubjectMinRespondents("Leadership", 2);
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 11, "Leadership");
+
+      // Two entries pass the plaintext check, but only one accepted rating would be published
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.emit(ratingSystem, "SubjectStatsRequested");
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(0);
+    });
+  });
+
+  describe("statistics snapshots", function () {
+    it("should publish a new numbered snapshot each time stats are requested", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.emit(ratingSystem, "SubjectStatsRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ratingSystem.isSubjectStatsFinalized("Leadership")).to.eq(true);
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(1);
+      let [average, count] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(700);
+      expect(count).to.eq(2);
+
+      await submit(signers.deployer, 10, "Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(2);
+      [average, count] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(800);
+      expect(count).to.eq(3);
+
+      // Earlier snapshots stay queryable
+      const [firstAverage, firstCount, firstBlock] = await ratingSystem.getSubjectSnapshot("Leadership", 1);
+      expect(firstAverage).to.eq(700);
+      expect(firstCount).to.eq(2);
+      expect(firstBlock).to.be.greaterThan(0);
+      await expect(ratingSystem.getSubjectSnapshot("Leadership", 3)).to.be.revertedWith("Snapshot does not exist");
+    });
+
+    it("should carry the snapshot number in the published events", async function () {
+      await submit(signers.alice, 9, "Leadership");
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+
+      const subjectHash = ethers.keccak256(ethers.toUtf8Bytes("Leadership"));
+      const subjectEvents = await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsPublished(subjectHash));
+      expect(subjectEvents.length).to.eq(1);
+      expect(subjectEvents[0].args.snapshotId).to.eq(1);
+      expect(subjectEvents[0].args.averageRating).to.eq(900);
+
+      const globalEvents = await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsPublished());
+      expect(globalEvents.length).to.eq(1);
+      expect(globalEvents[0].args.snapshotId).to.eq(1);
+
+      expect(await ratingSystem.getGlobalSnapshotCount()).to.eq(1);
+      const [average, totalCount] = await ratingSystem.getGlobalStats();
+      expect(average).to.eq(900);
+      expect(totalCount).to.eq(1);
+    });
+  });
+
+  describe("decryption callbacks", function () {
+    // Errors raised by the KMSVerifier contract that checks the decryption proofs
+    const kmsVerifierErrors = new ethers.Contract(ethers.ZeroAddress, [
+      "error EmptyDecryptionProof()",
+      "error KMSInvalidSigner(address invalidSigner)",
+    ]);
+
+    it("should reject results without valid KMS signatures", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await ratingSystem.requestGlobalStats();
+      const [requested] = await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsRequested());
+
+      // Anyone can call the callback, but made-up cleartexts carry no KMS signatures
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [10, 100]);
+      await expect(
+        ratingSystem.connect(signers.bob).globalStatsCallback(requested.args.requestId, forged, "0x"),
+      ).to.be.revertedWithCustomError(kmsVerifierErrors, "EmptyDecryptionProof");
+      expect(await ratingSystem.getGlobalSnapshotCount()).to.eq(0);
+
+      // The oracle still publishes the genuine result, after which the request is spent
+      await fhevm.awaitDecryptionOracle();
+      const [average] = await ratingSystem.getGlobalStats();
+      expect(average).to.eq(800);
+      await expect(ratingSystem.globalStatsCallback(requested.args.requestId, forged, "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+
+    it("should reject signed results replayed for another request", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      // Take the oracle's signed subject result and present it as the answer to a global request
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsPublished());
+      const callbackTx = await published.getTransaction();
+      const [, cleartexts, decryptionProof] = ratingSystem.interface.decodeFunctionData(
+        "subjectStatsCallback",
+        callbackTx.data,
+      );
+
+      await submit(signers.bob, 2, "Leadership");
+      await ratingSystem.requestGlobalStats();
+      const [requested] = await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsRequested());
+
+      // The signatures cover other handles, so they recover to an address that is not a KMS signer
+      await expect(
+        ratingSystem.globalStatsCallback(requested.args.requestId, cleartexts, decryptionProof),
+      ).to.be.revertedWithCustomError(kmsVerifierErrors, "KMSInvalidSigner");
+    });
+  });
+
+  describe("fixed-point precision", function () {
+    it("should publish averages and deviations with two decimals", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 7, "Leadership");
+      await submit(signers.carol, 7, "Leadership");
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ratingSystem.STATS_PRECISION()).to.eq(100);
+      // 22 / 3 = 7.333..., deviation sqrt(2) / 3 = 0.4714...
+      const [average, count, stdDev] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(733);
+      expect(count).to.eq(3);
+      expect(stdDev).to.eq(47);
+    });
+  });
+
+  describe("spread", function () {
+    it("should publish the standard deviation alongside the mean", async function () {
+      await submit(signers.deployer, 3, "Leadership");
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 3, "Leadership");
+      await submit(signers.carol, 7, "Leadership");
+
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.emit(ratingSystem, "SubjectStatsRequested");
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+
+      const [average, count, stdDev] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(500);
+      expect(count).to.eq(4);
+      expect(stdDev).to.eq(200);
+
+      const globalEvents = await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsPublished());
+      expect(globalEvents[0].args.averageRating).to.eq(500);
+      expect(globalEvents[0].args.stdDev).to.eq(200);
+    });
+
+    it("should keep the sum of squares in step with updates and deletes", async function () {
+      await submit(signers.alice, 2, "Leadership");
+      await submit(signers.bob, 9, "Leadership");
+      await submit(signers.carol, 4, "Leadership");
+
+      // Leaves 4 and 8: mean 6, standard deviation 2
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.bob.address).add8(8).encrypt();
+      await (
+        await ratingSystem
+          .connect(signers.bob)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Leadership")
+      ).wait();
+      await (await ratingSystem.connect(signers.alice).deleteRating("Leadership")).wait();
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      const [average, count, stdDev] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(600);
+      expect(count).to.eq(2);
+      expect(stdDev).to.eq(200);
+    });
+  });
+
+  describe("rating histogram", function () {
+    it("should publish the distribution of ratings in a single decryption", async function () {
+      await submit(signers.alice, 1, "Leadership");
+      await submit(signers.bob, 10, "Leadership");
+      await submit(signers.carol, 10, "Leadership");
+      await submit(signers.deployer, 11, "Leadership");
+
+      await expect(ratingSystem.requestSubjectHistogram("Leadership")).to.emit(
+        ratingSystem,
+        "SubjectHistogramRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [buckets, count] = await ratingSystem.getSubjectHistogram("Leadership");
+      // The rejected rating of 11 falls in no bucket and is not counted
+      expect(buckets.map(Number)).to.deep.eq([1, 0, 0, 0, 0, 0, 0, 0, 0, 2]);
+      expect(count).to.eq(3);
+    });
+
+    it("should move buckets on update and delete", async function () {
+      await submit(signers.alice, 5, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.bob.address).add8(9).encrypt();
+      await (
+        await ratingSystem
+          .connect(signers.bob)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Leadership")
+      ).wait();
+      await (await ratingSystem.connect(signers.alice).deleteRating("Leadership")).wait();
+
+      await ratingSystem.requestSubjectHistogram("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      const [buckets, count] = await ratingSystem.getSubjectHistogram("Leadership");
+      expect(buckets.map(Number)).to.deep.eq([0, 0, 0, 0, 0, 0, 0, 0, 1, 0]);
+      expect(count).to.eq(1);
+    });
+
+    it("should not publish a histogram before one is requested", async function () {
+      await submit(signers.alice, 5, "Leadership");
+      await expect(ratingSystem.getSubjectHistogram("Leadership")).to.be.revertedWith("Histogram not available yet");
+    });
+  });
+
+  describe("subject registry", function () {
+    it("should reject ratings for unknown and draft subjects", async function () {
+      await expect(submit(signers.alice, 7, "Unknown")).to.be.revertedWith("Unknown subject");
+
+      await ratingSystem.registerSubject("Innovation", "New ideas", 0, 0);
+      await expect(submit(signers.alice, 7, "Innovation")).to.be.revertedWith("Subject is not open");
+
+      await ratingSystem.setSubjectStatus("Innovation", SubjectStatus.Open);
+      await submit(signers.alice, 7, "Innovation");
+      expect(await ratingSystem.getSubjectEntryCount("Innovation")).to.eq(1);
+    });
+
+    it("should list registered subjects with their metadata", async function () {
+      await expect(ratingSystem.registerSubject("Innovation", "New ideas", 100, 200))
+        .to.emit(ratingSystem, "SubjectRegistered")
+        .withArgs(ethers.keccak256(ethers.toUtf8Bytes("Innovation")), 2, "Innovation");
+      await expect(ratingSystem.registerSubject("Innovation", "Again", 0, 0)).to.be.revertedWith(
+        "Subject already registered",
+      );
+      await expect(ratingSystem.registerSubject("Communication", "", 200, 100)).to.be.revertedWith("Invalid schedule");
+      await expect(ratingSystem.connect(signers.alice).registerSubject("Communication", "", 0, 0)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+
+      expect(await ratingSystem.getSubjectCount()).to.eq(2);
+      const [name, description, opensAt, closesAt, status] = await ratingSystem.getSubject(2);
+      expect(name).to.eq("Innovation");
+      expect(description).to.eq("New ideas");
+      expect(opensAt).to.eq(100);
+      expect(closesAt).to.eq(200);
+      expect(status).to.eq(SubjectStatus.Draft);
+      await expect(ratingSystem.getSubject(3)).to.be.revertedWith("Unknown subject");
+    });
+
+    it("should only move the lifecycle forward", async function () {
+      await expect(ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Draft)).to.be.revertedWith(
+        "Invalid status transition",
+      );
+      await expect(ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Closed))
+        .to.emit(ratingSystem, "SubjectStatusChanged")
+        .withArgs(ethers.keccak256(ethers.toUtf8Bytes("Leadership")), SubjectStatus.Closed);
+      await expect(ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Open)).to.be.revertedWith(
+        "Invalid status transition",
+      );
+      await ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Archived);
+      await expect(ratingSystem.updateSubject("Leadership", "", 0, 0)).to.be.revertedWith("Subject is archived");
+    });
+
+    it("should freeze ratings once a subject is closed", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await ratingSystem.setSubjectStatus("Leadership", SubjectStatus.Closed);
+
+      expect(await ratingSystem.isSubjectOpen("Leadership")).to.eq(false);
+      await expect(submit(signers.bob, 5, "Leadership")).to.be.revertedWith("Subject is not open");
+      await expect(ratingSystem.connect(signers.alice).deleteRating("Leadership")).to.be.revertedWith(
+        "Subject is not open",
+      );
+
+      // Results of a closed subject can still be published
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+      const [average] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(700);
+    });
+
+    it("should only accept ratings within the open/close window", async function () {
+      const now = await time.latest();
+      await ratingSystem.updateSubject("Leadership", "How well the team is led", now + 100, now + 200);
+
+      await expect(submit(signers.alice, 7, "Leadership")).to.be.revertedWith("Subject is not open");
+      await time.increaseTo(now + 100);
+      await submit(signers.alice, 7, "Leadership");
+      await time.increaseTo(now + 200);
+      await expect(submit(signers.bob, 7, "Leadership")).to.be.revertedWith("Subject is not open");
+    });
+  });
+
+  describe("survey campaigns", function () {
+    const questions = ["Leadership", "Communication", "Innovation", "Recognition", "Growth", "Workload"];
+
+    beforeEach(async function () {
+      for (const question of questions.slice(1)) {
+        await ratingSystem.registerSubject(question, "", 0, 0);
+        await ratingSystem.setSubjectStatus(question, SubjectStatus.Open);
+      }
+      await ratingSystem.createCampaign("Engagement survey", questions);
+    });
+
+    async function submitCampaign(signer: HardhatEthersSigner, answers: number[], eligibilityProof: string[] = []) {
+      const input = fhevm.createEncryptedInput(ratingSystemAddress, signer.address);
+      answers.forEach((answer) => input.add8(answer));
+      const encrypted = await input.encrypt();
+      const tx = await ratingSystem
+        .connect(signer)
+        .submitCampaign(1, encrypted.handles, encrypted.inputProof, eligibilityProof);
+      return tx.wait();
+    }
+
+    it("should record every answer of a questionnaire from one proof", async function () {
+      const [name, storedQuestions] = await ratingSystem.getCampaign(1);
+      expect(name).to.eq("Engagement survey");
+      expect(storedQuestions).to.deep.eq(questions);
+
+      await expect(submitCampaign(signers.alice, [9, 8, 7, 6, 5, 4]))
+        .to.emit(ratingSystem, "CampaignSubmitted")
+        .withArgs(1, signers.alice.address);
+      await submitCampaign(signers.bob, [7, 6, 5, 4, 3, 11]);
+
+      for (const [i, question] of questions.entries()) {
+        expect(await ratingSystem.getSubjectEntryCount(question)).to.eq(2);
+        expect(await ratingSystem.hasSubmittedForSubject(signers.bob.address, question)).to.eq(true);
+        await ratingSystem.requestSubjectStats(question);
+        await fhevm.awaitDecryptionOracle();
+        const [average, count] = await ratingSystem.getSubjectStats(question);
+        // The out-of-range last answer is rejected like a single rating would be, and has no effect
+        expect(average).to.eq(i === 5 ? 400 : (16 - 2 * i) * 50);
+        expect(count).to.eq(i === 5 ? 1 : 2);
+      }
+    });
+
+    it("should reject incomplete questionnaires and repeat respondents", async function () {
+      await expect(submitCampaign(signers.alice, [9, 8, 7])).to.be.revertedWith("Answer count mismatch");
+
+      await submitCampaign(signers.alice, [9, 8, 7, 6, 5, 4]);
+      await expect(submitCampaign(signers.alice, [9, 8, 7, 6, 5, 4])).to.be.revertedWith(
+        "Already submitted for this subject",
+      );
+    });
+
+    it("should only build campaigns from registered subjects", async function () {
+      await expect(ratingSystem.createCampaign("Survey", ["Leadership", "Unknown"])).to.be.revertedWith(
+        "Unknown subject",
+      );
+      await expect(ratingSystem.createCampaign("Survey", ["Leadership", "Leadership"])).to.be.revertedWith(
+        "Duplicate question",
+      );
+      await expect(ratingSystem.connect(signers.alice).createCampaign("Survey", ["Leadership"])).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await expect(ratingSystem.getCampaign(2)).to.be.revertedWith("Unknown campaign");
+    });
+
+    it("should close at its deadline and let anyone request the final results once", async function () {
+      await expect(ratingSystem.requestCampaignResults(1)).to.be.revertedWith("Campaign is still open");
+      const closesAt = (await time.latest()) + 3600;
+      await expect(ratingSystem.setCampaignDeadline(1, closesAt))
+        .to.emit(ratingSystem, "CampaignDeadlineUpdated")
+        .withArgs(1, closesAt);
+      await expect(ratingSystem.connect(signers.alice).setCampaignDeadline(1, 0)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+
+      await submitCampaign(signers.alice, [9, 8, 7, 6, 5, 4]);
+      await submitCampaign(signers.bob, [7, 6, 5, 4, 3, 2]);
+      await expect(ratingSystem.requestCampaignResults(1)).to.be.revertedWith("Campaign is still open");
+
+      await time.increaseTo(closesAt);
+      await expect(submitCampaign(signers.carol, [9, 8, 7, 6, 5, 4])).to.be.revertedWith("Campaign is closed");
+
+      // The questions close with the campaign, so no single rating can move the final results either
+      expect(await ratingSystem.isSubjectOpen("Workload")).to.eq(false);
+      await expect(submit(signers.carol, 9, "Workload")).to.be.revertedWith("Campaign is closed");
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.alice.address).add8(1).encrypt();
+      await expect(
+        ratingSystem
+          .connect(signers.alice)
+          .updateRating("Workload", encrypted.handles[0], encrypted.inputProof, "Workload"),
+      ).to.be.revertedWith("Campaign is closed");
+      await expect(ratingSystem.connect(signers.alice).deleteRating("Workload")).to.be.revertedWith(
+        "Campaign is closed",
+      );
+
+      // A keeper without any role publishes every question's results in one decryption
+      await expect(ratingSystem.connect(signers.carol).requestCampaignResults(1)).to.emit(
+        ratingSystem,
+        "CampaignResultsRequested",
+      );
+      await expect(ratingSystem.requestCampaignResults(1)).to.be.revertedWith("Results already requested");
+      await expect(ratingSystem.setCampaignDeadline(1, 0)).to.be.revertedWith("Results already requested");
+      expect(await ratingSystem.getCampaignDeadline(1)).to.deep.eq([BigInt(closesAt), true]);
+      await fhevm.awaitDecryptionOracle();
+
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.CampaignResultsPublished(1));
+      const [results] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished());
+      expect(results.args.requestId).to.eq(published.args.requestId);
+      expect(results.args.globalCount).to.eq(0);
+      expect(results.args.averages).to.deep.eq([800n, 700n, 600n, 500n, 400n, 300n]);
+      expect(results.args.counts).to.deep.eq(questions.map(() => 2n));
+      const [average, count] = await ratingSystem.getSubjectStats("Workload");
+      expect(average).to.eq(300);
+      expect(count).to.eq(2);
+      expect(await ratingSystem.getGlobalSnapshotCount()).to.eq(0);
+    });
+
+    it("should withhold questions it cannot publish instead of reverting", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      await ratingSystem.setCampaignDeadline(1, closesAt);
+      await ratingSystem.setSubjectNoiseScale("Innovation", 4);
+      await submitCampaign(signers.alice, [9, 8, 7, 6, 5, 4]);
+
+      // Respondents and admins leave three questions unpublishable: too few respondents, no budget and no data
+      await ratingSystem.setSubjectMinRespondents("Communication", 2);
+      for (let i = 0n; i < (await ratingSystem.NOISE_BUDGET()); i++) {
+        await ratingSystem.requestSubjectStats("Innovation");
+      }
+      await fhevm.awaitDecryptionOracle();
+      await ratingSystem.connect(signers.alice).deleteRating("Workload");
+
+      await time.increaseTo(closesAt);
+      await expect(ratingSystem.connect(signers.carol).requestCampaignResults(1)).to.emit(
+        ratingSystem,
+        "CampaignResultsRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [results] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished());
+      expect(results.args.averages).to.deep.eq([900n, 0n, 0n, 600n, 500n, 0n]);
+      expect(results.args.counts).to.deep.eq([1n, 0n, 0n, 1n, 1n, 0n]);
+      expect(await ratingSystem.getSubjectSnapshotCount("Communication")).to.eq(0);
+      expect(await ratingSystem.getSubjectSnapshotCount("Workload")).to.eq(0);
+    });
+  });
+
+  describe("per-subject entries", function () {
+    beforeEach(async function () {
+      await ratingSystem.registerSubject("Communication", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Communication", SubjectStatus.Open);
+    });
+
+    async function update(signer: HardhatEthersSigner, subject: string, rating: number, newSubject: string) {
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signer.address).add8(rating).encrypt();
+      return ratingSystem.connect(signer).updateRating(subject, encrypted.handles[0], encrypted.inputProof, newSubject);
+    }
+
+    it("should update and delete the rating of the given subject only", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.alice, 3, "Communication");
+
+      await expect(update(signers.alice, "Communication", 9, "Communication"))
+        .to.emit(ratingSystem, "RatingUpdated")
+        .withArgs(1, signers.alice.address);
+      await expect(ratingSystem.connect(signers.alice).deleteRating("Leadership"))
+        .to.emit(ratingSystem, "RatingDeleted")
+        .withArgs(0, signers.alice.address);
+
+      const rating = await ratingSystem.getEncryptedRating(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, rating, ratingSystemAddress, signers.alice)).to.eq(9);
+      expect(await ratingSystem.getSubjectEntryCount("Communication")).to.eq(1);
+      expect(await ratingSystem.getSubjectEntryCount("Leadership")).to.eq(0);
+    });
+
+    it("should keep reporting the caller's other ratings after one is deleted", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.alice, 3, "Communication");
+
+      await (await ratingSystem.connect(signers.alice).deleteRating("Leadership")).wait();
+      expect(await ratingSystem.hasSubmitted(signers.alice.address)).to.eq(true);
+      expect(await ratingSystem.hasSubmittedForSubject(signers.alice.address, "Leadership")).to.eq(false);
+      expect(await ratingSystem.hasSubmittedForSubject(signers.alice.address, "Communication")).to.eq(true);
+      const [entries] = await ratingSystem.getEntriesBySubmitter(signers.alice.address, 0, 10);
+      expect(entries.filter((entry) => entry.isActive).map((entry) => entry.subject)).to.deep.eq(["Communication"]);
+
+      // Rating again counts towards the flag, and the last deletion clears it
+      await submit(signers.alice, 5, "Leadership");
+      await (await ratingSystem.connect(signers.alice).deleteRating("Communication")).wait();
+      expect(await ratingSystem.hasSubmitted(signers.alice.address)).to.eq(true);
+      await (await ratingSystem.connect(signers.alice).deleteRating("Leadership")).wait();
+      expect(await ratingSystem.hasSubmitted(signers.alice.address)).to.eq(false);
+    });
+
+    it("should reject entries the caller does not hold", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.alice, 3, "Communication");
+
+      // Entry 0 belongs to alice, so bob has no Leadership rating to change
+      await expect(update(signers.bob, "Leadership", 5, "Leadership")).to.be.revertedWith("No active entry found");
+      await expect(ratingSystem.connect(signers.bob).deleteRating("Leadership")).to.be.revertedWith(
+        "No active entry found",
+      );
+
+      // Moving a rating onto a subject the caller already rated would duplicate it
+      await expect(update(signers.alice, "Leadership", 5, "Communication")).to.be.revertedWith(
+        "Already submitted for this subject",
+      );
+
+      await (await ratingSystem.connect(signers.alice).deleteRating("Leadership")).wait();
+      await expect(ratingSystem.connect(signers.alice).deleteRating("Leadership")).to.be.revertedWith(
+        "No active entry found",
+      );
+    });
+  });
+
+  describe("paginated queries", function () {
+    beforeEach(async function () {
+      await ratingSystem.registerSubject("Communication", "How clearly the team communicates", 0, 0);
+      await ratingSystem.setSubjectStatus("Communication", SubjectStatus.Open);
+    });
+
+    it("should page through the entries of a subject and of a submitter", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 5, "Leadership");
+      await submit(signers.alice, 3, "Communication");
+      await (await ratingSystem.connect(signers.bob).deleteRating("Leadership")).wait();
+
+      let [entries, total] = await ratingSystem.getEntriesBySubject("Leadership", 0, 1);
+      expect(total).to.eq(2);
+      expect(entries.map((entry) => entry.id)).to.deep.eq([0n]);
+      expect(entries[0].subject).to.eq("Leadership");
+      expect(entries[0].submitter).to.eq(signers.alice.address);
+
+      // Deleted entries stay listed
+      [entries] = await ratingSystem.getEntriesBySubject("Leadership", 1, 10);
+      expect(entries.map((entry) => [entry.id, entry.isActive])).to.deep.eq([[1n, false]]);
+      [entries, total] = await ratingSystem.getEntriesBySubject("Leadership", 5, 10);
+      expect(entries).to.have.length(0);
+      expect(total).to.eq(2);
+
+      [entries, total] = await ratingSystem.getEntriesBySubmitter(signers.alice.address, 0, 10);
+      expect(entries.map((entry) => [entry.id, entry.subject])).to.deep.eq([
+        [0n, "Leadership"],
+        [2n, "Communication"],
+      ]);
+      expect(total).to.eq(2);
+
+      const maxPageSize = await ratingSystem.MAX_PAGE_SIZE();
+      await expect(ratingSystem.getEntriesBySubject("Leadership", 0, maxPageSize + 1n)).to.be.revertedWith(
+        "Page too large",
+      );
+    });
+
+    it("should move entries between subject lists when their subject changes", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 5, "Leadership");
+      await submit(signers.carol, 6, "Leadership");
+
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.alice.address).add8(8).encrypt();
+      await (
+        await ratingSystem
+          .connect(signers.alice)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Communication")
+      ).wait();
+
+      // The last Leadership entry takes the moved entry's place
+      const [leadership] = await ratingSystem.getEntriesBySubject("Leadership", 0, 10);
+      expect(leadership.map((entry) => entry.id)).to.deep.eq([2n, 1n]);
+      const [communication] = await ratingSystem.getEntriesBySubject("Communication", 0, 10);
+      expect(communication.map((entry) => [entry.id, entry.subject])).to.deep.eq([[0n, "Communication"]]);
+    });
+
+    it("should list registered subjects in ID order", async function () {
+      const [subjects, total] = await ratingSystem.getSubjects(1, 10);
+      expect(total).to.eq(2);
+      expect(subjects).to.have.length(1);
+      expect(subjects[0].id).to.eq(2);
+      expect(subjects[0].name).to.eq("Communication");
+      expect(subjects[0].description).to.eq("How clearly the team communicates");
+      expect(subjects[0].status).to.eq(SubjectStatus.Open);
+    });
+  });
+
+  describe("access control", function () {
+    it("should let the owner grant and revoke roles", async function () {
+      const moderatorRole = await ratingSystem.MODERATOR_ROLE();
+      await ratingSystem.registerSubject("Innovation", "", 0, 0);
+
+      await expect(
+        ratingSystem.connect(signers.alice).setSubjectStatus("Innovation", SubjectStatus.Open),
+      ).to.be.revertedWith("Caller is missing role");
+      await expect(
+        ratingSystem.connect(signers.alice).grantRole(moderatorRole, signers.alice.address),
+      ).to.be.revertedWith("Caller is not the owner");
+
+      await expect(ratingSystem.grantRole(moderatorRole, signers.alice.address))
+        .to.emit(ratingSystem, "RoleGranted")
+        .withArgs(moderatorRole, signers.alice.address, signers.deployer.address);
+      expect(await ratingSystem.hasRole(moderatorRole, signers.alice.address)).to.eq(true);
+      await ratingSystem.connect(signers.alice).setSubjectStatus("Innovation", SubjectStatus.Open);
+      await expect(ratingSystem.connect(signers.alice).registerSubject("Communication", "", 0, 0)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+
+      await expect(ratingSystem.revokeRole(moderatorRole, signers.alice.address))
+        .to.emit(ratingSystem, "RoleRevoked")
+        .withArgs(moderatorRole, signers.alice.address, signers.deployer.address);
+      await expect(
+        ratingSystem.connect(signers.alice).setSubjectStatus("Innovation", SubjectStatus.Closed),
+      ).to.be.revertedWith("Caller is missing role");
+      await expect(ratingSystem.grantRole(ethers.id("UNKNOWN_ROLE"), signers.alice.address)).to.be.revertedWith(
+        "Unknown role",
+      );
+    });
+
+    it("should freeze submit, update and delete while paused", async function () {
+      await ratingSystem.grantRole(await ratingSystem.ADMIN_ROLE(), signers.bob.address);
+      await submit(signers.alice, 7, "Leadership");
+
+      await expect(ratingSystem.connect(signers.carol).pause()).to.be.revertedWith("Caller is missing role");
+      await expect(ratingSystem.connect(signers.bob).pause())
+        .to.emit(ratingSystem, "Paused")
+        .withArgs(signers.bob.address);
+
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.alice.address).add8(8).encrypt();
+      await expect(
+        ratingSystem.connect(signers.alice).submitRating(encrypted.handles[0], encrypted.inputProof, "Leadership", []),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(
+        ratingSystem
+          .connect(signers.alice)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Leadership"),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(ratingSystem.connect(signers.alice).deleteRating("Leadership")).to.be.revertedWith(
+        "Contract is paused",
+      );
+
+      // Results stay available while paused
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+      const [average] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(700);
+
+      await expect(ratingSystem.connect(signers.bob).unpause())
+        .to.emit(ratingSystem, "Unpaused")
+        .withArgs(signers.bob.address);
+      await ratingSystem.connect(signers.alice).deleteRating("Leadership");
+    });
+
+    it("should transfer ownership in two steps", async function () {
+      await expect(ratingSystem.transferOwnership(signers.alice.address))
+        .to.emit(ratingSystem, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await ratingSystem.owner()).to.eq(signers.deployer.address);
+      expect(await ratingSystem.pendingOwner()).to.eq(signers.alice.address);
+
+      await expect(ratingSystem.connect(signers.bob).acceptOwnership()).to.be.revertedWith(
+        "Caller is not the pending owner",
+      );
+      await expect(ratingSystem.connect(signers.alice).acceptOwnership())
+        .to.emit(ratingSystem, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await ratingSystem.owner()).to.eq(signers.alice.address);
+      expect(await ratingSystem.pendingOwner()).to.eq(ethers.ZeroAddress);
+      await expect(ratingSystem.pause()).to.be.revertedWith("Caller is missing role");
+    });
+
+    it("should only let auditors grant decryption access to other addresses", async function () {
+      await submit(signers.alice, 7, "Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+
+      await expect(
+        ratingSystem.connect(signers.alice).allowUserToDecrypt(signers.bob.address, ["Leadership"]),
+      ).to.be.revertedWith("Caller is missing role");
+      await expect(ratingSystem.connect(signers.bob).allowUserToDecrypt(signers.bob.address, ["Leadership"]))
+        .to.emit(ratingSystem, "DecryptionAccessGranted")
+        .withArgs(signers.bob.address, signers.bob.address);
+
+      await ratingSystem.grantRole(await ratingSystem.AUDITOR_ROLE(), signers.alice.address);
+      await expect(ratingSystem.connect(signers.alice).allowUserToDecrypt(signers.carol.address, ["Leadership"]))
+        .to.emit(ratingSystem, "DecryptionAccessGranted")
+        .withArgs(signers.carol.address, signers.alice.address);
+
+      const [subjectSum] = await ratingSystem.getEncryptedSubjectStats("Leadership");
+      expect(await canDecrypt(subjectSum, signers.carol)).to.eq(true);
+    });
+  });
+
+  describe("relayed ratings", function () {
+    // Signs a rating as the respondent; carol relays it, so the input is encrypted for her
+    async function signRating(respondent: HardhatEthersSigner, rating: number, subject: string, deadline?: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(ratingSystemAddress, signers.carol.address)
+        .add8(rating)
+        .encrypt();
+      const expiry = deadline ?? (await time.latest()) + 3600;
+      const { chainId } = await ethers.provider.getNetwork();
+
+      const signature = await respondent.signTypedData(
+        { name: "EncryptedRatingSystem", version: "1", chainId, verifyingContract: ratingSystemAddress },
+        {
+          SubmitRating: [
+            { name: "respondent", type: "address" },
+            { name: "encryptedRating", type: "bytes32" },
+            { name: "inputProof", type: "bytes" },
+            { name: "subject", type: "string" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          respondent: respondent.address,
+          encryptedRating: encrypted.handles[0],
+          inputProof: encrypted.inputProof,
+          subject,
+          nonce: await ratingSystem.nonces(respondent.address),
+          deadline: expiry,
+        },
+      );
+      return [respondent.address, encrypted.handles[0], encrypted.inputProof, subject, expiry, signature] as const;
+    }
+
+    // Signs an update of the respondent's rating of subject, moving it to newSubject
+    async function signUpdate(respondent: HardhatEthersSigner, rating: number, subject: string, newSubject: string) {
+      const encrypted = await fhevm
+        .createEncryptedInput(ratingSystemAddress, signers.carol.address)
+        .add8(rating)
+        .encrypt();
+      const expiry = (await time.latest()) + 3600;
+      const { chainId } = await ethers.provider.getNetwork();
+
+      const signature = await respondent.signTypedData(
+        { name: "EncryptedRatingSystem", version: "1", chainId, verifyingContract: ratingSystemAddress },
+        {
+          UpdateRating: [
+            { name: "respondent", type: "address" },
+            { name: "subject", type: "string" },
+            { name: "encryptedRating", type: "bytes32" },
+            { name: "inputProof", type: "bytes" },
+            { name: "newSubject", type: "string" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          respondent: respondent.address,
+          subject,
+          encryptedRating: encrypted.handles[0],
+          inputProof: encrypted.inputProof,
+          newSubject,
+          nonce: await ratingSystem.nonces(respondent.address),
+          deadline: expiry,
+        },
+      );
+      return [
+        respondent.address,
+        subject,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        newSubject,
+        expiry,
+        signature,
+      ] as const;
+    }
+
+    it("should record signed ratings for the respondent while the relayer pays gas", async function () {
+      const balance = await ethers.provider.getBalance(signers.alice.address);
+
+      const submission = await signRating(signers.alice, 8, "Leadership");
+      await expect(ratingSystem.connect(signers.carol).submitRatingFor(...submission, []))
+        .to.emit(ratingSystem, "RatingSubmitted")
+        .withArgs(0, signers.alice.address, (timestamp: bigint) => timestamp > 0n);
+      expect(await ratingSystem.nonces(signers.alice.address)).to.eq(1);
+
+      const [, , submitter] = await ratingSystem.getEntry(0);
+      expect(submitter).to.eq(signers.alice.address);
+      let rating = await ratingSystem.getEncryptedRating(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, rating, ratingSystemAddress, signers.alice)).to.eq(8);
+
+      const update = await signUpdate(signers.alice, 3, "Leadership", "Leadership");
+      await expect(ratingSystem.connect(signers.carol).updateRatingFor(...update))
+        .to.emit(ratingSystem, "RatingUpdated")
+        .withArgs(0, signers.alice.address);
+      rating = await ratingSystem.getEncryptedRating(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, rating, ratingSystemAddress, signers.alice)).to.eq(3);
+
+      // The respondent never sent a transaction
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(balance);
+    });
+
+    it("should reject replayed, expired and forged signatures", async function () {
+      const expired = await signRating(signers.alice, 8, "Leadership", (await time.latest()) - 1);
+      await expect(ratingSystem.connect(signers.carol).submitRatingFor(...expired, [])).to.be.revertedWith(
+        "Signature expired",
+      );
+
+      // Bob cannot sign on Alice's behalf
+      const [, handle, inputProof, subject, deadline, bobSignature] = await signRating(signers.bob, 8, "Leadership");
+      await expect(
+        ratingSystem
+          .connect(signers.carol)
+          .submitRatingFor(signers.alice.address, handle, inputProof, subject, deadline, bobSignature, []),
+      ).to.be.revertedWith("Invalid signature");
+
+      // A signature covers one message type, subject and nonce
+      const submission = await signRating(signers.alice, 8, "Leadership");
+      const [respondent, submittedHandle, submittedProof, , submittedDeadline, signature] = submission;
+      await expect(
+        ratingSystem
+          .connect(signers.carol)
+          .updateRatingFor(
+            respondent,
+            "Leadership",
+            submittedHandle,
+            submittedProof,
+            "Leadership",
+            submittedDeadline,
+            signature,
+          ),
+      ).to.be.revertedWith("Invalid signature");
+      await ratingSystem.connect(signers.carol).submitRatingFor(...submission, []);
+      await expect(ratingSystem.connect(signers.carol).submitRatingFor(...submission, [])).to.be.revertedWith(
+        "Invalid signature",
+      );
+    });
+  });
+
+  describe("anonymity mode", function () {
+    beforeEach(async function () {
+      await (await ratingSystem.setAnonymousMembersRoot(members.root)).wait();
+    });
+
+    it("should record ratings keyed by nullifier without storing or emitting an address", async function () {
+      await (await ratingSystem.setAnonymousMode(true)).wait();
+      const nullifier = nullifierFor(memberKeys.alice.address, "Leadership");
+
+      const tx = await submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership");
+      await expect(tx)
+        .to.emit(ratingSystem, "AnonymousRatingSubmitted")
+        .withArgs(0, nullifier, (timestamp: bigint) => timestamp > 0n);
+
+      // Neither the contract's events nor the ACL grants mention the respondent. Only the executor's input
+      // verification carries the transaction sender, which is why anonymous ratings are best relayed.
+      const receipt = await tx.wait();
+      const aclGrant = ethers.id("Allowed(address,address,bytes32)");
+      const respondent = signers.alice.address.slice(2).toLowerCase();
+      for (const log of receipt!.logs) {
+        if (log.address === ratingSystemAddress || log.topics[0] === aclGrant) {
+          expect([...log.topics, log.data].join("").toLowerCase()).to.not.include(respondent);
+        }
+      }
+
+      const [subject, , submitter, isActive] = await ratingSystem.getEntry(0);
+      expect(subject).to.eq("Leadership");
+      expect(submitter).to.eq(ethers.ZeroAddress);
+      expect(isActive).to.eq(true);
+      expect(await ratingSystem.getNullifierEntry(nullifier)).to.deep.eq([true, 0n]);
+      expect(await ratingSystem.hasSubmitted(signers.alice.address)).to.eq(false);
+
+      // The rating still counts towards the aggregates
+      const sums = await decryptSums("Leadership", signers.bob);
+      expect(sums.subject).to.eq(7);
+    });
+
+    it("should block reused nullifiers and address-keyed ratings", async function () {
+      await expect(submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership")).to.be.revertedWith(
+        "Anonymous mode is off",
+      );
+      await expect(ratingSystem.connect(signers.alice).setAnonymousMode(true)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await (await ratingSystem.setAnonymousMode(true)).wait();
+
+      await (await submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership")).wait();
+      await expect(submitAnonymous(signers.bob, memberKeys.alice, 3, "Leadership")).to.be.revertedWith(
+        "Nullifier already used",
+      );
+      await expect(submit(signers.bob, 3, "Leadership")).to.be.revertedWith("Anonymous mode is on");
+
+      // The mode cannot change once entries exist
+      await expect(ratingSystem.setAnonymousMode(false)).to.be.revertedWith("Ratings already submitted");
+    });
+
+    it("should only accept the nullifier derived from a registered member key and the subject", async function () {
+      await (await ratingSystem.setAnonymousMode(true)).wait();
+      await (await submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership")).wait();
+
+      // A second rating of the subject under a fresh nullifier is refused, whichever value it takes
+      for (const nullifier of [ethers.id("another nullifier"), nullifierFor(memberKeys.alice.address, "Culture")]) {
+        await expect(submitAnonymous(signers.alice, memberKeys.alice, 3, "Leadership", nullifier)).to.be.revertedWith(
+          "Invalid nullifier",
+        );
+      }
+
+      // Keys outside the published tree cannot rate, and a member's nullifier cannot be spent by another key
+      const outsider = new ethers.Wallet(ethers.id("mallory's secret"));
+      await expect(submitAnonymous(signers.carol, outsider, 3, "Leadership")).to.be.revertedWith(
+        "Not a registered member",
+      );
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.carol.address).add8(3).encrypt();
+      await expect(
+        ratingSystem
+          .connect(signers.carol)
+          .submitAnonymousRating(
+            memberKeys.bob.address,
+            nullifierFor(memberKeys.bob.address, "Leadership"),
+            encrypted.handles[0],
+            encrypted.inputProof,
+            "Leadership",
+            members.proofs[memberKeys.bob.address],
+            "0x",
+          ),
+      ).to.be.revertedWith("Invalid signature");
+
+      await (await submitAnonymous(signers.carol, memberKeys.bob, 3, "Leadership")).wait();
+      expect(await ratingSystem.getAnonymousNullifier(memberKeys.bob.address, "Leadership")).to.eq(
+        nullifierFor(memberKeys.bob.address, "Leadership"),
+      );
+      expect(
+        await ratingSystem.isAnonymousMember(memberKeys.bob.address, members.proofs[memberKeys.bob.address]),
+      ).to.eq(true);
+      expect(await ratingSystem.isAnonymousMember(outsider.address, [])).to.eq(false);
+      await expect(ratingSystem.connect(signers.alice).setAnonymousMembersRoot(ethers.ZeroHash)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+    });
+  });
+
+  describe("eligibility allowlists", function () {
+    it("should only accept ratings with a valid proof for the subject's allowlist", async function () {
+      const tree = buildEligibilityTree([signers.alice.address, signers.bob.address, signers.deployer.address]);
+      const subjectHash = ethers.id("Leadership");
+
+      await expect(ratingSystem.connect(signers.alice).setEligibilityRoot("Leadership", tree.root)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await expect(ratingSystem.setEligibilityRoot("Unknown", tree.root)).to.be.revertedWith("Unknown subject");
+      await expect(ratingSystem.setEligibilityRoot("Leadership", tree.root))
+        .to.emit(ratingSystem, "EligibilityRootUpdated")
+        .withArgs(subjectHash, tree.root);
+      expect(await ratingSystem.getEligibilityRoot("Leadership")).to.eq(tree.root);
+
+      const aliceProof = tree.proofs[signers.alice.address];
+      expect(await ratingSystem.isEligible("Leadership", signers.alice.address, aliceProof)).to.eq(true);
+      expect(await ratingSystem.isEligible("Leadership", signers.carol.address, aliceProof)).to.eq(false);
+
+      await expect(submit(signers.alice, 7, "Leadership")).to.be.revertedWith("Not eligible for this subject");
+      await expect(submit(signers.bob, 7, "Leadership", aliceProof)).to.be.revertedWith(
+        "Not eligible for this subject",
+      );
+      await expect(submit(signers.carol, 7, "Leadership", aliceProof)).to.be.revertedWith(
+        "Not eligible for this subject",
+      );
+      await submit(signers.alice, 7, "Leadership", aliceProof);
+      await submit(signers.bob, 5, "Leadership", tree.proofs[signers.bob.address]);
+      expect(await ratingSystem.getSubjectEntryCount("Leadership")).to.eq(2);
+
+      // Eligibility for one allowlist does not carry over to another
+      await ratingSystem.registerSubject("Communication", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Communication", SubjectStatus.Open);
+      await ratingSystem.setEligibilityRoot("Communication", buildEligibilityTree([signers.alice.address]).root);
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.bob.address).add8(8).encrypt();
+      await expect(
+        ratingSystem
+          .connect(signers.bob)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Communication"),
+      ).to.be.revertedWith("Not eligible for this subject");
+
+      // A zero root opens the subject to anyone again
+      await ratingSystem.setEligibilityRoot("Leadership", ethers.ZeroHash);
+      await submit(signers.carol, 9, "Leadership");
+    });
+
+    it("should restrict every campaign question with one proof", async function () {
+      await ratingSystem.registerSubject("Communication", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Communication", SubjectStatus.Open);
+      await ratingSystem.createCampaign("Pulse survey", ["Leadership", "Communication"]);
+
+      const tree = buildEligibilityTree([signers.alice.address]);
+      await ratingSystem.setCampaignEligibilityRoot(1, tree.root);
+      expect(await ratingSystem.getEligibilityRoot("Communication")).to.eq(tree.root);
+
+      async function submitCampaign(signer: HardhatEthersSigner, eligibilityProof: string[]) {
+        const encrypted = await fhevm
+          .createEncryptedInput(ratingSystemAddress, signer.address)
+          .add8(6)
+          .add8(8)
+          .encrypt();
+        return ratingSystem
+          .connect(signer)
+          .submitCampaign(1, encrypted.handles, encrypted.inputProof, eligibilityProof);
+      }
+
+      // A single-address tree has an empty proof; the root is the leaf itself
+      await expect(submitCampaign(signers.bob, [])).to.be.revertedWith("Not eligible for this subject");
+      await expect(submitCampaign(signers.alice, tree.proofs[signers.alice.address]))
+        .to.emit(ratingSystem, "CampaignSubmitted")
+        .withArgs(1, signers.alice.address);
+    });
+
+    it("should refuse anonymous ratings for subjects with an allowlist", async function () {
+      await ratingSystem.setAnonymousMode(true);
+      await ratingSystem.setAnonymousMembersRoot(members.root);
+      await ratingSystem.setEligibilityRoot("Leadership", buildEligibilityTree([signers.alice.address]).root);
+
+      await expect(submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership")).to.be.revertedWith(
+        "Subject requires an eligibility proof",
+      );
+    });
+  });
+
+  describe("eligibility modules", function () {
+    it("should only accept ratings from holders of the minimum token balance", async function () {
+      const token = await (await ethers.getContractFactory("MockERC20")).deploy("Governance", "GOV");
+      const tokenAddress = await token.getAddress();
+      const eligibility = await (await ethers.getContractFactory("ERC20ThresholdEligibility")).deploy(tokenAddress, 50);
+      const moduleAddress = await eligibility.getAddress();
+      await token.mint(signers.alice.address, 100);
+      await token.mint(signers.bob.address, 10);
+
+      await expect(
+        ratingSystem.connect(signers.alice).setEligibilityModule("Leadership", moduleAddress),
+      ).to.be.revertedWith("Caller is missing role");
+      await expect(ratingSystem.setEligibilityModule("Leadership", signers.alice.address)).to.be.revertedWith(
+        "Module is not a contract",
+      );
+      await expect(ratingSystem.setEligibilityModule("Leadership", moduleAddress))
+        .to.emit(ratingSystem, "EligibilityModuleUpdated")
+        .withArgs(ethers.id("Leadership"), moduleAddress);
+      expect(await ratingSystem.getEligibilityModule("Leadership")).to.eq(moduleAddress);
+
+      await submit(signers.alice, 7, "Leadership");
+      await expect(submit(signers.bob, 5, "Leadership")).to.be.revertedWith("Not eligible for this subject");
+      await token.mint(signers.bob.address, 40);
+      await submit(signers.bob, 5, "Leadership");
+
+      // An allowlist applies on top of the module
+      const tree = buildEligibilityTree([signers.alice.address]);
+      await token.mint(signers.carol.address, 50);
+      await ratingSystem.setEligibilityRoot("Leadership", tree.root);
+      await expect(submit(signers.carol, 9, "Leadership")).to.be.revertedWith("Not eligible for this subject");
+    });
+
+    it("should only accept ratings from owners of the collection", async function () {
+      const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Members", "MBR");
+      const eligibility = await (
+        await ethers.getContractFactory("ERC721OwnershipEligibility")
+      ).deploy(await collection.getAddress());
+      await ratingSystem.setEligibilityModule("Leadership", await eligibility.getAddress());
+      await collection.mint(signers.carol.address, 1);
+
+      expect(await ratingSystem.isEligible("Leadership", signers.carol.address, [])).to.eq(true);
+      expect(await ratingSystem.isEligible("Leadership", signers.bob.address, [])).to.eq(false);
+      await expect(submit(signers.bob, 5, "Leadership")).to.be.revertedWith("Not eligible for this subject");
+      await submit(signers.carol, 9, "Leadership");
+
+      // Removing the module opens the subject to anyone again
+      await ratingSystem.setEligibilityModule("Leadership", ethers.ZeroAddress);
+      await submit(signers.bob, 5, "Leadership");
+    });
+
+    it("should refuse anonymous ratings for subjects with a module", async function () {
+      const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Members", "MBR");
+      const eligibility = await (
+        await ethers.getContractFactory("ERC721OwnershipEligibility")
+      ).deploy(await collection.getAddress());
+      await ratingSystem.setAnonymousMode(true);
+      await ratingSystem.setAnonymousMembersRoot(members.root);
+      await ratingSystem.setEligibilityModule("Leadership", await eligibility.getAddress());
+
+      await expect(submitAnonymous(signers.alice, memberKeys.alice, 7, "Leadership")).to.be.revertedWith(
+        "Subject requires an eligibility proof",
+      );
+    });
+  });
+
+  describe("respondent segments", function () {
+    const Segment = { Engineering: 0, Sales: 1 };
+
+    async function submitSegmented(
+      signer: HardhatEthersSigner,
+      rating: number,
+      segment: number,
+      subject = "Leadership",
+    ) {
+      const encrypted = await fhevm
+        .createEncryptedInput(ratingSystemAddress, signer.address)
+        .add8(rating)
+        .add8(segment)
+        .encrypt();
+      const tx = await ratingSystem
+        .connect(signer)
+        .submitSegmentedRating(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, subject, []);
+      return tx.wait();
+    }
+
+    async function publishSegmentStats(subject = "Leadership") {
+      await (await ratingSystem.requestSegmentStats(subject)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [averages, counts] = await ratingSystem.getSegmentStats(subject);
+      return { averages: averages.slice(0, 2).map(Number), counts: counts.slice(0, 2).map(Number) };
+    }
+
+    it("should aggregate ratings per encrypted segment and withhold small segments", async function () {
+      await expect(submitSegmented(signers.alice, 8, Segment.Engineering)).to.be.revertedWith("No segments configured");
+      await expect(ratingSystem.connect(signers.alice).setSegments(["Engineering", "Sales"])).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await expect(ratingSystem.setSegments(["Engineering", "Sales"]))
+        .to.emit(ratingSystem, "SegmentsConfigured")
+        .withArgs(["Engineering", "Sales"]);
+      expect(await ratingSystem.getSegments()).to.deep.eq(["Engineering", "Sales"]);
+      await ratingSystem.setSubjectMinRespondents("Leadership", 2);
+
+      await submitSegmented(signers.alice, 8, Segment.Engineering);
+      await submitSegmented(signers.bob, 6, Segment.Engineering);
+      await submitSegmented(signers.carol, 3, Segment.Sales);
+      // Ratings without a segment count towards the subject only
+      await submit(signers.deployer, 10, "Leadership");
+      expect(await ratingSystem.getSubjectEntryCount("Leadership")).to.eq(4);
+
+      // Sales has a single respondent, below the threshold of 2
+      let stats = await publishSegmentStats();
+      expect(stats).to.deep.eq({ averages: [700, 0], counts: [2, 0] });
+
+      // The segment stays with the entry through updates and deletions
+      const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signers.alice.address).add8(10).encrypt();
+      await (
+        await ratingSystem
+          .connect(signers.alice)
+          .updateRating("Leadership", encrypted.handles[0], encrypted.inputProof, "Leadership")
+      ).wait();
+      stats = await publishSegmentStats();
+      expect(stats).to.deep.eq({ averages: [800, 0], counts: [2, 0] });
+
+      await (await ratingSystem.connect(signers.bob).deleteRating("Leadership")).wait();
+      stats = await publishSegmentStats();
+      expect(stats).to.deep.eq({ averages: [0, 0], counts: [0, 0] });
+    });
+
+    it("should fix the segments once ratings exist", async function () {
+      await expect(ratingSystem.setSegments(Array.from({ length: 9 }, (_, i) => `Segment ${i}`))).to.be.revertedWith(
+        "Too many segments",
+      );
+      await expect(ratingSystem.setSegments(["Engineering", ""])).to.be.revertedWith("Segment cannot be empty");
+      await ratingSystem.setSegments(["Engineering", "Sales"]);
+
+      // An index outside the segment set counts towards no segment
+      await submitSegmented(signers.alice, 9, 7);
+      expect(await publishSegmentStats()).to.deep.eq({ averages: [0, 0], counts: [0, 0] });
+
+      await expect(ratingSystem.setSegments(["Engineering"])).to.be.revertedWith("Ratings already submitted");
+      await expect(ratingSystem.requestSegmentStats("Unknown")).to.be.revertedWith("No data for this subject");
+    });
+  });
+
+  describe("differential privacy noise", function () {
+    it("should publish noisy statistics within the configured bound", async function () {
+      await expect(ratingSystem.setSubjectNoiseScale("Leadership", 8))
+        .to.emit(ratingSystem, "NoiseScaleUpdated")
+        .withArgs(ethers.id("Leadership"), 8);
+      expect(await ratingSystem.getSubjectNoiseScale("Leadership")).to.eq(8);
+
+      // A second subject keeps the global sum apart from the Leadership sum
+      await ratingSystem.registerSubject("Culture", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Culture", SubjectStatus.Open);
+      await submit(signers.deployer, 5, "Culture");
+
+      await submit(signers.deployer, 3, "Leadership");
+      await submit(signers.alice, 7, "Leadership");
+      await submit(signers.bob, 3, "Leadership");
+      await submit(signers.carol, 7, "Leadership");
+
+      // Respondents do not get the exact sum, which would undo the noise
+      const [sumHandle] = await ratingSystem.getEncryptedSubjectStats("Leadership");
+      expect(await canDecrypt(sumHandle, signers.carol)).to.eq(false);
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      // The sum of 20 is off by at most 8, so the average of 5.00 by at most 8 / 4 = 2.00
+      const [average, count, , noiseScale] = await ratingSystem.getSubjectStats("Leadership");
+      expect(count).to.eq(4);
+      expect(noiseScale).to.eq(8);
+      expect(average).to.be.within(300, 700);
+      expect((await ratingSystem.getSubjectSnapshot("Leadership", 1)).noiseScale).to.eq(8);
+
+      // Every noisy request spends the privacy budget, withheld ones included, and changing the ratings does not
+      // restore it. Only the first request after the deletion is released.
+      const budget = await ratingSystem.NOISE_BUDGET();
+      expect(await ratingSystem.getRemainingNoiseBudget("Leadership")).to.eq(budget - 1n);
+      await ratingSystem.connect(signers.carol).deleteRating("Leadership");
+      for (let i = 1n; i < budget; i++) {
+        await ratingSystem.requestSubjectStats("Leadership");
+      }
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(2);
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.be.revertedWith("Privacy budget exhausted");
+      await expect(ratingSystem.requestAllStats(["Leadership"])).to.be.revertedWith("Privacy budget exhausted");
+
+      // An exact snapshot next to the noisy ones would give the noise away, so the scale is fixed
+      await expect(ratingSystem.setSubjectNoiseScale("Leadership", 0)).to.be.revertedWith("Ratings already submitted");
+      await expect(ratingSystem.setSubjectNoiseScale("Leadership", 16)).to.be.revertedWith("Ratings already submitted");
+      expect(await ratingSystem.getSubjectNoiseScale("Leadership")).to.eq(8);
+    });
+
+    it("should refuse exact results that would undo the noise", async function () {
+      await ratingSystem.setSegments(["Engineering"]);
+      await ratingSystem.registerSubject("Culture", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Culture", SubjectStatus.Open);
+      await submit(signers.deployer, 5, "Culture");
+      await ratingSystem.setSubjectNoiseScale("Leadership", 8);
+      await submit(signers.alice, 3, "Leadership");
+      await submit(signers.bob, 7, "Leadership");
+
+      await ratingSystem.setAlertThreshold("Leadership", 600);
+      await expect(ratingSystem.requestSubjectHistogram("Leadership")).to.be.revertedWith("Subject results are noised");
+      await expect(ratingSystem.requestSegmentStats("Leadership")).to.be.revertedWith("Subject results are noised");
+      await expect(ratingSystem.requestThresholdAlert("Leadership")).to.be.revertedWith("Subject results are noised");
+      await expect(ratingSystem.requestRanking(["Culture", "Leadership"])).to.be.revertedWith(
+        "Subject results are noised",
+      );
+
+      // The global sum minus the other subjects' sums would give the Leadership sum away, so it is noised too
+      expect(await ratingSystem.getGlobalNoiseScale()).to.eq(8);
+      await ratingSystem.connect(signers.carol).allowUserToDecrypt(signers.carol.address, ["Culture"]);
+      const [globalSum] = await ratingSystem.getEncryptedGlobalStats();
+      expect(await canDecrypt(globalSum, signers.carol)).to.eq(false);
+
+      // The sum of 15 is off by at most 8, so the average of 5.00 by at most 8 / 3 = 2.67
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+      const [average, totalCount, , noiseScale] = await ratingSystem.getGlobalStats();
+      expect(totalCount).to.eq(3);
+      expect(noiseScale).to.eq(8);
+      expect(average).to.be.within(233, 767);
+
+      // Noise added to an unrated subject later never lowers the global scale
+      await ratingSystem.registerSubject("Pay", "", 0, 0);
+      await ratingSystem.setSubjectNoiseScale("Pay", 4);
+      expect(await ratingSystem.getGlobalNoiseScale()).to.eq(8);
+      for (let i = 1n; i < (await ratingSystem.NOISE_BUDGET()); i++) {
+        await ratingSystem.requestGlobalStats();
+      }
+      await expect(ratingSystem.requestGlobalStats()).to.be.revertedWith("Privacy budget exhausted");
+    });
+
+    it("should only accept power-of-two noise scales from admins", async function () {
+      await expect(ratingSystem.setSubjectNoiseScale("Leadership", 12)).to.be.revertedWith(
+        "Noise scale not a power of two",
+      );
+      await expect(ratingSystem.setSubjectNoiseScale("Leadership", 2048)).to.be.revertedWith("Noise scale too large");
+      await expect(ratingSystem.connect(signers.alice).setSubjectNoiseScale("Leadership", 8)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+    });
+  });
+
+  describe("threshold alerts", function () {
+    it("should publish only whether the average is below the threshold", async function () {
+      await expect(ratingSystem.setAlertThreshold("Leadership", 600))
+        .to.emit(ratingSystem, "AlertThresholdUpdated")
+        .withArgs(ethers.id("Leadership"), 600);
+
+      await submit(signers.alice, 5, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+      await ratingSystem.requestThresholdAlert("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.SubjectBelowThreshold());
+      expect(published.args.subjectHash).to.eq(ethers.id("Leadership"));
+      expect(published.args.threshold).to.eq(600);
+      expect(published.args.below).to.eq(true);
+      expect(await ratingSystem.isSubjectStatsFinalized("Leadership")).to.eq(false);
+
+      // An average of exactly 6.00 is not below 6.00
+      await submit(signers.carol, 7, "Leadership");
+      await ratingSystem.requestThresholdAlert("Leadership");
+      await fhevm.awaitDecryptionOracle();
+
+      const [threshold, below, count, blockNumber] = await ratingSystem.getThresholdAlert("Leadership");
+      expect(threshold).to.eq(600);
+      expect(below).to.eq(false);
+      expect(count).to.eq(3);
+      expect(blockNumber).to.be.greaterThan(0);
+    });
+
+    it("should require a threshold and enough respondents", async function () {
+      await expect(ratingSystem.requestThresholdAlert("Leadership")).to.be.revertedWith("No alert threshold set");
+      await expect(ratingSystem.setAlertThreshold("Leadership", 1001)).to.be.revertedWith(
+        "Threshold above the rating scale",
+      );
+      await expect(ratingSystem.connect(signers.alice).setAlertThreshold("Leadership", 600)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+
+      await ratingSystem.setAlertThreshold("Leadership", 600);
+      await ratingSystem.setSubjectMinRespondents("Leadership", 2);
+      await submit(signers.alice, 3, "Leadership");
+      await expect(ratingSystem.requestThresholdAlert("Leadership")).to.be.revertedWith("Not enough respondents");
+    });
+  });
+
+  describe("confidential ranking", function () {
+    async function openSubjects(names: string[]) {
+      for (const name of names) {
+        await ratingSystem.registerSubject(name, "", 0, 0);
+        await ratingSystem.setSubjectStatus(name, SubjectStatus.Open);
+      }
+    }
+
+    it("should publish the order of subjects by average without any average", async function () {
+      await openSubjects(["Communication", "Innovation"]);
+
+      // Averages: Communication 8.50, Innovation 6.33, Leadership 4.00 (more ratings does not mean a higher rank)
+      await submit(signers.alice, 9, "Communication");
+      await submit(signers.bob, 8, "Communication");
+      await submit(signers.alice, 5, "Innovation");
+      await submit(signers.bob, 7, "Innovation");
+      await submit(signers.carol, 7, "Innovation");
+      await submit(signers.alice, 4, "Leadership");
+
+      await expect(ratingSystem.requestRanking(["Leadership", "Innovation", "Communication"])).to.emit(
+        ratingSystem,
+        "RankingRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ratingSystem.getRankingCount()).to.eq(1);
+      const [subjects, blockNumber] = await ratingSystem.getRanking(1);
+      expect(subjects).to.deep.eq(["Communication", "Innovation", "Leadership"]);
+      expect(blockNumber).to.be.greaterThan(0);
+      expect(await ratingSystem.isSubjectStatsFinalized("Communication")).to.eq(false);
+
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.RankingPublished());
+      expect(published.args.rankingId).to.eq(1);
+      expect(published.args.subjects).to.deep.eq(["Communication", "Innovation", "Leadership"]);
+    });
+
+    it("should rank up to the maximum number of subjects in one request", async function () {
+      const names = ["S1", "S2", "S3", "S4"];
+      await openSubjects(names);
+      for (const [i, name] of names.entries()) {
+        await submit(signers.alice, i + 1, name);
+      }
+      await submit(signers.alice, 10, "Leadership");
+
+      await ratingSystem.requestRanking(["Leadership", ...names]);
+      await fhevm.awaitDecryptionOracle();
+
+      const [subjects] = await ratingSystem.getRanking(1);
+      expect(subjects).to.deep.eq(["Leadership", "S4", "S3", "S2", "S1"]);
+    });
+
+    it("should reject invalid subject sets", async function () {
+      await expect(ratingSystem.requestRanking(["Leadership"])).to.be.revertedWith("Invalid subject count");
+      await submit(signers.alice, 7, "Leadership");
+      await expect(ratingSystem.requestRanking(["Leadership", "Leadership"])).to.be.revertedWith("Duplicate subject");
+      await expect(ratingSystem.requestRanking(["Leadership", "Unknown"])).to.be.revertedWith(
+        "No data for this subject",
+      );
+      await expect(ratingSystem.getRanking(1)).to.be.revertedWith("Ranking does not exist");
+    });
+  });
+
+  describe("batched statistics", function () {
+    const hash = (subject: string) => ethers.keccak256(ethers.toUtf8Bytes(subject));
+
+    beforeEach(async function () {
+      await ratingSystem.registerSubject("Innovation", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Innovation", SubjectStatus.Open);
+    });
+
+    it("should publish global and subject snapshots from a single decryption", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 5, "Leadership");
+      await submit(signers.alice, 9, "Innovation");
+
+      await expect(ratingSystem.requestAllStats(["Leadership", "Innovation"])).to.emit(
+        ratingSystem,
+        "AllStatsRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [leadershipAverage, leadershipCount, leadershipStdDev] = await ratingSystem.getSubjectStats("Leadership");
+      expect(leadershipAverage).to.eq(650);
+      expect(leadershipCount).to.eq(2);
+      expect(leadershipStdDev).to.eq(150);
+      const [innovationAverage, innovationCount] = await ratingSystem.getSubjectStats("Innovation");
+      expect(innovationAverage).to.eq(900);
+      expect(innovationCount).to.eq(1);
+      const [globalAverage, globalCount] = await ratingSystem.getGlobalStats();
+      expect(globalAverage).to.eq(733);
+      expect(globalCount).to.eq(3);
+
+      // One event reports every result; the individual published events are not emitted
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished());
+      expect(published.args.globalAverage).to.eq(733);
+      expect(published.args.globalCount).to.eq(3);
+      expect(published.args.subjectHashes).to.deep.eq([hash("Leadership"), hash("Innovation")]);
+      expect(published.args.averages).to.deep.eq([650n, 900n]);
+      expect(published.args.counts).to.deep.eq([2n, 1n]);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsPublished())).to.have.length(0);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsPublished())).to.have.length(0);
+    });
+
+    it("should apply the checks of the individual requests", async function () {
+      await expect(ratingSystem.requestAllStats([])).to.be.revertedWith("Invalid subject count");
+      const tooMany = [...Array(Number(await ratingSystem.MAX_BATCH_SUBJECTS()) + 1).keys()].map((i) => `S${i}`);
+      await expect(ratingSystem.requestAllStats(tooMany)).to.be.revertedWith("Invalid subject count");
+      await expect(ratingSystem.requestAllStats(["Leadership"])).to.be.revertedWith("No data to decrypt");
+
+      await ratingSystem.setSubjectNoiseScale("Leadership", 4);
+      await submit(signers.alice, 8, "Leadership");
+      await expect(ratingSystem.requestAllStats(["Leadership", "Leadership"])).to.be.revertedWith("Duplicate subject");
+      await expect(ratingSystem.requestAllStats(["Leadership", ""])).to.be.revertedWith("Subject cannot be empty");
+      await expect(ratingSystem.requestAllStats(["Leadership", "Innovation"])).to.be.revertedWith(
+        "No data for this subject",
+      );
+
+      // Noisy subjects share one privacy budget, whichever way the requests are made
+      for (let i = 0n; i < (await ratingSystem.NOISE_BUDGET()); i++) {
+        await ratingSystem.requestSubjectStats("Leadership");
+      }
+      await expect(ratingSystem.requestAllStats(["Leadership"])).to.be.revertedWith("Privacy budget exhausted");
+    });
+  });
+
+  describe("private counts", function () {
+    beforeEach(async function () {
+      ({ ratingSystem, ratingSystemAddress } = await deployFixture(3, 3));
+      await expect(ratingSystem.setPrivateCounts(true)).to.emit(ratingSystem, "PrivateCountsUpdated").withArgs(true);
+    });
+
+    it("should serve counts only through published statistics and withhold small aggregates", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+
+      await expect(ratingSystem.getSubjectEntryCount("Leadership")).to.be.revertedWith("Counts are private");
+      await expect(ratingSystem.getActiveEntryCount()).to.be.revertedWith("Counts are private");
+
+      // Below the threshold the request goes through, but the oracle only learns zeros
+      await ratingSystem.requestSubjectStats("Leadership");
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsWithheld())).to.have.length(1);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.GlobalStatsWithheld())).to.have.length(1);
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(0);
+
+      await submit(signers.carol, 4, "Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+
+      const [average, count] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(600);
+      expect(count).to.eq(3);
+      const [globalAverage, globalCount] = await ratingSystem.getGlobalStats();
+      expect(globalAverage).to.eq(600);
+      expect(globalCount).to.eq(3);
+
+      // No threshold can be checked in plaintext, so no sum is ever shared
+      await ratingSystem.allowUserToDecrypt(signers.deployer.address, ["Leadership"]);
+      const [subjectSum] = await ratingSystem.getEncryptedSubjectStats("Leadership");
+      expect(await canDecrypt(subjectSum, signers.carol)).to.eq(false);
+      expect(await canDecrypt(subjectSum, signers.deployer)).to.eq(false);
+
+      // The encrypted count follows deletions
+      await ratingSystem.connect(signers.carol).deleteRating("Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsWithheld())).to.have.length(2);
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(1);
+    });
+
+    it("should withhold small aggregates in a full batched request", async function () {
+      const names = [...Array(Number(await ratingSystem.MAX_BATCH_SUBJECTS()) - 1).keys()].map((i) => `S${i}`);
+      for (const name of names) {
+        await ratingSystem.registerSubject(name, "", 0, 0);
+        await ratingSystem.setSubjectStatus(name, SubjectStatus.Open);
+      }
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+      await submit(signers.carol, 7, "Leadership");
+      for (const name of names) {
+        await submit(signers.alice, 9, name);
+      }
+
+      await ratingSystem.requestAllStats(["Leadership", ...names]);
+      await fhevm.awaitDecryptionOracle();
+
+      // Every other subject has a single rating, below the threshold of 3
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished());
+      expect(published.args.globalAverage).to.eq(850);
+      expect(published.args.globalCount).to.eq(12);
+      expect(published.args.averages).to.deep.eq([700n, ...names.map(() => 0n)]);
+      expect(published.args.counts).to.deep.eq([3n, ...names.map(() => 0n)]);
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(1);
+      expect(await ratingSystem.getSubjectSnapshotCount("S0")).to.eq(0);
+    });
+
+    it("should keep entries from telling how many respondents rated a subject", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+      await ratingSystem.connect(signers.bob).deleteRating("Leadership");
+
+      // No event counts or attributes the ratings, and no lookup tells who has rated
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.RatingSubmitted())).to.have.length(0);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.RatingDeleted())).to.have.length(0);
+      await expect(ratingSystem.hasSubmitted(signers.alice.address)).to.be.revertedWith("Counts are private");
+      await expect(ratingSystem.hasSubmittedForSubject(signers.alice.address, "Leadership")).to.be.revertedWith(
+        "Counts are private",
+      );
+      await expect(ratingSystem.userSubjectEntryId(signers.alice.address, ethers.id("Leadership"))).to.be.revertedWith(
+        "Counts are private",
+      );
+
+      // A view cannot tell who calls it, so the entry views serve no one, the submitter included
+      await expect(ratingSystem.getEntryCount()).to.be.revertedWith("Counts are private");
+      await expect(ratingSystem.getEntriesBySubject("Leadership", 0, 10)).to.be.revertedWith("Counts are private");
+      for (const reader of [signers.alice, signers.bob]) {
+        await expect(ratingSystem.connect(reader).getEntry(0)).to.be.revertedWith("Counts are private");
+        await expect(ratingSystem.connect(reader).getEncryptedRating(0)).to.be.revertedWith("Counts are private");
+        await expect(ratingSystem.connect(reader).getRejectedFlag(0)).to.be.revertedWith("Counts are private");
+        await expect(
+          ratingSystem.connect(reader).getEntriesBySubmitter(signers.alice.address, 0, 10),
+        ).to.be.revertedWith("Counts are private");
+      }
+
+      // An unrated subject is withheld like one below its threshold instead of standing out by reverting
+      await ratingSystem.registerSubject("Culture", "", 0, 0);
+      await ratingSystem.requestAllStats(["Leadership", "Culture"]);
+      await fhevm.awaitDecryptionOracle();
+      const [published] = await ratingSystem.queryFilter(ratingSystem.filters.AllStatsPublished());
+      expect(published.args.counts).to.deep.eq([0n, 0n]);
+    });
+
+    it("should fix the mode once ratings exist and refuse count-based requests", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await expect(ratingSystem.setPrivateCounts(false)).to.be.revertedWith("Ratings already submitted");
+
+      await ratingSystem.setAlertThreshold("Leadership", 600);
+      await expect(ratingSystem.requestSubjectHistogram("Leadership")).to.be.revertedWith("Counts are private");
+      await expect(ratingSystem.requestThresholdAlert("Leadership")).to.be.revertedWith("Counts are private");
+      await expect(ratingSystem.requestRanking(["Leadership", "Culture"])).to.be.revertedWith("Counts are private");
+    });
+
+    it("should keep a full campaign within the per-transaction HCU limit", async function () {
+      const questions = ["Leadership", "Communication", "Innovation", "Recognition", "Growth", "Workload"];
+      for (const question of questions.slice(1)) {
+        await ratingSystem.registerSubject(question, "", 0, 0);
+        await ratingSystem.setSubjectStatus(question, SubjectStatus.Open);
+      }
+      await ratingSystem.createCampaign("Engagement survey", questions);
+
+      const input = fhevm.createEncryptedInput(ratingSystemAddress, signers.alice.address);
+      questions.forEach(() => input.add8(7));
+      const encrypted = await input.encrypt();
+      await expect(
+        ratingSystem.connect(signers.alice).submitCampaign(1, encrypted.handles, encrypted.inputProof, []),
+      ).not.to.emit(ratingSystem, "CampaignSubmitted");
+    });
+  });
+
+  describe("minimum respondent threshold", function () {
+    beforeEach(async function () {
+      ({ ratingSystem, ratingSystemAddress } = await deployFixture(3, 3));
+    });
+
+    it("should refuse to decrypt aggregates below the threshold", async function () {
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.be.revertedWith("Not enough respondents");
+      await expect(ratingSystem.requestGlobalStats()).to.be.revertedWith("Not enough respondents");
+
+      await submit(signers.carol, 4, "Leadership");
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await ratingSystem.requestGlobalStats();
+      await fhevm.awaitDecryptionOracle();
+
+      const [average, count] = await ratingSystem.getSubjectStats("Leadership");
+      expect(average).to.eq(600);
+      expect(count).to.eq(3);
+    });
+
+    it("should only grant access to sums released by a statistics request", async function () {
+      const decryptReleased = async () => {
+        await ratingSystem.allowUserToDecrypt(signers.deployer.address, ["Leadership"]);
+        const [subjectSum] = await ratingSystem.getEncryptedSubjectStats("Leadership");
+        const [globalSum] = await ratingSystem.getEncryptedGlobalStats();
+        return [
+          await fhevm.userDecryptEuint(FhevmType.euint32, subjectSum, ratingSystemAddress, signers.deployer),
+          await fhevm.userDecryptEuint(FhevmType.euint32, globalSum, ratingSystemAddress, signers.deployer),
+        ];
+      };
+
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+      await ratingSystem.allowUserToDecrypt(signers.deployer.address, ["Leadership"]);
+      const [subjectSum] = await ratingSystem.getEncryptedSubjectStats("Leadership");
+      expect(await canDecrypt(subjectSum, signers.bob)).to.eq(false);
+      expect(await canDecrypt(subjectSum, signers.deployer)).to.eq(false);
+
+      // A rejected rating makes up the plaintext count, but the threshold is met on accepted ratings only
+      await submit(signers.carol, 11, "Leadership");
+      await ratingSystem.requestAllStats(["Leadership"]);
+      expect(await decryptReleased()).to.deep.eq([0n, 0n]);
+
+      await submit(signers.deployer, 4, "Leadership");
+      await ratingSystem.requestAllStats(["Leadership"]);
+      expect(await decryptReleased()).to.deep.eq([18n, 18n]);
+
+      // Later changes stay out of the shared sums until enough of them are released together
+      await ratingSystem.connect(signers.bob).deleteRating("Leadership");
+      await ratingSystem.requestAllStats(["Leadership"]);
+      expect(await decryptReleased()).to.deep.eq([18n, 18n]);
+    });
+
+    it("should withhold results until enough accepted ratings changed since the last one", async function () {
+      await ratingSystem.registerSubject("Culture", "", 0, 0);
+      await ratingSystem.setSubjectStatus("Culture", SubjectStatus.Open);
+      for (const signer of [signers.deployer, signers.alice, signers.bob]) {
+        await submit(signer, 8, "Leadership");
+        await submit(signer, 6, "Culture");
+      }
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+      expect((await ratingSystem.getSubjectStats("Leadership"))[1]).to.eq(3);
+
+      // One new rating, and two rejected ones, are not enough to publish Leadership again by any path
+      await submit(signers.carol, 5, "Leadership");
+      await ratingSystem.connect(signers.alice).deleteRating("Culture");
+      await submit(signers.alice, 11, "Culture");
+      await ratingSystem.connect(signers.bob).deleteRating("Culture");
+      await submit(signers.bob, 0, "Culture");
+      await ratingSystem.setAlertThreshold("Leadership", 700);
+      await expect(ratingSystem.requestSubjectStats("Leadership")).to.emit(ratingSystem, "SubjectStatsRequested");
+      await ratingSystem.requestSubjectHistogram("Leadership");
+      await ratingSystem.requestThresholdAlert("Leadership");
+      await ratingSystem.requestRanking(["Leadership", "Culture"]);
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.SubjectStatsWithheld())).to.have.length(1);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.SubjectHistogramWithheld())).to.have.length(1);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.ThresholdAlertWithheld())).to.have.length(1);
+      expect(await ratingSystem.queryFilter(ratingSystem.filters.RankingWithheld())).to.have.length(1);
+      expect(await ratingSystem.getSubjectSnapshotCount("Leadership")).to.eq(1);
+
+      // Culture has a single accepted rating left, below its threshold, so it is withheld whatever has changed
+      await ratingSystem.requestSubjectStats("Culture");
+      await fhevm.awaitDecryptionOracle();
+      expect(await ratingSystem.getSubjectSnapshotCount("Culture")).to.eq(0);
+
+      // Two more ratings make three changes since the last Leadership result
+      await ratingSystem.connect(signers.alice).deleteRating("Leadership");
+      await submit(signers.alice, 2, "Leadership");
+      await ratingSystem.requestSubjectStats("Leadership");
+      await fhevm.awaitDecryptionOracle();
+      const [average, count] = await ratingSystem.getSubjectStats("Leadership");
+      expect([average, count]).to.deep.eq([575n, 4n]);
+    });
+
+    it("should let the owner set a per-subject threshold", async function () {
+      await expect(ratingSystem.connect(signers.alice).setSubjectMinRespondents("Leadership", 2)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+
+      await expect(ratingSystem.setSubjectMinRespondents("Leadership", 2))
+        .to.emit(ratingSystem, "SubjectMinRespondentsUpdated")
+        .withArgs(ethers.keccak256(ethers.toUtf8Bytes("Leadership")), 2);
+      expect(await ratingSystem.getSubjectMinRespondents("Leadership")).to.eq(2);
+      expect(await ratingSystem.getSubjectMinRespondents("Innovation")).to.eq(3);
+
+      await submit(signers.alice, 8, "Leadership");
+      await submit(signers.bob, 6, "Leadership");
+
+      await ratingSystem.requestSubjectStats("Leadership");
+      await expect(ratingSystem.requestGlobalStats()).to.be.revertedWith("Not enough respondents");
+    });
+  });
+});
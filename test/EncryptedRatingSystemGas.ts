@@ -0,0 +1,103 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { EncryptedRatingSystem, EncryptedRatingSystem__factory } from "../types";
+import { expect } from "chai";
+import { deployModules } from "./helpers";
+
+// Mirrors EncryptedRatingSystem.SubjectStatus
+const SubjectStatus = { Draft: 0, Open: 1, Closed: 2, Archived: 3 };
+
+// Campaign questions per filler campaign; MAX_CAMPAIGN_QUESTIONS in RatingStorage.sol
+const QUESTIONS = 6;
+
+// Gas of operations that must not grow with the number of stored entries
+describe("EncryptedRatingSystem gas", function () {
+  let signers: HardhatEthersSigner[];
+  let ratingSystem: EncryptedRatingSystem;
+  let ratingSystemAddress: string;
+
+  before(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    signers = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("EncryptedRatingSystem")) as EncryptedRatingSystem__factory;
+    ratingSystem = (await factory.deploy(1, 1, ...(await deployModules()))) as EncryptedRatingSystem;
+    ratingSystemAddress = await ratingSystem.getAddress();
+  });
+
+  async function openSubject(subject: string) {
+    await (await ratingSystem.registerSubject(subject, "", 0, 0)).wait();
+    await (await ratingSystem.setSubjectStatus(subject, SubjectStatus.Open)).wait();
+  }
+
+  async function submit(signer: HardhatEthersSigner, rating: number, subject: string) {
+    const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signer.address).add8(rating).encrypt();
+    await (
+      await ratingSystem.connect(signer).submitRating(encrypted.handles[0], encrypted.inputProof, subject, [])
+    ).wait();
+  }
+
+  // Gas used by a transaction apart from its calldata, whose cost varies with the zero bytes of the random handles
+  async function executionGas(tx: ContractTransactionResponse) {
+    const receipt = await tx.wait();
+    const calldata = ethers.getBytes(tx.data).reduce((gas, byte) => gas + (byte === 0 ? 4n : 16n), 0n);
+    return receipt!.gasUsed - calldata;
+  }
+
+  // Submits and updates the signer's rating of subject, then deletes it; returns the gas used by each
+  async function updateAndDelete(signer: HardhatEthersSigner, subject: string) {
+    await submit(signer, 7, subject);
+    const encrypted = await fhevm.createEncryptedInput(ratingSystemAddress, signer.address).add8(4).encrypt();
+    const update = await executionGas(
+      await ratingSystem.connect(signer).updateRating(subject, encrypted.handles[0], encrypted.inputProof, subject),
+    );
+    const deletion = await executionGas(await ratingSystem.connect(signer).deleteRating(subject));
+    return { update, deletion };
+  }
+
+  // Every signer answers campaigns [from, to) over fresh subjects, one entry per answer
+  async function fill(from: number, to: number) {
+    for (let campaign = from; campaign < to; campaign++) {
+      const questions = [...Array(QUESTIONS).keys()].map((question) => `Filler ${campaign}-${question}`);
+      for (const question of questions) {
+        await openSubject(question);
+      }
+      await (await ratingSystem.createCampaign(`Filler ${campaign}`, questions)).wait();
+
+      for (const signer of signers) {
+        const input = fhevm.createEncryptedInput(ratingSystemAddress, signer.address);
+        questions.forEach((_, question) => input.add8(1 + ((campaign + question) % 10)));
+        const encrypted = await input.encrypt();
+        await (
+          await ratingSystem.connect(signer).submitCampaign(campaign + 1, encrypted.handles, encrypted.inputProof, [])
+        ).wait();
+      }
+    }
+  }
+
+  it("should update and delete ratings at a flat cost with over 1,000 entries", async function () {
+    this.timeout(20 * 60 * 1000);
+    const [, alice] = signers;
+    const campaigns = Math.ceil(1000 / (signers.length * QUESTIONS));
+    await openSubject("Leadership");
+
+    // Measure once the first entries exist and Leadership was rated before, so both runs write to storage in use
+    await fill(0, 1);
+    await updateAndDelete(alice, "Leadership");
+    const early = await updateAndDelete(alice, "Leadership");
+
+    await fill(1, campaigns);
+    expect(await ratingSystem.getEntryCount()).to.be.gte(1000);
+
+    const late = await updateAndDelete(alice, "Leadership");
+
+    // The entry is found through _userSubjectEntryId, so the cost does not depend on entryCount
+    expect(late.update).to.eq(early.update);
+    expect(late.deletion).to.eq(early.deletion);
+  });
+});
@@ -0,0 +1,139 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  EncryptedRatingSystem,
+  EncryptedRatingSystem__factory,
+  RatingCampaignFactory,
+  RatingCampaignFactory__factory,
+} from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { deployModules } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const implementationFactory = (await ethers.getContractFactory(
+    "EncryptedRatingSystem",
+  )) as EncryptedRatingSystem__factory;
+  const implementation = (await implementationFactory.deploy(
+    1,
+    1,
+    ...(await deployModules()),
+  )) as EncryptedRatingSystem;
+
+  const factoryFactory = (await ethers.getContractFactory("RatingCampaignFactory")) as RatingCampaignFactory__factory;
+  const factory = (await factoryFactory.deploy(await implementation.getAddress())) as RatingCampaignFactory;
+
+  return { implementation, factory };
+}
+
+describe("RatingCampaignFactory", function () {
+  let signers: Signers;
+  let implementation: EncryptedRatingSystem;
+  let factory: RatingCampaignFactory;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ implementation, factory } = await deployFixture());
+  });
+
+  async function createInstance(name: string, subjects: string[], ratingScale: number) {
+    const tx = await factory.createRatingInstance(name, signers.alice.address, subjects, ratingScale, 0, 0, 1);
+    await tx.wait();
+    const count = await factory.getInstanceCount();
+    const [address] = await factory.getInstance(count);
+    return EncryptedRatingSystem__factory.connect(address, signers.deployer);
+  }
+
+  async function submit(instance: EncryptedRatingSystem, signer: HardhatEthersSigner, rating: number, subject: string) {
+    const address = await instance.getAddress();
+    const encrypted = await fhevm.createEncryptedInput(address, signer.address).add8(rating).encrypt();
+    const tx = await instance.connect(signer).submitRating(encrypted.handles[0], encrypted.inputProof, subject, []);
+    await tx.wait();
+  }
+
+  it("should deploy a configured instance and list it", async function () {
+    await expect(
+      factory.createRatingInstance("Platform team", signers.alice.address, ["Leadership", "Tooling"], 5, 0, 0, 2),
+    )
+      .to.emit(factory, "RatingInstanceCreated")
+      .withArgs(1, (address: string) => ethers.isAddress(address), signers.alice.address, "Platform team", 5);
+
+    expect(await factory.getInstanceCount()).to.eq(1);
+    const [address, owner, name] = await factory.getInstance(1);
+    expect(owner).to.eq(signers.alice.address);
+    expect(name).to.eq("Platform team");
+
+    const instance = EncryptedRatingSystem__factory.connect(address, signers.deployer);
+    expect(await instance.owner()).to.eq(signers.alice.address);
+    expect(await instance.ratingScale()).to.eq(5);
+    expect(await instance.defaultMinRespondents()).to.eq(2);
+    expect(await instance.getSubjectCount()).to.eq(2);
+    expect(await instance.isSubjectOpen("Tooling")).to.eq(true);
+
+    await expect(factory.getInstance(2)).to.be.revertedWith("Unknown instance");
+  });
+
+  it("should keep the aggregates of each instance separate", async function () {
+    const platform = await createInstance("Platform team", ["Leadership"], 10);
+    const sales = await createInstance("Sales team", ["Leadership"], 10);
+
+    await submit(platform, signers.bob, 9, "Leadership");
+    await submit(sales, signers.bob, 3, "Leadership");
+
+    await (await platform.requestGlobalStats()).wait();
+    await (await sales.requestGlobalStats()).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [platformAverage] = await platform.getGlobalStats();
+    const [salesAverage] = await sales.getGlobalStats();
+    expect(platformAverage).to.eq(900);
+    expect(salesAverage).to.eq(300);
+  });
+
+  it("should zero out ratings above the instance scale", async function () {
+    const instance = await createInstance("Platform team", ["Leadership"], 5);
+    const address = await instance.getAddress();
+
+    await submit(instance, signers.bob, 7, "Leadership");
+    await submit(instance, signers.alice, 4, "Leadership");
+
+    // Only released sums are shared, so release them with a statistics request first
+    await (await instance.requestSubjectStats("Leadership")).wait();
+    await (await instance.connect(signers.bob).allowUserToDecrypt(signers.bob.address, ["Leadership"])).wait();
+    const [sum, , count] = await instance.getEncryptedSubjectStats("Leadership");
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, sum, address, signers.bob)).to.eq(4);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, count, address, signers.bob)).to.eq(1);
+    const rejected = await instance.getRejectedFlag(0);
+    expect(await fhevm.userDecryptEbool(rejected, address, signers.bob)).to.eq(true);
+  });
+
+  it("should not let an instance or the implementation be initialized again", async function () {
+    const instance = await createInstance("Platform team", ["Leadership"], 10);
+
+    await expect(instance.initialize(signers.bob.address, 1, 1, 10, [], 0, 0)).to.be.revertedWith(
+      "Already initialized",
+    );
+    await expect(implementation.initialize(signers.bob.address, 1, 1, 10, [], 0, 0)).to.be.revertedWith(
+      "Already initialized",
+    );
+    await expect(
+      factory.createRatingInstance("Platform team", signers.alice.address, ["Leadership"], 11, 0, 0, 1),
+    ).to.be.revertedWith("Invalid rating scale");
+  });
+});
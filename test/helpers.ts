@@ -0,0 +1,11 @@
+import { ethers } from "hardhat";
+
+// Delegatecall targets every EncryptedRatingSystem is constructed with
+export async function deployModules() {
+  const modules = [];
+  for (const name of ["RatingStatsModule", "RatingAdminModule", "RatingSubmissionModule"]) {
+    const module = await (await ethers.getContractFactory(name)).deploy();
+    modules.push(await module.getAddress());
+  }
+  return modules as [string, string, string];
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC20ThresholdEligibility } from "./ERC20ThresholdEligibility";
+export type { IERC20Balance } from "./IERC20Balance";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC721OwnershipEligibility } from "./ERC721OwnershipEligibility";
+export type { IERC721Balance } from "./IERC721Balance";
@@ -23,63 +23,380 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace RatingStorage {
+  export type EntryInfoStruct = {
+    id: BigNumberish;
+    subject: string;
+    timestamp: BigNumberish;
+    submitter: AddressLike;
+    isActive: boolean;
+  };
+
+  export type EntryInfoStructOutput = [
+    id: bigint,
+    subject: string,
+    timestamp: bigint,
+    submitter: string,
+    isActive: boolean
+  ] & {
+    id: bigint;
+    subject: string;
+    timestamp: bigint;
+    submitter: string;
+    isActive: boolean;
+  };
+
+  export type SubjectStruct = {
+    id: BigNumberish;
+    name: string;
+    description: string;
+    opensAt: BigNumberish;
+    closesAt: BigNumberish;
+    status: BigNumberish;
+  };
+
+  export type SubjectStructOutput = [
+    id: bigint,
+    name: string,
+    description: string,
+    opensAt: bigint,
+    closesAt: bigint,
+    status: bigint
+  ] & {
+    id: bigint;
+    name: string;
+    description: string;
+    opensAt: bigint;
+    closesAt: bigint;
+    status: bigint;
+  };
+}
+
 export interface EncryptedRatingSystemInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "ADMIN_ROLE"
+      | "ANONYMOUS_RATING_TYPEHASH"
+      | "AUDITOR_ROLE"
+      | "HISTOGRAM_BUCKETS"
+      | "MAX_BATCH_SUBJECTS"
+      | "MAX_CAMPAIGN_QUESTIONS"
+      | "MAX_NOISE_SCALE"
+      | "MAX_PAGE_SIZE"
+      | "MAX_RANKING_SUBJECTS"
+      | "MAX_RATING"
+      | "MAX_SEGMENTS"
+      | "MIN_RATING"
+      | "MODERATOR_ROLE"
+      | "NOISE_BUDGET"
+      | "SQUARE_NOISE_FACTOR"
+      | "STATS_PRECISION"
+      | "SUBMIT_RATING_TYPEHASH"
+      | "UPDATE_RATING_TYPEHASH"
+      | "acceptOwnership"
+      | "adminModule"
+      | "allStatsCallback"
       | "allowUserToDecrypt"
+      | "anonymousMembersRoot"
+      | "anonymousMode"
+      | "createCampaign"
+      | "defaultMinRespondents"
       | "deleteRating"
-      | "entryCount"
+      | "domainSeparator"
       | "getActiveEntryCount"
+      | "getAlertThreshold"
+      | "getAnonymousNullifier"
+      | "getCampaign"
+      | "getCampaignCount"
+      | "getCampaignDeadline"
+      | "getEligibilityModule"
+      | "getEligibilityRoot"
       | "getEncryptedGlobalStats"
       | "getEncryptedRating"
       | "getEncryptedSubjectStats"
+      | "getEntriesBySubject"
+      | "getEntriesBySubmitter"
       | "getEntry"
       | "getEntryCount"
+      | "getGlobalNoiseScale"
+      | "getGlobalSnapshot"
+      | "getGlobalSnapshotCount"
       | "getGlobalStats"
+      | "getNullifierEntry"
+      | "getRanking"
+      | "getRankingCount"
+      | "getRejectedFlag"
+      | "getRemainingNoiseBudget"
+      | "getSegmentStats"
+      | "getSegments"
+      | "getSubject"
+      | "getSubjectCount"
       | "getSubjectEntryCount"
+      | "getSubjectHistogram"
+      | "getSubjectMinRespondents"
+      | "getSubjectNoiseScale"
+      | "getSubjectSnapshot"
+      | "getSubjectSnapshotCount"
       | "getSubjectStats"
+      | "getSubjects"
+      | "getThresholdAlert"
+      | "globalMinRespondents"
       | "globalStatsCallback"
+      | "grantRole"
+      | "hasRole"
       | "hasSubmitted"
       | "hasSubmittedForSubject"
+      | "initialize"
+      | "isAnonymousMember"
+      | "isEligible"
       | "isGlobalStatsFinalized"
+      | "isSubjectOpen"
       | "isSubjectStatsFinalized"
+      | "nonces"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "privateCounts"
       | "protocolId"
-      | "ratingEntries"
+      | "rankingCallback"
+      | "ratingScale"
+      | "registerSubject"
+      | "requestAllStats"
+      | "requestCampaignResults"
       | "requestGlobalStats"
+      | "requestRanking"
+      | "requestSegmentStats"
+      | "requestSubjectHistogram"
       | "requestSubjectStats"
+      | "requestThresholdAlert"
+      | "revokeRole"
+      | "segmentStatsCallback"
+      | "setAlertThreshold"
+      | "setAnonymousMembersRoot"
+      | "setAnonymousMode"
+      | "setCampaignDeadline"
+      | "setCampaignEligibilityRoot"
+      | "setEligibilityModule"
+      | "setEligibilityRoot"
+      | "setPrivateCounts"
+      | "setSegments"
+      | "setSubjectMinRespondents"
+      | "setSubjectNoiseScale"
+      | "setSubjectStatus"
+      | "statsModule"
+      | "subjectHistogramCallback"
       | "subjectStatsCallback"
+      | "submissionModule"
+      | "submitAnonymousRating"
+      | "submitCampaign"
       | "submitRating"
+      | "submitRatingFor"
+      | "submitSegmentedRating"
+      | "thresholdAlertCallback"
+      | "transferOwnership"
+      | "unpause"
       | "updateRating"
+      | "updateRatingFor"
+      | "updateSubject"
       | "userSubjectEntryId"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AlertThresholdUpdated"
+      | "AllStatsPublished"
+      | "AllStatsRequested"
+      | "AnonymousMembersRootUpdated"
+      | "AnonymousModeUpdated"
+      | "AnonymousRatingSubmitted"
+      | "CampaignCreated"
+      | "CampaignDeadlineUpdated"
+      | "CampaignResultsPublished"
+      | "CampaignResultsRequested"
+      | "CampaignSubmitted"
+      | "DecryptionAccessGranted"
+      | "EligibilityModuleUpdated"
+      | "EligibilityRootUpdated"
       | "GlobalStatsPublished"
       | "GlobalStatsRequested"
+      | "GlobalStatsWithheld"
+      | "NoiseScaleUpdated"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PrivateCountsUpdated"
+      | "RankingPublished"
+      | "RankingRequested"
+      | "RankingWithheld"
       | "RatingDeleted"
       | "RatingSubmitted"
       | "RatingUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SegmentStatsPublished"
+      | "SegmentStatsRequested"
+      | "SegmentsConfigured"
+      | "SubjectBelowThreshold"
+      | "SubjectHistogramPublished"
+      | "SubjectHistogramRequested"
+      | "SubjectHistogramWithheld"
+      | "SubjectMinRespondentsUpdated"
+      | "SubjectRegistered"
       | "SubjectStatsPublished"
       | "SubjectStatsRequested"
+      | "SubjectStatsWithheld"
+      | "SubjectStatusChanged"
+      | "SubjectUpdated"
+      | "ThresholdAlertRequested"
+      | "ThresholdAlertWithheld"
+      | "Unpaused"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ANONYMOUS_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SUBJECTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CAMPAIGN_QUESTIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NOISE_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RANKING_SUBJECTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SEGMENTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MODERATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NOISE_BUDGET",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SQUARE_NOISE_FACTOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATS_PRECISION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SUBMIT_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPDATE_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "adminModule",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allStatsCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "allowUserToDecrypt",
     values: [AddressLike, string[]]
   ): string;
   encodeFunctionData(
-    functionFragment: "deleteRating",
+    functionFragment: "anonymousMembersRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "anonymousMode",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCampaign",
+    values: [string, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultMinRespondents",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "entryCount",
+    functionFragment: "deleteRating",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "domainSeparator",
     values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "getActiveEntryCount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getAlertThreshold",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnonymousNullifier",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaign",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignDeadline",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEligibilityModule",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEligibilityRoot",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "getEncryptedGlobalStats",
     values?: undefined
@@ -92,6 +409,14 @@ export interface EncryptedRatingSystemInterface extends Interface {
     functionFragment: "getEncryptedSubjectStats",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesBySubject",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesBySubmitter",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getEntry",
     values: [BigNumberish]
@@ -100,21 +425,109 @@ export interface EncryptedRatingSystemInterface extends Interface {
     functionFragment: "getEntryCount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getGlobalNoiseScale",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGlobalSnapshot",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGlobalSnapshotCount",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "getGlobalStats",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getNullifierEntry",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRanking",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRankingCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRejectedFlag",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRemainingNoiseBudget",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSegmentStats",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSegments",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubject",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectCount",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "getSubjectEntryCount",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectHistogram",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectMinRespondents",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectNoiseScale",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectSnapshot",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjectSnapshotCount",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "getSubjectStats",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSubjects",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getThresholdAlert",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "globalMinRespondents",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "globalStatsCallback",
-    values: [BigNumberish, BytesLike, BytesLike[]]
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "hasSubmitted",
@@ -124,60 +537,375 @@ export interface EncryptedRatingSystemInterface extends Interface {
     functionFragment: "hasSubmittedForSubject",
     values: [AddressLike, string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      string[],
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAnonymousMember",
+    values: [AddressLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isEligible",
+    values: [string, AddressLike, BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "isGlobalStatsFinalized",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "isSubjectOpen",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "isSubjectStatsFinalized",
     values: [string]
   ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "privateCounts",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "protocolId",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "ratingEntries",
+    functionFragment: "rankingCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingScale",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSubject",
+    values: [string, string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAllStats",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCampaignResults",
     values: [BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "requestGlobalStats",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "requestRanking",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestSegmentStats",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestSubjectHistogram",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "requestSubjectStats",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "requestThresholdAlert",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "segmentStatsCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAlertThreshold",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAnonymousMembersRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAnonymousMode",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCampaignDeadline",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCampaignEligibilityRoot",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setEligibilityModule",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setEligibilityRoot",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPrivateCounts",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSegments",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSubjectMinRespondents",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSubjectNoiseScale",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSubjectStatus",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statsModule",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subjectHistogramCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "subjectStatsCallback",
-    values: [BigNumberish, BytesLike, BytesLike[]]
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionModule",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitAnonymousRating",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitCampaign",
+    values: [BigNumberish, BytesLike[], BytesLike, BytesLike[]]
   ): string;
   encodeFunctionData(
     functionFragment: "submitRating",
-    values: [BytesLike, BytesLike, string]
+    values: [BytesLike, BytesLike, string, BytesLike[]]
   ): string;
   encodeFunctionData(
-    functionFragment: "updateRating",
-    values: [BytesLike, BytesLike, string]
+    functionFragment: "submitRatingFor",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BigNumberish,
+      BytesLike,
+      BytesLike[]
+    ]
   ): string;
   encodeFunctionData(
-    functionFragment: "userSubjectEntryId",
-    values: [AddressLike, BytesLike]
+    functionFragment: "submitSegmentedRating",
+    values: [BytesLike, BytesLike, BytesLike, string, BytesLike[]]
   ): string;
-
-  decodeFunctionResult(
+  encodeFunctionData(
+    functionFragment: "thresholdAlertCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateRating",
+    values: [string, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRatingFor",
+    values: [
+      AddressLike,
+      string,
+      BytesLike,
+      BytesLike,
+      string,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSubject",
+    values: [string, string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userSubjectEntryId",
+    values: [AddressLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ANONYMOUS_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SUBJECTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CAMPAIGN_QUESTIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NOISE_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RANKING_SUBJECTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SEGMENTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MIN_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MODERATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "NOISE_BUDGET",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SQUARE_NOISE_FACTOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATS_PRECISION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SUBMIT_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPDATE_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "adminModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allStatsCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
     functionFragment: "allowUserToDecrypt",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "anonymousMembersRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "anonymousMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultMinRespondents",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "deleteRating",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "entryCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "domainSeparator",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getActiveEntryCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAlertThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnonymousNullifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEligibilityModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEligibilityRoot",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getEncryptedGlobalStats",
     data: BytesLike
@@ -190,27 +918,111 @@ export interface EncryptedRatingSystemInterface extends Interface {
     functionFragment: "getEncryptedSubjectStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesBySubject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesBySubmitter",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getEntry", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getEntryCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGlobalNoiseScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGlobalSnapshot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGlobalSnapshotCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getGlobalStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getNullifierEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRanking", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRankingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRejectedFlag",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRemainingNoiseBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSegmentStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSegments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSubject", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getSubjectEntryCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectHistogram",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectMinRespondents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectNoiseScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectSnapshot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjectSnapshotCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getSubjectStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubjects",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getThresholdAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "globalMinRespondents",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "globalStatsCallback",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "hasSubmitted",
     data: BytesLike
@@ -219,54 +1031,234 @@ export interface EncryptedRatingSystemInterface extends Interface {
     functionFragment: "hasSubmittedForSubject",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAnonymousMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isEligible", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isGlobalStatsFinalized",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSubjectOpen",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isSubjectStatsFinalized",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "privateCounts",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "ratingEntries",
+    functionFragment: "rankingCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSubject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAllStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCampaignResults",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "requestGlobalStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRanking",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestSegmentStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestSubjectHistogram",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "requestSubjectStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestThresholdAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "segmentStatsCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAlertThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAnonymousMembersRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAnonymousMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCampaignDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCampaignEligibilityRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setEligibilityModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setEligibilityRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivateCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSegments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSubjectMinRespondents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSubjectNoiseScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSubjectStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statsModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subjectHistogramCallback",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "subjectStatsCallback",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "submitRating",
+    functionFragment: "submissionModule",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "updateRating",
+    functionFragment: "submitAnonymousRating",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "userSubjectEntryId",
+    functionFragment: "submitCampaign",
     data: BytesLike
   ): Result;
-}
-
-export namespace GlobalStatsPublishedEvent {
-  export type InputTuple = [
-    averageRating: BigNumberish,
-    totalCount: BigNumberish
+  decodeFunctionResult(
+    functionFragment: "submitRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitRatingFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitSegmentedRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "thresholdAlertCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRatingFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSubject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userSubjectEntryId",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AlertThresholdUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, threshold: BigNumberish];
+  export type OutputTuple = [subjectHash: string, threshold: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AllStatsPublishedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    globalAverage: BigNumberish,
+    globalCount: BigNumberish,
+    subjectHashes: BytesLike[],
+    averages: BigNumberish[],
+    counts: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    globalAverage: bigint,
+    globalCount: bigint,
+    subjectHashes: string[],
+    averages: bigint[],
+    counts: bigint[]
   ];
-  export type OutputTuple = [averageRating: bigint, totalCount: bigint];
   export interface OutputObject {
-    averageRating: bigint;
-    totalCount: bigint;
+    requestId: bigint;
+    globalAverage: bigint;
+    globalCount: bigint;
+    subjectHashes: string[];
+    averages: bigint[];
+    counts: bigint[];
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -274,11 +1266,15 @@ export namespace GlobalStatsPublishedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace GlobalStatsRequestedEvent {
-  export type InputTuple = [requestId: BigNumberish];
-  export type OutputTuple = [requestId: bigint];
+export namespace AllStatsRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    subjectCount: BigNumberish
+  ];
+  export type OutputTuple = [requestId: bigint, subjectCount: bigint];
   export interface OutputObject {
     requestId: bigint;
+    subjectCount: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -286,12 +1282,11 @@ export namespace GlobalStatsRequestedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace RatingDeletedEvent {
-  export type InputTuple = [entryId: BigNumberish, submitter: AddressLike];
-  export type OutputTuple = [entryId: bigint, submitter: string];
+export namespace AnonymousMembersRootUpdatedEvent {
+  export type InputTuple = [root: BytesLike];
+  export type OutputTuple = [root: string];
   export interface OutputObject {
-    entryId: bigint;
-    submitter: string;
+    root: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -299,23 +1294,32 @@ export namespace RatingDeletedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace RatingSubmittedEvent {
+export namespace AnonymousModeUpdatedEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnonymousRatingSubmittedEvent {
   export type InputTuple = [
     entryId: BigNumberish,
-    submitter: AddressLike,
-    subject: string,
+    nullifier: BytesLike,
     timestamp: BigNumberish
   ];
   export type OutputTuple = [
     entryId: bigint,
-    submitter: string,
-    subject: string,
+    nullifier: string,
     timestamp: bigint
   ];
   export interface OutputObject {
     entryId: bigint;
-    submitter: string;
-    subject: string;
+    nullifier: string;
     timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -324,21 +1328,21 @@ export namespace RatingSubmittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace RatingUpdatedEvent {
+export namespace CampaignCreatedEvent {
   export type InputTuple = [
-    entryId: BigNumberish,
-    submitter: AddressLike,
-    newSubject: string
+    campaignId: BigNumberish,
+    name: string,
+    questionCount: BigNumberish
   ];
   export type OutputTuple = [
-    entryId: bigint,
-    submitter: string,
-    newSubject: string
+    campaignId: bigint,
+    name: string,
+    questionCount: bigint
   ];
   export interface OutputObject {
-    entryId: bigint;
-    submitter: string;
-    newSubject: string;
+    campaignId: bigint;
+    name: string;
+    questionCount: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -346,21 +1350,115 @@ export namespace RatingUpdatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace SubjectStatsPublishedEvent {
+export namespace CampaignDeadlineUpdatedEvent {
+  export type InputTuple = [campaignId: BigNumberish, closesAt: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, closesAt: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    closesAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignResultsPublishedEvent {
+  export type InputTuple = [campaignId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, requestId: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignResultsRequestedEvent {
+  export type InputTuple = [campaignId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, requestId: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignSubmittedEvent {
+  export type InputTuple = [campaignId: BigNumberish, respondent: AddressLike];
+  export type OutputTuple = [campaignId: bigint, respondent: string];
+  export interface OutputObject {
+    campaignId: bigint;
+    respondent: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionAccessGrantedEvent {
+  export type InputTuple = [user: AddressLike, sender: AddressLike];
+  export type OutputTuple = [user: string, sender: string];
+  export interface OutputObject {
+    user: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityModuleUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, module: AddressLike];
+  export type OutputTuple = [subjectHash: string, module: string];
+  export interface OutputObject {
+    subjectHash: string;
+    module: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityRootUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, root: BytesLike];
+  export type OutputTuple = [subjectHash: string, root: string];
+  export interface OutputObject {
+    subjectHash: string;
+    root: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GlobalStatsPublishedEvent {
   export type InputTuple = [
-    subjectHash: BytesLike,
+    snapshotId: BigNumberish,
     averageRating: BigNumberish,
-    count: BigNumberish
+    totalCount: BigNumberish,
+    stdDev: BigNumberish
   ];
   export type OutputTuple = [
-    subjectHash: string,
+    snapshotId: bigint,
     averageRating: bigint,
-    count: bigint
+    totalCount: bigint,
+    stdDev: bigint
   ];
   export interface OutputObject {
-    subjectHash: string;
+    snapshotId: bigint;
     averageRating: bigint;
-    count: bigint;
+    totalCount: bigint;
+    stdDev: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -368,11 +1466,10 @@ export namespace SubjectStatsPublishedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace SubjectStatsRequestedEvent {
-  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
-  export type OutputTuple = [subjectHash: string, requestId: bigint];
+export namespace GlobalStatsRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
   export interface OutputObject {
-    subjectHash: string;
     requestId: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -381,80 +1478,1378 @@ export namespace SubjectStatsRequestedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export interface EncryptedRatingSystem extends BaseContract {
-  connect(runner?: ContractRunner | null): EncryptedRatingSystem;
-  waitForDeployment(): Promise<this>;
-
-  interface: EncryptedRatingSystemInterface;
-
-  queryFilter<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
-  queryFilter<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
-
-  on<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  on<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
+export namespace GlobalStatsWithheldEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  once<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  once<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
+export namespace NoiseScaleUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, noiseScale: BigNumberish];
+  export type OutputTuple = [subjectHash: string, noiseScale: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    noiseScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  listeners<TCEvent extends TypedContractEvent>(
-    event: TCEvent
-  ): Promise<Array<TypedListener<TCEvent>>>;
-  listeners(eventName?: string): Promise<Array<Listener>>;
-  removeAllListeners<TCEvent extends TypedContractEvent>(
-    event?: TCEvent
-  ): Promise<this>;
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  allowUserToDecrypt: TypedContractMethod<
-    [user: AddressLike, subjects: string[]],
-    [void],
-    "nonpayable"
-  >;
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  deleteRating: TypedContractMethod<[], [void], "nonpayable">;
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  entryCount: TypedContractMethod<[], [bigint], "view">;
+export namespace PrivateCountsUpdatedEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  getActiveEntryCount: TypedContractMethod<[], [bigint], "view">;
+export namespace RankingPublishedEvent {
+  export type InputTuple = [rankingId: BigNumberish, subjects: string[]];
+  export type OutputTuple = [rankingId: bigint, subjects: string[]];
+  export interface OutputObject {
+    rankingId: bigint;
+    subjects: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  getEncryptedGlobalStats: TypedContractMethod<
+export namespace RankingRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    subjectCount: BigNumberish
+  ];
+  export type OutputTuple = [requestId: bigint, subjectCount: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    subjectCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankingWithheldEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingDeletedEvent {
+  export type InputTuple = [entryId: BigNumberish, submitter: AddressLike];
+  export type OutputTuple = [entryId: bigint, submitter: string];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingSubmittedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    submitter: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    submitter: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingUpdatedEvent {
+  export type InputTuple = [entryId: BigNumberish, submitter: AddressLike];
+  export type OutputTuple = [entryId: bigint, submitter: string];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentStatsPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    averages: BigNumberish[],
+    counts: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    averages: bigint[],
+    counts: bigint[]
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    averages: bigint[];
+    counts: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentStatsRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentsConfiguredEvent {
+  export type InputTuple = [names: string[]];
+  export type OutputTuple = [names: string[]];
+  export interface OutputObject {
+    names: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectBelowThresholdEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    threshold: BigNumberish,
+    below: boolean
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    threshold: bigint,
+    below: boolean
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    threshold: bigint;
+    below: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    buckets: BigNumberish[],
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    buckets: bigint[],
+    count: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    buckets: bigint[];
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectMinRespondentsUpdatedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    minRespondents: BigNumberish
+  ];
+  export type OutputTuple = [subjectHash: string, minRespondents: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    minRespondents: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectRegisteredEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    subjectId: BigNumberish,
+    name: string
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    subjectId: bigint,
+    name: string
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    subjectId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    snapshotId: BigNumberish,
+    averageRating: BigNumberish,
+    count: BigNumberish,
+    stdDev: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    snapshotId: bigint,
+    averageRating: bigint,
+    count: bigint,
+    stdDev: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    snapshotId: bigint;
+    averageRating: bigint;
+    count: bigint;
+    stdDev: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatusChangedEvent {
+  export type InputTuple = [subjectHash: BytesLike, status: BigNumberish];
+  export type OutputTuple = [subjectHash: string, status: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectUpdatedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    opensAt: BigNumberish,
+    closesAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    opensAt: bigint,
+    closesAt: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    opensAt: bigint;
+    closesAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdAlertRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdAlertWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface EncryptedRatingSystem extends BaseContract {
+  connect(runner?: ContractRunner | null): EncryptedRatingSystem;
+  waitForDeployment(): Promise<this>;
+
+  interface: EncryptedRatingSystemInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  ANONYMOUS_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  HISTOGRAM_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SUBJECTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CAMPAIGN_QUESTIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NOISE_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RANKING_SUBJECTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SEGMENTS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MODERATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  NOISE_BUDGET: TypedContractMethod<[], [bigint], "view">;
+
+  SQUARE_NOISE_FACTOR: TypedContractMethod<[], [bigint], "view">;
+
+  STATS_PRECISION: TypedContractMethod<[], [bigint], "view">;
+
+  SUBMIT_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  UPDATE_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  adminModule: TypedContractMethod<[], [string], "view">;
+
+  allStatsCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  allowUserToDecrypt: TypedContractMethod<
+    [user: AddressLike, subjects: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  anonymousMembersRoot: TypedContractMethod<[], [string], "view">;
+
+  anonymousMode: TypedContractMethod<[], [boolean], "view">;
+
+  createCampaign: TypedContractMethod<
+    [arg0: string, arg1: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  defaultMinRespondents: TypedContractMethod<[], [bigint], "view">;
+
+  deleteRating: TypedContractMethod<[arg0: string], [void], "nonpayable">;
+
+  domainSeparator: TypedContractMethod<[], [string], "view">;
+
+  getActiveEntryCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAlertThreshold: TypedContractMethod<[subject: string], [bigint], "view">;
+
+  getAnonymousNullifier: TypedContractMethod<
+    [member: AddressLike, subject: string],
+    [string],
+    "view"
+  >;
+
+  getCampaign: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[string, string[]] & { name: string; questions: string[] }],
+    "view"
+  >;
+
+  getCampaignCount: TypedContractMethod<[], [bigint], "view">;
+
+  getCampaignDeadline: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, boolean] & { closesAt: bigint; resultsRequested: boolean }],
+    "view"
+  >;
+
+  getEligibilityModule: TypedContractMethod<
+    [subject: string],
+    [string],
+    "view"
+  >;
+
+  getEligibilityRoot: TypedContractMethod<[subject: string], [string], "view">;
+
+  getEncryptedGlobalStats: TypedContractMethod<
+    [],
+    [
+      [string, bigint, string] & {
+        encryptedSum: string;
+        count: bigint;
+        encryptedCount: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedRating: TypedContractMethod<
+    [entryId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getEncryptedSubjectStats: TypedContractMethod<
+    [subject: string],
+    [
+      [string, bigint, string] & {
+        encryptedSum: string;
+        count: bigint;
+        encryptedCount: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEntriesBySubject: TypedContractMethod<
+    [subject: string, offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.EntryInfoStructOutput[], bigint] & {
+        entries: RatingStorage.EntryInfoStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEntriesBySubmitter: TypedContractMethod<
+    [submitter: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.EntryInfoStructOutput[], bigint] & {
+        entries: RatingStorage.EntryInfoStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEntry: TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [string, bigint, string, boolean] & {
+        subject: string;
+        timestamp: bigint;
+        submitter: string;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEntryCount: TypedContractMethod<[], [bigint], "view">;
+
+  getGlobalNoiseScale: TypedContractMethod<[], [bigint], "view">;
+
+  getGlobalSnapshot: TypedContractMethod<
+    [snapshotId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        totalCount: bigint;
+        blockNumber: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getGlobalSnapshotCount: TypedContractMethod<[], [bigint], "view">;
+
+  getGlobalStats: TypedContractMethod<
     [],
-    [[string, bigint] & { encryptedSum: string; count: bigint }],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        totalCount: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getNullifierEntry: TypedContractMethod<
+    [nullifier: BytesLike],
+    [[boolean, bigint] & { used: boolean; entryId: bigint }],
+    "view"
+  >;
+
+  getRanking: TypedContractMethod<
+    [rankingId: BigNumberish],
+    [[string[], bigint] & { subjects: string[]; blockNumber: bigint }],
+    "view"
+  >;
+
+  getRankingCount: TypedContractMethod<[], [bigint], "view">;
+
+  getRejectedFlag: TypedContractMethod<
+    [entryId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getRemainingNoiseBudget: TypedContractMethod<
+    [subject: string],
+    [bigint],
+    "view"
+  >;
+
+  getSegmentStats: TypedContractMethod<
+    [subject: string],
+    [
+      [bigint[], bigint[], bigint] & {
+        averages: bigint[];
+        counts: bigint[];
+        blockNumber: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSegments: TypedContractMethod<[], [string[]], "view">;
+
+  getSubject: TypedContractMethod<
+    [subjectId: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint] & {
+        name: string;
+        description: string;
+        opensAt: bigint;
+        closesAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubjectCount: TypedContractMethod<[], [bigint], "view">;
+
+  getSubjectEntryCount: TypedContractMethod<
+    [subject: string],
+    [bigint],
+    "view"
+  >;
+
+  getSubjectHistogram: TypedContractMethod<
+    [subject: string],
+    [
+      [bigint[], bigint, bigint] & {
+        buckets: bigint[];
+        count: bigint;
+        blockNumber: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubjectMinRespondents: TypedContractMethod<
+    [subject: string],
+    [bigint],
+    "view"
+  >;
+
+  getSubjectNoiseScale: TypedContractMethod<
+    [subject: string],
+    [bigint],
+    "view"
+  >;
+
+  getSubjectSnapshot: TypedContractMethod<
+    [subject: string, snapshotId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        count: bigint;
+        blockNumber: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubjectSnapshotCount: TypedContractMethod<
+    [subject: string],
+    [bigint],
+    "view"
+  >;
+
+  getSubjectStats: TypedContractMethod<
+    [subject: string],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        count: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubjects: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.SubjectStructOutput[], bigint] & {
+        subjects: RatingStorage.SubjectStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getThresholdAlert: TypedContractMethod<
+    [subject: string],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        threshold: bigint;
+        below: boolean;
+        count: bigint;
+        blockNumber: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  globalMinRespondents: TypedContractMethod<[], [bigint], "view">;
+
+  globalStatsCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasSubmitted: TypedContractMethod<[user: AddressLike], [boolean], "view">;
+
+  hasSubmittedForSubject: TypedContractMethod<
+    [user: AddressLike, subject: string],
+    [boolean],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [
+      owner_: AddressLike,
+      defaultMinRespondents_: BigNumberish,
+      globalMinRespondents_: BigNumberish,
+      ratingScale_: BigNumberish,
+      subjects: string[],
+      opensAt: BigNumberish,
+      closesAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  isAnonymousMember: TypedContractMethod<
+    [member: AddressLike, membershipProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
+  isEligible: TypedContractMethod<
+    [subject: string, account: AddressLike, eligibilityProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
+  isGlobalStatsFinalized: TypedContractMethod<[], [boolean], "view">;
+
+  isSubjectOpen: TypedContractMethod<[subject: string], [boolean], "view">;
+
+  isSubjectStatsFinalized: TypedContractMethod<
+    [subject: string],
+    [boolean],
+    "view"
+  >;
+
+  nonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  privateCounts: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  rankingCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  ratingScale: TypedContractMethod<[], [bigint], "view">;
+
+  registerSubject: TypedContractMethod<
+    [arg0: string, arg1: string, arg2: BigNumberish, arg3: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestAllStats: TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+
+  requestCampaignResults: TypedContractMethod<
+    [arg0: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestGlobalStats: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestRanking: TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+
+  requestSegmentStats: TypedContractMethod<
+    [arg0: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestSubjectHistogram: TypedContractMethod<
+    [arg0: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestSubjectStats: TypedContractMethod<
+    [arg0: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestThresholdAlert: TypedContractMethod<
+    [arg0: string],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  segmentStatsCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  setAlertThreshold: TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setAnonymousMembersRoot: TypedContractMethod<
+    [arg0: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAnonymousMode: TypedContractMethod<[arg0: boolean], [void], "nonpayable">;
+
+  setCampaignDeadline: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCampaignEligibilityRoot: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setEligibilityModule: TypedContractMethod<
+    [arg0: string, arg1: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setEligibilityRoot: TypedContractMethod<
+    [arg0: string, arg1: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setPrivateCounts: TypedContractMethod<[arg0: boolean], [void], "nonpayable">;
+
+  setSegments: TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+
+  setSubjectMinRespondents: TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSubjectNoiseScale: TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSubjectStatus: TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  statsModule: TypedContractMethod<[], [string], "view">;
+
+  subjectHistogramCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  subjectStatsCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  submissionModule: TypedContractMethod<[], [string], "view">;
+
+  submitAnonymousRating: TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: BytesLike,
+      arg4: string,
+      arg5: BytesLike[],
+      arg6: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitCampaign: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike[], arg2: BytesLike, arg3: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRating: TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: string, arg3: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRatingFor: TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitSegmentedRating: TypedContractMethod<
+    [
+      arg0: BytesLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: string,
+      arg4: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  thresholdAlertCallback: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [arg0: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateRating: TypedContractMethod<
+    [arg0: string, arg1: BytesLike, arg2: BytesLike, arg3: string],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRatingFor: TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: string,
+      arg2: BytesLike,
+      arg3: BytesLike,
+      arg4: string,
+      arg5: BigNumberish,
+      arg6: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateSubject: TypedContractMethod<
+    [arg0: string, arg1: string, arg2: BigNumberish, arg3: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  userSubjectEntryId: TypedContractMethod<
+    [user: AddressLike, subjectHash: BytesLike],
+    [bigint],
     "view"
   >;
 
-  getEncryptedRating: TypedContractMethod<
-    [entryId: BigNumberish],
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ANONYMOUS_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "HISTOGRAM_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SUBJECTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CAMPAIGN_QUESTIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NOISE_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RANKING_SUBJECTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SEGMENTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MODERATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "NOISE_BUDGET"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SQUARE_NOISE_FACTOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STATS_PRECISION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SUBMIT_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "UPDATE_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "adminModule"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "allStatsCallback"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowUserToDecrypt"
+  ): TypedContractMethod<
+    [user: AddressLike, subjects: string[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "anonymousMembersRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "anonymousMode"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "createCampaign"
+  ): TypedContractMethod<
+    [arg0: string, arg1: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "defaultMinRespondents"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deleteRating"
+  ): TypedContractMethod<[arg0: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "domainSeparator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getActiveEntryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAlertThreshold"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAnonymousNullifier"
+  ): TypedContractMethod<
+    [member: AddressLike, subject: string],
     [string],
     "view"
   >;
-
-  getEncryptedSubjectStats: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getCampaign"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[string, string[]] & { name: string; questions: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCampaignCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCampaignDeadline"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, boolean] & { closesAt: bigint; resultsRequested: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEligibilityModule"
+  ): TypedContractMethod<[subject: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEligibilityRoot"
+  ): TypedContractMethod<[subject: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedGlobalStats"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, bigint, string] & {
+        encryptedSum: string;
+        count: bigint;
+        encryptedCount: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedRating"
+  ): TypedContractMethod<[entryId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedSubjectStats"
+  ): TypedContractMethod<
     [subject: string],
-    [[string, bigint] & { encryptedSum: string; count: bigint }],
+    [
+      [string, bigint, string] & {
+        encryptedSum: string;
+        count: bigint;
+        encryptedCount: string;
+      }
+    ],
     "view"
   >;
-
-  getEntry: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getEntriesBySubject"
+  ): TypedContractMethod<
+    [subject: string, offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.EntryInfoStructOutput[], bigint] & {
+        entries: RatingStorage.EntryInfoStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesBySubmitter"
+  ): TypedContractMethod<
+    [submitter: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.EntryInfoStructOutput[], bigint] & {
+        entries: RatingStorage.EntryInfoStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntry"
+  ): TypedContractMethod<
     [entryId: BigNumberish],
     [
       [string, bigint, string, boolean] & {
@@ -466,244 +2861,618 @@ export interface EncryptedRatingSystem extends BaseContract {
     ],
     "view"
   >;
-
-  getEntryCount: TypedContractMethod<[], [bigint], "view">;
-
-  getGlobalStats: TypedContractMethod<
-    [],
-    [[bigint, bigint] & { averageRating: bigint; totalCount: bigint }],
+  getFunction(
+    nameOrSignature: "getEntryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getGlobalNoiseScale"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getGlobalSnapshot"
+  ): TypedContractMethod<
+    [snapshotId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        totalCount: bigint;
+        blockNumber: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGlobalSnapshotCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getGlobalStats"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        totalCount: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getNullifierEntry"
+  ): TypedContractMethod<
+    [nullifier: BytesLike],
+    [[boolean, bigint] & { used: boolean; entryId: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRanking"
+  ): TypedContractMethod<
+    [rankingId: BigNumberish],
+    [[string[], bigint] & { subjects: string[]; blockNumber: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRankingCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRejectedFlag"
+  ): TypedContractMethod<[entryId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRemainingNoiseBudget"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSegmentStats"
+  ): TypedContractMethod<
+    [subject: string],
+    [
+      [bigint[], bigint[], bigint] & {
+        averages: bigint[];
+        counts: bigint[];
+        blockNumber: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSegments"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSubject"
+  ): TypedContractMethod<
+    [subjectId: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint] & {
+        name: string;
+        description: string;
+        opensAt: bigint;
+        closesAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubjectCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSubjectEntryCount"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSubjectHistogram"
+  ): TypedContractMethod<
+    [subject: string],
+    [
+      [bigint[], bigint, bigint] & {
+        buckets: bigint[];
+        count: bigint;
+        blockNumber: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubjectMinRespondents"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSubjectNoiseScale"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSubjectSnapshot"
+  ): TypedContractMethod<
+    [subject: string, snapshotId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        count: bigint;
+        blockNumber: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
     "view"
   >;
-
-  getSubjectEntryCount: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getSubjectSnapshotCount"
+  ): TypedContractMethod<[subject: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSubjectStats"
+  ): TypedContractMethod<
     [subject: string],
-    [bigint],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        averageRating: bigint;
+        count: bigint;
+        stdDev: bigint;
+        noiseScale: bigint;
+      }
+    ],
     "view"
   >;
-
-  getSubjectStats: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getSubjects"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [RatingStorage.SubjectStructOutput[], bigint] & {
+        subjects: RatingStorage.SubjectStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getThresholdAlert"
+  ): TypedContractMethod<
     [subject: string],
-    [[bigint, bigint] & { averageRating: bigint; count: bigint }],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        threshold: bigint;
+        below: boolean;
+        count: bigint;
+        blockNumber: bigint;
+      }
+    ],
     "view"
   >;
-
-  globalStatsCallback: TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
+  getFunction(
+    nameOrSignature: "globalMinRespondents"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "globalStatsCallback"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
     [boolean],
     "nonpayable"
   >;
-
-  hasSubmitted: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
-
-  hasSubmittedForSubject: TypedContractMethod<
-    [user: AddressLike, subject: string],
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
     [boolean],
     "view"
   >;
-
-  isGlobalStatsFinalized: TypedContractMethod<[], [boolean], "view">;
-
-  isSubjectStatsFinalized: TypedContractMethod<
-    [subject: string],
+  getFunction(
+    nameOrSignature: "hasSubmitted"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasSubmittedForSubject"
+  ): TypedContractMethod<
+    [user: AddressLike, subject: string],
     [boolean],
     "view"
   >;
-
-  protocolId: TypedContractMethod<[], [bigint], "view">;
-
-  ratingEntries: TypedContractMethod<
-    [arg0: BigNumberish],
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
     [
-      [string, string, string, bigint, boolean] & {
-        submitter: string;
-        subject: string;
-        encryptedRating: string;
-        timestamp: bigint;
-        isActive: boolean;
-      }
+      owner_: AddressLike,
+      defaultMinRespondents_: BigNumberish,
+      globalMinRespondents_: BigNumberish,
+      ratingScale_: BigNumberish,
+      subjects: string[],
+      opensAt: BigNumberish,
+      closesAt: BigNumberish
     ],
-    "view"
-  >;
-
-  requestGlobalStats: TypedContractMethod<[], [void], "nonpayable">;
-
-  requestSubjectStats: TypedContractMethod<
-    [subject: string],
     [void],
     "nonpayable"
   >;
-
-  subjectStatsCallback: TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
+  getFunction(
+    nameOrSignature: "isAnonymousMember"
+  ): TypedContractMethod<
+    [member: AddressLike, membershipProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isEligible"
+  ): TypedContractMethod<
+    [subject: string, account: AddressLike, eligibilityProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isGlobalStatsFinalized"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSubjectOpen"
+  ): TypedContractMethod<[subject: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSubjectStatsFinalized"
+  ): TypedContractMethod<[subject: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "privateCounts"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rankingCallback"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
     [boolean],
     "nonpayable"
   >;
-
-  submitRating: TypedContractMethod<
-    [encryptedRating: BytesLike, inputProof: BytesLike, subject: string],
-    [void],
+  getFunction(
+    nameOrSignature: "ratingScale"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerSubject"
+  ): TypedContractMethod<
+    [arg0: string, arg1: string, arg2: BigNumberish, arg3: BigNumberish],
+    [bigint],
     "nonpayable"
   >;
-
-  updateRating: TypedContractMethod<
-    [encryptedRating: BytesLike, inputProof: BytesLike, newSubject: string],
+  getFunction(
+    nameOrSignature: "requestAllStats"
+  ): TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestCampaignResults"
+  ): TypedContractMethod<[arg0: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestGlobalStats"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestRanking"
+  ): TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestSegmentStats"
+  ): TypedContractMethod<[arg0: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestSubjectHistogram"
+  ): TypedContractMethod<[arg0: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestSubjectStats"
+  ): TypedContractMethod<[arg0: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestThresholdAlert"
+  ): TypedContractMethod<[arg0: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
     [void],
     "nonpayable"
   >;
-
-  userSubjectEntryId: TypedContractMethod<
-    [arg0: AddressLike, arg1: BytesLike],
-    [bigint],
-    "view"
+  getFunction(
+    nameOrSignature: "segmentStatsCallback"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
   >;
-
-  getFunction<T extends ContractMethod = ContractMethod>(
-    key: string | FunctionFragment
-  ): T;
-
   getFunction(
-    nameOrSignature: "allowUserToDecrypt"
+    nameOrSignature: "setAlertThreshold"
   ): TypedContractMethod<
-    [user: AddressLike, subjects: string[]],
+    [arg0: string, arg1: BigNumberish],
     [void],
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "deleteRating"
-  ): TypedContractMethod<[], [void], "nonpayable">;
-  getFunction(
-    nameOrSignature: "entryCount"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "setAnonymousMembersRoot"
+  ): TypedContractMethod<[arg0: BytesLike], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "getActiveEntryCount"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "setAnonymousMode"
+  ): TypedContractMethod<[arg0: boolean], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "getEncryptedGlobalStats"
+    nameOrSignature: "setCampaignDeadline"
   ): TypedContractMethod<
-    [],
-    [[string, bigint] & { encryptedSum: string; count: bigint }],
-    "view"
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getEncryptedRating"
-  ): TypedContractMethod<[entryId: BigNumberish], [string], "view">;
+    nameOrSignature: "setCampaignEligibilityRoot"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "getEncryptedSubjectStats"
+    nameOrSignature: "setEligibilityModule"
   ): TypedContractMethod<
-    [subject: string],
-    [[string, bigint] & { encryptedSum: string; count: bigint }],
-    "view"
+    [arg0: string, arg1: AddressLike],
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getEntry"
+    nameOrSignature: "setEligibilityRoot"
+  ): TypedContractMethod<[arg0: string, arg1: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPrivateCounts"
+  ): TypedContractMethod<[arg0: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setSegments"
+  ): TypedContractMethod<[arg0: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setSubjectMinRespondents"
   ): TypedContractMethod<
-    [entryId: BigNumberish],
-    [
-      [string, bigint, string, boolean] & {
-        subject: string;
-        timestamp: bigint;
-        submitter: string;
-        isActive: boolean;
-      }
-    ],
-    "view"
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getEntryCount"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "setSubjectNoiseScale"
+  ): TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "getGlobalStats"
+    nameOrSignature: "setSubjectStatus"
   ): TypedContractMethod<
-    [],
-    [[bigint, bigint] & { averageRating: bigint; totalCount: bigint }],
-    "view"
+    [arg0: string, arg1: BigNumberish],
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getSubjectEntryCount"
-  ): TypedContractMethod<[subject: string], [bigint], "view">;
+    nameOrSignature: "statsModule"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
-    nameOrSignature: "getSubjectStats"
+    nameOrSignature: "subjectHistogramCallback"
   ): TypedContractMethod<
-    [subject: string],
-    [[bigint, bigint] & { averageRating: bigint; count: bigint }],
-    "view"
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "globalStatsCallback"
+    nameOrSignature: "subjectStatsCallback"
   ): TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
     [boolean],
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "hasSubmitted"
-  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+    nameOrSignature: "submissionModule"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
-    nameOrSignature: "hasSubmittedForSubject"
+    nameOrSignature: "submitAnonymousRating"
   ): TypedContractMethod<
-    [user: AddressLike, subject: string],
-    [boolean],
-    "view"
+    [
+      arg0: AddressLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: BytesLike,
+      arg4: string,
+      arg5: BytesLike[],
+      arg6: BytesLike
+    ],
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "isGlobalStatsFinalized"
-  ): TypedContractMethod<[], [boolean], "view">;
+    nameOrSignature: "submitCampaign"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike[], arg2: BytesLike, arg3: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "isSubjectStatsFinalized"
-  ): TypedContractMethod<[subject: string], [boolean], "view">;
+    nameOrSignature: "submitRating"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: string, arg3: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "protocolId"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "submitRatingFor"
+  ): TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "ratingEntries"
+    nameOrSignature: "submitSegmentedRating"
   ): TypedContractMethod<
-    [arg0: BigNumberish],
     [
-      [string, string, string, bigint, boolean] & {
-        submitter: string;
-        subject: string;
-        encryptedRating: string;
-        timestamp: bigint;
-        isActive: boolean;
-      }
+      arg0: BytesLike,
+      arg1: BytesLike,
+      arg2: BytesLike,
+      arg3: string,
+      arg4: BytesLike[]
     ],
-    "view"
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "thresholdAlertCallback"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike, arg2: BytesLike],
+    [boolean],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "requestGlobalStats"
-  ): TypedContractMethod<[], [void], "nonpayable">;
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[arg0: AddressLike], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "requestSubjectStats"
-  ): TypedContractMethod<[subject: string], [void], "nonpayable">;
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "subjectStatsCallback"
+    nameOrSignature: "updateRating"
   ): TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
-    [boolean],
+    [arg0: string, arg1: BytesLike, arg2: BytesLike, arg3: string],
+    [void],
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "submitRating"
+    nameOrSignature: "updateRatingFor"
   ): TypedContractMethod<
-    [encryptedRating: BytesLike, inputProof: BytesLike, subject: string],
+    [
+      arg0: AddressLike,
+      arg1: string,
+      arg2: BytesLike,
+      arg3: BytesLike,
+      arg4: string,
+      arg5: BigNumberish,
+      arg6: BytesLike
+    ],
     [void],
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "updateRating"
+    nameOrSignature: "updateSubject"
   ): TypedContractMethod<
-    [encryptedRating: BytesLike, inputProof: BytesLike, newSubject: string],
+    [arg0: string, arg1: string, arg2: BigNumberish, arg3: BigNumberish],
     [void],
     "nonpayable"
   >;
   getFunction(
     nameOrSignature: "userSubjectEntryId"
   ): TypedContractMethod<
-    [arg0: AddressLike, arg1: BytesLike],
+    [user: AddressLike, subjectHash: BytesLike],
     [bigint],
     "view"
   >;
 
+  getEvent(
+    key: "AlertThresholdUpdated"
+  ): TypedContractEvent<
+    AlertThresholdUpdatedEvent.InputTuple,
+    AlertThresholdUpdatedEvent.OutputTuple,
+    AlertThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AllStatsPublished"
+  ): TypedContractEvent<
+    AllStatsPublishedEvent.InputTuple,
+    AllStatsPublishedEvent.OutputTuple,
+    AllStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AllStatsRequested"
+  ): TypedContractEvent<
+    AllStatsRequestedEvent.InputTuple,
+    AllStatsRequestedEvent.OutputTuple,
+    AllStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousMembersRootUpdated"
+  ): TypedContractEvent<
+    AnonymousMembersRootUpdatedEvent.InputTuple,
+    AnonymousMembersRootUpdatedEvent.OutputTuple,
+    AnonymousMembersRootUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousModeUpdated"
+  ): TypedContractEvent<
+    AnonymousModeUpdatedEvent.InputTuple,
+    AnonymousModeUpdatedEvent.OutputTuple,
+    AnonymousModeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousRatingSubmitted"
+  ): TypedContractEvent<
+    AnonymousRatingSubmittedEvent.InputTuple,
+    AnonymousRatingSubmittedEvent.OutputTuple,
+    AnonymousRatingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignCreated"
+  ): TypedContractEvent<
+    CampaignCreatedEvent.InputTuple,
+    CampaignCreatedEvent.OutputTuple,
+    CampaignCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignDeadlineUpdated"
+  ): TypedContractEvent<
+    CampaignDeadlineUpdatedEvent.InputTuple,
+    CampaignDeadlineUpdatedEvent.OutputTuple,
+    CampaignDeadlineUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignResultsPublished"
+  ): TypedContractEvent<
+    CampaignResultsPublishedEvent.InputTuple,
+    CampaignResultsPublishedEvent.OutputTuple,
+    CampaignResultsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignResultsRequested"
+  ): TypedContractEvent<
+    CampaignResultsRequestedEvent.InputTuple,
+    CampaignResultsRequestedEvent.OutputTuple,
+    CampaignResultsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignSubmitted"
+  ): TypedContractEvent<
+    CampaignSubmittedEvent.InputTuple,
+    CampaignSubmittedEvent.OutputTuple,
+    CampaignSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionAccessGranted"
+  ): TypedContractEvent<
+    DecryptionAccessGrantedEvent.InputTuple,
+    DecryptionAccessGrantedEvent.OutputTuple,
+    DecryptionAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityModuleUpdated"
+  ): TypedContractEvent<
+    EligibilityModuleUpdatedEvent.InputTuple,
+    EligibilityModuleUpdatedEvent.OutputTuple,
+    EligibilityModuleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityRootUpdated"
+  ): TypedContractEvent<
+    EligibilityRootUpdatedEvent.InputTuple,
+    EligibilityRootUpdatedEvent.OutputTuple,
+    EligibilityRootUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "GlobalStatsPublished"
   ): TypedContractEvent<
@@ -718,6 +3487,69 @@ export interface EncryptedRatingSystem extends BaseContract {
     GlobalStatsRequestedEvent.OutputTuple,
     GlobalStatsRequestedEvent.OutputObject
   >;
+  getEvent(
+    key: "GlobalStatsWithheld"
+  ): TypedContractEvent<
+    GlobalStatsWithheldEvent.InputTuple,
+    GlobalStatsWithheldEvent.OutputTuple,
+    GlobalStatsWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "NoiseScaleUpdated"
+  ): TypedContractEvent<
+    NoiseScaleUpdatedEvent.InputTuple,
+    NoiseScaleUpdatedEvent.OutputTuple,
+    NoiseScaleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivateCountsUpdated"
+  ): TypedContractEvent<
+    PrivateCountsUpdatedEvent.InputTuple,
+    PrivateCountsUpdatedEvent.OutputTuple,
+    PrivateCountsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingPublished"
+  ): TypedContractEvent<
+    RankingPublishedEvent.InputTuple,
+    RankingPublishedEvent.OutputTuple,
+    RankingPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingRequested"
+  ): TypedContractEvent<
+    RankingRequestedEvent.InputTuple,
+    RankingRequestedEvent.OutputTuple,
+    RankingRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingWithheld"
+  ): TypedContractEvent<
+    RankingWithheldEvent.InputTuple,
+    RankingWithheldEvent.OutputTuple,
+    RankingWithheldEvent.OutputObject
+  >;
   getEvent(
     key: "RatingDeleted"
   ): TypedContractEvent<
@@ -739,6 +3571,83 @@ export interface EncryptedRatingSystem extends BaseContract {
     RatingUpdatedEvent.OutputTuple,
     RatingUpdatedEvent.OutputObject
   >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentStatsPublished"
+  ): TypedContractEvent<
+    SegmentStatsPublishedEvent.InputTuple,
+    SegmentStatsPublishedEvent.OutputTuple,
+    SegmentStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentStatsRequested"
+  ): TypedContractEvent<
+    SegmentStatsRequestedEvent.InputTuple,
+    SegmentStatsRequestedEvent.OutputTuple,
+    SegmentStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentsConfigured"
+  ): TypedContractEvent<
+    SegmentsConfiguredEvent.InputTuple,
+    SegmentsConfiguredEvent.OutputTuple,
+    SegmentsConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectBelowThreshold"
+  ): TypedContractEvent<
+    SubjectBelowThresholdEvent.InputTuple,
+    SubjectBelowThresholdEvent.OutputTuple,
+    SubjectBelowThresholdEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramPublished"
+  ): TypedContractEvent<
+    SubjectHistogramPublishedEvent.InputTuple,
+    SubjectHistogramPublishedEvent.OutputTuple,
+    SubjectHistogramPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramRequested"
+  ): TypedContractEvent<
+    SubjectHistogramRequestedEvent.InputTuple,
+    SubjectHistogramRequestedEvent.OutputTuple,
+    SubjectHistogramRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramWithheld"
+  ): TypedContractEvent<
+    SubjectHistogramWithheldEvent.InputTuple,
+    SubjectHistogramWithheldEvent.OutputTuple,
+    SubjectHistogramWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectMinRespondentsUpdated"
+  ): TypedContractEvent<
+    SubjectMinRespondentsUpdatedEvent.InputTuple,
+    SubjectMinRespondentsUpdatedEvent.OutputTuple,
+    SubjectMinRespondentsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectRegistered"
+  ): TypedContractEvent<
+    SubjectRegisteredEvent.InputTuple,
+    SubjectRegisteredEvent.OutputTuple,
+    SubjectRegisteredEvent.OutputObject
+  >;
   getEvent(
     key: "SubjectStatsPublished"
   ): TypedContractEvent<
@@ -753,9 +3662,205 @@ export interface EncryptedRatingSystem extends BaseContract {
     SubjectStatsRequestedEvent.OutputTuple,
     SubjectStatsRequestedEvent.OutputObject
   >;
+  getEvent(
+    key: "SubjectStatsWithheld"
+  ): TypedContractEvent<
+    SubjectStatsWithheldEvent.InputTuple,
+    SubjectStatsWithheldEvent.OutputTuple,
+    SubjectStatsWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectStatusChanged"
+  ): TypedContractEvent<
+    SubjectStatusChangedEvent.InputTuple,
+    SubjectStatusChangedEvent.OutputTuple,
+    SubjectStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectUpdated"
+  ): TypedContractEvent<
+    SubjectUpdatedEvent.InputTuple,
+    SubjectUpdatedEvent.OutputTuple,
+    SubjectUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdAlertRequested"
+  ): TypedContractEvent<
+    ThresholdAlertRequestedEvent.InputTuple,
+    ThresholdAlertRequestedEvent.OutputTuple,
+    ThresholdAlertRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdAlertWithheld"
+  ): TypedContractEvent<
+    ThresholdAlertWithheldEvent.InputTuple,
+    ThresholdAlertWithheldEvent.OutputTuple,
+    ThresholdAlertWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
 
   filters: {
-    "GlobalStatsPublished(uint32,uint32)": TypedContractEvent<
+    "AlertThresholdUpdated(bytes32,uint32)": TypedContractEvent<
+      AlertThresholdUpdatedEvent.InputTuple,
+      AlertThresholdUpdatedEvent.OutputTuple,
+      AlertThresholdUpdatedEvent.OutputObject
+    >;
+    AlertThresholdUpdated: TypedContractEvent<
+      AlertThresholdUpdatedEvent.InputTuple,
+      AlertThresholdUpdatedEvent.OutputTuple,
+      AlertThresholdUpdatedEvent.OutputObject
+    >;
+
+    "AllStatsPublished(uint256,uint32,uint32,bytes32[],uint32[],uint32[])": TypedContractEvent<
+      AllStatsPublishedEvent.InputTuple,
+      AllStatsPublishedEvent.OutputTuple,
+      AllStatsPublishedEvent.OutputObject
+    >;
+    AllStatsPublished: TypedContractEvent<
+      AllStatsPublishedEvent.InputTuple,
+      AllStatsPublishedEvent.OutputTuple,
+      AllStatsPublishedEvent.OutputObject
+    >;
+
+    "AllStatsRequested(uint256,uint256)": TypedContractEvent<
+      AllStatsRequestedEvent.InputTuple,
+      AllStatsRequestedEvent.OutputTuple,
+      AllStatsRequestedEvent.OutputObject
+    >;
+    AllStatsRequested: TypedContractEvent<
+      AllStatsRequestedEvent.InputTuple,
+      AllStatsRequestedEvent.OutputTuple,
+      AllStatsRequestedEvent.OutputObject
+    >;
+
+    "AnonymousMembersRootUpdated(bytes32)": TypedContractEvent<
+      AnonymousMembersRootUpdatedEvent.InputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputObject
+    >;
+    AnonymousMembersRootUpdated: TypedContractEvent<
+      AnonymousMembersRootUpdatedEvent.InputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputObject
+    >;
+
+    "AnonymousModeUpdated(bool)": TypedContractEvent<
+      AnonymousModeUpdatedEvent.InputTuple,
+      AnonymousModeUpdatedEvent.OutputTuple,
+      AnonymousModeUpdatedEvent.OutputObject
+    >;
+    AnonymousModeUpdated: TypedContractEvent<
+      AnonymousModeUpdatedEvent.InputTuple,
+      AnonymousModeUpdatedEvent.OutputTuple,
+      AnonymousModeUpdatedEvent.OutputObject
+    >;
+
+    "AnonymousRatingSubmitted(uint256,bytes32,uint256)": TypedContractEvent<
+      AnonymousRatingSubmittedEvent.InputTuple,
+      AnonymousRatingSubmittedEvent.OutputTuple,
+      AnonymousRatingSubmittedEvent.OutputObject
+    >;
+    AnonymousRatingSubmitted: TypedContractEvent<
+      AnonymousRatingSubmittedEvent.InputTuple,
+      AnonymousRatingSubmittedEvent.OutputTuple,
+      AnonymousRatingSubmittedEvent.OutputObject
+    >;
+
+    "CampaignCreated(uint256,string,uint256)": TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+    CampaignCreated: TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+
+    "CampaignDeadlineUpdated(uint256,uint256)": TypedContractEvent<
+      CampaignDeadlineUpdatedEvent.InputTuple,
+      CampaignDeadlineUpdatedEvent.OutputTuple,
+      CampaignDeadlineUpdatedEvent.OutputObject
+    >;
+    CampaignDeadlineUpdated: TypedContractEvent<
+      CampaignDeadlineUpdatedEvent.InputTuple,
+      CampaignDeadlineUpdatedEvent.OutputTuple,
+      CampaignDeadlineUpdatedEvent.OutputObject
+    >;
+
+    "CampaignResultsPublished(uint256,uint256)": TypedContractEvent<
+      CampaignResultsPublishedEvent.InputTuple,
+      CampaignResultsPublishedEvent.OutputTuple,
+      CampaignResultsPublishedEvent.OutputObject
+    >;
+    CampaignResultsPublished: TypedContractEvent<
+      CampaignResultsPublishedEvent.InputTuple,
+      CampaignResultsPublishedEvent.OutputTuple,
+      CampaignResultsPublishedEvent.OutputObject
+    >;
+
+    "CampaignResultsRequested(uint256,uint256)": TypedContractEvent<
+      CampaignResultsRequestedEvent.InputTuple,
+      CampaignResultsRequestedEvent.OutputTuple,
+      CampaignResultsRequestedEvent.OutputObject
+    >;
+    CampaignResultsRequested: TypedContractEvent<
+      CampaignResultsRequestedEvent.InputTuple,
+      CampaignResultsRequestedEvent.OutputTuple,
+      CampaignResultsRequestedEvent.OutputObject
+    >;
+
+    "CampaignSubmitted(uint256,address)": TypedContractEvent<
+      CampaignSubmittedEvent.InputTuple,
+      CampaignSubmittedEvent.OutputTuple,
+      CampaignSubmittedEvent.OutputObject
+    >;
+    CampaignSubmitted: TypedContractEvent<
+      CampaignSubmittedEvent.InputTuple,
+      CampaignSubmittedEvent.OutputTuple,
+      CampaignSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionAccessGranted(address,address)": TypedContractEvent<
+      DecryptionAccessGrantedEvent.InputTuple,
+      DecryptionAccessGrantedEvent.OutputTuple,
+      DecryptionAccessGrantedEvent.OutputObject
+    >;
+    DecryptionAccessGranted: TypedContractEvent<
+      DecryptionAccessGrantedEvent.InputTuple,
+      DecryptionAccessGrantedEvent.OutputTuple,
+      DecryptionAccessGrantedEvent.OutputObject
+    >;
+
+    "EligibilityModuleUpdated(bytes32,address)": TypedContractEvent<
+      EligibilityModuleUpdatedEvent.InputTuple,
+      EligibilityModuleUpdatedEvent.OutputTuple,
+      EligibilityModuleUpdatedEvent.OutputObject
+    >;
+    EligibilityModuleUpdated: TypedContractEvent<
+      EligibilityModuleUpdatedEvent.InputTuple,
+      EligibilityModuleUpdatedEvent.OutputTuple,
+      EligibilityModuleUpdatedEvent.OutputObject
+    >;
+
+    "EligibilityRootUpdated(bytes32,bytes32)": TypedContractEvent<
+      EligibilityRootUpdatedEvent.InputTuple,
+      EligibilityRootUpdatedEvent.OutputTuple,
+      EligibilityRootUpdatedEvent.OutputObject
+    >;
+    EligibilityRootUpdated: TypedContractEvent<
+      EligibilityRootUpdatedEvent.InputTuple,
+      EligibilityRootUpdatedEvent.OutputTuple,
+      EligibilityRootUpdatedEvent.OutputObject
+    >;
+
+    "GlobalStatsPublished(uint256,uint32,uint32,uint32)": TypedContractEvent<
       GlobalStatsPublishedEvent.InputTuple,
       GlobalStatsPublishedEvent.OutputTuple,
       GlobalStatsPublishedEvent.OutputObject
@@ -777,6 +3882,105 @@ export interface EncryptedRatingSystem extends BaseContract {
       GlobalStatsRequestedEvent.OutputObject
     >;
 
+    "GlobalStatsWithheld(uint256)": TypedContractEvent<
+      GlobalStatsWithheldEvent.InputTuple,
+      GlobalStatsWithheldEvent.OutputTuple,
+      GlobalStatsWithheldEvent.OutputObject
+    >;
+    GlobalStatsWithheld: TypedContractEvent<
+      GlobalStatsWithheldEvent.InputTuple,
+      GlobalStatsWithheldEvent.OutputTuple,
+      GlobalStatsWithheldEvent.OutputObject
+    >;
+
+    "NoiseScaleUpdated(bytes32,uint32)": TypedContractEvent<
+      NoiseScaleUpdatedEvent.InputTuple,
+      NoiseScaleUpdatedEvent.OutputTuple,
+      NoiseScaleUpdatedEvent.OutputObject
+    >;
+    NoiseScaleUpdated: TypedContractEvent<
+      NoiseScaleUpdatedEvent.InputTuple,
+      NoiseScaleUpdatedEvent.OutputTuple,
+      NoiseScaleUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PrivateCountsUpdated(bool)": TypedContractEvent<
+      PrivateCountsUpdatedEvent.InputTuple,
+      PrivateCountsUpdatedEvent.OutputTuple,
+      PrivateCountsUpdatedEvent.OutputObject
+    >;
+    PrivateCountsUpdated: TypedContractEvent<
+      PrivateCountsUpdatedEvent.InputTuple,
+      PrivateCountsUpdatedEvent.OutputTuple,
+      PrivateCountsUpdatedEvent.OutputObject
+    >;
+
+    "RankingPublished(uint256,string[])": TypedContractEvent<
+      RankingPublishedEvent.InputTuple,
+      RankingPublishedEvent.OutputTuple,
+      RankingPublishedEvent.OutputObject
+    >;
+    RankingPublished: TypedContractEvent<
+      RankingPublishedEvent.InputTuple,
+      RankingPublishedEvent.OutputTuple,
+      RankingPublishedEvent.OutputObject
+    >;
+
+    "RankingRequested(uint256,uint256)": TypedContractEvent<
+      RankingRequestedEvent.InputTuple,
+      RankingRequestedEvent.OutputTuple,
+      RankingRequestedEvent.OutputObject
+    >;
+    RankingRequested: TypedContractEvent<
+      RankingRequestedEvent.InputTuple,
+      RankingRequestedEvent.OutputTuple,
+      RankingRequestedEvent.OutputObject
+    >;
+
+    "RankingWithheld(uint256)": TypedContractEvent<
+      RankingWithheldEvent.InputTuple,
+      RankingWithheldEvent.OutputTuple,
+      RankingWithheldEvent.OutputObject
+    >;
+    RankingWithheld: TypedContractEvent<
+      RankingWithheldEvent.InputTuple,
+      RankingWithheldEvent.OutputTuple,
+      RankingWithheldEvent.OutputObject
+    >;
+
     "RatingDeleted(uint256,address)": TypedContractEvent<
       RatingDeletedEvent.InputTuple,
       RatingDeletedEvent.OutputTuple,
@@ -788,7 +3992,7 @@ export interface EncryptedRatingSystem extends BaseContract {
       RatingDeletedEvent.OutputObject
     >;
 
-    "RatingSubmitted(uint256,address,string,uint256)": TypedContractEvent<
+    "RatingSubmitted(uint256,address,uint256)": TypedContractEvent<
       RatingSubmittedEvent.InputTuple,
       RatingSubmittedEvent.OutputTuple,
       RatingSubmittedEvent.OutputObject
@@ -799,7 +4003,7 @@ export interface EncryptedRatingSystem extends BaseContract {
       RatingSubmittedEvent.OutputObject
     >;
 
-    "RatingUpdated(uint256,address,string)": TypedContractEvent<
+    "RatingUpdated(uint256,address)": TypedContractEvent<
       RatingUpdatedEvent.InputTuple,
       RatingUpdatedEvent.OutputTuple,
       RatingUpdatedEvent.OutputObject
@@ -810,7 +4014,128 @@ export interface EncryptedRatingSystem extends BaseContract {
       RatingUpdatedEvent.OutputObject
     >;
 
-    "SubjectStatsPublished(bytes32,uint32,uint32)": TypedContractEvent<
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SegmentStatsPublished(bytes32,uint32[8],uint32[8])": TypedContractEvent<
+      SegmentStatsPublishedEvent.InputTuple,
+      SegmentStatsPublishedEvent.OutputTuple,
+      SegmentStatsPublishedEvent.OutputObject
+    >;
+    SegmentStatsPublished: TypedContractEvent<
+      SegmentStatsPublishedEvent.InputTuple,
+      SegmentStatsPublishedEvent.OutputTuple,
+      SegmentStatsPublishedEvent.OutputObject
+    >;
+
+    "SegmentStatsRequested(bytes32,uint256)": TypedContractEvent<
+      SegmentStatsRequestedEvent.InputTuple,
+      SegmentStatsRequestedEvent.OutputTuple,
+      SegmentStatsRequestedEvent.OutputObject
+    >;
+    SegmentStatsRequested: TypedContractEvent<
+      SegmentStatsRequestedEvent.InputTuple,
+      SegmentStatsRequestedEvent.OutputTuple,
+      SegmentStatsRequestedEvent.OutputObject
+    >;
+
+    "SegmentsConfigured(string[])": TypedContractEvent<
+      SegmentsConfiguredEvent.InputTuple,
+      SegmentsConfiguredEvent.OutputTuple,
+      SegmentsConfiguredEvent.OutputObject
+    >;
+    SegmentsConfigured: TypedContractEvent<
+      SegmentsConfiguredEvent.InputTuple,
+      SegmentsConfiguredEvent.OutputTuple,
+      SegmentsConfiguredEvent.OutputObject
+    >;
+
+    "SubjectBelowThreshold(bytes32,uint32,bool)": TypedContractEvent<
+      SubjectBelowThresholdEvent.InputTuple,
+      SubjectBelowThresholdEvent.OutputTuple,
+      SubjectBelowThresholdEvent.OutputObject
+    >;
+    SubjectBelowThreshold: TypedContractEvent<
+      SubjectBelowThresholdEvent.InputTuple,
+      SubjectBelowThresholdEvent.OutputTuple,
+      SubjectBelowThresholdEvent.OutputObject
+    >;
+
+    "SubjectHistogramPublished(bytes32,uint32[10],uint32)": TypedContractEvent<
+      SubjectHistogramPublishedEvent.InputTuple,
+      SubjectHistogramPublishedEvent.OutputTuple,
+      SubjectHistogramPublishedEvent.OutputObject
+    >;
+    SubjectHistogramPublished: TypedContractEvent<
+      SubjectHistogramPublishedEvent.InputTuple,
+      SubjectHistogramPublishedEvent.OutputTuple,
+      SubjectHistogramPublishedEvent.OutputObject
+    >;
+
+    "SubjectHistogramRequested(bytes32,uint256)": TypedContractEvent<
+      SubjectHistogramRequestedEvent.InputTuple,
+      SubjectHistogramRequestedEvent.OutputTuple,
+      SubjectHistogramRequestedEvent.OutputObject
+    >;
+    SubjectHistogramRequested: TypedContractEvent<
+      SubjectHistogramRequestedEvent.InputTuple,
+      SubjectHistogramRequestedEvent.OutputTuple,
+      SubjectHistogramRequestedEvent.OutputObject
+    >;
+
+    "SubjectHistogramWithheld(bytes32,uint256)": TypedContractEvent<
+      SubjectHistogramWithheldEvent.InputTuple,
+      SubjectHistogramWithheldEvent.OutputTuple,
+      SubjectHistogramWithheldEvent.OutputObject
+    >;
+    SubjectHistogramWithheld: TypedContractEvent<
+      SubjectHistogramWithheldEvent.InputTuple,
+      SubjectHistogramWithheldEvent.OutputTuple,
+      SubjectHistogramWithheldEvent.OutputObject
+    >;
+
+    "SubjectMinRespondentsUpdated(bytes32,uint32)": TypedContractEvent<
+      SubjectMinRespondentsUpdatedEvent.InputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputObject
+    >;
+    SubjectMinRespondentsUpdated: TypedContractEvent<
+      SubjectMinRespondentsUpdatedEvent.InputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputObject
+    >;
+
+    "SubjectRegistered(bytes32,uint256,string)": TypedContractEvent<
+      SubjectRegisteredEvent.InputTuple,
+      SubjectRegisteredEvent.OutputTuple,
+      SubjectRegisteredEvent.OutputObject
+    >;
+    SubjectRegistered: TypedContractEvent<
+      SubjectRegisteredEvent.InputTuple,
+      SubjectRegisteredEvent.OutputTuple,
+      SubjectRegisteredEvent.OutputObject
+    >;
+
+    "SubjectStatsPublished(bytes32,uint256,uint32,uint32,uint32)": TypedContractEvent<
       SubjectStatsPublishedEvent.InputTuple,
       SubjectStatsPublishedEvent.OutputTuple,
       SubjectStatsPublishedEvent.OutputObject
@@ -831,5 +4156,71 @@ export interface EncryptedRatingSystem extends BaseContract {
       SubjectStatsRequestedEvent.OutputTuple,
       SubjectStatsRequestedEvent.OutputObject
     >;
+
+    "SubjectStatsWithheld(bytes32,uint256)": TypedContractEvent<
+      SubjectStatsWithheldEvent.InputTuple,
+      SubjectStatsWithheldEvent.OutputTuple,
+      SubjectStatsWithheldEvent.OutputObject
+    >;
+    SubjectStatsWithheld: TypedContractEvent<
+      SubjectStatsWithheldEvent.InputTuple,
+      SubjectStatsWithheldEvent.OutputTuple,
+      SubjectStatsWithheldEvent.OutputObject
+    >;
+
+    "SubjectStatusChanged(bytes32,uint8)": TypedContractEvent<
+      SubjectStatusChangedEvent.InputTuple,
+      SubjectStatusChangedEvent.OutputTuple,
+      SubjectStatusChangedEvent.OutputObject
+    >;
+    SubjectStatusChanged: TypedContractEvent<
+      SubjectStatusChangedEvent.InputTuple,
+      SubjectStatusChangedEvent.OutputTuple,
+      SubjectStatusChangedEvent.OutputObject
+    >;
+
+    "SubjectUpdated(bytes32,uint256,uint256)": TypedContractEvent<
+      SubjectUpdatedEvent.InputTuple,
+      SubjectUpdatedEvent.OutputTuple,
+      SubjectUpdatedEvent.OutputObject
+    >;
+    SubjectUpdated: TypedContractEvent<
+      SubjectUpdatedEvent.InputTuple,
+      SubjectUpdatedEvent.OutputTuple,
+      SubjectUpdatedEvent.OutputObject
+    >;
+
+    "ThresholdAlertRequested(bytes32,uint256)": TypedContractEvent<
+      ThresholdAlertRequestedEvent.InputTuple,
+      ThresholdAlertRequestedEvent.OutputTuple,
+      ThresholdAlertRequestedEvent.OutputObject
+    >;
+    ThresholdAlertRequested: TypedContractEvent<
+      ThresholdAlertRequestedEvent.InputTuple,
+      ThresholdAlertRequestedEvent.OutputTuple,
+      ThresholdAlertRequestedEvent.OutputObject
+    >;
+
+    "ThresholdAlertWithheld(bytes32,uint256)": TypedContractEvent<
+      ThresholdAlertWithheldEvent.InputTuple,
+      ThresholdAlertWithheldEvent.OutputTuple,
+      ThresholdAlertWithheldEvent.OutputObject
+    >;
+    ThresholdAlertWithheld: TypedContractEvent<
+      ThresholdAlertWithheldEvent.InputTuple,
+      ThresholdAlertWithheldEvent.OutputTuple,
+      ThresholdAlertWithheldEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
   };
 }
@@ -0,0 +1,242 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface RatingCampaignFactoryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "createRatingInstance"
+      | "getInstance"
+      | "getInstanceCount"
+      | "implementation"
+  ): FunctionFragment;
+
+  getEvent(nameOrSignatureOrTopic: "RatingInstanceCreated"): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "createRatingInstance",
+    values: [
+      string,
+      AddressLike,
+      string[],
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInstance",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInstanceCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "implementation",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "createRatingInstance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInstance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInstanceCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "implementation",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace RatingInstanceCreatedEvent {
+  export type InputTuple = [
+    instanceId: BigNumberish,
+    instance: AddressLike,
+    owner: AddressLike,
+    name: string,
+    ratingScale: BigNumberish
+  ];
+  export type OutputTuple = [
+    instanceId: bigint,
+    instance: string,
+    owner: string,
+    name: string,
+    ratingScale: bigint
+  ];
+  export interface OutputObject {
+    instanceId: bigint;
+    instance: string;
+    owner: string;
+    name: string;
+    ratingScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RatingCampaignFactory extends BaseContract {
+  connect(runner?: ContractRunner | null): RatingCampaignFactory;
+  waitForDeployment(): Promise<this>;
+
+  interface: RatingCampaignFactoryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  createRatingInstance: TypedContractMethod<
+    [
+      name: string,
+      owner_: AddressLike,
+      subjects: string[],
+      ratingScale: BigNumberish,
+      opensAt: BigNumberish,
+      closesAt: BigNumberish,
+      minRespondents: BigNumberish
+    ],
+    [[bigint, string] & { instanceId: bigint; instance: string }],
+    "nonpayable"
+  >;
+
+  getInstance: TypedContractMethod<
+    [instanceId: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        instance: string;
+        owner: string;
+        name: string;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getInstanceCount: TypedContractMethod<[], [bigint], "view">;
+
+  implementation: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "createRatingInstance"
+  ): TypedContractMethod<
+    [
+      name: string,
+      owner_: AddressLike,
+      subjects: string[],
+      ratingScale: BigNumberish,
+      opensAt: BigNumberish,
+      closesAt: BigNumberish,
+      minRespondents: BigNumberish
+    ],
+    [[bigint, string] & { instanceId: bigint; instance: string }],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getInstance"
+  ): TypedContractMethod<
+    [instanceId: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        instance: string;
+        owner: string;
+        name: string;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInstanceCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "implementation"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "RatingInstanceCreated"
+  ): TypedContractEvent<
+    RatingInstanceCreatedEvent.InputTuple,
+    RatingInstanceCreatedEvent.OutputTuple,
+    RatingInstanceCreatedEvent.OutputObject
+  >;
+
+  filters: {
+    "RatingInstanceCreated(uint256,address,address,string,uint32)": TypedContractEvent<
+      RatingInstanceCreatedEvent.InputTuple,
+      RatingInstanceCreatedEvent.OutputTuple,
+      RatingInstanceCreatedEvent.OutputObject
+    >;
+    RatingInstanceCreated: TypedContractEvent<
+      RatingInstanceCreatedEvent.InputTuple,
+      RatingInstanceCreatedEvent.OutputTuple,
+      RatingInstanceCreatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2396 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface RatingSubmissionModuleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "ANONYMOUS_RATING_TYPEHASH"
+      | "AUDITOR_ROLE"
+      | "HISTOGRAM_BUCKETS"
+      | "MAX_BATCH_SUBJECTS"
+      | "MAX_CAMPAIGN_QUESTIONS"
+      | "MAX_NOISE_SCALE"
+      | "MAX_PAGE_SIZE"
+      | "MAX_RANKING_SUBJECTS"
+      | "MAX_RATING"
+      | "MAX_SEGMENTS"
+      | "MIN_RATING"
+      | "MODERATOR_ROLE"
+      | "NOISE_BUDGET"
+      | "SQUARE_NOISE_FACTOR"
+      | "STATS_PRECISION"
+      | "SUBMIT_RATING_TYPEHASH"
+      | "UPDATE_RATING_TYPEHASH"
+      | "anonymousMembersRoot"
+      | "anonymousMode"
+      | "defaultMinRespondents"
+      | "deleteRating"
+      | "globalMinRespondents"
+      | "hasRole"
+      | "nonces"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "privateCounts"
+      | "protocolId"
+      | "ratingScale"
+      | "submitAnonymousRating"
+      | "submitCampaign"
+      | "submitRating"
+      | "submitRatingFor"
+      | "submitSegmentedRating"
+      | "updateRating"
+      | "updateRatingFor"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AlertThresholdUpdated"
+      | "AllStatsPublished"
+      | "AllStatsRequested"
+      | "AnonymousMembersRootUpdated"
+      | "AnonymousModeUpdated"
+      | "AnonymousRatingSubmitted"
+      | "CampaignCreated"
+      | "CampaignDeadlineUpdated"
+      | "CampaignResultsPublished"
+      | "CampaignResultsRequested"
+      | "CampaignSubmitted"
+      | "DecryptionAccessGranted"
+      | "EligibilityModuleUpdated"
+      | "EligibilityRootUpdated"
+      | "GlobalStatsPublished"
+      | "GlobalStatsRequested"
+      | "GlobalStatsWithheld"
+      | "NoiseScaleUpdated"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PrivateCountsUpdated"
+      | "RankingPublished"
+      | "RankingRequested"
+      | "RankingWithheld"
+      | "RatingDeleted"
+      | "RatingSubmitted"
+      | "RatingUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SegmentStatsPublished"
+      | "SegmentStatsRequested"
+      | "SegmentsConfigured"
+      | "SubjectBelowThreshold"
+      | "SubjectHistogramPublished"
+      | "SubjectHistogramRequested"
+      | "SubjectHistogramWithheld"
+      | "SubjectMinRespondentsUpdated"
+      | "SubjectRegistered"
+      | "SubjectStatsPublished"
+      | "SubjectStatsRequested"
+      | "SubjectStatsWithheld"
+      | "SubjectStatusChanged"
+      | "SubjectUpdated"
+      | "ThresholdAlertRequested"
+      | "ThresholdAlertWithheld"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ANONYMOUS_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SUBJECTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CAMPAIGN_QUESTIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NOISE_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RANKING_SUBJECTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SEGMENTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MODERATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NOISE_BUDGET",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SQUARE_NOISE_FACTOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATS_PRECISION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SUBMIT_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPDATE_RATING_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "anonymousMembersRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "anonymousMode",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultMinRespondents",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteRating",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "globalMinRespondents",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "privateCounts",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingScale",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitAnonymousRating",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitCampaign",
+    values: [BigNumberish, BytesLike[], BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitRating",
+    values: [BytesLike, BytesLike, string, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitRatingFor",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BigNumberish,
+      BytesLike,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitSegmentedRating",
+    values: [BytesLike, BytesLike, BytesLike, string, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRating",
+    values: [string, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRatingFor",
+    values: [
+      AddressLike,
+      string,
+      BytesLike,
+      BytesLike,
+      string,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ANONYMOUS_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SUBJECTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CAMPAIGN_QUESTIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NOISE_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RANKING_SUBJECTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SEGMENTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MIN_RATING", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MODERATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "NOISE_BUDGET",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SQUARE_NOISE_FACTOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATS_PRECISION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SUBMIT_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPDATE_RATING_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "anonymousMembersRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "anonymousMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultMinRespondents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "globalMinRespondents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "privateCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitAnonymousRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitRatingFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitSegmentedRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRatingFor",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AlertThresholdUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, threshold: BigNumberish];
+  export type OutputTuple = [subjectHash: string, threshold: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AllStatsPublishedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    globalAverage: BigNumberish,
+    globalCount: BigNumberish,
+    subjectHashes: BytesLike[],
+    averages: BigNumberish[],
+    counts: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    globalAverage: bigint,
+    globalCount: bigint,
+    subjectHashes: string[],
+    averages: bigint[],
+    counts: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    globalAverage: bigint;
+    globalCount: bigint;
+    subjectHashes: string[];
+    averages: bigint[];
+    counts: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AllStatsRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    subjectCount: BigNumberish
+  ];
+  export type OutputTuple = [requestId: bigint, subjectCount: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    subjectCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnonymousMembersRootUpdatedEvent {
+  export type InputTuple = [root: BytesLike];
+  export type OutputTuple = [root: string];
+  export interface OutputObject {
+    root: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnonymousModeUpdatedEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnonymousRatingSubmittedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    nullifier: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    nullifier: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    nullifier: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignCreatedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    name: string,
+    questionCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    name: string,
+    questionCount: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    name: string;
+    questionCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignDeadlineUpdatedEvent {
+  export type InputTuple = [campaignId: BigNumberish, closesAt: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, closesAt: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    closesAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignResultsPublishedEvent {
+  export type InputTuple = [campaignId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, requestId: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignResultsRequestedEvent {
+  export type InputTuple = [campaignId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, requestId: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignSubmittedEvent {
+  export type InputTuple = [campaignId: BigNumberish, respondent: AddressLike];
+  export type OutputTuple = [campaignId: bigint, respondent: string];
+  export interface OutputObject {
+    campaignId: bigint;
+    respondent: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionAccessGrantedEvent {
+  export type InputTuple = [user: AddressLike, sender: AddressLike];
+  export type OutputTuple = [user: string, sender: string];
+  export interface OutputObject {
+    user: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityModuleUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, module: AddressLike];
+  export type OutputTuple = [subjectHash: string, module: string];
+  export interface OutputObject {
+    subjectHash: string;
+    module: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityRootUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, root: BytesLike];
+  export type OutputTuple = [subjectHash: string, root: string];
+  export interface OutputObject {
+    subjectHash: string;
+    root: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GlobalStatsPublishedEvent {
+  export type InputTuple = [
+    snapshotId: BigNumberish,
+    averageRating: BigNumberish,
+    totalCount: BigNumberish,
+    stdDev: BigNumberish
+  ];
+  export type OutputTuple = [
+    snapshotId: bigint,
+    averageRating: bigint,
+    totalCount: bigint,
+    stdDev: bigint
+  ];
+  export interface OutputObject {
+    snapshotId: bigint;
+    averageRating: bigint;
+    totalCount: bigint;
+    stdDev: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GlobalStatsRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GlobalStatsWithheldEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NoiseScaleUpdatedEvent {
+  export type InputTuple = [subjectHash: BytesLike, noiseScale: BigNumberish];
+  export type OutputTuple = [subjectHash: string, noiseScale: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    noiseScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivateCountsUpdatedEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankingPublishedEvent {
+  export type InputTuple = [rankingId: BigNumberish, subjects: string[]];
+  export type OutputTuple = [rankingId: bigint, subjects: string[]];
+  export interface OutputObject {
+    rankingId: bigint;
+    subjects: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankingRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    subjectCount: BigNumberish
+  ];
+  export type OutputTuple = [requestId: bigint, subjectCount: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    subjectCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankingWithheldEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingDeletedEvent {
+  export type InputTuple = [entryId: BigNumberish, submitter: AddressLike];
+  export type OutputTuple = [entryId: bigint, submitter: string];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingSubmittedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    submitter: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    submitter: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingUpdatedEvent {
+  export type InputTuple = [entryId: BigNumberish, submitter: AddressLike];
+  export type OutputTuple = [entryId: bigint, submitter: string];
+  export interface OutputObject {
+    entryId: bigint;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentStatsPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    averages: BigNumberish[],
+    counts: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    averages: bigint[],
+    counts: bigint[]
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    averages: bigint[];
+    counts: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentStatsRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentsConfiguredEvent {
+  export type InputTuple = [names: string[]];
+  export type OutputTuple = [names: string[]];
+  export interface OutputObject {
+    names: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectBelowThresholdEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    threshold: BigNumberish,
+    below: boolean
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    threshold: bigint,
+    below: boolean
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    threshold: bigint;
+    below: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    buckets: BigNumberish[],
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    buckets: bigint[],
+    count: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    buckets: bigint[];
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectHistogramWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectMinRespondentsUpdatedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    minRespondents: BigNumberish
+  ];
+  export type OutputTuple = [subjectHash: string, minRespondents: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    minRespondents: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectRegisteredEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    subjectId: BigNumberish,
+    name: string
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    subjectId: bigint,
+    name: string
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    subjectId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsPublishedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    snapshotId: BigNumberish,
+    averageRating: BigNumberish,
+    count: BigNumberish,
+    stdDev: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    snapshotId: bigint,
+    averageRating: bigint,
+    count: bigint,
+    stdDev: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    snapshotId: bigint;
+    averageRating: bigint;
+    count: bigint;
+    stdDev: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatsWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectStatusChangedEvent {
+  export type InputTuple = [subjectHash: BytesLike, status: BigNumberish];
+  export type OutputTuple = [subjectHash: string, status: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubjectUpdatedEvent {
+  export type InputTuple = [
+    subjectHash: BytesLike,
+    opensAt: BigNumberish,
+    closesAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    subjectHash: string,
+    opensAt: bigint,
+    closesAt: bigint
+  ];
+  export interface OutputObject {
+    subjectHash: string;
+    opensAt: bigint;
+    closesAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdAlertRequestedEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdAlertWithheldEvent {
+  export type InputTuple = [subjectHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [subjectHash: string, requestId: bigint];
+  export interface OutputObject {
+    subjectHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RatingSubmissionModule extends BaseContract {
+  connect(runner?: ContractRunner | null): RatingSubmissionModule;
+  waitForDeployment(): Promise<this>;
+
+  interface: RatingSubmissionModuleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  ANONYMOUS_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  HISTOGRAM_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SUBJECTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CAMPAIGN_QUESTIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NOISE_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RANKING_SUBJECTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SEGMENTS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  MODERATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  NOISE_BUDGET: TypedContractMethod<[], [bigint], "view">;
+
+  SQUARE_NOISE_FACTOR: TypedContractMethod<[], [bigint], "view">;
+
+  STATS_PRECISION: TypedContractMethod<[], [bigint], "view">;
+
+  SUBMIT_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  UPDATE_RATING_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  anonymousMembersRoot: TypedContractMethod<[], [string], "view">;
+
+  anonymousMode: TypedContractMethod<[], [boolean], "view">;
+
+  defaultMinRespondents: TypedContractMethod<[], [bigint], "view">;
+
+  deleteRating: TypedContractMethod<[subject: string], [void], "nonpayable">;
+
+  globalMinRespondents: TypedContractMethod<[], [bigint], "view">;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  nonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  privateCounts: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  ratingScale: TypedContractMethod<[], [bigint], "view">;
+
+  submitAnonymousRating: TypedContractMethod<
+    [
+      member: AddressLike,
+      nullifier: BytesLike,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      membershipProof: BytesLike[],
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitCampaign: TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      encryptedAnswers: BytesLike[],
+      inputProof: BytesLike,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRating: TypedContractMethod<
+    [
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRatingFor: TypedContractMethod<
+    [
+      respondent: AddressLike,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      deadline: BigNumberish,
+      signature: BytesLike,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitSegmentedRating: TypedContractMethod<
+    [
+      encryptedRating: BytesLike,
+      encryptedSegment: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRating: TypedContractMethod<
+    [
+      subject: string,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      newSubject: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRatingFor: TypedContractMethod<
+    [
+      respondent: AddressLike,
+      subject: string,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      newSubject: string,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ANONYMOUS_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "HISTOGRAM_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SUBJECTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CAMPAIGN_QUESTIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NOISE_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RANKING_SUBJECTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SEGMENTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MODERATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "NOISE_BUDGET"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SQUARE_NOISE_FACTOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STATS_PRECISION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SUBMIT_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "UPDATE_RATING_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "anonymousMembersRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "anonymousMode"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "defaultMinRespondents"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deleteRating"
+  ): TypedContractMethod<[subject: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "globalMinRespondents"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "privateCounts"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ratingScale"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitAnonymousRating"
+  ): TypedContractMethod<
+    [
+      member: AddressLike,
+      nullifier: BytesLike,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      membershipProof: BytesLike[],
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitCampaign"
+  ): TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      encryptedAnswers: BytesLike[],
+      inputProof: BytesLike,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitRating"
+  ): TypedContractMethod<
+    [
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitRatingFor"
+  ): TypedContractMethod<
+    [
+      respondent: AddressLike,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      deadline: BigNumberish,
+      signature: BytesLike,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitSegmentedRating"
+  ): TypedContractMethod<
+    [
+      encryptedRating: BytesLike,
+      encryptedSegment: BytesLike,
+      inputProof: BytesLike,
+      subject: string,
+      eligibilityProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateRating"
+  ): TypedContractMethod<
+    [
+      subject: string,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      newSubject: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateRatingFor"
+  ): TypedContractMethod<
+    [
+      respondent: AddressLike,
+      subject: string,
+      encryptedRating: BytesLike,
+      inputProof: BytesLike,
+      newSubject: string,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AlertThresholdUpdated"
+  ): TypedContractEvent<
+    AlertThresholdUpdatedEvent.InputTuple,
+    AlertThresholdUpdatedEvent.OutputTuple,
+    AlertThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AllStatsPublished"
+  ): TypedContractEvent<
+    AllStatsPublishedEvent.InputTuple,
+    AllStatsPublishedEvent.OutputTuple,
+    AllStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AllStatsRequested"
+  ): TypedContractEvent<
+    AllStatsRequestedEvent.InputTuple,
+    AllStatsRequestedEvent.OutputTuple,
+    AllStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousMembersRootUpdated"
+  ): TypedContractEvent<
+    AnonymousMembersRootUpdatedEvent.InputTuple,
+    AnonymousMembersRootUpdatedEvent.OutputTuple,
+    AnonymousMembersRootUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousModeUpdated"
+  ): TypedContractEvent<
+    AnonymousModeUpdatedEvent.InputTuple,
+    AnonymousModeUpdatedEvent.OutputTuple,
+    AnonymousModeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnonymousRatingSubmitted"
+  ): TypedContractEvent<
+    AnonymousRatingSubmittedEvent.InputTuple,
+    AnonymousRatingSubmittedEvent.OutputTuple,
+    AnonymousRatingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignCreated"
+  ): TypedContractEvent<
+    CampaignCreatedEvent.InputTuple,
+    CampaignCreatedEvent.OutputTuple,
+    CampaignCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignDeadlineUpdated"
+  ): TypedContractEvent<
+    CampaignDeadlineUpdatedEvent.InputTuple,
+    CampaignDeadlineUpdatedEvent.OutputTuple,
+    CampaignDeadlineUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignResultsPublished"
+  ): TypedContractEvent<
+    CampaignResultsPublishedEvent.InputTuple,
+    CampaignResultsPublishedEvent.OutputTuple,
+    CampaignResultsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignResultsRequested"
+  ): TypedContractEvent<
+    CampaignResultsRequestedEvent.InputTuple,
+    CampaignResultsRequestedEvent.OutputTuple,
+    CampaignResultsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignSubmitted"
+  ): TypedContractEvent<
+    CampaignSubmittedEvent.InputTuple,
+    CampaignSubmittedEvent.OutputTuple,
+    CampaignSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionAccessGranted"
+  ): TypedContractEvent<
+    DecryptionAccessGrantedEvent.InputTuple,
+    DecryptionAccessGrantedEvent.OutputTuple,
+    DecryptionAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityModuleUpdated"
+  ): TypedContractEvent<
+    EligibilityModuleUpdatedEvent.InputTuple,
+    EligibilityModuleUpdatedEvent.OutputTuple,
+    EligibilityModuleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityRootUpdated"
+  ): TypedContractEvent<
+    EligibilityRootUpdatedEvent.InputTuple,
+    EligibilityRootUpdatedEvent.OutputTuple,
+    EligibilityRootUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GlobalStatsPublished"
+  ): TypedContractEvent<
+    GlobalStatsPublishedEvent.InputTuple,
+    GlobalStatsPublishedEvent.OutputTuple,
+    GlobalStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GlobalStatsRequested"
+  ): TypedContractEvent<
+    GlobalStatsRequestedEvent.InputTuple,
+    GlobalStatsRequestedEvent.OutputTuple,
+    GlobalStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GlobalStatsWithheld"
+  ): TypedContractEvent<
+    GlobalStatsWithheldEvent.InputTuple,
+    GlobalStatsWithheldEvent.OutputTuple,
+    GlobalStatsWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "NoiseScaleUpdated"
+  ): TypedContractEvent<
+    NoiseScaleUpdatedEvent.InputTuple,
+    NoiseScaleUpdatedEvent.OutputTuple,
+    NoiseScaleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivateCountsUpdated"
+  ): TypedContractEvent<
+    PrivateCountsUpdatedEvent.InputTuple,
+    PrivateCountsUpdatedEvent.OutputTuple,
+    PrivateCountsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingPublished"
+  ): TypedContractEvent<
+    RankingPublishedEvent.InputTuple,
+    RankingPublishedEvent.OutputTuple,
+    RankingPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingRequested"
+  ): TypedContractEvent<
+    RankingRequestedEvent.InputTuple,
+    RankingRequestedEvent.OutputTuple,
+    RankingRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankingWithheld"
+  ): TypedContractEvent<
+    RankingWithheldEvent.InputTuple,
+    RankingWithheldEvent.OutputTuple,
+    RankingWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingDeleted"
+  ): TypedContractEvent<
+    RatingDeletedEvent.InputTuple,
+    RatingDeletedEvent.OutputTuple,
+    RatingDeletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingSubmitted"
+  ): TypedContractEvent<
+    RatingSubmittedEvent.InputTuple,
+    RatingSubmittedEvent.OutputTuple,
+    RatingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingUpdated"
+  ): TypedContractEvent<
+    RatingUpdatedEvent.InputTuple,
+    RatingUpdatedEvent.OutputTuple,
+    RatingUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentStatsPublished"
+  ): TypedContractEvent<
+    SegmentStatsPublishedEvent.InputTuple,
+    SegmentStatsPublishedEvent.OutputTuple,
+    SegmentStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentStatsRequested"
+  ): TypedContractEvent<
+    SegmentStatsRequestedEvent.InputTuple,
+    SegmentStatsRequestedEvent.OutputTuple,
+    SegmentStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentsConfigured"
+  ): TypedContractEvent<
+    SegmentsConfiguredEvent.InputTuple,
+    SegmentsConfiguredEvent.OutputTuple,
+    SegmentsConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectBelowThreshold"
+  ): TypedContractEvent<
+    SubjectBelowThresholdEvent.InputTuple,
+    SubjectBelowThresholdEvent.OutputTuple,
+    SubjectBelowThresholdEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramPublished"
+  ): TypedContractEvent<
+    SubjectHistogramPublishedEvent.InputTuple,
+    SubjectHistogramPublishedEvent.OutputTuple,
+    SubjectHistogramPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramRequested"
+  ): TypedContractEvent<
+    SubjectHistogramRequestedEvent.InputTuple,
+    SubjectHistogramRequestedEvent.OutputTuple,
+    SubjectHistogramRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectHistogramWithheld"
+  ): TypedContractEvent<
+    SubjectHistogramWithheldEvent.InputTuple,
+    SubjectHistogramWithheldEvent.OutputTuple,
+    SubjectHistogramWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectMinRespondentsUpdated"
+  ): TypedContractEvent<
+    SubjectMinRespondentsUpdatedEvent.InputTuple,
+    SubjectMinRespondentsUpdatedEvent.OutputTuple,
+    SubjectMinRespondentsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectRegistered"
+  ): TypedContractEvent<
+    SubjectRegisteredEvent.InputTuple,
+    SubjectRegisteredEvent.OutputTuple,
+    SubjectRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectStatsPublished"
+  ): TypedContractEvent<
+    SubjectStatsPublishedEvent.InputTuple,
+    SubjectStatsPublishedEvent.OutputTuple,
+    SubjectStatsPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectStatsRequested"
+  ): TypedContractEvent<
+    SubjectStatsRequestedEvent.InputTuple,
+    SubjectStatsRequestedEvent.OutputTuple,
+    SubjectStatsRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectStatsWithheld"
+  ): TypedContractEvent<
+    SubjectStatsWithheldEvent.InputTuple,
+    SubjectStatsWithheldEvent.OutputTuple,
+    SubjectStatsWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectStatusChanged"
+  ): TypedContractEvent<
+    SubjectStatusChangedEvent.InputTuple,
+    SubjectStatusChangedEvent.OutputTuple,
+    SubjectStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubjectUpdated"
+  ): TypedContractEvent<
+    SubjectUpdatedEvent.InputTuple,
+    SubjectUpdatedEvent.OutputTuple,
+    SubjectUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdAlertRequested"
+  ): TypedContractEvent<
+    ThresholdAlertRequestedEvent.InputTuple,
+    ThresholdAlertRequestedEvent.OutputTuple,
+    ThresholdAlertRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdAlertWithheld"
+  ): TypedContractEvent<
+    ThresholdAlertWithheldEvent.InputTuple,
+    ThresholdAlertWithheldEvent.OutputTuple,
+    ThresholdAlertWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "AlertThresholdUpdated(bytes32,uint32)": TypedContractEvent<
+      AlertThresholdUpdatedEvent.InputTuple,
+      AlertThresholdUpdatedEvent.OutputTuple,
+      AlertThresholdUpdatedEvent.OutputObject
+    >;
+    AlertThresholdUpdated: TypedContractEvent<
+      AlertThresholdUpdatedEvent.InputTuple,
+      AlertThresholdUpdatedEvent.OutputTuple,
+      AlertThresholdUpdatedEvent.OutputObject
+    >;
+
+    "AllStatsPublished(uint256,uint32,uint32,bytes32[],uint32[],uint32[])": TypedContractEvent<
+      AllStatsPublishedEvent.InputTuple,
+      AllStatsPublishedEvent.OutputTuple,
+      AllStatsPublishedEvent.OutputObject
+    >;
+    AllStatsPublished: TypedContractEvent<
+      AllStatsPublishedEvent.InputTuple,
+      AllStatsPublishedEvent.OutputTuple,
+      AllStatsPublishedEvent.OutputObject
+    >;
+
+    "AllStatsRequested(uint256,uint256)": TypedContractEvent<
+      AllStatsRequestedEvent.InputTuple,
+      AllStatsRequestedEvent.OutputTuple,
+      AllStatsRequestedEvent.OutputObject
+    >;
+    AllStatsRequested: TypedContractEvent<
+      AllStatsRequestedEvent.InputTuple,
+      AllStatsRequestedEvent.OutputTuple,
+      AllStatsRequestedEvent.OutputObject
+    >;
+
+    "AnonymousMembersRootUpdated(bytes32)": TypedContractEvent<
+      AnonymousMembersRootUpdatedEvent.InputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputObject
+    >;
+    AnonymousMembersRootUpdated: TypedContractEvent<
+      AnonymousMembersRootUpdatedEvent.InputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputTuple,
+      AnonymousMembersRootUpdatedEvent.OutputObject
+    >;
+
+    "AnonymousModeUpdated(bool)": TypedContractEvent<
+      AnonymousModeUpdatedEvent.InputTuple,
+      AnonymousModeUpdatedEvent.OutputTuple,
+      AnonymousModeUpdatedEvent.OutputObject
+    >;
+    AnonymousModeUpdated: TypedContractEvent<
+      AnonymousModeUpdatedEvent.InputTuple,
+      AnonymousModeUpdatedEvent.OutputTuple,
+      AnonymousModeUpdatedEvent.OutputObject
+    >;
+
+    "AnonymousRatingSubmitted(uint256,bytes32,uint256)": TypedContractEvent<
+      AnonymousRatingSubmittedEvent.InputTuple,
+      AnonymousRatingSubmittedEvent.OutputTuple,
+      AnonymousRatingSubmittedEvent.OutputObject
+    >;
+    AnonymousRatingSubmitted: TypedContractEvent<
+      AnonymousRatingSubmittedEvent.InputTuple,
+      AnonymousRatingSubmittedEvent.OutputTuple,
+      AnonymousRatingSubmittedEvent.OutputObject
+    >;
+
+    "CampaignCreated(uint256,string,uint256)": TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+    CampaignCreated: TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+
+    "CampaignDeadlineUpdated(uint256,uint256)": TypedContractEvent<
+      CampaignDeadlineUpdatedEvent.InputTuple,
+      CampaignDeadlineUpdatedEvent.OutputTuple,
+      CampaignDeadlineUpdatedEvent.OutputObject
+    >;
+    CampaignDeadlineUpdated: TypedContractEvent<
+      CampaignDeadlineUpdatedEvent.InputTuple,
+      CampaignDeadlineUpdatedEvent.OutputTuple,
+      CampaignDeadlineUpdatedEvent.OutputObject
+    >;
+
+    "CampaignResultsPublished(uint256,uint256)": TypedContractEvent<
+      CampaignResultsPublishedEvent.InputTuple,
+      CampaignResultsPublishedEvent.OutputTuple,
+      CampaignResultsPublishedEvent.OutputObject
+    >;
+    CampaignResultsPublished: TypedContractEvent<
+      CampaignResultsPublishedEvent.InputTuple,
+      CampaignResultsPublishedEvent.OutputTuple,
+      CampaignResultsPublishedEvent.OutputObject
+    >;
+
+    "CampaignResultsRequested(uint256,uint256)": TypedContractEvent<
+      CampaignResultsRequestedEvent.InputTuple,
+      CampaignResultsRequestedEvent.OutputTuple,
+      CampaignResultsRequestedEvent.OutputObject
+    >;
+    CampaignResultsRequested: TypedContractEvent<
+      CampaignResultsRequestedEvent.InputTuple,
+      CampaignResultsRequestedEvent.OutputTuple,
+      CampaignResultsRequestedEvent.OutputObject
+    >;
+
+    "CampaignSubmitted(uint256,address)": TypedContractEvent<
+      CampaignSubmittedEvent.InputTuple,
+      CampaignSubmittedEvent.OutputTuple,
+      CampaignSubmittedEvent.OutputObject
+    >;
+    CampaignSubmitted: TypedContractEvent<
+      CampaignSubmittedEvent.InputTuple,
+      CampaignSubmittedEvent.OutputTuple,
+      CampaignSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionAccessGranted(address,address)": TypedContractEvent<
+      DecryptionAccessGrantedEvent.InputTuple,
+      DecryptionAccessGrantedEvent.OutputTuple,
+      DecryptionAccessGrantedEvent.OutputObject
+    >;
+    DecryptionAccessGranted: TypedContractEvent<
+      DecryptionAccessGrantedEvent.InputTuple,
+      DecryptionAccessGrantedEvent.OutputTuple,
+      DecryptionAccessGrantedEvent.OutputObject
+    >;
+
+    "EligibilityModuleUpdated(bytes32,address)": TypedContractEvent<
+      EligibilityModuleUpdatedEvent.InputTuple,
+      EligibilityModuleUpdatedEvent.OutputTuple,
+      EligibilityModuleUpdatedEvent.OutputObject
+    >;
+    EligibilityModuleUpdated: TypedContractEvent<
+      EligibilityModuleUpdatedEvent.InputTuple,
+      EligibilityModuleUpdatedEvent.OutputTuple,
+      EligibilityModuleUpdatedEvent.OutputObject
+    >;
+
+    "EligibilityRootUpdated(bytes32,bytes32)": TypedContractEvent<
+      EligibilityRootUpdatedEvent.InputTuple,
+      EligibilityRootUpdatedEvent.OutputTuple,
+      EligibilityRootUpdatedEvent.OutputObject
+    >;
+    EligibilityRootUpdated: TypedContractEvent<
+      EligibilityRootUpdatedEvent.InputTuple,
+      EligibilityRootUpdatedEvent.OutputTuple,
+      EligibilityRootUpdatedEvent.OutputObject
+    >;
+
+    "GlobalStatsPublished(uint256,uint32,uint32,uint32)": TypedContractEvent<
+      GlobalStatsPublishedEvent.InputTuple,
+      GlobalStatsPublishedEvent.OutputTuple,
+      GlobalStatsPublishedEvent.OutputObject
+    >;
+    GlobalStatsPublished: TypedContractEvent<
+      GlobalStatsPublishedEvent.InputTuple,
+      GlobalStatsPublishedEvent.OutputTuple,
+      GlobalStatsPublishedEvent.OutputObject
+    >;
+
+    "GlobalStatsRequested(uint256)": TypedContractEvent<
+      GlobalStatsRequestedEvent.InputTuple,
+      GlobalStatsRequestedEvent.OutputTuple,
+      GlobalStatsRequestedEvent.OutputObject
+    >;
+    GlobalStatsRequested: TypedContractEvent<
+      GlobalStatsRequestedEvent.InputTuple,
+      GlobalStatsRequestedEvent.OutputTuple,
+      GlobalStatsRequestedEvent.OutputObject
+    >;
+
+    "GlobalStatsWithheld(uint256)": TypedContractEvent<
+      GlobalStatsWithheldEvent.InputTuple,
+      GlobalStatsWithheldEvent.OutputTuple,
+      GlobalStatsWithheldEvent.OutputObject
+    >;
+    GlobalStatsWithheld: TypedContractEvent<
+      GlobalStatsWithheldEvent.InputTuple,
+      GlobalStatsWithheldEvent.OutputTuple,
+      GlobalStatsWithheldEvent.OutputObject
+    >;
+
+    "NoiseScaleUpdated(bytes32,uint32)": TypedContractEvent<
+      NoiseScaleUpdatedEvent.InputTuple,
+      NoiseScaleUpdatedEvent.OutputTuple,
+      NoiseScaleUpdatedEvent.OutputObject
+    >;
+    NoiseScaleUpdated: TypedContractEvent<
+      NoiseScaleUpdatedEvent.InputTuple,
+      NoiseScaleUpdatedEvent.OutputTuple,
+      NoiseScaleUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PrivateCountsUpdated(bool)": TypedContractEvent<
+      PrivateCountsUpdatedEvent.InputTuple,
+      PrivateCountsUpdatedEvent.OutputTuple,
+      PrivateCountsUpdatedEvent.OutputObject
+    >;
+    PrivateCountsUpdated: TypedContractEvent<
+      PrivateCountsUpdatedEvent.InputTuple,
+      PrivateCountsUpdatedEvent.OutputTuple,
+      PrivateCountsUpdatedEvent.OutputObject
+    >;
+
+    "RankingPublished(uint256,string[])": TypedContractEvent<
+      RankingPublishedEvent.InputTuple,
+      RankingPublishedEvent.OutputTuple,
+      RankingPublishedEvent.OutputObject
+    >;
+    RankingPublished: TypedContractEvent<
+      RankingPublishedEvent.InputTuple,
+      RankingPublishedEvent.OutputTuple,
+      RankingPublishedEvent.OutputObject
+    >;
+
+    "RankingRequested(uint256,uint256)": TypedContractEvent<
+      RankingRequestedEvent.InputTuple,
+      RankingRequestedEvent.OutputTuple,
+      RankingRequestedEvent.OutputObject
+    >;
+    RankingRequested: TypedContractEvent<
+      RankingRequestedEvent.InputTuple,
+      RankingRequestedEvent.OutputTuple,
+      RankingRequestedEvent.OutputObject
+    >;
+
+    "RankingWithheld(uint256)": TypedContractEvent<
+      RankingWithheldEvent.InputTuple,
+      RankingWithheldEvent.OutputTuple,
+      RankingWithheldEvent.OutputObject
+    >;
+    RankingWithheld: TypedContractEvent<
+      RankingWithheldEvent.InputTuple,
+      RankingWithheldEvent.OutputTuple,
+      RankingWithheldEvent.OutputObject
+    >;
+
+    "RatingDeleted(uint256,address)": TypedContractEvent<
+      RatingDeletedEvent.InputTuple,
+      RatingDeletedEvent.OutputTuple,
+      RatingDeletedEvent.OutputObject
+    >;
+    RatingDeleted: TypedContractEvent<
+      RatingDeletedEvent.InputTuple,
+      RatingDeletedEvent.OutputTuple,
+      RatingDeletedEvent.OutputObject
+    >;
+
+    "RatingSubmitted(uint256,address,uint256)": TypedContractEvent<
+      RatingSubmittedEvent.InputTuple,
+      RatingSubmittedEvent.OutputTuple,
+      RatingSubmittedEvent.OutputObject
+    >;
+    RatingSubmitted: TypedContractEvent<
+      RatingSubmittedEvent.InputTuple,
+      RatingSubmittedEvent.OutputTuple,
+      RatingSubmittedEvent.OutputObject
+    >;
+
+    "RatingUpdated(uint256,address)": TypedContractEvent<
+      RatingUpdatedEvent.InputTuple,
+      RatingUpdatedEvent.OutputTuple,
+      RatingUpdatedEvent.OutputObject
+    >;
+    RatingUpdated: TypedContractEvent<
+      RatingUpdatedEvent.InputTuple,
+      RatingUpdatedEvent.OutputTuple,
+      RatingUpdatedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SegmentStatsPublished(bytes32,uint32[8],uint32[8])": TypedContractEvent<
+      SegmentStatsPublishedEvent.InputTuple,
+      SegmentStatsPublishedEvent.OutputTuple,
+      SegmentStatsPublishedEvent.OutputObject
+    >;
+    SegmentStatsPublished: TypedContractEvent<
+      SegmentStatsPublishedEvent.InputTuple,
+      SegmentStatsPublishedEvent.OutputTuple,
+      SegmentStatsPublishedEvent.OutputObject
+    >;
+
+    "SegmentStatsRequested(bytes32,uint256)": TypedContractEvent<
+      SegmentStatsRequestedEvent.InputTuple,
+      SegmentStatsRequestedEvent.OutputTuple,
+      SegmentStatsRequestedEvent.OutputObject
+    >;
+    SegmentStatsRequested: TypedContractEvent<
+      SegmentStatsRequestedEvent.InputTuple,
+      SegmentStatsRequestedEvent.OutputTuple,
+      SegmentStatsRequestedEvent.OutputObject
+    >;
+
+    "SegmentsConfigured(string[])": TypedContractEvent<
+      SegmentsConfiguredEvent.InputTuple,
+      SegmentsConfiguredEvent.OutputTuple,
+      SegmentsConfiguredEvent.OutputObject
+    >;
+    SegmentsConfigured: TypedContractEvent<
+      SegmentsConfiguredEvent.InputTuple,
+      SegmentsConfiguredEvent.OutputTuple,
+      SegmentsConfiguredEvent.OutputObject
+    >;
+
+    "SubjectBelowThreshold(bytes32,uint32,bool)": TypedContractEvent<
+      SubjectBelowThresholdEvent.InputTuple,
+      SubjectBelowThresholdEvent.OutputTuple,
+      SubjectBelowThresholdEvent.OutputObject
+    >;
+    SubjectBelowThreshold: TypedContractEvent<
+      SubjectBelowThresholdEvent.InputTuple,
+      SubjectBelowThresholdEvent.OutputTuple,
+      SubjectBelowThresholdEvent.OutputObject
+    >;
+
+    "SubjectHistogramPublished(bytes32,uint32[10],uint32)": TypedContractEvent<
+      SubjectHistogramPublishedEvent.InputTuple,
+      SubjectHistogramPublishedEvent.OutputTuple,
+      SubjectHistogramPublishedEvent.OutputObject
+    >;
+    SubjectHistogramPublished: TypedContractEvent<
+      SubjectHistogramPublishedEvent.InputTuple,
+      SubjectHistogramPublishedEvent.OutputTuple,
+      SubjectHistogramPublishedEvent.OutputObject
+    >;
+
+    "SubjectHistogramRequested(bytes32,uint256)": TypedContractEvent<
+      SubjectHistogramRequestedEvent.InputTuple,
+      SubjectHistogramRequestedEvent.OutputTuple,
+      SubjectHistogramRequestedEvent.OutputObject
+    >;
+    SubjectHistogramRequested: TypedContractEvent<
+      SubjectHistogramRequestedEvent.InputTuple,
+      SubjectHistogramRequestedEvent.OutputTuple,
+      SubjectHistogramRequestedEvent.OutputObject
+    >;
+
+    "SubjectHistogramWithheld(bytes32,uint256)": TypedContractEvent<
+      SubjectHistogramWithheldEvent.InputTuple,
+      SubjectHistogramWithheldEvent.OutputTuple,
+      SubjectHistogramWithheldEvent.OutputObject
+    >;
+    SubjectHistogramWithheld: TypedContractEvent<
+      SubjectHistogramWithheldEvent.InputTuple,
+      SubjectHistogramWithheldEvent.OutputTuple,
+      SubjectHistogramWithheldEvent.OutputObject
+    >;
+
+    "SubjectMinRespondentsUpdated(bytes32,uint32)": TypedContractEvent<
+      SubjectMinRespondentsUpdatedEvent.InputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputObject
+    >;
+    SubjectMinRespondentsUpdated: TypedContractEvent<
+      SubjectMinRespondentsUpdatedEvent.InputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputTuple,
+      SubjectMinRespondentsUpdatedEvent.OutputObject
+    >;
+
+    "SubjectRegistered(bytes32,uint256,string)": TypedContractEvent<
+      SubjectRegisteredEvent.InputTuple,
+      SubjectRegisteredEvent.OutputTuple,
+      SubjectRegisteredEvent.OutputObject
+    >;
+    SubjectRegistered: TypedContractEvent<
+      SubjectRegisteredEvent.InputTuple,
+      SubjectRegisteredEvent.OutputTuple,
+      SubjectRegisteredEvent.OutputObject
+    >;
+
+    "SubjectStatsPublished(bytes32,uint256,uint32,uint32,uint32)": TypedContractEvent<
+      SubjectStatsPublishedEvent.InputTuple,
+      SubjectStatsPublishedEvent.OutputTuple,
+      SubjectStatsPublishedEvent.OutputObject
+    >;
+    SubjectStatsPublished: TypedContractEvent<
+      SubjectStatsPublishedEvent.InputTuple,
+      SubjectStatsPublishedEvent.OutputTuple,
+      SubjectStatsPublishedEvent.OutputObject
+    >;
+
+    "SubjectStatsRequested(bytes32,uint256)": TypedContractEvent<
+      SubjectStatsRequestedEvent.InputTuple,
+      SubjectStatsRequestedEvent.OutputTuple,
+      SubjectStatsRequestedEvent.OutputObject
+    >;
+    SubjectStatsRequested: TypedContractEvent<
+      SubjectStatsRequestedEvent.InputTuple,
+      SubjectStatsRequestedEvent.OutputTuple,
+      SubjectStatsRequestedEvent.OutputObject
+    >;
+
+    "SubjectStatsWithheld(bytes32,uint256)": TypedContractEvent<
+      SubjectStatsWithheldEvent.InputTuple,
+      SubjectStatsWithheldEvent.OutputTuple,
+      SubjectStatsWithheldEvent.OutputObject
+    >;
+    SubjectStatsWithheld: TypedContractEvent<
+      SubjectStatsWithheldEvent.InputTuple,
+      SubjectStatsWithheldEvent.OutputTuple,
+      SubjectStatsWithheldEvent.OutputObject
+    >;
+
+    "SubjectStatusChanged(bytes32,uint8)": TypedContractEvent<
+      SubjectStatusChangedEvent.InputTuple,
+      SubjectStatusChangedEvent.OutputTuple,
+      SubjectStatusChangedEvent.OutputObject
+    >;
+    SubjectStatusChanged: TypedContractEvent<
+      SubjectStatusChangedEvent.InputTuple,
+      SubjectStatusChangedEvent.OutputTuple,
+      SubjectStatusChangedEvent.OutputObject
+    >;
+
+    "SubjectUpdated(bytes32,uint256,uint256)": TypedContractEvent<
+      SubjectUpdatedEvent.InputTuple,
+      SubjectUpdatedEvent.OutputTuple,
+      SubjectUpdatedEvent.OutputObject
+    >;
+    SubjectUpdated: TypedContractEvent<
+      SubjectUpdatedEvent.InputTuple,
+      SubjectUpdatedEvent.OutputTuple,
+      SubjectUpdatedEvent.OutputObject
+    >;
+
+    "ThresholdAlertRequested(bytes32,uint256)": TypedContractEvent<
+      ThresholdAlertRequestedEvent.InputTuple,
+      ThresholdAlertRequestedEvent.OutputTuple,
+      ThresholdAlertRequestedEvent.OutputObject
+    >;
+    ThresholdAlertRequested: TypedContractEvent<
+      ThresholdAlertRequestedEvent.InputTuple,
+      ThresholdAlertRequestedEvent.OutputTuple,
+      ThresholdAlertRequestedEvent.OutputObject
+    >;
+
+    "ThresholdAlertWithheld(bytes32,uint256)": TypedContractEvent<
+      ThresholdAlertWithheldEvent.InputTuple,
+      ThresholdAlertWithheldEvent.OutputTuple,
+      ThresholdAlertWithheldEvent.OutputObject
+    >;
+    ThresholdAlertWithheld: TypedContractEvent<
+      ThresholdAlertWithheldEvent.InputTuple,
+      ThresholdAlertWithheldEvent.OutputTuple,
+      ThresholdAlertWithheldEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
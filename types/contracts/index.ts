@@ -1,5 +1,17 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as erc20ThresholdEligibilitySol from "./ERC20ThresholdEligibility.sol";
+export type { erc20ThresholdEligibilitySol };
+import type * as erc721OwnershipEligibilitySol from "./ERC721OwnershipEligibility.sol";
+export type { erc721OwnershipEligibilitySol };
+import type * as mocks from "./mocks";
+export type { mocks };
 export type { EncryptedRatingSystem } from "./EncryptedRatingSystem";
 export type { FHECounter } from "./FHECounter";
+export type { IRatingEligibility } from "./IRatingEligibility";
+export type { RatingAdminModule } from "./RatingAdminModule";
+export type { RatingCampaignFactory } from "./RatingCampaignFactory";
+export type { RatingStatsModule } from "./RatingStatsModule";
+export type { RatingStorage } from "./RatingStorage";
+export type { RatingSubmissionModule } from "./RatingSubmissionModule";
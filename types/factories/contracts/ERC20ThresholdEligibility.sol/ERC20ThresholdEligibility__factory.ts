@@ -0,0 +1,151 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ERC20ThresholdEligibility,
+  ERC20ThresholdEligibilityInterface,
+} from "../../../contracts/ERC20ThresholdEligibility.sol/ERC20ThresholdEligibility";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token_",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "minBalance_",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "isEligible",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "contract IERC20Balance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561000f575f5ffd5b5060405161036938038061036983398101604081905261002e916100f1565b5f826001600160a01b03163b1161008c5760405162461bcd60e51b815260206004820152601760248201527f546f6b656e206973206e6f74206120636f6e747261637400000000000000000060448201526064015b60405180910390fd5b5f81116100db5760405162461bcd60e51b815260206004820181905260248201527f4d696e696d756d2062616c616e6365206d75737420626520706f7369746976656044820152606401610083565b6001600160a01b0390911660805260a052610128565b5f5f60408385031215610102575f5ffd5b82516001600160a01b0381168114610118575f5ffd5b6020939093015192949293505050565b60805160a0516102146101555f395f81816048015261011a01525f818160a5015261013c01526102145ff3fe608060405234801561000f575f5ffd5b506004361061003f575f3560e01c8063c5bb875814610043578063db3ebef11461007d578063fc0c546a146100a0575b5f5ffd5b61006a7f000000000000000000000000000000000000000000000000000000000000000081565b6040519081526020015b60405180910390f35b61009061008b3660046101ae565b6100ec565b6040519015158152602001610074565b6100c77f000000000000000000000000000000000000000000000000000000000000000081565b60405173ffffffffffffffffffffffffffffffffffffffff9091168152602001610074565b6040516370a0823160e01b815273ffffffffffffffffffffffffffffffffffffffff83811660048301525f917f0000000000000000000000000000000000000000000000000000000000000000917f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa158015610181573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906101a591906101f0565b10159392505050565b5f5f604083850312156101bf575f5ffd5b823573ffffffffffffffffffffffffffffffffffffffff811681146101e2575f5ffd5b946020939093013593505050565b5f60208284031215610200575f5ffd5b505191905056fea164736f6c634300081b000a";
+
+type ERC20ThresholdEligibilityConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ERC20ThresholdEligibilityConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ERC20ThresholdEligibility__factory extends ContractFactory {
+  constructor(...args: ERC20ThresholdEligibilityConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    token_: AddressLike,
+    minBalance_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(token_, minBalance_, overrides || {});
+  }
+  override deploy(
+    token_: AddressLike,
+    minBalance_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(token_, minBalance_, overrides || {}) as Promise<
+      ERC20ThresholdEligibility & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ERC20ThresholdEligibility__factory {
+    return super.connect(runner) as ERC20ThresholdEligibility__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ERC20ThresholdEligibilityInterface {
+    return new Interface(_abi) as ERC20ThresholdEligibilityInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ERC20ThresholdEligibility {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ERC20ThresholdEligibility;
+  }
+}
@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IERC20Balance,
+  IERC20BalanceInterface,
+} from "../../../contracts/ERC20ThresholdEligibility.sol/IERC20Balance";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IERC20Balance__factory {
+  static readonly abi = _abi;
+  static createInterface(): IERC20BalanceInterface {
+    return new Interface(_abi) as IERC20BalanceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IERC20Balance {
+    return new Contract(address, _abi, runner) as unknown as IERC20Balance;
+  }
+}
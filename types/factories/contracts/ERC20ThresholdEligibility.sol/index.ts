@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC20ThresholdEligibility__factory } from "./ERC20ThresholdEligibility__factory";
+export { IERC20Balance__factory } from "./IERC20Balance__factory";
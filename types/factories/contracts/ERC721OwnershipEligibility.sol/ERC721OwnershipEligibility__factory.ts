@@ -0,0 +1,130 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ERC721OwnershipEligibility,
+  ERC721OwnershipEligibilityInterface,
+} from "../../../contracts/ERC721OwnershipEligibility.sol/ERC721OwnershipEligibility";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "collection_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "collection",
+    outputs: [
+      {
+        internalType: "contract IERC721Balance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "isEligible",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561000f575f5ffd5b5060405161029938038061029983398101604081905261002e9161009c565b5f816001600160a01b03163b1161008b5760405162461bcd60e51b815260206004820152601c60248201527f436f6c6c656374696f6e206973206e6f74206120636f6e747261637400000000604482015260640160405180910390fd5b6001600160a01b03166080526100c9565b5f602082840312156100ac575f5ffd5b81516001600160a01b03811681146100c2575f5ffd5b9392505050565b6080516101b36100e65f395f8181603d015260dc01526101b35ff3fe608060405234801561000f575f5ffd5b5060043610610034575f3560e01c80637de1e53614610038578063db3ebef114610089575b5f5ffd5b61005f7f000000000000000000000000000000000000000000000000000000000000000081565b60405173ffffffffffffffffffffffffffffffffffffffff90911681526020015b60405180910390f35b61009c61009736600461014d565b6100ac565b6040519015158152602001610080565b6040516370a0823160e01b815273ffffffffffffffffffffffffffffffffffffffff83811660048301525f9182917f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa158015610121573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610145919061018f565b119392505050565b5f5f6040838503121561015e575f5ffd5b823573ffffffffffffffffffffffffffffffffffffffff81168114610181575f5ffd5b946020939093013593505050565b5f6020828403121561019f575f5ffd5b505191905056fea164736f6c634300081b000a";
+
+type ERC721OwnershipEligibilityConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ERC721OwnershipEligibilityConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ERC721OwnershipEligibility__factory extends ContractFactory {
+  constructor(...args: ERC721OwnershipEligibilityConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    collection_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(collection_, overrides || {});
+  }
+  override deploy(
+    collection_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(collection_, overrides || {}) as Promise<
+      ERC721OwnershipEligibility & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ERC721OwnershipEligibility__factory {
+    return super.connect(runner) as ERC721OwnershipEligibility__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ERC721OwnershipEligibilityInterface {
+    return new Interface(_abi) as ERC721OwnershipEligibilityInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ERC721OwnershipEligibility {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ERC721OwnershipEligibility;
+  }
+}
@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IERC721Balance,
+  IERC721BalanceInterface,
+} from "../../../contracts/ERC721OwnershipEligibility.sol/IERC721Balance";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IERC721Balance__factory {
+  static readonly abi = _abi;
+  static createInterface(): IERC721BalanceInterface {
+    return new Interface(_abi) as IERC721BalanceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IERC721Balance {
+    return new Contract(address, _abi, runner) as unknown as IERC721Balance;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC721OwnershipEligibility__factory } from "./ERC721OwnershipEligibility__factory";
+export { IERC721Balance__factory } from "./IERC721Balance__factory";
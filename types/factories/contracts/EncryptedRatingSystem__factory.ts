@@ -7,7 +7,13 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   EncryptedRatingSystem,
@@ -16,27 +22,96 @@ import type {
 
 const _abi = [
   {
-    inputs: [],
-    name: "HandlesAlreadySavedForRequestID",
-    type: "error",
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "defaultMinRespondents_",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "globalMinRespondents_",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "statsModule_",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "adminModule_",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "submissionModule_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "AlertThresholdUpdated",
+    type: "event",
   },
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint32",
-        name: "averageRating",
+        name: "globalAverage",
         type: "uint32",
       },
       {
         indexed: false,
         internalType: "uint32",
-        name: "totalCount",
+        name: "globalCount",
         type: "uint32",
       },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "subjectHashes",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "averages",
+        type: "uint32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "counts",
+        type: "uint32[]",
+      },
     ],
-    name: "GlobalStatsPublished",
+    name: "AllStatsPublished",
     type: "event",
   },
   {
@@ -48,27 +123,40 @@ const _abi = [
         name: "requestId",
         type: "uint256",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
     ],
-    name: "GlobalStatsRequested",
+    name: "AllStatsRequested",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "uint256",
-        name: "entryId",
-        type: "uint256",
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
       },
+    ],
+    name: "AnonymousMembersRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
-        indexed: true,
-        internalType: "address",
-        name: "submitter",
-        type: "address",
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
       },
     ],
-    name: "RatingDeleted",
+    name: "AnonymousModeUpdated",
     type: "event",
   },
   {
@@ -82,15 +170,9 @@ const _abi = [
       },
       {
         indexed: true,
-        internalType: "address",
-        name: "submitter",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "string",
-        name: "subject",
-        type: "string",
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
       },
       {
         indexed: false,
@@ -99,7 +181,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "RatingSubmitted",
+    name: "AnonymousRatingSubmitted",
     type: "event",
   },
   {
@@ -108,23 +190,23 @@ const _abi = [
       {
         indexed: true,
         internalType: "uint256",
-        name: "entryId",
+        name: "campaignId",
         type: "uint256",
       },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "submitter",
-        type: "address",
-      },
       {
         indexed: false,
         internalType: "string",
-        name: "newSubject",
+        name: "name",
         type: "string",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "questionCount",
+        type: "uint256",
+      },
     ],
-    name: "RatingUpdated",
+    name: "CampaignCreated",
     type: "event",
   },
   {
@@ -132,24 +214,18 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "subjectHash",
-        type: "bytes32",
-      },
-      {
-        indexed: false,
-        internalType: "uint32",
-        name: "averageRating",
-        type: "uint32",
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
       },
       {
         indexed: false,
-        internalType: "uint32",
-        name: "count",
-        type: "uint32",
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
       },
     ],
-    name: "SubjectStatsPublished",
+    name: "CampaignDeadlineUpdated",
     type: "event",
   },
   {
@@ -157,9 +233,9 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "subjectHash",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
       },
       {
         indexed: false,
@@ -168,248 +244,2959 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "SubjectStatsRequested",
+    name: "CampaignResultsPublished",
     type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "address",
-        name: "user",
-        type: "address",
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
       },
       {
-        internalType: "string[]",
-        name: "subjects",
-        type: "string[]",
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
       },
     ],
-    name: "allowUserToDecrypt",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "deleteRating",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
+    name: "CampaignResultsRequested",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "entryCount",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
+        name: "campaignId",
         type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getActiveEntryCount",
-    outputs: [
       {
-        internalType: "uint32",
-        name: "",
-        type: "uint32",
+        indexed: true,
+        internalType: "address",
+        name: "respondent",
+        type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "CampaignSubmitted",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "getEncryptedGlobalStats",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "euint32",
-        name: "encryptedSum",
-        type: "bytes32",
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
       },
       {
-        internalType: "uint32",
-        name: "count",
-        type: "uint32",
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "DecryptionAccessGranted",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "uint256",
-        name: "entryId",
-        type: "uint256",
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
       },
-    ],
-    name: "getEncryptedRating",
-    outputs: [
       {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
+        indexed: false,
+        internalType: "address",
+        name: "module",
+        type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "EligibilityModuleUpdated",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "string",
-        name: "subject",
-        type: "string",
-      },
-    ],
-    name: "getEncryptedSubjectStats",
-    outputs: [
-      {
-        internalType: "euint32",
-        name: "encryptedSum",
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
         type: "bytes32",
       },
       {
-        internalType: "uint32",
-        name: "count",
-        type: "uint32",
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "EligibilityRootUpdated",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "entryId",
+        name: "snapshotId",
         type: "uint256",
       },
-    ],
-    name: "getEntry",
-    outputs: [
       {
-        internalType: "string",
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "GlobalStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    name: "NoiseScaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "PrivateCountsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "rankingId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "RankingPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "RankingRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "RankingWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "averages",
+        type: "uint32[8]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "counts",
+        type: "uint32[8]",
+      },
+    ],
+    name: "SegmentStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SegmentStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+    ],
+    name: "SegmentsConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "below",
+        type: "bool",
+      },
+    ],
+    name: "SubjectBelowThreshold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[10]",
+        name: "buckets",
+        type: "uint32[10]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectHistogramPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectMinRespondentsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "SubjectRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "SubjectStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ANONYMOUS_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CAMPAIGN_QUESTIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NOISE_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANKING_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SEGMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MODERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NOISE_BUDGET",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SQUARE_NOISE_FACTOR",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATS_PRECISION",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUBMIT_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPDATE_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "adminModule",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "allStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "allowUserToDecrypt",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMembersRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMode",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    name: "createCampaign",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "deleteRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "domainSeparator",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveEntryCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getAlertThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getAnonymousNullifier",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaign",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "questions",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCampaignCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaignDeadline",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "resultsRequested",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getEligibilityModule",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getEligibilityRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEncryptedGlobalStats",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedRating",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedSubjectStats",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getEntriesBySubject",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "subject",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "submitter",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+        ],
+        internalType: "struct RatingStorage.EntryInfo[]",
+        name: "entries",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getEntriesBySubmitter",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "subject",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "submitter",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+        ],
+        internalType: "struct RatingStorage.EntryInfo[]",
+        name: "entries",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getEntry",
+    outputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEntryCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGlobalNoiseScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+    ],
+    name: "getGlobalSnapshot",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGlobalSnapshotCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGlobalStats",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
+      },
+    ],
+    name: "getNullifierEntry",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "used",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "rankingId",
+        type: "uint256",
+      },
+    ],
+    name: "getRanking",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getRankingCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getRejectedFlag",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getRemainingNoiseBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSegmentStats",
+    outputs: [
+      {
+        internalType: "uint32[8]",
+        name: "averages",
+        type: "uint32[8]",
+      },
+      {
+        internalType: "uint32[8]",
+        name: "counts",
+        type: "uint32[8]",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSegments",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+    ],
+    name: "getSubject",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSubjectCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectEntryCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectHistogram",
+    outputs: [
+      {
+        internalType: "uint32[10]",
+        name: "buckets",
+        type: "uint32[10]",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectNoiseScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+    ],
+    name: "getSubjectSnapshot",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectSnapshotCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getSubjectStats",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSubjects",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "opensAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closesAt",
+            type: "uint256",
+          },
+          {
+            internalType: "enum RatingStorage.SubjectStatus",
+            name: "status",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct RatingStorage.Subject[]",
+        name: "subjects",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "getThresholdAlert",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "below",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "globalMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "globalStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "hasSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "hasSubmittedForSubject",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner_",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "defaultMinRespondents_",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "globalMinRespondents_",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "ratingScale_",
+        type: "uint32",
+      },
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "membershipProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "isAnonymousMember",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "eligibilityProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "isEligible",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isGlobalStatsFinalized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "isSubjectOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
         name: "subject",
         type: "string",
       },
+    ],
+    name: "isSubjectStatsFinalized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "privateCounts",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "rankingCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ratingScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "registerSubject",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    name: "requestAllStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "requestCampaignResults",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestGlobalStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    name: "requestRanking",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "requestSegmentStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "requestSubjectHistogram",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "requestSubjectStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "requestThresholdAlert",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
       },
       {
         internalType: "address",
-        name: "submitter",
+        name: "",
         type: "address",
       },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "segmentStatsCallback",
+    outputs: [
       {
         internalType: "bool",
-        name: "isActive",
+        name: "",
         type: "bool",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "getEntryCount",
-    outputs: [
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "setAlertThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "setAnonymousMembersRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    name: "setAnonymousMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "setCampaignDeadline",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "getGlobalStats",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint32",
-        name: "averageRating",
-        type: "uint32",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "setCampaignEligibilityRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "setEligibilityModule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "setEligibilityRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    name: "setPrivateCounts",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    name: "setSegments",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
       },
       {
         internalType: "uint32",
-        name: "totalCount",
+        name: "",
         type: "uint32",
       },
     ],
-    stateMutability: "view",
+    name: "setSubjectMinRespondents",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
-    ],
-    name: "getSubjectEntryCount",
-    outputs: [
       {
         internalType: "uint32",
         name: "",
         type: "uint32",
       },
     ],
-    stateMutability: "view",
+    name: "setSubjectNoiseScale",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
+      {
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "",
+        type: "uint8",
+      },
     ],
-    name: "getSubjectStats",
+    name: "setSubjectStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "statsModule",
     outputs: [
       {
-        internalType: "uint32",
-        name: "averageRating",
-        type: "uint32",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint32",
-        name: "count",
-        type: "uint32",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "subjectHistogramCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "requestId",
+        name: "",
         type: "uint256",
       },
       {
         internalType: "bytes",
-        name: "cleartexts",
+        name: "",
         type: "bytes",
       },
       {
-        internalType: "bytes[]",
+        internalType: "bytes",
         name: "",
-        type: "bytes[]",
+        type: "bytes",
       },
     ],
-    name: "globalStatsCallback",
+    name: "subjectStatsCallback",
     outputs: [
       {
         internalType: "bool",
@@ -421,21 +3208,15 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "submissionModule",
+    outputs: [
       {
         internalType: "address",
         name: "",
         type: "address",
       },
     ],
-    name: "hasSubmitted",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
     stateMutability: "view",
     type: "function",
   },
@@ -443,126 +3224,173 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "user",
+        name: "",
         type: "address",
       },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
-    ],
-    name: "hasSubmittedForSubject",
-    outputs: [
       {
-        internalType: "bool",
+        internalType: "bytes32[]",
         name: "",
-        type: "bool",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
       },
     ],
-    stateMutability: "view",
+    name: "submitAnonymousRating",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "isGlobalStatsFinalized",
-    outputs: [
+    inputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
       },
     ],
-    stateMutability: "view",
+    name: "submitCampaign",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
-    ],
-    name: "isSubjectStatsFinalized",
-    outputs: [
       {
-        internalType: "bool",
+        internalType: "bytes32[]",
         name: "",
-        type: "bool",
+        type: "bytes32[]",
       },
     ],
-    stateMutability: "view",
+    name: "submitRating",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "protocolId",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint256",
+        internalType: "address",
         name: "",
-        type: "uint256",
+        type: "address",
       },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
       {
-        internalType: "uint256",
+        internalType: "externalEuint8",
         name: "",
-        type: "uint256",
+        type: "bytes32",
       },
-    ],
-    name: "ratingEntries",
-    outputs: [
       {
-        internalType: "address",
-        name: "submitter",
-        type: "address",
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
       },
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
-      {
-        internalType: "euint32",
-        name: "encryptedRating",
-        type: "bytes32",
-      },
       {
         internalType: "uint256",
-        name: "timestamp",
+        name: "",
         type: "uint256",
       },
       {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "requestGlobalStats",
+    name: "submitRatingFor",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
     ],
-    name: "requestSubjectStats",
+    name: "submitSegmentedRating",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -571,21 +3399,21 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "requestId",
+        name: "",
         type: "uint256",
       },
       {
         internalType: "bytes",
-        name: "cleartexts",
+        name: "",
         type: "bytes",
       },
       {
-        internalType: "bytes[]",
+        internalType: "bytes",
         name: "",
-        type: "bytes[]",
+        type: "bytes",
       },
     ],
-    name: "subjectStatsCallback",
+    name: "thresholdAlertCallback",
     outputs: [
       {
         internalType: "bool",
@@ -599,22 +3427,47 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "externalEuint32",
-        name: "encryptedRating",
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "",
         type: "bytes32",
       },
       {
         internalType: "bytes",
-        name: "inputProof",
+        name: "",
         type: "bytes",
       },
       {
         internalType: "string",
-        name: "subject",
+        name: "",
         type: "string",
       },
     ],
-    name: "submitRating",
+    name: "updateRating",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -622,22 +3475,42 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "externalEuint32",
-        name: "encryptedRating",
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "",
         type: "bytes32",
       },
       {
         internalType: "bytes",
-        name: "inputProof",
+        name: "",
         type: "bytes",
       },
       {
         internalType: "string",
-        name: "newSubject",
+        name: "",
         type: "string",
       },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
     ],
-    name: "updateRating",
+    name: "updateRatingFor",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -645,13 +3518,41 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
         name: "",
+        type: "uint256",
+      },
+    ],
+    name: "updateSubject",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
         type: "address",
       },
       {
         internalType: "bytes32",
-        name: "",
+        name: "subjectHash",
         type: "bytes32",
       },
     ],
@@ -669,7 +3570,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f808252602082018190529181018290526060810191909152506040805160808101825273687820221192c5b662b25367f70076a37bc79b6c815273848b0066793bcc60346da1f49049357399b8d595602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b612945806101975f395ff3fe608060405234801561000f575f5ffd5b506004361061019a575f3560e01c8063918e02a4116100e8578063c7daba4c11610093578063dcb64d3f1161006e578063dcb64d3f146103d2578063dfb96056146103e5578063e47e195c14610412578063f449e8cb14610425575f5ffd5b8063c7daba4c1461038d578063d5ab03d6146103a0578063da1f12ab146103ca575f5ffd5b80639eb9bdb5116100c35780639eb9bdb514610333578063bae78d7b14610346578063c5245e2814610369575f5ffd5b8063918e02a4146102c057806393606077146102e75780639971203f14610320575f5ffd5b80635fe4aa09116101485780637286b6f9116101235780637286b6f9146102865780637a360e651461029957806385713192146102a1575f5ffd5b80635fe4aa0914610224578063679f9a55146102375780636b4169c314610261575f5ffd5b80632393a5b9116101785780632393a5b9146101e7578063388044b3146101fa57806356aa80cc1461021c575f5ffd5b806309344d9f1461019e5780630cbb0f83146101a85780631ccc7465146101c4575b5f5ffd5b6101a6610438565b005b6101b160015481565b6040519081526020015b60405180910390f35b6101d76101d23660046121b2565b6106b0565b60405190151581526020016101bb565b600b54640100000000900460ff166101d7565b6101d76102083660046122b8565b60026020525f908152604090205460ff1681565b6101a66108c9565b6101d76102323660046121b2565b610a2b565b6101b16102453660046122d1565b600360209081525f928352604080842090915290825290205481565b610269610c58565b6040805163ffffffff9384168152929091166020830152016101bb565b6102696102943660046122f9565b610ccc565b6001546101b1565b60075463ffffffff165b60405163ffffffff90911681526020016101bb565b60065460075463ffffffff165b6040805192835263ffffffff9091166020830152016101bb565b6102cd6102f53660046122f9565b80516020918201205f908152600482526040808220546005909352902054909163ffffffff90911690565b6101a661032e3660046122f9565b610d63565b6101a661034136600461232b565b610ee1565b6103596103543660046123cd565b61134c565b6040516101bb9493929190612412565b61037c6103773660046123cd565b611422565b6040516101bb95949392919061244b565b6101a661039b36600461248b565b6114e5565b6101d76103ae3660046122f9565b80516020918201205f9081526009909152604090205460ff1690565b6127116101b1565b6101d76103e036600461254f565b611567565b6102ab6103f33660046122f9565b80516020918201205f9081526005909152604090205463ffffffff1690565b6101b16104203660046123cd565b6115d7565b6101a661043336600461232b565b61163e565b335f9081526002602052604090205460ff1661049b5760405162461bcd60e51b815260206004820152601260248201527f4e6f20656e74727920746f2064656c657465000000000000000000000000000060448201526064015b60405180910390fd5b5f5b600154811015610667575f818152602081905260409020546001600160a01b0316331480156104dc57505f8181526020819052604090206004015460ff165b1561065f575f8181526020819052604080822090519091906105029060018401906125d2565b6040518091039020905061052b60045f8381526020019081526020015f20548360020154611a07565b5f8281526004602090815260408083209390935560059052908120805463ffffffff169161055883612657565b91906101000a81548163ffffffff021916908363ffffffff160217905550506105876006548360020154611a07565b6006556007805463ffffffff16905f61059f83612657565b825463ffffffff9182166101009390930a9283029190920219909116179055506004808301805460ff19908116909155335f9081526002602090815260408083208054909416909355848252929092529020546105fb90611a35565b50610607600654611a35565b505f818152600460205260409020546106209033611a44565b5061062d60065433611a44565b50604051339084907fdf31c44878ebbc65485bd6482609d6de1849b9b06faa329a3598795b75bd584a905f90a3505050565b60010161049d565b5060405162461bcd60e51b815260206004820152601560248201527f4e6f2061637469766520656e74727920666f756e6400000000000000000000006044820152606401610492565b5f838152600c602052604081205460ff166106ff5760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606401610492565b600b54640100000000900460ff161561075a5760405162461bcd60e51b815260206004820152601160248201527f416c72656164792066696e616c697a65640000000000000000000000000000006044820152606401610492565b60075463ffffffff166107af5760405162461bcd60e51b815260206004820152601160248201527f4e6f2061637469766520656e74726965730000000000000000000000000000006044820152606401610492565b5f6004845110156108025760405162461bcd60e51b815260206004820152601860248201527f496e76616c696420636c65617274657874206c656e67746800000000000000006044820152606401610492565b50602083015160075460e09190911c9063ffffffff16610822575f610835565b6007546108359063ffffffff1682612675565b600b805464ffffffffff191663ffffffff928316176401000000001781555f878152600c602052604090819020805460ff19169055905460075491517f7f1644b023d5c01aa26b53a95b16b69f8d81d3678742942d9c78ca1e649de341936108b49392811692169063ffffffff92831681529116602082015260400190565b60405180910390a160019150505b9392505050565b60075463ffffffff1661091e5760405162461bcd60e51b815260206004820152601260248201527f4e6f206461746120746f206465637279707400000000000000000000000000006044820152606401610492565b600b54640100000000900460ff16156109795760405162461bcd60e51b815260206004820152601e60248201527f476c6f62616c20737461747320616c72656164792066696e616c697a656400006044820152606401610492565b6040805160018082528183019092525f91602080830190803683370190505090506109a360065490565b815f815181106109b5576109b56126a8565b60209081029190910101525f6109d282631ccc746560e01b611a56565b5f818152600c602052604090819020805460ff19166001179055519091507f283d77d7931fbcd8f467bf5bdd2bbdf1882ebd28e9d673f55ea1d39b769fdc6390610a1f9083815260200190565b60405180910390a15050565b5f838152600a602052604081205480610a785760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606401610492565b5f8181526009602052604090205460ff1615610ad65760405162461bcd60e51b815260206004820152601160248201527f416c72656164792066696e616c697a65640000000000000000000000000000006044820152606401610492565b5f8181526005602052604090205463ffffffff16610b365760405162461bcd60e51b815260206004820152600760248201527f4e6f2064617461000000000000000000000000000000000000000000000000006044820152606401610492565b5f600485511015610b895760405162461bcd60e51b815260206004820152601860248201527f496e76616c696420636c65617274657874206c656e67746800000000000000006044820152606401610492565b506020848101515f838152600590925260409091205460e09190911c9063ffffffff1680610bb7575f610bc1565b610bc18183612675565b5f848152600860208181526040808420805463ffffffff191663ffffffff96871617815560098352818520805460ff191660011790558c8552600a8352818520859055938890529181529154815190841681529284169183019190915284917f1a483a03113ab2e34dc4e46d047ab215b925d461b3cc0fa7cd6dda41d43ca3cf910160405180910390a25060019695505050505050565b600b545f908190640100000000900460ff16610cb65760405162461bcd60e51b815260206004820152601e60248201527f476c6f62616c207374617473206e6f7420617661696c61626c652079657400006044820152606401610492565b5050600b5460075463ffffffff91821692911690565b80516020808301919091205f8181526009909252604082205482919060ff16610d375760405162461bcd60e51b815260206004820152601f60248201527f5375626a656374207374617473206e6f7420617661696c61626c6520796574006044820152606401610492565b5f9081526008602090815260408083205460059092529091205463ffffffff9182169591169350915050565b80516020808301919091205f818152600590925260409091205463ffffffff16610dcf5760405162461bcd60e51b815260206004820152601860248201527f4e6f206461746120666f722074686973207375626a65637400000000000000006044820152606401610492565b5f8181526009602052604090205460ff1615610e2d5760405162461bcd60e51b815260206004820152601f60248201527f5375626a65637420737461747320616c72656164792066696e616c697a6564006044820152606401610492565b6040805160018082528183019092525f9160208083019080368337019050505f83815260046020526040902054909150815f81518110610e6f57610e6f6126a8565b60209081029190910101525f610e8c82635fe4aa0960e01b611a56565b5f818152600a6020526040908190208590555190915083907f2de8eb4efb6e879310b564b649205ee74dbddc954d50766ffdd2f406d4dc149090610ed39084815260200190565b60405180910390a250505050565b335f9081526002602052604090205460ff16610f3f5760405162461bcd60e51b815260206004820152601260248201527f4e6f20656e74727920746f2075706461746500000000000000000000000000006044820152606401610492565b5f815111610f8f5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d7074790000000000000000006044820152606401610492565b606481511115610fd45760405162461bcd60e51b815260206004820152601060248201526f5375626a65637420746f6f206c6f6e6760801b6044820152606401610492565b5f80805b600154811015611030575f818152602081905260409020546001600160a01b03163314801561101757505f8181526020819052604090206004015460ff165b156110285780925060019150611030565b600101610fd8565b508061107e5760405162461bcd60e51b815260206004820152601560248201527f4e6f2061637469766520656e74727920666f756e6400000000000000000000006044820152606401610492565b5f828152602081815260408083208151601f890184900484028101840190925287825292916110c8918a918a908a90819084018382808284375f92019190915250611a6292505050565b90505f826001016040516110dc91906125d2565b6040518091039020905061110560045f8381526020019081526020015f20548460020154611a07565b5f8281526004602090815260408083209390935560059052908120805463ffffffff169161113283612657565b91906101000a81548163ffffffff021916908363ffffffff160217905550506111616006548460020154611a07565b6006556007805463ffffffff16905f61117983612657565b91906101000a81548163ffffffff021916908363ffffffff16021790555050818360020181905550858360010190816111b29190612707565b5042600384015585516020808801919091205f81815260059092526040822054909163ffffffff90911690036111f7575f81815260046020526040902083905561121e565b5f8181526004602052604090205461120f9084611a6f565b5f828152600460205260409020555b5f818152600560205260408120805463ffffffff169161123d836127c2565b91906101000a81548163ffffffff021916908363ffffffff1602179055505061126860065484611a6f565b6006556007805463ffffffff16905f611280836127c2565b91906101000a81548163ffffffff021916908363ffffffff160217905550506112a883611a35565b506112b38333611a44565b505f818152600460205260409020546112cb90611a35565b506112d7600654611a35565b505f818152600460205260409020546112f09033611a44565b506112fd60065433611a44565b50336001600160a01b0316867f8ae95be9d516a2114e4cd2beba1091d2cbc2e65317355e076ae69c03f65fb9088960405161133891906127e6565b60405180910390a350505050505050505050565b5f8181526020819052604081206003810154815460048301546001840180546060969586958695919490926001600160a01b039092169160ff9091169084906113949061259a565b80601f01602080910402602001604051908101604052809291908181526020018280546113c09061259a565b801561140b5780601f106113e25761010080835404028352916020019161140b565b820191905f5260205f20905b8154815290600101906020018083116113ee57829003601f168201915b505050505093509450945094509450509193509193565b5f60208190529081526040902080546001820180546001600160a01b03909216929161144d9061259a565b80601f01602080910402602001604051908101604052809291908181526020018280546114799061259a565b80156114c45780601f1061149b576101008083540402835291602001916114c4565b820191905f5260205f20905b8154815290600101906020018083116114a757829003601f168201915b50505050600283015460038401546004909401549293909290915060ff1685565b6114f160065483611a44565b505f5b8151811015611562575f828281518110611510576115106126a8565b6020908102919091018101518051908201205f818152600590925260409091205490915063ffffffff1615611559575f818152600460205260409020546115579085611a44565b505b506001016114f4565b505050565b80516020808301919091206001600160a01b0384165f90815260038352604080822083835290935291822054158015906115cf57506001600160a01b0384165f90815260036020908152604080832084845282528083205483529082905290206004015460ff165b949350505050565b5f60015482106116295760405162461bcd60e51b815260206004820152601460248201527f456e74727920646f6573206e6f742065786973740000000000000000000000006044820152606401610492565b505f9081526020819052604090206002015490565b5f81511161168e5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d7074790000000000000000006044820152606401610492565b6064815111156116d35760405162461bcd60e51b815260206004820152601060248201526f5375626a65637420746f6f206c6f6e6760801b6044820152606401610492565b805160208201206116e43383611567565b1561173c5760405162461bcd60e51b815260206004820152602260248201527f416c7265616479207375626d697474656420666f722074686973207375626a6560448201526118dd60f21b6064820152608401610492565b5f61177c8686868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250611a6292505050565b600180549192505f919082611790836127f8565b909155506040805160a08101825233815260208082018881528284018790524260608401526001608084018190525f8681529283905293909120825181547fffffffffffffffffffffffff0000000000000000000000000000000000000000166001600160a01b039091161781559051939450909290918201906118149082612707565b5060408281015160028084019190915560608401516003808501919091556080909401516004909301805493151560ff19948516179055335f90815260209182528281208054909416600117909355928352808220868352835280822084905560059092529081205463ffffffff16900361189e575f8381526004602052604090208290556118c5565b5f838152600460205260409020546118b69083611a6f565b5f848152600460205260409020555b5f838152600560205260408120805463ffffffff16916118e4836127c2565b82546101009290920a63ffffffff818102199093169183160217909155600754165f039050611917576006829055611927565b61192360065483611a6f565b6006555b6007805463ffffffff16905f61193c836127c2565b91906101000a81548163ffffffff021916908363ffffffff1602179055505061196482611a35565b5061196f8233611a44565b505f8381526004602052604090205461198790611a35565b50611993600654611a35565b505f838152600460205260409020546119ac9033611a44565b506119b960065433611a44565b50336001600160a01b0316817f32289c6d2fbcc58e31dacc143243323d6515ffe50cae675d805b5e49db67c81786426040516119f6929190612810565b60405180910390a350505050505050565b5f82611a1957611a165f611a9d565b92505b81611a2a57611a275f611a9d565b91505b6108c283835f611ab5565b5f611a408230611bb0565b5090565b5f611a4f8383611bb0565b5090919050565b5f6108c283835f611c39565b5f6108c283836004611d67565b5f82611a8157611a7e5f611a9d565b92505b81611a9257611a8f5f611a9d565b91505b6108c283835f611e87565b5f611aaf8263ffffffff166004611f3c565b92915050565b5f5f8215611ac85750600160f81b611acb565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516303056db360e31b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063182b6d98906064015b6020604051808303815f875af1158015611b82573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611ba69190612831565b9695505050505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015611c1e575f5ffd5b505af1158015611c30573d5f5f3e3d5ffd5b50505050505050565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051637d6e912360e11b81529293926001600160a01b039091169063fadd224690611caf908990600401612882565b5f604051808303815f87803b158015611cc6575f5ffd5b505af1158015611cd8573d5f5f3e3d5ffd5b5050506002820154604051633263b83b60e01b81526001600160a01b039091169150633263b83b908690611d149087908b908b90600401612894565b5f604051808303818588803b158015611d2b575f5ffd5b505af1158015611d3d573d5f5f3e3d5ffd5b5050505050611d4c8387611ff1565b8154825f611d59836127f8565b919050555050509392505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b039091169063196d0b9b90611de09088903390899089906004016128e5565b6020604051808303815f875af1158015611dfc573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611e209190612831565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015611e69575f5ffd5b505af1158015611e7b573d5f5f3e3d5ffd5b50505050509392505050565b5f5f8215611e9a5750600160f81b611e9d565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063117b2f3890606401611b66565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb90611fb19087908790600401612924565b6020604051808303815f875af1158015611fcd573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906115cf9190612831565b5f8281527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260409020547f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00901561205e57604051633f06d22b60e01b815260040160405180910390fd5b5f8381526001820160209081526040909120835161207e92850190612084565b50505050565b828054828255905f5260205f209081019282156120bd579160200282015b828111156120bd5782518255916020019190600101906120a2565b50611a409291505b80821115611a40575f81556001016120c5565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f1916810167ffffffffffffffff81118282101715612115576121156120d8565b604052919050565b5f82601f83011261212c575f5ffd5b8135602083015f5f67ffffffffffffffff84111561214c5761214c6120d8565b50601f8301601f1916602001612161816120ec565b915050828152858383011115612175575f5ffd5b828260208301375f92810160200192909252509392505050565b5f67ffffffffffffffff8211156121a8576121a86120d8565b5060051b60200190565b5f5f5f606084860312156121c4575f5ffd5b83359250602084013567ffffffffffffffff8111156121e1575f5ffd5b6121ed8682870161211d565b925050604084013567ffffffffffffffff811115612209575f5ffd5b8401601f81018613612219575f5ffd5b803561222c6122278261218f565b6120ec565b8082825260208201915060208360051b85010192508883111561224d575f5ffd5b602084015b8381101561228e57803567ffffffffffffffff811115612270575f5ffd5b61227f8b60208389010161211d565b84525060209283019201612252565b50809450505050509250925092565b80356001600160a01b03811681146122b3575f5ffd5b919050565b5f602082840312156122c8575f5ffd5b6108c28261229d565b5f5f604083850312156122e2575f5ffd5b6122eb8361229d565b946020939093013593505050565b5f60208284031215612309575f5ffd5b813567ffffffffffffffff81111561231f575f5ffd5b6115cf8482850161211d565b5f5f5f5f6060858703121561233e575f5ffd5b84359350602085013567ffffffffffffffff81111561235b575f5ffd5b8501601f8101871361236b575f5ffd5b803567ffffffffffffffff811115612381575f5ffd5b876020828401011115612392575f5ffd5b60209190910193509150604085013567ffffffffffffffff8111156123b5575f5ffd5b6123c18782880161211d565b91505092959194509250565b5f602082840312156123dd575f5ffd5b5035919050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b608081525f61242460808301876123e4565b6020830195909552506001600160a01b039290921660408301521515606090910152919050565b6001600160a01b038616815260a060208201525f61246c60a08301876123e4565b6040830195909552506060810192909252151560809091015292915050565b5f5f6040838503121561249c575f5ffd5b6124a58361229d565b9150602083013567ffffffffffffffff8111156124c0575f5ffd5b8301601f810185136124d0575f5ffd5b80356124de6122278261218f565b8082825260208201915060208360051b8501019250878311156124ff575f5ffd5b602084015b8381101561254057803567ffffffffffffffff811115612522575f5ffd5b6125318a60208389010161211d565b84525060209283019201612504565b50809450505050509250929050565b5f5f60408385031215612560575f5ffd5b6125698361229d565b9150602083013567ffffffffffffffff811115612584575f5ffd5b6125908582860161211d565b9150509250929050565b600181811c908216806125ae57607f821691505b6020821081036125cc57634e487b7160e01b5f52602260045260245ffd5b50919050565b5f5f83546125df8161259a565b6001821680156125f6576001811461260b57612638565b60ff1983168652811515820286019350612638565b865f5260205f205f5b8381101561263057815488820152600190910190602001612614565b505081860193505b509195945050505050565b634e487b7160e01b5f52601160045260245ffd5b5f63ffffffff82168061266c5761266c612643565b5f190192915050565b5f63ffffffff83168061269657634e487b7160e01b5f52601260045260245ffd5b8063ffffffff84160491505092915050565b634e487b7160e01b5f52603260045260245ffd5b601f82111561156257805f5260205f20601f840160051c810160208510156126e15750805b601f840160051c820191505b81811015612700575f81556001016126ed565b5050505050565b815167ffffffffffffffff811115612721576127216120d8565b6127358161272f845461259a565b846126bc565b6020601f821160018114612767575f83156127505750848201515b5f19600385901b1c1916600184901b178455612700565b5f84815260208120601f198516915b828110156127965787850151825560209485019460019092019101612776565b50848210156127b357868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b5f63ffffffff821663ffffffff81036127dd576127dd612643565b60010192915050565b602081525f6108c260208301846123e4565b5f6001820161280957612809612643565b5060010190565b604081525f61282260408301856123e4565b90508260208301529392505050565b5f60208284031215612841575f5ffd5b5051919050565b5f8151808452602084019350602083015f5b8281101561287857815186526020958601959091019060010161285a565b5093949350505050565b602081525f6108c26020830184612848565b838152606060208201525f6128ac6060830185612848565b905063ffffffff60e01b83166040830152949350505050565b605481106128e157634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f61290c60808301856123e4565b905061291b60608301846128c5565b95945050505050565b828152604081016108c260208301846128c556fea164736f6c634300081b000a";
+  "0x60e060405234801561000f575f5ffd5b506040516151b13803806151b183398101604081905261002e9161034c565b6101a86100cc604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b5f8563ffffffff161180156101c257505f8463ffffffff16115b6102135760405162461bcd60e51b815260206004820152601a60248201527f5468726573686f6c64206d75737420626520706f73697469766500000000000060448201526064015b60405180910390fd5b5f836001600160a01b03163b11801561023557505f826001600160a01b03163b115b801561024a57505f816001600160a01b03163b115b6102965760405162461bcd60e51b815260206004820152601860248201527f4d6f64756c65206973206e6f74206120636f6e74726163740000000000000000604482015260640161020a565b6001600160a01b0392831660805290821660a0521660c0525f8054336001600160a01b031990911617905560038054600160301b600160701b031916660100000000000063ffffffff9485160263ffffffff60501b1916176a010000000000000000000092909316919091029190911765ffffffffff00191665010000000a001790556103ad565b805163ffffffff81168114610331575f5ffd5b919050565b80516001600160a01b0381168114610331575f5ffd5b5f5f5f5f5f60a08688031215610360575f5ffd5b6103698661031e565b94506103776020870161031e565b935061038560408701610336565b925061039360608701610336565b91506103a160808701610336565b90509295509295909350565b60805160a05160c051614d716104405f395f8181610df0015281816119360152818161196801528181611daa0152612ab301525f8181610a68015281816112f00152818161131e0152818161137101528181611469015281816116030152818161199f015261219501525f818161086e015281816112c30152818161181601528181611a3b0152612f9f0152614d715ff3fe608060405234801561000f575f5ffd5b506004361061074e575f3560e01c806379ba5097116103c2578063bea2dc1411610200578063dfb960561161011f578063f2fde38b116100b4578063f7a9d18211610084578063f7a9d18214611108578063f90bac4214611110578063fb03cebe14611123578063fc4c2e5a146109ee575f5ffd5b8063f2fde38b146110ce578063f698da25146110dc578063f6ba85b714610b7a578063f6dd0187146110e4575f5ffd5b8063e67097e4116100ef578063e67097e4146110a2578063e933ba6b146110aa578063ec0e2bf2146110b8578063f161bb2e146110c6575f5ffd5b8063dfb960561461105b578063e1f866091461106e578063e30c39781461107c578063e47e195c1461108f575f5ffd5b8063cff2d2f011610195578063d799479911610165578063d799479914611026578063d91370d1146108f5578063da1f12ab14611040578063dcb64d3f14611048575f5ffd5b8063cff2d2f014610fea578063d547741f146109e0578063d560c65a14610b7a578063d5ab03d614610ffd575f5ffd5b8063c9b68180116101d0578063c9b6818014610f9a578063cac64aef14610fbc578063cc58106914610fc9578063cc9f114c14610fd7575f5ffd5b8063bea2dc1414610f45578063c1211b5414610f66578063c2e97ed414610f79578063c7daba4c14610f87575f5ffd5b806396b52497116102ec578063ab56dcc711610281578063b113343a11610251578063b113343a14610ee6578063ba288cee14610f07578063bae78d7b14610f1a578063bb0e4ea214610f3d575f5ffd5b8063ab56dcc714610e28578063ac73995e14610e3b578063af84b45d14610e43578063b02128a914610ec8575f5ffd5b8063a2f738cf116102bc578063a2f738cf14610deb578063a3da86fe14610b7a578063a606696614610e12578063a6fe29ab14610e20575f5ffd5b806396b5249714610dc45780639971203f146109ee5780639e2d985314610b7a5780639ec0a674146108a8575f5ffd5b80638cbc114711610362578063918e02a411610332578063918e02a414610d6357806391d1485414610d965780639360607714610da957806394e113ea14610dbc575f5ffd5b80638cbc114714610d2c5780638d66ac1814610d355780638da5cb5b14610d435780638fa411fb14610d55575f5ffd5b80637ecebe001161039d5780637ecebe0014610cf257806382aafb4614610d115780638456cb5914610a535780638571319214610d24575f5ffd5b806379ba509714610a535780637a360e6514610cea5780637d5c0279146108f5575f5ffd5b806348f4da201161058f578063679f9a55116104b95780637286b6f91161044e578063754830c71161041e578063754830c714610c6457806375b238fc14610c72578063797669c914610c995780637983b55b14610cc0575f5ffd5b80637286b6f914610c075780637391036c14610c1a57806373b789f214610c225780637407e85a14610c37575f5ffd5b80636c36d897116104895780636c36d89714610b7a5780636caa921814610bd85780636e1d616e14610be057806371fe5fae14610b7a575f5ffd5b8063679f9a5514610b675780636a423def14610b7a5780636af9e75414610b8d5780636b4169c314610ba0575f5ffd5b8063579f92321161052f5780635da905f5116104ff5780635da905f514610b39578063625658fc14610b41578063644ed82a14610b5457806364bce0a414610985575f5ffd5b8063579f923214610aef578063588e85c914610b115780635a804e7114610b195780635c975abb14610b2c575f5ffd5b8063553906961161056a5780635539069614610a8a5780635598f8cc14610a9f57806355e885a414610ac057806356aa80cc14610ae7575f5ffd5b806348f4da2014610a5b5780634da25ea9146109ee5780635273b6f614610a63575f5ffd5b806325072caf1161067b5780632f2ff15d11610610578063388044b3116105e0578063388044b314610a2d578063398ebb2b146109085780633ef5112614610a405780633f4ba83a14610a53575f5ffd5b80632f2ff15d146109e057806331c0402f146109ee57806335ab904c146109fc578063384bfad314610a05575f5ffd5b8063292930ae1161064b578063292930ae146109855780632a5d23bd146109985780632b06fc9a146109a05780632d49d5ce146109b3575f5ffd5b806325072caf14610925578063250f082e1461094c57806325330b231461095f57806325a6857114610972575f5ffd5b806313446ae7116106f1578063198aabc0116106c1578063198aabc0146108f55780631aefc9cb146109085780631e059895146108ed5780632393a5b91461091b575f5ffd5b806313446ae71461086957806315e098dd146108a857806317a622ac146108bd578063193a47a7146108ed575f5ffd5b80630d6529e71161072c5780630d6529e7146107db5780630da2cf12146107fa5780630ea589471461082f5780631148453f14610856575f5ffd5b806301288c8c1461075257806303aa38a91461079d578063067a8ff9146107be575b5f5ffd5b610765610760366004613ad5565b611136565b6040805163ffffffff9687168152948616602086015284019290925283166060830152909116608082015260a0015b60405180910390f35b6107b06107ab366004613b16565b61121d565b604051610794929190613b8d565b601a546107cb9060ff1681565b6040519015158152602001610794565b60265463ffffffff165b60405163ffffffff9091168152602001610794565b6108217f44784a982bb4da9f8a6809d66c616d065064f4c1e9e4cbc41ed01e24babd8d8281565b604051908152602001610794565b61082161083d366004613c38565b80516020918201205f9081526013909152604090205490565b6107cb610864366004613ccb565b611298565b6108907f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b039091168152602001610794565b6108bb6108b6366004613d19565b6112be565b005b6108906108cb366004613c38565b80516020918201205f908152601d90915260409020546001600160a01b031690565b610821600a81565b6108bb610903366004613da7565b6112eb565b6108bb610916366004613df6565b611319565b60155415156107cb565b6108217f4a6ecb79cd81699e4038b7cb505bbec6e129a8441f528a3dea2b5dc98f42099481565b61082161095a366004613c38565b611342565b6108bb61096d366004613e16565b61136c565b610765610980366004613e91565b61139d565b6108bb610993366004613eb5565b611464565b601554610821565b6107b06109ae366004613ed0565b611490565b6107e56109c1366004613c38565b80516020918201205f9081526027909152604090205463ffffffff1690565b6108bb610916366004613f00565b6108bb6108b6366004613f2a565b61082160365481565b610a18610a13366004613e91565b6114ff565b60408051928352901515602083015201610794565b6107cb610a3b366004613f5c565b611577565b6107cb610a4e366004613f75565b6115df565b6108bb6115fe565b610821606481565b6108907f000000000000000000000000000000000000000000000000000000000000000081565b6003546107e590610100900463ffffffff1681565b610ab2610aad366004613e91565b611629565b604051610794929190614044565b6108217f070dee802a048f2ebd9cd092351d66396d4e4854aeed2aea7ad7359cccc5647d81565b6108bb611811565b610b02610afd366004613c38565b61183a565b60405161079493929190614096565b6107e5600481565b6108bb610b273660046140c2565b611931565b6003546107cb9060ff1681565b602a54610821565b6108bb610b4f366004614167565b611963565b610821610b62366004614256565b611999565b610821610b753660046142a8565b6119c3565b6107cb610b883660046142d0565b611a35565b6107e5610b9b366004613c38565b611a68565b610ba8611a79565b6040805163ffffffff95861681529385166020850152918416918301919091529091166060820152608001610794565b600754610821565b6108217f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b610ba8610c15366004613c38565b611b33565b6107e5606481565b610c2a611c03565b6040516107949190614347565b6107e5610c45366004613c38565b80516020918201205f9081526024909152604090205463ffffffff1690565b6108bb610b27366004614359565b6108217fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177581565b6108217f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f81565b610cd3610cce366004613e91565b611cd7565b604080519215158352602083019190915201610794565b610821611d54565b610821610d00366004613f5c565b60196020525f908152604090205481565b6108bb610d1f366004613f2a565b611da5565b6107e5611dce565b6107e561040081565b6108bb610993366004613e91565b5f54610890906001600160a01b031681565b6108bb610b4f3660046143eb565b603c54601254603d5463ffffffff909116905b6040805193845263ffffffff909216602084015290820152606001610794565b6107cb610da4366004613f00565b611e25565b610d76610db7366004613c38565b611e67565b6107e5600a81565b610821610dd2366004613c38565b80516020918201205f908152601c909152604090205490565b6108907f000000000000000000000000000000000000000000000000000000000000000081565b6108bb6109033660046144c0565b6107e5601081565b610821610e36366004614515565b611ef2565b610821600581565b610e96610e51366004613c38565b80516020918201205f908152602890915260409020805460019091015463ffffffff8083169368010000000000000000840460ff169364010000000090049091169190565b604051610794949392919063ffffffff9485168152921515602084015292166040820152606081019190915260800190565b6003546107e5906a0100000000000000000000900463ffffffff1681565b610ef9610ef4366004613df6565b611f3f565b604051610794929190614593565b610821610f15366004613e16565b61218f565b610f2d610f28366004613e91565b6121c3565b6040516107949493929190614643565b6107e5600181565b610f58610f53366004613e91565b6122dd565b60405161079492919061467c565b6108bb610f7436600461469d565b612449565b6108bb61090336600461472b565b6108bb610f95366004614772565b6127f8565b610fad610fa8366004613c38565b6129c0565b6040516107949392919061484e565b602c546107cb9060ff1681565b6108bb610b27366004614898565b6108bb610fe53660046148d6565b612aae565b610821610ff8366004613e91565b612ae1565b6107cb61100b366004613c38565b80516020918201205f90815260139091526040902054151590565b6003546107e5906601000000000000900463ffffffff1681565b612711610821565b6107cb611056366004614515565b612b96565b6107e5611069366004613c38565b612bf1565b6108bb610903366004614984565b600154610890906001600160a01b031681565b61082161109d366004613e91565b612c5b565b610821600681565b6108bb610b4f3660046149ca565b6108bb610916366004613d19565b610821600881565b6108bb610993366004613f5c565b610821612d0b565b6110f76110f2366004613e91565b612db3565b604051610794959493929190614a93565b600654610821565b6108bb61111e366004613e91565b612f9a565b6107cb611131366004613c38565b612fc3565b5f5f5f5f5f5f60135f898051906020012081526020019081526020015f2090505f87118015611166575080548711155b6111b75760405162461bcd60e51b815260206004820152601760248201527f536e617073686f7420646f6573206e6f7420657869737400000000000000000060448201526064015b60405180910390fd5b5f816111c460018a614ae7565b815481106111d4576111d4614afa565b5f91825260209091206003909102018054600182015460029092015463ffffffff8083169d6401000000009384900482169d50939b508082169a50919004169650945050505050565b602c546060905f9060ff161561126a5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b61128c602f5f878051906020012081526020019081526020015f208585612fff565b91509150935093915050565b6036545f90158015906112b457506112b46036548585856131d8565b90505b9392505050565b6112e77f00000000000000000000000000000000000000000000000000000000000000006132c5565b5050565b6113147f00000000000000000000000000000000000000000000000000000000000000006132c5565b505050565b6112e77f00000000000000000000000000000000000000000000000000000000000000006132c5565b80516020808301919091205f90815260259091526040812054611366906004614ae7565b92915050565b6113957f00000000000000000000000000000000000000000000000000000000000000006132c5565b505050505050565b5f5f5f5f5f5f861180156113b357506015548611155b6113ff5760405162461bcd60e51b815260206004820152601760248201527f536e617073686f7420646f6573206e6f7420657869737400000000000000000060448201526064016111ae565b5f601561140d600189614ae7565b8154811061141d5761141d614afa565b5f91825260209091206003909102018054600182015460029092015463ffffffff8083169b6401000000009384900482169b50939950808216985091900416945092505050565b61148d7f00000000000000000000000000000000000000000000000000000000000000006132c5565b50565b602c546060905f9060ff16156114dd5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b6001600160a01b0385165f90815260316020526040902061128c908585612fff565b5f5f5f8311801561151257506007548311155b6115515760405162461bcd60e51b815260206004820152601060248201526f2ab735b737bbb71031b0b6b830b4b3b760811b60448201526064016111ae565b50505f90815260336020908152604080832054603490925290912054909160ff90911690565b602c545f9060ff16156115c15760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b506001600160a01b03165f908152600a602052604090205460ff1690565b5f6115f385805190602001208585856132e3565b90505b949350505050565b6116277f00000000000000000000000000000000000000000000000000000000000000006132c5565b565b6060805f8311801561163d57506007548311155b61167c5760405162461bcd60e51b815260206004820152601060248201526f2ab735b737bbb71031b0b6b830b4b3b760811b60448201526064016111ae565b5f600761168a600186614ae7565b8154811061169a5761169a614afa565b905f5260205f2090600202019050805f01816001018180546116bb90614b0e565b80601f01602080910402602001604051908101604052809291908181526020018280546116e790614b0e565b80156117325780601f1061170957610100808354040283529160200191611732565b820191905f5260205f20905b81548152906001019060200180831161171557829003601f168201915b5050505050915080805480602002602001604051908101604052809291908181526020015f905b82821015611801578382905f5260205f2001805461177690614b0e565b80601f01602080910402602001604051908101604052809291908181526020018280546117a290614b0e565b80156117ed5780601f106117c4576101008083540402835291602001916117ed565b820191905f5260205f20905b8154815290600101906020018083116117d057829003601f168201915b505050505081526020019060010190611759565b5050505090509250925050915091565b6116277f00000000000000000000000000000000000000000000000000000000000000006132c5565b6118426139a6565b61184a6139a6565b82516020808501919091205f90815260229091526040808220600281015482516101008101938490529192839260018401929184906008908289855b82829054906101000a900463ffffffff1663ffffffff1681526020019060040190602082600301049283019260010382029150808411611886575050604080516101008101918290529598508794506008935091508390505f855b82829054906101000a900463ffffffff1663ffffffff16815260200190600401906020826003010492830192600103820291508084116118e15750979d949c50949a509298505050505050505050565b61195a7f00000000000000000000000000000000000000000000000000000000000000006132c5565b50505050505050565b61198c7f00000000000000000000000000000000000000000000000000000000000000006132c5565b5050505050505050505050565b5f6115f67f00000000000000000000000000000000000000000000000000000000000000006132c5565b602c545f9060ff1615611a0d5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b506001600160a01b03919091165f908152600b60209081526040808320938352929052205490565b5f611a5f7f00000000000000000000000000000000000000000000000000000000000000006132c5565b95945050505050565b5f61136682805190602001206133b0565b5f5f5f5f5f60158054905011611ad15760405162461bcd60e51b815260206004820152601e60248201527f476c6f62616c207374617473206e6f7420617661696c61626c6520796574000060448201526064016111ae565b601580545f9190611ae490600190614ae7565b81548110611af457611af4614afa565b5f9182526020909120600390910201805460029091015463ffffffff808316986401000000009384900482169850818316975092909104169350915050565b80516020808301919091205f908152601390915260408120805482918291829190611ba05760405162461bcd60e51b815260206004820152601f60248201527f5375626a656374207374617473206e6f7420617661696c61626c65207965740060448201526064016111ae565b80545f908290611bb290600190614ae7565b81548110611bc257611bc2614afa565b5f9182526020909120600390910201805460029091015463ffffffff8083169a6401000000009384900482169a508183169950929091041695509350505050565b6060601e805480602002602001604051908101604052809291908181526020015f905b82821015611cce578382905f5260205f20018054611c4390614b0e565b80601f0160208091040260200160405190810160405280929190818152602001828054611c6f90614b0e565b8015611cba5780601f10611c9157610100808354040283529160200191611cba565b820191905f5260205f20905b815481529060010190602001808311611c9d57829003601f168201915b505050505081526020019060010190611c26565b50505050905090565b602c545f90819060ff1615611d235760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b5f838152601b602052604090205480151580611d3f575f611d4a565b611d4a600183614ae7565b9250925050915091565b602c545f9060ff1615611d9e5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b5060095490565b6112e77f00000000000000000000000000000000000000000000000000000000000000006132c5565b602c545f9060ff1615611e185760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b5060125463ffffffff1690565b5f80546001600160a01b03838116911614806112b75750505f9182526002602090815260408084206001600160a01b0393909316845291905290205460ff1690565b5f5f5f5f845111611eba5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016111ae565b505081516020928301205f908152603a8352604080822054600e855281832054603b909552912054909363ffffffff90931692909150565b5f828280519060200120604051602001611f219291906001600160a01b03929092168252602082015260400190565b60405160208183030381529060405280519060200120905092915050565b6006546060905f611f518585846133ea565b9050806001600160401b03811115611f6b57611f6b613a26565b604051908082528060200260200182016040528015611fa457816020015b611f916139c5565b815260200190600190039081611f895790505b5092505f5b818110156121865760055f6006611fc0848a614b46565b81548110611fd057611fd0614afa565b905f5260205f20015481526020019081526020015f206040518060c00160405290815f820154815260200160018201805461200a90614b0e565b80601f016020809104026020016040519081016040528092919081815260200182805461203690614b0e565b80156120815780601f1061205857610100808354040283529160200191612081565b820191905f5260205f20905b81548152906001019060200180831161206457829003601f168201915b5050505050815260200160028201805461209a90614b0e565b80601f01602080910402602001604051908101604052809291908181526020018280546120c690614b0e565b80156121115780601f106120e857610100808354040283529160200191612111565b820191905f5260205f20905b8154815290600101906020018083116120f457829003601f168201915b5050509183525050600382810154602083015260048301546040830152600583015460609092019160ff169081111561214c5761214c61455f565b600381111561215d5761215d61455f565b8152505084828151811061217357612173614afa565b6020908102919091010152600101611fa9565b50509250929050565b5f6121b97f00000000000000000000000000000000000000000000000000000000000000006132c5565b9695505050505050565b602c546060905f908190819060ff16156122145760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b5f8581526008602052604090206004810154815460058301546001840180549093926001600160a01b03169160ff1690849061224f90614b0e565b80601f016020809104026020016040519081016040528092919081815260200182805461227b90614b0e565b80156122c65780601f1061229d576101008083540402835291602001916122c6565b820191905f5260205f20905b8154815290600101906020018083116122a957829003601f168201915b505050505093509450945094509450509193509193565b60605f5f831180156122f15750602a548311155b61233d5760405162461bcd60e51b815260206004820152601660248201527f52616e6b696e6720646f6573206e6f742065786973740000000000000000000060448201526064016111ae565b5f602a61234b600186614ae7565b8154811061235b5761235b614afa565b905f5260205f2090600202019050805f01816001015481805480602002602001604051908101604052809291908181526020015f905b82821015612439578382905f5260205f200180546123ae90614b0e565b80601f01602080910402602001604051908101604052809291908181526020018280546123da90614b0e565b80156124255780601f106123fc57610100808354040283529160200191612425565b820191905f5260205f20905b81548152906001019060200180831161240857829003601f168201915b505050505081526020019060010190612391565b5050505091509250925050915091565b60035465010000000000900460ff16156124a55760405162461bcd60e51b815260206004820152601360248201527f416c726561647920696e697469616c697a65640000000000000000000000000060448201526064016111ae565b6001600160a01b0388166124fb5760405162461bcd60e51b815260206004820152600d60248201527f496e76616c6964206f776e65720000000000000000000000000000000000000060448201526064016111ae565b5f8763ffffffff1611801561251557505f8663ffffffff16115b6125615760405162461bcd60e51b815260206004820152601a60248201527f5468726573686f6c64206d75737420626520706f73697469766500000000000060448201526064016111ae565b600163ffffffff861611801561257e5750600a63ffffffff861611155b6125ca5760405162461bcd60e51b815260206004820152601460248201527f496e76616c696420726174696e67207363616c6500000000000000000000000060448201526064016111ae565b6003805465ff000000000019166501000000000017905561268461267f604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b61346a565b5f805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b038a16178155600380546dffffffffffffffff0000000000001916660100000000000063ffffffff8b8116919091026dffffffff000000000000000000001916919091176a01000000000000000000008a8316021764ffffffff001916610100918916919091021790555b838110156127ed575f61278a86868481811061272e5761272e614afa565b90506020028101906127409190614b59565b8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92018290525060408051602081019091529081529250889150879050613553565b5f8181526005602081905260409182902001805460ff19166001908117909155905191925082917f152c5191cf528fdde82552b936615f9f513b62a79d713da584b56100813c0293916127dc91614b9b565b60405180910390a250600101612710565b505050505050505050565b6001600160a01b03821633148061283457506128347f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f533611e25565b6128805760405162461bcd60e51b815260206004820152601660248201527f43616c6c6572206973206d697373696e6720726f6c650000000000000000000060448201526064016111ae565b602c5460ff161580156128945750603c5415155b80156128a6575060265463ffffffff16155b156128c6576128b7603c54836137db565b506128c4603d54836137db565b505b5f5b8151811080156128db5750602c5460ff16155b15612986575f8282815181106128f3576128f3614afa565b602002602001015180519060200120905061291e603a5f8381526020019081526020015f2054151590565b801561293b57505f8181526024602052604090205463ffffffff16155b15612973575f818152603a602052604090205461295890856137db565b505f818152603b602052604090205461297190856137db565b505b508061297e81614ba9565b9150506128c8565b5060405133906001600160a01b038416907f4c454fc65ab8cc480d99bb84ef20fdd6f4aedf09a53d62f955a2ebf51deb0a26905f90a35050565b6129c8613a07565b81516020808401919091205f9081526017909152604081206003810154829190612a345760405162461bcd60e51b815260206004820152601b60248201527f486973746f6772616d206e6f7420617661696c61626c6520796574000000000060448201526064016111ae565b6002810154600382015460408051610140810191829052849363ffffffff1692918490600a90825f855b82829054906101000a900463ffffffff1663ffffffff1681526020019060040190602082600301049283019260010382029150808411612a5e5750949d969c50949a509498505050505050505050565b612ad77f00000000000000000000000000000000000000000000000000000000000000006132c5565b5050505050505050565b602c545f9060ff1615612b2b5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b6009548210612b7c5760405162461bcd60e51b815260206004820152601460248201527f456e74727920646f6573206e6f7420657869737400000000000000000000000060448201526064016111ae565b505f9081526008602052604090206003015490565b905090565b602c545f9060ff1615612be05760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b6112b78383805190602001206137ed565b602c545f9060ff1615612c3b5760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b5080516020918201205f908152600e909152604090205463ffffffff1690565b602c545f9060ff1615612ca55760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016111ae565b6009548210612cf65760405162461bcd60e51b815260206004820152601460248201527f456e74727920646f6573206e6f7420657869737400000000000000000000000060448201526064016111ae565b505f9081526008602052604090206002015490565b5f612b91604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527faa63517d6cc8b67df6d54fc52a6906f679439a50bdaac2e20551a09884bf9db4918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b6060805f5f5f5f86118015612dca57506006548611155b612e165760405162461bcd60e51b815260206004820152600f60248201527f556e6b6e6f776e207375626a656374000000000000000000000000000000000060448201526064016111ae565b5f6005816006612e2760018b614ae7565b81548110612e3757612e37614afa565b905f5260205f20015481526020019081526020015f209050806001018160020182600301548360040154846005015f9054906101000a900460ff16848054612e7e90614b0e565b80601f0160208091040260200160405190810160405280929190818152602001828054612eaa90614b0e565b8015612ef55780601f10612ecc57610100808354040283529160200191612ef5565b820191905f5260205f20905b815481529060010190602001808311612ed857829003601f168201915b50505050509450838054612f0890614b0e565b80601f0160208091040260200160405190810160405280929190818152602001828054612f3490614b0e565b8015612f7f5780601f10612f5657610100808354040283529160200191612f7f565b820191905f5260205f20905b815481529060010190602001808311612f6257829003601f168201915b50505050509350955095509550955095505091939590929450565b61148d7f00000000000000000000000000000000000000000000000000000000000000006132c5565b80516020808301919091205f818152600590925260408220805415801590612fef5750612fef81613863565b80156115f657506115f6826138ad565b82546060905f6130108585846133ea565b9050806001600160401b0381111561302a5761302a613a26565b60405190808252806020026020018201604052801561309457816020015b6130816040518060a001604052805f8152602001606081526020015f81526020015f6001600160a01b031681526020015f151581525090565b8152602001906001900390816130485790505b5092505f5b818110156131ce575f876130ad8389614b46565b815481106130bd576130bd614afa565b905f5260205f20015490505f60085f8381526020019081526020015f2090506040518060a001604052808381526020018260010180546130fc90614b0e565b80601f016020809104026020016040519081016040528092919081815260200182805461312890614b0e565b80156131735780601f1061314a57610100808354040283529160200191613173565b820191905f5260205f20905b81548152906001019060200180831161315657829003601f168201915b50505091835250506004830154602082015282546001600160a01b03166040820152600583015460ff16151560609091015286518790859081106131b9576131b9614afa565b60209081029190910101525050600101613099565b5050935093915050565b604080516001600160a01b03851660208201525f9182910160408051601f198184030181528282528051602091820120908301520160408051601f19818403018152919052805160209091012090505f5b838110156132b9575f85858381811061324457613244614afa565b905060200201359050808310613283576040805160208101839052908101849052606001604051602081830303815290604052805190602001206132ae565b6040805160208101859052908101829052606001604051602081830303815290604052805190602001205b925050600101613229565b50909414949350505050565b365f5f375f5f365f845af43d5f5f3e8080156132df573d5ff35b3d5ffd5b5f848152601d60205260408120546001600160a01b03168015801590613375575060405163db3ebef160e01b81526001600160a01b0386811660048301526024820188905282169063db3ebef190604401602060405180830381865afa15801561334f573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906133739190614bc1565b155b15613383575f9150506115f6565b5f868152601c60205260409020548015806133a557506133a5818787876131d8565b979650505050505050565b5f8181526004602052604081205463ffffffff1680156133d057806112b7565b6003546601000000000000900463ffffffff169392505050565b5f606483111561343c5760405162461bcd60e51b815260206004820152600e60248201527f5061676520746f6f206c6172676500000000000000000000000000000000000060448201526064016111ae565b81841061344a57505f6112b7565b826134558584614ae7565b1061346057826112b4565b6112b48483614ae7565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700805473ffffffffffffffffffffffffffffffffffffffff199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b5f5f8551116135a45760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016111ae565b6064855111156135f65760405162461bcd60e51b815260206004820152601060248201527f5375626a65637420746f6f206c6f6e670000000000000000000000000000000060448201526064016111ae565b81158061360257508282115b61364e5760405162461bcd60e51b815260206004820152601060248201527f496e76616c6964207363686564756c650000000000000000000000000000000060448201526064016111ae565b5083516020808601919091205f8181526005909252604090912054156136b65760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420616c7265616479207265676973746572656400000000000060448201526064016111ae565b60068054600180820183557ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f90910183905590546040805160c08101825282815260208082018a81528284018a905260608301899052608083018890525f60a084018190528781526005909252929020815181559151929390929082019061373e9082614c27565b50604082015160028201906137539082614c27565b50606082015181600301556080820151816004015560a0820151816005015f6101000a81548160ff021916908360038111156137915761379161455f565b021790555090505080827fed80254fdab29e52cd1356fffb3670c0f755e258b83cd3c02dae8c1984c673ed886040516137ca9190614ce1565b60405180910390a350949350505050565b5f6137e68383613926565b5090919050565b6001600160a01b0382165f908152600b60209081526040808320848452825280832054835260089091528120600581015460ff168015613839575080546001600160a01b038581169116145b80156115f6575082816001016040516138529190614cf3565b604051809103902014949350505050565b5f6001600583015460ff16600381111561387f5761387f61455f565b148015613890575081600301544210155b801561136657506004820154158061136657505060040154421090565b5f818152603560205260408120815b815481101561391c575f60335f8484815481106138db576138db614afa565b905f5260205f20015481526020019081526020015f20549050805f141580156139045750804210155b1561391357505f949350505050565b506001016138bc565b5060019392505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015613994575f5ffd5b505af115801561195a573d5f5f3e3d5ffd5b6040518061010001604052806008906020820280368337509192915050565b6040518060c001604052805f815260200160608152602001606081526020015f81526020015f81526020015f6003811115613a0257613a0261455f565b905290565b604051806101400160405280600a906020820280368337509192915050565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f191681016001600160401b0381118282101715613a6257613a62613a26565b604052919050565b5f82601f830112613a79575f5ffd5b81356001600160401b03811115613a9257613a92613a26565b613aa5601f8201601f1916602001613a3a565b818152846020838601011115613ab9575f5ffd5b816020850160208301375f918101602001919091529392505050565b5f5f60408385031215613ae6575f5ffd5b82356001600160401b03811115613afb575f5ffd5b613b0785828601613a6a565b95602094909401359450505050565b5f5f5f60608486031215613b28575f5ffd5b83356001600160401b03811115613b3d575f5ffd5b613b4986828701613a6a565b9660208601359650604090950135949350505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b5f604082016040835280855180835260608501915060608160051b8601019250602087015f5b82811015613c2457605f19878603018452815180518652602081015160a06020880152613be360a0880182613b5f565b604083810151908901526060808401516001600160a01b03169089015260809283015115159290970191909152506020938401939190910190600101613bb3565b505050506020929092019290925292915050565b5f60208284031215613c48575f5ffd5b81356001600160401b03811115613c5d575f5ffd5b6115f684828501613a6a565b80356001600160a01b0381168114613c7f575f5ffd5b919050565b5f5f83601f840112613c94575f5ffd5b5081356001600160401b03811115613caa575f5ffd5b6020830191508360208260051b8501011115613cc4575f5ffd5b9250929050565b5f5f5f60408486031215613cdd575f5ffd5b613ce684613c69565b925060208401356001600160401b03811115613d00575f5ffd5b613d0c86828701613c84565b9497909650939450505050565b5f5f60208385031215613d2a575f5ffd5b82356001600160401b03811115613d3f575f5ffd5b613d4b85828601613c84565b90969095509350505050565b5f5f83601f840112613d67575f5ffd5b5081356001600160401b03811115613d7d575f5ffd5b602083019150836020828501011115613cc4575f5ffd5b803563ffffffff81168114613c7f575f5ffd5b5f5f5f60408486031215613db9575f5ffd5b83356001600160401b03811115613dce575f5ffd5b613dda86828701613d57565b9094509250613ded905060208501613d94565b90509250925092565b5f5f60408385031215613e07575f5ffd5b50508035926020909101359150565b5f5f5f5f5f5f60808789031215613e2b575f5ffd5b86356001600160401b03811115613e40575f5ffd5b613e4c89828a01613d57565b90975095505060208701356001600160401b03811115613e6a575f5ffd5b613e7689828a01613d57565b979a9699509760408101359660609091013595509350505050565b5f60208284031215613ea1575f5ffd5b5035919050565b801515811461148d575f5ffd5b5f60208284031215613ec5575f5ffd5b81356112b781613ea8565b5f5f5f60608486031215613ee2575f5ffd5b613eeb84613c69565b95602085013595506040909401359392505050565b5f5f60408385031215613f11575f5ffd5b82359150613f2160208401613c69565b90509250929050565b5f5f60208385031215613f3b575f5ffd5b82356001600160401b03811115613f50575f5ffd5b613d4b85828601613d57565b5f60208284031215613f6c575f5ffd5b6112b782613c69565b5f5f5f5f60608587031215613f88575f5ffd5b84356001600160401b03811115613f9d575f5ffd5b613fa987828801613a6a565b945050613fb860208601613c69565b925060408501356001600160401b03811115613fd2575f5ffd5b613fde87828801613c84565b95989497509550505050565b5f82825180855260208501945060208160051b830101602085015f5b8381101561403857601f19858403018852614022838351613b5f565b6020988901989093509190910190600101614006565b50909695505050505050565b604081525f6140566040830185613b5f565b8281036020840152611a5f8185613fea565b805f5b600881101561409057815163ffffffff1684526020938401939091019060010161406b565b50505050565b61022081016140a58286614068565b6140b3610100830185614068565b82610200830152949350505050565b5f5f5f5f5f5f5f6080888a0312156140d8575f5ffd5b87356001600160401b038111156140ed575f5ffd5b6140f98a828b01613d57565b9098509650506020880135945060408801356001600160401b0381111561411e575f5ffd5b61412a8a828b01613d57565b90955093505060608801356001600160401b03811115614148575f5ffd5b6141548a828b01613d57565b989b979a50959850939692959293505050565b5f5f5f5f5f5f5f5f5f5f5f60e08c8e031215614181575f5ffd5b61418a8c613c69565b9a5060208c0135995060408c0135985060608c01356001600160401b038111156141b2575f5ffd5b6141be8e828f01613d57565b90995097505060808c01356001600160401b038111156141dc575f5ffd5b6141e88e828f01613d57565b90975095505060a08c01356001600160401b03811115614206575f5ffd5b6142128e828f01613c84565b90955093505060c08c01356001600160401b03811115614230575f5ffd5b61423c8e828f01613d57565b915080935050809150509295989b509295989b9093969950565b5f5f5f5f60408587031215614269575f5ffd5b84356001600160401b0381111561427e575f5ffd5b61428a87828801613d57565b90955093505060208501356001600160401b03811115613fd2575f5ffd5b5f5f604083850312156142b9575f5ffd5b6142c283613c69565b946020939093013593505050565b5f5f5f5f5f606086880312156142e4575f5ffd5b8535945060208601356001600160401b03811115614300575f5ffd5b61430c88828901613d57565b90955093505060408601356001600160401b0381111561432a575f5ffd5b61433688828901613d57565b969995985093965092949392505050565b602081525f6112b76020830184613fea565b5f5f5f5f5f5f5f6080888a03121561436f575f5ffd5b8735965060208801356001600160401b0381111561438b575f5ffd5b6143978a828b01613c84565b90975095505060408801356001600160401b038111156143b5575f5ffd5b6143c18a828b01613d57565b90955093505060608801356001600160401b038111156143df575f5ffd5b6141548a828b01613c84565b5f5f5f5f5f5f5f5f5f5f5f60e08c8e031215614405575f5ffd5b61440e8c613c69565b9a5060208c0135995060408c01356001600160401b0381111561442f575f5ffd5b61443b8e828f01613d57565b909a5098505060608c01356001600160401b03811115614459575f5ffd5b6144658e828f01613d57565b90985096505060808c0135945060a08c01356001600160401b0381111561448a575f5ffd5b6144968e828f01613d57565b90955093505060c08c01356001600160401b038111156144b4575f5ffd5b61423c8e828f01613c84565b5f5f5f604084860312156144d2575f5ffd5b83356001600160401b038111156144e7575f5ffd5b6144f386828701613d57565b90945092505060208401356004811061450a575f5ffd5b809150509250925092565b5f5f60408385031215614526575f5ffd5b61452f83613c69565b915060208301356001600160401b03811115614549575f5ffd5b61455585828601613a6a565b9150509250929050565b634e487b7160e01b5f52602160045260245ffd5b6004811061458f57634e487b7160e01b5f52602160045260245ffd5b9052565b5f604082016040835280855180835260608501915060608160051b8601019250602087015f5b82811015613c2457605f19878603018452815180518652602081015160c060208801526145e960c0880182613b5f565b9050604082015187820360408901526146028282613b5f565b915050606082015160608801526080820151608088015260a0820151915061462d60a0880183614573565b95505060209384019391909101906001016145b9565b608081525f6146556080830187613b5f565b6020830195909552506001600160a01b039290921660408301521515606090910152919050565b604081525f61468e6040830185613fea565b90508260208301529392505050565b5f5f5f5f5f5f5f5f60e0898b0312156146b4575f5ffd5b6146bd89613c69565b97506146cb60208a01613d94565b96506146d960408a01613d94565b95506146e760608a01613d94565b945060808901356001600160401b03811115614701575f5ffd5b61470d8b828c01613c84565b999c989b5096999598969760a08701359660c0013595509350505050565b5f5f5f6040848603121561473d575f5ffd5b83356001600160401b03811115614752575f5ffd5b61475e86828701613d57565b909790965060209590950135949350505050565b5f5f60408385031215614783575f5ffd5b61478c83613c69565b915060208301356001600160401b038111156147a6575f5ffd5b8301601f810185136147b6575f5ffd5b80356001600160401b038111156147cf576147cf613a26565b8060051b6147df60208201613a3a565b918252602081840181019290810190888411156147fa575f5ffd5b6020850192505b8383101561483f5782356001600160401b0381111561481e575f5ffd5b61482d8a602083890101613a6a565b83525060209283019290910190614801565b80955050505050509250929050565b610180810181855f5b600a81101561487c57815163ffffffff16835260209283019290910190600101614857565b50505063ffffffff939093166101408201526101600152919050565b5f5f5f5f5f5f5f6080888a0312156148ae575f5ffd5b8735965060208801356001600160401b038111156148ca575f5ffd5b6143978a828b01613d57565b5f5f5f5f5f5f5f5f60a0898b0312156148ed575f5ffd5b883597506020890135965060408901356001600160401b03811115614910575f5ffd5b61491c8b828c01613d57565b90975095505060608901356001600160401b0381111561493a575f5ffd5b6149468b828c01613d57565b90955093505060808901356001600160401b03811115614964575f5ffd5b6149708b828c01613c84565b999c989b5096995094979396929594505050565b5f5f5f60408486031215614996575f5ffd5b83356001600160401b038111156149ab575f5ffd5b6149b786828701613d57565b9094509250613ded905060208501613c69565b5f5f5f5f5f5f5f5f5f5f5f60e08c8e0312156149e4575f5ffd5b6149ed8c613c69565b9a5060208c01356001600160401b03811115614a07575f5ffd5b614a138e828f01613d57565b909b5099505060408c0135975060608c01356001600160401b03811115614a38575f5ffd5b614a448e828f01613d57565b90985096505060808c01356001600160401b03811115614a62575f5ffd5b614a6e8e828f01613d57565b90965094505060a08c0135925060c08c01356001600160401b03811115614230575f5ffd5b60a081525f614aa560a0830188613b5f565b8281036020840152614ab78188613b5f565b9150508460408301528360608301526121b96080830184614573565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561136657611366614ad3565b634e487b7160e01b5f52603260045260245ffd5b600181811c90821680614b2257607f821691505b602082108103614b4057634e487b7160e01b5f52602260045260245ffd5b50919050565b8082018082111561136657611366614ad3565b5f5f8335601e19843603018112614b6e575f5ffd5b8301803591506001600160401b03821115614b87575f5ffd5b602001915036819003821315613cc4575f5ffd5b602081016113668284614573565b5f60018201614bba57614bba614ad3565b5060010190565b5f60208284031215614bd1575f5ffd5b81516112b781613ea8565b601f82111561131457805f5260205f20601f840160051c81016020851015614c015750805b601f840160051c820191505b81811015614c20575f8155600101614c0d565b5050505050565b81516001600160401b03811115614c4057614c40613a26565b614c5481614c4e8454614b0e565b84614bdc565b6020601f821160018114614c86575f8315614c6f5750848201515b5f19600385901b1c1916600184901b178455614c20565b5f84815260208120601f198516915b82811015614cb55787850151825560209485019460019092019101614c95565b5084821015614cd257868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b602081525f6112b76020830184613b5f565b5f5f8354614d0081614b0e565b600182168015614d175760018114614d2c57614d59565b60ff1983168652811515820286019350614d59565b865f5260205f205f5b83811015614d5157815488820152600190910190602001614d35565b505081860193505b50919594505050505056fea164736f6c634300081b000a";
 
 type EncryptedRatingSystemConstructorParams =
   | [signer?: Signer]
@@ -689,12 +3590,38 @@ export class EncryptedRatingSystem__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
+    defaultMinRespondents_: BigNumberish,
+    globalMinRespondents_: BigNumberish,
+    statsModule_: AddressLike,
+    adminModule_: AddressLike,
+    submissionModule_: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(
+      defaultMinRespondents_,
+      globalMinRespondents_,
+      statsModule_,
+      adminModule_,
+      submissionModule_,
+      overrides || {}
+    );
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    defaultMinRespondents_: BigNumberish,
+    globalMinRespondents_: BigNumberish,
+    statsModule_: AddressLike,
+    adminModule_: AddressLike,
+    submissionModule_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      defaultMinRespondents_,
+      globalMinRespondents_,
+      statsModule_,
+      adminModule_,
+      submissionModule_,
+      overrides || {}
+    ) as Promise<
       EncryptedRatingSystem & {
         deploymentTransaction(): ContractTransactionResponse;
       }
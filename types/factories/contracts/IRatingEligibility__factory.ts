@@ -0,0 +1,49 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IRatingEligibility,
+  IRatingEligibilityInterface,
+} from "../../contracts/IRatingEligibility";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+    ],
+    name: "isEligible",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IRatingEligibility__factory {
+  static readonly abi = _abi;
+  static createInterface(): IRatingEligibilityInterface {
+    return new Interface(_abi) as IRatingEligibilityInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IRatingEligibility {
+    return new Contract(address, _abi, runner) as unknown as IRatingEligibility;
+  }
+}
@@ -0,0 +1,1779 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RatingAdminModule,
+  RatingAdminModuleInterface,
+} from "../../contracts/RatingAdminModule";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "AlertThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalAverage",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "subjectHashes",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "averages",
+        type: "uint32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "counts",
+        type: "uint32[]",
+      },
+    ],
+    name: "AllStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "AllStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "AnonymousMembersRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "AnonymousModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AnonymousRatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "questionCount",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignDeadlineUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "respondent",
+        type: "address",
+      },
+    ],
+    name: "CampaignSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "DecryptionAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "EligibilityModuleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "EligibilityRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "GlobalStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    name: "NoiseScaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "PrivateCountsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "rankingId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "RankingPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "RankingRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "RankingWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "averages",
+        type: "uint32[8]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "counts",
+        type: "uint32[8]",
+      },
+    ],
+    name: "SegmentStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SegmentStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+    ],
+    name: "SegmentsConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "below",
+        type: "bool",
+      },
+    ],
+    name: "SubjectBelowThreshold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[10]",
+        name: "buckets",
+        type: "uint32[10]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectHistogramPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectMinRespondentsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "SubjectRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "SubjectStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ANONYMOUS_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CAMPAIGN_QUESTIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NOISE_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANKING_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SEGMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MODERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NOISE_BUDGET",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SQUARE_NOISE_FACTOR",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATS_PRECISION",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUBMIT_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPDATE_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMembersRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMode",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "questions",
+        type: "string[]",
+      },
+    ],
+    name: "createCampaign",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "globalMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "privateCounts",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ratingScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "registerSubject",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "setAlertThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setAnonymousMembersRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setAnonymousMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "setCampaignDeadline",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setCampaignEligibilityRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "setEligibilityModule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setEligibilityRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setPrivateCounts",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+    ],
+    name: "setSegments",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "setSubjectMinRespondents",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    name: "setSubjectNoiseScale",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "setSubjectStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "updateSubject",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b612f94806101975f395ff3fe608060405234801561000f575f5ffd5b5060043610610330575f3560e01c80637d5c0279116101b3578063bb0e4ea2116100f3578063da1f12ab1161009e578063e67097e411610079578063e67097e4146106ca578063ec0e2bf2146106d2578063f161bb2e146106e5578063f2fde38b146106ed575f5ffd5b8063da1f12ab1461069c578063e1f86609146106a4578063e30c3978146106b7575f5ffd5b8063d547741f116100ce578063d547741f1461065c578063d79947991461066f578063d91370d114610689575f5ffd5b8063bb0e4ea214610634578063c2e97ed41461063c578063cac64aef1461064f575f5ffd5b806391d148541161015e578063a6fe29ab11610139578063a6fe29ab146105f3578063ac73995e146105fb578063b02128a914610603578063ba288cee14610621575f5ffd5b806391d14854146105c557806394e113ea146105d8578063a6066966146105e0575f5ffd5b80638cbc11471161018e5780638cbc11471461057f5780638d66ac18146105885780638da5cb5b1461059b575f5ffd5b80637d5c0279146105455780637ecebe00146105585780638456cb5914610577575f5ffd5b80633f4ba83a1161027e578063644ed82a116102295780637391036c116102045780637391036c146104fa57806375b238fc14610502578063797669c91461051657806379ba50971461053d575f5ffd5b8063644ed82a146104ad57806364bce0a4146104c05780636e1d616e146104d3575f5ffd5b806355e885a41161025957806355e885a414610471578063588e85c9146104985780635c975abb146104a0575f5ffd5b80633f4ba83a1461043757806348f4da201461043f5780635539069614610447575f5ffd5b806325072caf116102de5780632f2ff15d116102b95780632f2ff15d1461040857806335ab904c1461041b578063398ebb2b14610424575f5ffd5b806325072caf146103bb57806325330b23146103e2578063292930ae146103f5575f5ffd5b8063198aabc01161030e578063198aabc0146103935780631aefc9cb146103a85780631e0598951461038b575f5ffd5b8063067a8ff9146103345780630da2cf1214610356578063193a47a71461038b575b5f5ffd5b601a546103419060ff1681565b60405190151581526020015b60405180910390f35b61037d7f44784a982bb4da9f8a6809d66c616d065064f4c1e9e4cbc41ed01e24babd8d8281565b60405190815260200161034d565b61037d600a81565b6103a66103a13660046126fc565b610700565b005b6103a66103b6366004612753565b610877565b61037d7f4a6ecb79cd81699e4038b7cb505bbec6e129a8441f528a3dea2b5dc98f42099481565b6103a66103f0366004612773565b6109c7565b6103a66104033660046127e7565b610b8a565b6103a6610416366004612828565b610c74565b61037d60365481565b6103a6610432366004612753565b610e49565b6103a6610f6c565b61037d606481565b60035461045c90610100900463ffffffff1681565b60405163ffffffff909116815260200161034d565b61037d7f070dee802a048f2ebd9cd092351d66396d4e4854aeed2aea7ad7359cccc5647d81565b61045c600481565b6003546103419060ff1681565b61037d6104bb366004612852565b611046565b6103a66104ce3660046127e7565b61138c565b61037d7f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b61045c606481565b61037d5f516020612f685f395f51905f5281565b61037d7f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f81565b6103a661146e565b6103a66105533660046126fc565b61152b565b61037d61056636600461294b565b60196020525f908152604090205481565b6103a6611681565b61045c61040081565b6103a6610596366004612964565b61175f565b5f546105ad906001600160a01b031681565b6040516001600160a01b03909116815260200161034d565b6103416105d3366004612828565b6117e5565b61045c600a81565b6103a66105ee36600461297b565b61182b565b61045c601081565b61037d600581565b60035461045c906a0100000000000000000000900463ffffffff1681565b61037d61062f366004612773565b6119ca565b61045c600181565b6103a661064a3660046129c2565b611a45565b602c546103419060ff1681565b6103a661066a366004612828565b611b00565b60035461045c906601000000000000900463ffffffff1681565b6103a66106973660046126fc565b611c21565b61271161037d565b6103a66106b2366004612a04565b611e6f565b6001546105ad906001600160a01b031681565b61037d600681565b6103a66106e0366004612a46565b611fee565b61037d600881565b6103a66106fb36600461294b565b6121f6565b5f516020612f685f395f51905f5261071881336117e5565b6107565760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f5260448201526064015b60405180910390fd5b5f8351116107a65760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d707479000000000000000000604482015260640161074d565b6107b26064600a612acb565b63ffffffff168263ffffffff16111561080d5760405162461bcd60e51b815260206004820181905260248201527f5468726573686f6c642061626f76652074686520726174696e67207363616c65604482015260640161074d565b82516020808501919091205f81815260278352604090819020805463ffffffff191663ffffffff87169081179091559051908152909182917f1b4cb7305148a0d61918d8b28edd06628564491d9c34f50346d978160ec021a791015b60405180910390a250505050565b5f516020612f685f395f51905f5261088f81336117e5565b6108c85760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b5f831180156108d957506007548311155b6109185760405162461bcd60e51b815260206004820152601060248201526f2ab735b737bbb71031b0b6b830b4b3b760811b604482015260640161074d565b5f8381526034602052604090205460ff16156109765760405162461bcd60e51b815260206004820152601960248201527f526573756c747320616c72656164792072657175657374656400000000000000604482015260640161074d565b5f83815260336020526040908190208390555183907fe5898d960782de6aac74417a6fb84cd84c42a2634c5cad59f6366985033fefa0906109ba9085815260200190565b60405180910390a2505050565b5f516020612f685f395f51905f526109df81336117e5565b610a185760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b84516020808701919091205f8181526005909252604082208054919290919003610a765760405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881cdd589a9958dd608a1b604482015260640161074d565b6003600582015460ff166003811115610a9157610a91612af1565b03610ade5760405162461bcd60e51b815260206004820152601360248201527f5375626a65637420697320617263686976656400000000000000000000000000604482015260640161074d565b831580610aea57508484115b610b295760405162461bcd60e51b815260206004820152601060248201526f496e76616c6964207363686564756c6560801b604482015260640161074d565b60028101610b378782612b86565b506003810185905560048101849055604080518681526020810186905283917fe2e663cce84b89da0aa9bc3b8a63d21764b0235fe802a400483164fb8954f7e7910160405180910390a250505050505050565b5f516020612f685f395f51905f52610ba281336117e5565b610bdb5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b60095415610c2b5760405162461bcd60e51b815260206004820152601960248201527f526174696e677320616c7265616479207375626d697474656400000000000000604482015260640161074d565b601a805460ff19168315159081179091556040519081527ff1a0d1a22dcfecbf14dd69ed0f890a1d486568b1818b3c1a1ce93dcf725623c4906020015b60405180910390a15050565b5f546001600160a01b03163314610ccd5760405162461bcd60e51b815260206004820152601760248201527f43616c6c6572206973206e6f7420746865206f776e6572000000000000000000604482015260640161074d565b5f516020612f685f395f51905f52821480610d0757507f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f82145b80610d3157507f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f582145b610d7d5760405162461bcd60e51b815260206004820152600c60248201527f556e6b6e6f776e20726f6c650000000000000000000000000000000000000000604482015260640161074d565b5f8281526002602090815260408083206001600160a01b038516845290915290205460ff1615610def5760405162461bcd60e51b815260206004820152601460248201527f526f6c6520616c7265616479206772616e746564000000000000000000000000604482015260640161074d565b5f8281526002602090815260408083206001600160a01b0385168085529252808320805460ff1916600117905551339285917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a45050565b5f516020612f685f395f51905f52610e6181336117e5565b610e9a5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b5f83118015610eab57506007548311155b610eea5760405162461bcd60e51b815260206004820152601060248201526f2ab735b737bbb71031b0b6b830b4b3b760811b604482015260640161074d565b5f6007610ef8600186612c41565b81548110610f0857610f08612c54565b5f9182526020822060016002909202010191505b8154811015610f6557610f5d828281548110610f3a57610f3a612c54565b905f5260205f2001604051610f4f9190612c68565b6040518091039020856122ac565b600101610f1c565b5050505050565b5f516020612f685f395f51905f52610f8481336117e5565b610fbd5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b60035460ff1661100f5760405162461bcd60e51b815260206004820152601660248201527f436f6e7472616374206973206e6f742070617573656400000000000000000000604482015260640161074d565b6003805460ff1916905560405133907f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa905f90a250565b5f5f516020612f685f395f51905f5261105f81336117e5565b6110985760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b5f8451116110e85760405162461bcd60e51b815260206004820152601d60248201527f43616d706169676e206e616d652063616e6e6f7420626520656d707479000000604482015260640161074d565b5f83511180156110fa57506006835111155b6111465760405162461bcd60e51b815260206004820152601660248201527f496e76616c6964207175657374696f6e20636f756e7400000000000000000000604482015260640161074d565b5f5b835181101561126f5760055f85838151811061116657611166612c54565b60200260200101518051906020012081526020019081526020015f205f01545f036111c55760405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881cdd589a9958dd608a1b604482015260640161074d565b5f5b81811015611266578481815181106111e1576111e1612c54565b60200260200101518051906020012085838151811061120257611202612c54565b6020026020010151805190602001200361125e5760405162461bcd60e51b815260206004820152601260248201527f4475706c6963617465207175657374696f6e0000000000000000000000000000604482015260640161074d565b6001016111c7565b50600101611148565b506040805180820190915284815260208101849052600780546001810182555f91909152815160029091027fa66cc928b5edb82af9bd49922954155ab7b0942694bea4ce44661d9a8736c688019081906112c99082612b86565b5060208281015180516112e29260018501920190612577565b505060075492505f90505b83518110156113495760355f85838151811061130b5761130b612c54565b6020908102919091018101518051908201208252818101929092526040015f90812080546001818101835591835292909120909101849055016112ed565b50817f2170fee8e65b01596ec56f4b4df98e903e2baf55bb74a163480d31de5ce8302585855160405161137d929190612d07565b60405180910390a25092915050565b5f516020612f685f395f51905f526113a481336117e5565b6113dd5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b6009541561142d5760405162461bcd60e51b815260206004820152601960248201527f526174696e677320616c7265616479207375626d697474656400000000000000604482015260640161074d565b602c805460ff19168315159081179091556040519081527fb71fa237e2ef61d0812f5eedbd811e0157ea547aa651a26a2cb60664ca25993a90602001610c68565b6001546001600160a01b031633146114c85760405162461bcd60e51b815260206004820152601f60248201527f43616c6c6572206973206e6f74207468652070656e64696e67206f776e657200604482015260640161074d565b5f805460405133926001600160a01b03909216917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e091a35f805473ffffffffffffffffffffffffffffffffffffffff199081163317909155600180549091169055565b5f516020612f685f395f51905f5261154381336117e5565b61157c5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b5f8351116115cc5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d707479000000000000000000604482015260640161074d565b5f8263ffffffff16116116215760405162461bcd60e51b815260206004820152601a60248201527f5468726573686f6c64206d75737420626520706f736974697665000000000000604482015260640161074d565b82516020808501919091205f81815260048352604090819020805463ffffffff191663ffffffff87169081179091559051908152909182917f24ab5221d07aa07a15741349ddb8ea9e25ca94ec59cfd94601276fc82271598f9101610869565b5f516020612f685f395f51905f5261169981336117e5565b6116d25760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b60035460ff16156117255760405162461bcd60e51b815260206004820152601260248201527f436f6e7472616374206973207061757365640000000000000000000000000000604482015260640161074d565b6003805460ff1916600117905560405133907f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258905f90a250565b5f516020612f685f395f51905f5261177781336117e5565b6117b05760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b60368290556040518281527f9e8116ed1e4c92433152284884bdb3b3438886ac283e153a8bfbd1bd3099a8ed90602001610c68565b5f80546001600160a01b038381169116148061182257505f8381526002602090815260408083206001600160a01b038616845290915290205460ff165b90505b92915050565b7f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f61185681336117e5565b61188f5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b82516020808501919091205f81815260059092526040822080549192909190036118ed5760405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881cdd589a9958dd608a1b604482015260640161074d565b600581015460ff16600381111561190657611906612af1565b84600381111561191857611918612af1565b116119655760405162461bcd60e51b815260206004820152601960248201527f496e76616c696420737461747573207472616e736974696f6e00000000000000604482015260640161074d565b60058101805485919060ff1916600183600381111561198657611986612af1565b0217905550817f152c5191cf528fdde82552b936615f9f513b62a79d713da584b56100813c0293856040516119bb9190612d28565b60405180910390a25050505050565b5f5f516020612f685f395f51905f526119e381336117e5565b611a1c5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b60055f611a2b888888886122fc565b815260208101919091526040015f20549695505050505050565b5f516020612f685f395f51905f52611a5d81336117e5565b611a965760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b82516020808501919091205f81815260059092526040822054909103611af05760405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881cdd589a9958dd608a1b604482015260640161074d565b611afa81846122ac565b50505050565b5f546001600160a01b03163314611b595760405162461bcd60e51b815260206004820152601760248201527f43616c6c6572206973206e6f7420746865206f776e6572000000000000000000604482015260640161074d565b5f8281526002602090815260408083206001600160a01b038516845290915290205460ff16611bca5760405162461bcd60e51b815260206004820152601060248201527f526f6c65206e6f74206772616e74656400000000000000000000000000000000604482015260640161074d565b5f8281526002602090815260408083206001600160a01b0385168085529252808320805460ff1916905551339285917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a45050565b5f516020612f685f395f51905f52611c3981336117e5565b611c725760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b5f835111611cc25760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d707479000000000000000000604482015260640161074d565b61040063ffffffff83161115611d1a5760405162461bcd60e51b815260206004820152601560248201527f4e6f697365207363616c6520746f6f206c617267650000000000000000000000604482015260640161074d565b63ffffffff82161580611d3e5750611d33600183612d4e565b821663ffffffff165f145b611d8a5760405162461bcd60e51b815260206004820152601e60248201527f4e6f697365207363616c65206e6f74206120706f776572206f662074776f0000604482015260640161074d565b82516020808501919091205f818152602e90925260409091205415611df15760405162461bcd60e51b815260206004820152601960248201527f526174696e677320616c7265616479207375626d697474656400000000000000604482015260640161074d565b5f818152602460205260409020805463ffffffff191663ffffffff8581169182179092556026549091161015611e37576026805463ffffffff191663ffffffff85161790555b60405163ffffffff8416815281907fab5210d94dae34dcc5639c2ae37e1228b4de2f39ef5103d86f465e7470e2e87290602001610869565b5f516020612f685f395f51905f52611e8781336117e5565b611ec05760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b82516020808501919091205f81815260059092526040822054909103611f1a5760405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881cdd589a9958dd608a1b604482015260640161074d565b6001600160a01b0383161580611f3957505f836001600160a01b03163b115b611f855760405162461bcd60e51b815260206004820152601860248201527f4d6f64756c65206973206e6f74206120636f6e74726163740000000000000000604482015260640161074d565b5f818152601d6020908152604091829020805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b038716908117909155915191825282917fb63dc156e7836ed9ba924a367cb1355389a86c7caa34055e2a0d72fb69d4c2859101610869565b5f516020612f685f395f51905f5261200681336117e5565b61203f5760405162461bcd60e51b815260206004820152601660248201525f516020612f485f395f51905f52604482015260640161074d565b6009541561208f5760405162461bcd60e51b815260206004820152601960248201527f526174696e677320616c7265616479207375626d697474656400000000000000604482015260640161074d565b60088211156120e05760405162461bcd60e51b815260206004820152601160248201527f546f6f206d616e79207365676d656e7473000000000000000000000000000000604482015260640161074d565b6120eb601e5f6125cb565b5f5b828110156121b7575f84848381811061210857612108612c54565b905060200281019061211a9190612d6a565b9050116121695760405162461bcd60e51b815260206004820152601760248201527f5365676d656e742063616e6e6f7420626520656d707479000000000000000000604482015260640161074d565b601e84848381811061217d5761217d612c54565b905060200281019061218f9190612d6a565b82546001810184555f9384526020909320909201916121ae9183612db4565b506001016120ed565b507fa596d675e5e8628e9aaad99e408dbcd5ec837e5dffa3b2978fe4a8ff4869e8ae83836040516121e9929190612e96565b60405180910390a1505050565b5f546001600160a01b0316331461224f5760405162461bcd60e51b815260206004820152601760248201527f43616c6c6572206973206e6f7420746865206f776e6572000000000000000000604482015260640161074d565b6001805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b038381169182179092555f8054604051929316917f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227009190a350565b5f828152601c6020526040908190208290555182907f7a534b4f673c7797300fc64fc90ee3bf17573a5cabaf6de76e6097fab042166a906122f09084815260200190565b60405180910390a25050565b5f5f85511161234d5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d707479000000000000000000604482015260640161074d565b60648551111561239f5760405162461bcd60e51b815260206004820152601060248201527f5375626a65637420746f6f206c6f6e6700000000000000000000000000000000604482015260640161074d565b8115806123ab57508282115b6123ea5760405162461bcd60e51b815260206004820152601060248201526f496e76616c6964207363686564756c6560801b604482015260640161074d565b5083516020808601919091205f8181526005909252604090912054156124525760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420616c72656164792072656769737465726564000000000000604482015260640161074d565b60068054600180820183557ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f90910183905590546040805160c08101825282815260208082018a81528284018a905260608301899052608083018890525f60a08401819052878152600590925292902081518155915192939092908201906124da9082612b86565b50604082015160028201906124ef9082612b86565b50606082015181600301556080820151816004015560a0820151816005015f6101000a81548160ff0219169083600381111561252d5761252d612af1565b021790555090505080827fed80254fdab29e52cd1356fffb3670c0f755e258b83cd3c02dae8c1984c673ed886040516125669190612f35565b60405180910390a350949350505050565b828054828255905f5260205f209081019282156125bb579160200282015b828111156125bb57825182906125ab9082612b86565b5091602001919060010190612595565b506125c79291506125e9565b5090565b5080545f8255905f5260205f20908101906125e691906125e9565b50565b808211156125c7575f6125fc8282612605565b506001016125e9565b50805461261190612b05565b5f825580601f10612620575050565b601f0160209004905f5260205f20908101906125e691905b808211156125c7575f8155600101612638565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f1916810167ffffffffffffffff811182821017156126885761268861264b565b604052919050565b5f82601f83011261269f575f5ffd5b813567ffffffffffffffff8111156126b9576126b961264b565b6126cc601f8201601f191660200161265f565b8181528460208386010111156126e0575f5ffd5b816020850160208301375f918101602001919091529392505050565b5f5f6040838503121561270d575f5ffd5b823567ffffffffffffffff811115612723575f5ffd5b61272f85828601612690565b925050602083013563ffffffff81168114612748575f5ffd5b809150509250929050565b5f5f60408385031215612764575f5ffd5b50508035926020909101359150565b5f5f5f5f60808587031215612786575f5ffd5b843567ffffffffffffffff81111561279c575f5ffd5b6127a887828801612690565b945050602085013567ffffffffffffffff8111156127c4575f5ffd5b6127d087828801612690565b949794965050505060408301359260600135919050565b5f602082840312156127f7575f5ffd5b81358015158114612806575f5ffd5b9392505050565b80356001600160a01b0381168114612823575f5ffd5b919050565b5f5f60408385031215612839575f5ffd5b823591506128496020840161280d565b90509250929050565b5f5f60408385031215612863575f5ffd5b823567ffffffffffffffff811115612879575f5ffd5b61288585828601612690565b925050602083013567ffffffffffffffff8111156128a1575f5ffd5b8301601f810185136128b1575f5ffd5b803567ffffffffffffffff8111156128cb576128cb61264b565b8060051b6128db6020820161265f565b918252602081840181019290810190888411156128f6575f5ffd5b6020850192505b8383101561293c57823567ffffffffffffffff81111561291b575f5ffd5b61292a8a602083890101612690565b835250602092830192909101906128fd565b80955050505050509250929050565b5f6020828403121561295b575f5ffd5b6118228261280d565b5f60208284031215612974575f5ffd5b5035919050565b5f5f6040838503121561298c575f5ffd5b823567ffffffffffffffff8111156129a2575f5ffd5b6129ae85828601612690565b925050602083013560048110612748575f5ffd5b5f5f604083850312156129d3575f5ffd5b823567ffffffffffffffff8111156129e9575f5ffd5b6129f585828601612690565b95602094909401359450505050565b5f5f60408385031215612a15575f5ffd5b823567ffffffffffffffff811115612a2b575f5ffd5b612a3785828601612690565b9250506128496020840161280d565b5f5f60208385031215612a57575f5ffd5b823567ffffffffffffffff811115612a6d575f5ffd5b8301601f81018513612a7d575f5ffd5b803567ffffffffffffffff811115612a93575f5ffd5b8560208260051b8401011115612aa7575f5ffd5b6020919091019590945092505050565b634e487b7160e01b5f52601160045260245ffd5b63ffffffff8181168382160290811690818114612aea57612aea612ab7565b5092915050565b634e487b7160e01b5f52602160045260245ffd5b600181811c90821680612b1957607f821691505b602082108103612b3757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f821115612b8157805f5260205f20601f840160051c81016020851015612b625750805b601f840160051c820191505b81811015610f65575f8155600101612b6e565b505050565b815167ffffffffffffffff811115612ba057612ba061264b565b612bb481612bae8454612b05565b84612b3d565b6020601f821160018114612be6575f8315612bcf5750848201515b5f19600385901b1c1916600184901b178455610f65565b5f84815260208120601f198516915b82811015612c155787850151825560209485019460019092019101612bf5565b5084821015612c3257868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8181038181111561182557611825612ab7565b634e487b7160e01b5f52603260045260245ffd5b5f5f8354612c7581612b05565b600182168015612c8c5760018114612ca157612cce565b60ff1983168652811515820286019350612cce565b865f5260205f205f5b83811015612cc657815488820152600190910190602001612caa565b505081860193505b509195945050505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b604081525f612d196040830185612cd9565b90508260208301529392505050565b6020810160048310612d4857634e487b7160e01b5f52602160045260245ffd5b91905290565b63ffffffff828116828216039081111561182557611825612ab7565b5f5f8335601e19843603018112612d7f575f5ffd5b83018035915067ffffffffffffffff821115612d99575f5ffd5b602001915036819003821315612dad575f5ffd5b9250929050565b67ffffffffffffffff831115612dcc57612dcc61264b565b612de083612dda8354612b05565b83612b3d565b5f601f841160018114612e11575f8515612dfa5750838201355b5f19600387901b1c1916600186901b178355610f65565b5f83815260208120601f198716915b82811015612e405786850135825560209485019460019092019101612e20565b5086821015612e5c575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b81835281816020850137505f828201602090810191909152601f909101601f19169091010190565b602080825281018290525f6040600584901b830181019083018583601e1936839003015b87821015612f2857868503603f190184528235818112612ed8575f5ffd5b890160208101903567ffffffffffffffff811115612ef4575f5ffd5b803603821315612f02575f5ffd5b612f0d878284612e6e565b96505050602083019250602084019350600182019150612eba565b5092979650505050505050565b602081525f6118226020830184612cd956fe43616c6c6572206973206d697373696e6720726f6c6500000000000000000000a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c634300081b000a";
+
+type RatingAdminModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RatingAdminModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RatingAdminModule__factory extends ContractFactory {
+  constructor(...args: RatingAdminModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RatingAdminModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RatingAdminModule__factory {
+    return super.connect(runner) as RatingAdminModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RatingAdminModuleInterface {
+    return new Interface(_abi) as RatingAdminModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RatingAdminModule {
+    return new Contract(address, _abi, runner) as unknown as RatingAdminModule;
+  }
+}
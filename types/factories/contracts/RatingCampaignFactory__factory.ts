@@ -0,0 +1,244 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RatingCampaignFactory,
+  RatingCampaignFactoryInterface,
+} from "../../contracts/RatingCampaignFactory";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "instanceId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "instance",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ratingScale",
+        type: "uint32",
+      },
+    ],
+    name: "RatingInstanceCreated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner_",
+        type: "address",
+      },
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+      {
+        internalType: "uint32",
+        name: "ratingScale",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "createRatingInstance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "instanceId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "instance",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "instanceId",
+        type: "uint256",
+      },
+    ],
+    name: "getInstance",
+    outputs: [
+      {
+        internalType: "address",
+        name: "instance",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getInstanceCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "implementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561000f575f5ffd5b50604051610ad3380380610ad383398101604081905261002e9161009c565b5f816001600160a01b03163b1161008b5760405162461bcd60e51b815260206004820181905260248201527f496d706c656d656e746174696f6e206973206e6f74206120636f6e7472616374604482015260640160405180910390fd5b6001600160a01b03166080526100c9565b5f602082840312156100ac575f5ffd5b81516001600160a01b03811681146100c2575f5ffd5b9392505050565b6080516109ec6100e75f395f81816053015261019b01526109ec5ff3fe608060405234801561000f575f5ffd5b506004361061004a575f3560e01c80635c60da1b1461004e578063ae34325c14610092578063e957f9f8146100a2578063ebd348de146100d2575b5f5ffd5b6100757f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b5f54604051908152602001610089565b6100b56100b03660046105d7565b6100f5565b604080519283526001600160a01b03909116602083015201610089565b6100e56100e03660046106b5565b61037c565b60405161008994939291906106cc565b5f80896101495760405162461bcd60e51b815260206004820152601d60248201527f43616d706169676e206e616d652063616e6e6f7420626520656d70747900000060448201526064015b60405180910390fd5b866101965760405162461bcd60e51b815260206004820152600b60248201527f4e6f207375626a656374730000000000000000000000000000000000000000006044820152606401610140565b6101bf7f00000000000000000000000000000000000000000000000000000000000000006104c8565b60405163304846d560e21b81529091506001600160a01b0382169063c1211b54906101fc908c90879081908c908f908f908e908e90600401610750565b5f604051808303815f87803b158015610213575f5ffd5b505af1158015610225573d5f5f3e3d5ffd5b505050505f6040518060800160405280836001600160a01b031681526020018b6001600160a01b031681526020018d8d8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201829052509385525050426020938401525083546001808201865594825290829020835160049092020180547fffffffffffffffffffffffff00000000000000000000000000000000000000009081166001600160a01b03938416178255928401519481018054909316949091169390931790556040810151909190600282019061030a90826108c2565b506060820151816003015550505f805490509150886001600160a01b0316816001600160a01b0316837fc6d56e63288fb1d4723d8ace723897c5e5c6b53c6f0de128d2daf7adf68367478e8e8b6040516103669392919061097d565b60405180910390a4995099975050505050505050565b5f5f60605f5f8511801561039157505f548511155b6103dd5760405162461bcd60e51b815260206004820152601060248201527f556e6b6e6f776e20696e7374616e6365000000000000000000000000000000006044820152606401610140565b5f806103ea6001886109a6565b815481106103fa576103fa6109cb565b5f91825260209091206004909102018054600182015460038301546002840180549495506001600160a01b03938416949390921692829061043a9061083e565b80601f01602080910402602001604051908101604052809291908181526020018280546104669061083e565b80156104b15780601f10610488576101008083540402835291602001916104b1565b820191905f5260205f20905b81548152906001019060200180831161049457829003601f168201915b505050505091509450945094509450509193509193565b5f763d602d80600a3d3981f3363d3d373d3d3d363d730000008260601b60e81c175f526e5af43d82803e903d91602b57fd5bf38260781b17602052603760095ff090506001600160a01b0381166105615760405162461bcd60e51b815260206004820152600c60248201527f436c6f6e65206661696c656400000000000000000000000000000000000000006044820152606401610140565b919050565b80356001600160a01b0381168114610561575f5ffd5b5f5f83601f84011261058c575f5ffd5b50813567ffffffffffffffff8111156105a3575f5ffd5b6020830191508360208260051b85010111156105bd575f5ffd5b9250929050565b803563ffffffff81168114610561575f5ffd5b5f5f5f5f5f5f5f5f5f60e08a8c0312156105ef575f5ffd5b893567ffffffffffffffff811115610605575f5ffd5b8a01601f81018c13610615575f5ffd5b803567ffffffffffffffff81111561062b575f5ffd5b8c602082840101111561063c575f5ffd5b60209182019a509850610650908b01610566565b965060408a013567ffffffffffffffff81111561066b575f5ffd5b6106778c828d0161057c565b909750955061068a905060608b016105c4565b935060808a0135925060a08a013591506106a660c08b016105c4565b90509295985092959850929598565b5f602082840312156106c5575f5ffd5b5035919050565b6001600160a01b03851681526001600160a01b0384166020820152608060408201525f8351806080840152806020860160a085015e5f60a0828501015260a0601f19601f83011684010191505082606083015295945050505050565b81835281816020850137505f828201602090810191909152601f909101601f19169091010190565b6001600160a01b038916815263ffffffff888116602083015287811660408301528616606082015260e06080820181905281018490525f610100600586901b830181019083018783601e1936839003015b8982101561080f5786850360ff1901845282358181126107bf575f5ffd5b8b0160208101903567ffffffffffffffff8111156107db575f5ffd5b8036038213156107e9575f5ffd5b6107f4878284610728565b965050506020830192506020840193506001820191506107a1565b5050505060a08301949094525060c001529695505050505050565b634e487b7160e01b5f52604160045260245ffd5b600181811c9082168061085257607f821691505b60208210810361087057634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156108bd57805f5260205f20601f840160051c8101602085101561089b5750805b601f840160051c820191505b818110156108ba575f81556001016108a7565b50505b505050565b815167ffffffffffffffff8111156108dc576108dc61082a565b6108f0816108ea845461083e565b84610876565b6020601f821160018114610922575f831561090b5750848201515b5f19600385901b1c1916600184901b1784556108ba565b5f84815260208120601f198516915b828110156109515787850151825560209485019460019092019101610931565b508482101561096e57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b604081525f610990604083018587610728565b905063ffffffff83166020830152949350505050565b818103818111156109c557634e487b7160e01b5f52601160045260245ffd5b92915050565b634e487b7160e01b5f52603260045260245ffdfea164736f6c634300081b000a";
+
+type RatingCampaignFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RatingCampaignFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RatingCampaignFactory__factory extends ContractFactory {
+  constructor(...args: RatingCampaignFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    implementation_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(implementation_, overrides || {});
+  }
+  override deploy(
+    implementation_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(implementation_, overrides || {}) as Promise<
+      RatingCampaignFactory & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): RatingCampaignFactory__factory {
+    return super.connect(runner) as RatingCampaignFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RatingCampaignFactoryInterface {
+    return new Interface(_abi) as RatingCampaignFactoryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RatingCampaignFactory {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as RatingCampaignFactory;
+  }
+}
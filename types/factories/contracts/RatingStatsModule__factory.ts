@@ -0,0 +1,1756 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RatingStatsModule,
+  RatingStatsModuleInterface,
+} from "../../contracts/RatingStatsModule";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "AlertThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalAverage",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "subjectHashes",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "averages",
+        type: "uint32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "counts",
+        type: "uint32[]",
+      },
+    ],
+    name: "AllStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "AllStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "AnonymousMembersRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "AnonymousModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AnonymousRatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "questionCount",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignDeadlineUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "respondent",
+        type: "address",
+      },
+    ],
+    name: "CampaignSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "DecryptionAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "EligibilityModuleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "EligibilityRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "GlobalStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    name: "NoiseScaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "PrivateCountsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "rankingId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "RankingPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "RankingRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "RankingWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "averages",
+        type: "uint32[8]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "counts",
+        type: "uint32[8]",
+      },
+    ],
+    name: "SegmentStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SegmentStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+    ],
+    name: "SegmentsConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "below",
+        type: "bool",
+      },
+    ],
+    name: "SubjectBelowThreshold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[10]",
+        name: "buckets",
+        type: "uint32[10]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectHistogramPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectMinRespondentsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "SubjectRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "SubjectStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ANONYMOUS_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CAMPAIGN_QUESTIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NOISE_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANKING_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SEGMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MODERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NOISE_BUDGET",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SQUARE_NOISE_FACTOR",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATS_PRECISION",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUBMIT_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPDATE_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "allStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMembersRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMode",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "globalMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "globalStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "privateCounts",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "rankingCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ratingScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "requestAllStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "requestCampaignResults",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestGlobalStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "requestRanking",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "requestSegmentStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "requestSubjectHistogram",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "requestSubjectStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "requestThresholdAlert",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "segmentStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "subjectHistogramCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "subjectStatsCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "thresholdAlertCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b615440806101975f395ff3fe608060405234801561000f575f5ffd5b50600436106102ee575f3560e01c80637ecebe0011610192578063b02128a9116100e8578063e30c397811610093578063f6ba85b71161006e578063f6ba85b71461063c578063f90bac421461064f578063fc4c2e5a14610662575f5ffd5b8063e30c397814610619578063e67097e41461062c578063f161bb2e14610634575f5ffd5b8063d560c65a116100c3578063d560c65a146105e4578063d7994799146105f7578063da1f12ab14610611575f5ffd5b8063b02128a9146105b1578063bb0e4ea2146105cf578063cac64aef146105d7575f5ffd5b80639971203f11610148578063a3da86fe11610123578063a3da86fe1461058e578063a6fe29ab146105a1578063ac73995e146105a9575f5ffd5b80639971203f146105555780639e2d9853146105685780639ec0a6741461057b575f5ffd5b80638da5cb5b116101785780638da5cb5b1461051057806391d148541461053a57806394e113ea1461054d575f5ffd5b80637ecebe00146104e85780638cbc114714610507575f5ffd5b806355e885a4116102475780636c36d897116101fd5780637391036c116101d85780637391036c1461049257806375b238fc1461049a578063797669c9146104c1575f5ffd5b80636c36d897146104455780636e1d616e1461045857806371fe5fae1461047f575f5ffd5b8063588e85c91161022d578063588e85c91461041d5780635c975abb146104255780636a423def14610432575f5ffd5b806355e885a4146103ee57806356aa80cc14610415575f5ffd5b806325072caf116102a757806348f4da201161028257806348f4da20146103a95780634da25ea9146103b157806355390696146103c4575f5ffd5b806325072caf1461036657806331c0402f1461038d57806335ab904c146103a0575f5ffd5b806315e098dd116102d757806315e098dd14610349578063193a47a71461035e5780631e0598951461035e575f5ffd5b8063067a8ff9146102f25780630da2cf1214610314575b5f5ffd5b601a546102ff9060ff1681565b60405190151581526020015b60405180910390f35b61033b7f44784a982bb4da9f8a6809d66c616d065064f4c1e9e4cbc41ed01e24babd8d8281565b60405190815260200161030b565b61035c610357366004614904565b610675565b005b61033b600a81565b61033b7f4a6ecb79cd81699e4038b7cb505bbec6e129a8441f528a3dea2b5dc98f42099481565b61035c61039b366004614a13565b610cd1565b61033b60365481565b61033b606481565b61035c6103bf366004614a13565b610fc8565b6003546103d990610100900463ffffffff1681565b60405163ffffffff909116815260200161030b565b61033b7f070dee802a048f2ebd9cd092351d66396d4e4854aeed2aea7ad7359cccc5647d81565b61035c611296565b6103d9600481565b6003546102ff9060ff1681565b6102ff610440366004614a76565b611322565b6102ff610453366004614a76565b61150f565b61033b7f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b6102ff61048d366004614a76565b611666565b6103d9606481565b61033b7fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177581565b61033b7f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f81565b61033b6104f6366004614af9565b60196020525f908152604090205481565b6103d961040081565b5f54610522906001600160a01b031681565b6040516001600160a01b03909116815260200161030b565b6102ff610548366004614b12565b6119c1565b6103d9600a81565b61035c610563366004614a13565b611a07565b6102ff610576366004614a76565b611af2565b61035c610589366004614904565b611cf5565b6102ff61059c366004614a76565b611f5a565b6103d9601081565b61033b600581565b6003546103d9906a0100000000000000000000900463ffffffff1681565b6103d9600181565b602c546102ff9060ff1681565b6102ff6105f2366004614a76565b6120de565b6003546103d9906601000000000000900463ffffffff1681565b61271161033b565b600154610522906001600160a01b031681565b61033b600681565b61033b600881565b6102ff61064a366004614a76565b61229b565b61035c61065d366004614b3c565b612487565b61035c610670366004614a13565b6126ec565b602c5460ff16156106c25760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064015b60405180910390fd5b80600281108015906106d5575060058111155b6107215760405162461bcd60e51b815260206004820152601560248201527f496e76616c6964207375626a65637420636f756e74000000000000000000000060448201526064016106b9565b5f8167ffffffffffffffff81111561073b5761073b614975565b604051908082528060200260200182016040528015610764578160200160208202803683370190505b5090505f8267ffffffffffffffff81111561078157610781614975565b6040519080825280602002602001820160405280156107aa578160200160208202803683370190505b5090505f6107b86001612a49565b90505f5b84811015610a4b575f8787838181106107d7576107d7614b53565b90506020028101906107e99190614b67565b6040516107f7929190614bb1565b60405190819003902090505f5b8281101561089c578189898381811061081f5761081f614b53565b90506020028101906108319190614b67565b60405161083f929190614bb1565b6040518091039020036108945760405162461bcd60e51b815260206004820152601160248201527f4475706c6963617465207375626a65637400000000000000000000000000000060448201526064016106b9565b600101610804565b505f8181526024602052604090205463ffffffff16156108fe5760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420726573756c747320617265206e6f6973656400000000000060448201526064016106b9565b5f818152600e602052604090205463ffffffff166109595760405162461bcd60e51b8152602060048201526018602482015277139bc819185d1848199bdc881d1a1a5cc81cdd589a9958dd60421b60448201526064016106b9565b61096281612a64565b5f828152600e602052604090205463ffffffff918216911610156109c15760405162461bcd60e51b81526020600482015260166024820152754e6f7420656e6f75676820726573706f6e64656e747360501b60448201526064016106b9565b5f818152600c60205260409020546109d890612a9e565b8583815181106109ea576109ea614b53565b602002602001018181525050610a10602e5f8381526020019081526020015f2054612a9e565b848381518110610a2257610a22614b53565b602002602001018181525050610a4083610a3b83612aaa565b612aec565b9250506001016107bc565b505f5b84811015610aa157610a99878783818110610a6b57610a6b614b53565b9050602002810190610a7d9190614b67565b604051610a8b929190614bb1565b604051809103902083612b1a565b600101610a4e565b505f6002610ab0600187614bd4565b610aba9087614be7565b610ac49190614bfe565b610acf906001614c1d565b67ffffffffffffffff811115610ae757610ae7614975565b604051908082528060200260200182016040528015610b10578160200160208202803683370190505b50905081815f81518110610b2657610b26614b53565b602090810291909101015260015f5b86811015610c14575f610b49826001614c1d565b90505b87811015610c0b575f610bc8610b94898581518110610b6d57610b6d614b53565b6020026020010151898581518110610b8757610b87614b53565b6020026020010151612b65565b610bc38a8581518110610ba957610ba9614b53565b60200260200101518a8781518110610b8757610b87614b53565b612b93565b9050610bda610bd78783612aec565b90565b8585610be581614c30565b965081518110610bf757610bf7614b53565b602090810291909101015250600101610b4c565b50600101610b35565b505f610c27836338ff2fd760e11b612bc1565b90505f5b87811015610c8c575f828152602b602052604090208a8a83818110610c5257610c52614b53565b9050602002810190610c649190614b67565b82546001810184555f938452602090932090920191610c839183614cc6565b50600101610c2b565b5060408051828152602081018990527f2cca5cc64cff3ade08d5e7eb09ef8309386a92422ee6309625e5aa16f44805f9910160405180910390a1505050505050505050565b602c5460ff1615610d195760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016106b9565b5f815111610d695760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016106b9565b80516020808301919091205f818152602490925260409091205463ffffffff1615610dd65760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420726573756c747320617265206e6f6973656400000000000060448201526064016106b9565b5f818152600e602052604090205463ffffffff16610e315760405162461bcd60e51b8152602060048201526018602482015277139bc819185d1848199bdc881d1a1a5cc81cdd589a9958dd60421b60448201526064016106b9565b610e3a81612a64565b5f828152600e602052604090205463ffffffff91821691161015610e995760405162461bcd60e51b81526020600482015260166024820152754e6f7420656e6f75676820726573706f6e64656e747360501b60448201526064016106b9565b5f610ea382612bcd565b90505f610eaf5f612be8565b5f848152600f602090815260408083208151600a808252610160820190935294955093918201610140803683370190505090505f5b600a811015610f3357610f0e610bd7868584600a8110610f0657610f06614b53565b015487612bfa565b828281518110610f2057610f20614b53565b6020908102919091010152600101610ee4565b505f610f4682636a423def60e01b612bc1565b6040805180820182528881525f602080830182815285835260188252918490209251835590516001909201805463ffffffff191663ffffffff90931692909217909155905182815291925087917f5191a1020743ea14d3aed7ffaef866a68df85ec4e1cfb379c6d792983b0d61a391015b60405180910390a250505050505050565b601e546110175760405162461bcd60e51b815260206004820152601660248201527f4e6f207365676d656e747320636f6e666967757265640000000000000000000060448201526064016106b9565b80516020808301919091205f818152602490925260409091205463ffffffff16156110845760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420726573756c747320617265206e6f6973656400000000000060448201526064016106b9565b602c5460ff16806110a757505f818152600e602052604090205463ffffffff1615155b6110ee5760405162461bcd60e51b8152602060048201526018602482015277139bc819185d1848199bdc881d1a1a5cc81cdd589a9958dd60421b60448201526064016106b9565b5f6110f882612a64565b90505f61110483612bcd565b90505f6111105f612be8565b90505f61111f60086002614be7565b67ffffffffffffffff81111561113757611137614975565b604051908082528060200260200182016040528015611160578160200160208202803683370190505b5090505f5b600881101561123c57601e54839081908310156111ec575f888152602160205260409020836008811061119a5761119a614b53565b015490505f6111ad87610a3b848b612c0e565b5f8a815260208052604090209091506111db90829086600881106111d3576111d3614b53565b015488612bfa565b92506111e8818388612bfa565b9150505b818484815181106111ff576111ff614b53565b60209081029190910101528084611217856008614c1d565b8151811061122757611227614b53565b60209081029190910101525050600101611165565b505f61124f82636ab0632d60e11b612bc1565b5f81815260236020526040908190208890555190915086907ff455be20d4293a33530e136e3ae2bca82ebeaa146dbc18daa3d092fd4f0a63f190610fb79084815260200190565b5f5f6112a0612c32565b90925090505f6112b783636c36d89760e01b612bc1565b90506112c4826001614d80565b5f82815260166020908152604091829020805463ffffffff191663ffffffff9490941693909317909255518281527f283d77d7931fbcd8f467bf5bdd2bbdf1882ebd28e9d673f55ea1d39b769fdc63910160405180910390a1505050565b5f8381526018602090815260408083208151808301909252805480835260019091015463ffffffff1692820192909252906113915760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b61139c858585612e84565b5f848060200190518101906113b19190614daf565b90505f805b600a8110156113ea578281600a81106113d1576113d1614b53565b60200201516113e09083614d80565b91506001016113b6565b505f878152601860205260408120818155600101805463ffffffff1916905563ffffffff821690036114585782516040518881527fe861bda8a2fa6ec8bc3909d84906540fc5895454ddc51ac0c81d3a77456fdba9906020015b60405180910390a260019350505050611508565b6040805160608101825283815263ffffffff8316602080830191909152438284015285515f9081526017909152919091208151611498908290600a6146f7565b50602082015160028201805463ffffffff191663ffffffff909216919091179055604091820151600390910155835190517f89e9cddc01604ee5c2d1980450a9eca26b48c68db0f3d63e79e0a7ea1fd1f596906114f89085908590614e1d565b60405180910390a2600193505050505b9392505050565b5f8381526016602052604081205463ffffffff16806115625760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b61156d858585612e84565b5f5f5f61157a875f612eed565b5f8b8152601660205260408120805463ffffffff19169055929550909350915063ffffffff821690036115e7576040518881527fa94ade22173982f6d1d78e2bfe3cf1cd2a3556275846bf51cc04d4b4334256569060200160405180910390a16001945050505050611508565b5f806115ff8585856115fa60018b614e62565b612f36565b6015546040805163ffffffff80861682528089166020830152841691810191909152929450909250907f11d44cfe322838c31f2eecd3d57bba52ecde49bac5bc01139441290c22535055906060015b60405180910390a25060019998505050505050505050565b5f838152602b602052604081208054806116b45760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b6116bf868686612e84565b60208501515f0361171e575f868152602b602052604081206116e09161478e565b6040518681527f161e9e6a36ea94cb69cc76a75d434c564e363b242e21fe00598742aa2074582e9060200160405180910390a1600192505050611508565b5f8167ffffffffffffffff81111561173857611738614975565b604051908082528060200260200182016040528015611761578160200160208202803683370190505b50905060405f5b838110156117e3575f61177c826001614c1d565b90505b848110156117da5788830151845f82900361179a578261179c565b835b815181106117ac576117ac614b53565b6020026020010180518091906117c190614c30565b9052506117cf602085614c1d565b93505060010161177f565b50600101611768565b50602a80546001810182555f918252437fbeced09521047d05b8960b7e7bcc1d1292cf3e4b2a6b63f48335cbde5f7545d36002909202918201557fbeced09521047d05b8960b7e7bcc1d1292cf3e4b2a6b63f48335cbde5f7545d201908467ffffffffffffffff81111561185957611859614975565b604051908082528060200260200182016040528015611882578160200160208202803683370190505b5090505f5b8581101561197757855f5b8781101561190c578381815181106118ac576118ac614b53565b60200260200101511580156118fb5750878214806118fb57508682815181106118d7576118d7614b53565b60200260200101518782815181106118f1576118f1614b53565b6020026020010151115b15611904578091505b600101611892565b50600183828151811061192157611921614b53565b602002602001019015159081151581525050835f0188828154811061194857611948614b53565b5f9182526020808320845460018101865594845292209092019161196d910182614e7e565b5050600101611887565b505f8a8152602b6020526040812061198e9161478e565b602a546040517feefd4113aaa28c990c47c6bf3bfd0802907fb5b26fb72a8b136f2cf3a6e6b46b9061164e908590614f53565b5f80546001600160a01b03838116911614806119fe57505f8381526002602090815260408083206001600160a01b038616845290915290205460ff165b90505b92915050565b5f815111611a575760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016106b9565b5f5f611a698380519060200120613027565b90925090505f611a80836351ed437f60e11b612bc1565b5f818152601460209081526040918290208551808255868301516001909201805463ffffffff191663ffffffff90931692909217909155915183815292935090917f2de8eb4efb6e879310b564b649205ee74dbddc954d50766ffdd2f406d4dc1490910160405180910390a250505050565b5f8381526032602090815260408083208151608081018352815460ff811615158252610100900463ffffffff168185015260018201805484518187028101870186528181528796939586019390929190879084015b82821015611b8b575f84815260209081902060408051808201909152600285029091018054825260019081015463ffffffff16828401529083529092019101611b47565b50505050815260200160028201548152505090505f81604001515111611be55760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b611bf0858585612e84565b5f858152603260205260408120805464ffffffffff1916815590611c1760018301826147ac565b600282015f905550505f5f825f015115611c3f57611c39868460200151613294565b90925090505b5f5f5f611c6086604001518a885f0151611c59575f6132ce565b60036132ce565b925092509250897f869eff3e1367a2c299160a3ca9ea120cfaddd711089026a17c0331d594dccffa8686868686604051611c9e959493929190615098565b60405180910390a2606086015115611ce55760608601516040518b81527ff3a5dc9260039b7de9ce010f21c7a43d5b0818f73d3e68a001a46317207c4ba19060200161164e565b5060019998505050505050505050565b808015801590611d065750600a8111155b611d525760405162461bcd60e51b815260206004820152601560248201527f496e76616c6964207375626a65637420636f756e74000000000000000000000060448201526064016106b9565b5f8167ffffffffffffffff811115611d6c57611d6c614975565b604051908082528060200260200182016040528015611d95578160200160208202803683370190505b5090505f5b82811015611f09575f858583818110611db557611db5614b53565b9050602002810190611dc79190614b67565b905011611e165760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016106b9565b848482818110611e2857611e28614b53565b9050602002810190611e3a9190614b67565b604051611e48929190614bb1565b6040518091039020828281518110611e6257611e62614b53565b60209081029190910101525f5b81811015611f0057828281518110611e8957611e89614b53565b6020026020010151838281518110611ea357611ea3614b53565b602002602001015103611ef85760405162461bcd60e51b815260206004820152601160248201527f4475706c6963617465207375626a65637400000000000000000000000000000060448201526064016106b9565b600101611e6f565b50600101611d9a565b505f611f178260015f6134af565b60408051828152602081018690529192507f19209eeca00ff9d4d68eb7014a953c850e442c714bcba713835b2d6c2767ccbe910160405180910390a15050505050565b5f8381526014602090815260408083208151808301909252805480835260019091015463ffffffff169282019290925290611fc95760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b611fd4858585612e84565b5f5f5f611fe1875f612eed565b5f8b8152601460205260408120818155600101805463ffffffff19169055929550909350915063ffffffff821690036120565783516040518981527fac63153814073c0094f20e62073c430e08d73a2e3ed990c2d2f34e0b52af3d109060200160405180910390a26001945050505050611508565b5f5f612064868686866137d5565b87515f90815260136020908152604091829020548a51835163ffffffff8088168252808b169482019490945292851693830193909352939550919350907f720c1068828f5f225c90fd58e83f4807bb8695aa76276de6c88acb8efde145179060600160405180910390a35060019998505050505050505050565b5f838152602360205260408120548061212b5760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b612136858585612e84565b5f5f8580602001905181019061214c919061514d565b915091506121586147ca565b5f5b60088110156121ec575f83826008811061217657612176614b53565b602002015163ffffffff161161218c575f6121c2565b6121c28482600881106121a1576121a1614b53565b60200201518483600881106121b8576121b8614b53565b6020020151613878565b8282600881106121d4576121d4614b53565b63ffffffff909216602092909202015260010161215a565b5060408051606081018252828152602080820185905243828401525f878152602290915291909120815161222390829060086147e9565b50602082015161223990600183019060086147e9565b506040918201516002909101555f8981526023602052818120555184907f026bf3d5e660a503d9e7a9d9df78952b89c736d428780a82119cad4821044a7a9061228590849086906151a1565b60405180910390a2506001979650505050505050565b5f8381526029602090815260408083208151606081018352815480825260019092015463ffffffff8082169583019590955264010000000090049093169183019190915261231d5760405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b60448201526064016106b9565b612328858585612e84565b5f5f8580602001905181019061233e91906151cd565b915091508161239d575f8781526029602090815260408083209283556001909201805467ffffffffffffffff19169055845191518981527fca79b1c0f0b90e1f19f4aaf69f4ac6b1db74f213b8d77468f027ceeaa9a408fb9101611444565b604080516080810182526020858101805163ffffffff908116845287850151811683850190815286151585870181815243606088019081528b515f9081526028885289812098518954955193511515680100000000000000000268ff0000000000000000199488166401000000000267ffffffffffffffff19978816928916929092179190911793909316929092178855516001978801558e81526029865287812090815590950180549091169055875191518551911681529182019290925290917fead3bb615a5d0613bcf512e8443fa04012028c44d928ca336a5726ca7411695191016114f8565b5f8111801561249857506007548111155b6124e45760405162461bcd60e51b815260206004820152601060248201527f556e6b6e6f776e2063616d706169676e0000000000000000000000000000000060448201526064016106b9565b5f8181526033602052604090205480158015906125015750804210155b61254d5760405162461bcd60e51b815260206004820152601660248201527f43616d706169676e206973207374696c6c206f70656e0000000000000000000060448201526064016106b9565b5f8281526034602052604090205460ff16156125ab5760405162461bcd60e51b815260206004820152601960248201527f526573756c747320616c7265616479207265717565737465640000000000000060448201526064016106b9565b5f828152603460205260408120805460ff191660019081179091556007906125d39085614bd4565b815481106125e3576125e3614b53565b5f91825260208220600160029092020101805490925067ffffffffffffffff81111561261157612611614975565b60405190808252806020026020018201604052801561263a578160200160208202803683370190505b5090505f5b825481101561269c5782818154811061265a5761265a614b53565b905f5260205f200160405161266f91906151f5565b604051809103902082828151811061268957612689614b53565b602090810291909101015260010161263f565b505f6126a9825f876134af565b9050847f756b0cad2f30eacd46e32cdaa7021db762c16e0cdfc30a8c6d66394eef899599826040516126dd91815260200190565b60405180910390a25050505050565b602c5460ff16156127345760405162461bcd60e51b8152602060048201526012602482015271436f756e747320617265207072697661746560701b60448201526064016106b9565b80516020808301919091205f818152602790925260409091205463ffffffff16806127a15760405162461bcd60e51b815260206004820152601660248201527f4e6f20616c657274207468726573686f6c64207365740000000000000000000060448201526064016106b9565b5f8281526024602052604090205463ffffffff16156128025760405162461bcd60e51b815260206004820152601a60248201527f5375626a65637420726573756c747320617265206e6f6973656400000000000060448201526064016106b9565b5f828152600e602052604090205463ffffffff168061285e5760405162461bcd60e51b8152602060048201526018602482015277139bc819185d1848199bdc881d1a1a5cc81cdd589a9958dd60421b60448201526064016106b9565b61286783612a64565b63ffffffff168163ffffffff1610156128bb5760405162461bcd60e51b81526020600482015260166024820152754e6f7420656e6f75676820726573706f6e64656e747360501b60448201526064016106b9565b5f6128c584612bcd565b90505f61291b6128ef6128e8600c5f8981526020019081526020015f2054612a9e565b606461389a565b5f878152602e60205260409020546129169061290a90612a9e565b8763ffffffff1661389a565b6138c2565b6040805160028082526060820183529293505f92909160208301908036833701905050905082815f8151811061295357612953614b53565b60200260200101818152505061296c610bd78484612aec565b8160018151811061297f5761297f614b53565b60209081029190910101525f61299c8263f6ba85b760e01b612bc1565b6040805160608101825289815263ffffffff808a1660208084019182528a83168486019081525f87815260299092529085902093518455905160019093018054915183166401000000000267ffffffffffffffff1990921693909216929092179190911790555190915087907fe2e1510323e38503ef59d60f2016a8cda4b9b8b4eda384607098feefc657718e90612a379084815260200190565b60405180910390a25050505050505050565b5f611a0182612a58575f612a5b565b60015b60ff165f6138f0565b5f8181526004602052604081205463ffffffff168015612a845780611508565b6003546601000000000000900463ffffffff169392505050565b5f611a0182600561397f565b5f5f612ab583612a64565b5f848152602e602052604090205490915061150890612ad49083612c0e565b5f85815260386020526040902054610a3b9084612c0e565b5f82612afe57612afb5f612a49565b92505b81612b0f57612b0c5f612a49565b91505b6119fe83835f6139ce565b5f82815260386020526040812054612b3190613a8b565b9050612b4682612b405f612be8565b83612bfa565b5f848152603860205260409020819055612b5f90613aa3565b50505050565b5f82612b7757612b745f613aae565b92505b81612b8857612b855f613aae565b91505b6119fe83835f613ac4565b5f82612ba557612ba25f613aae565b92505b81612bb657612bb35f613aae565b91505b6119fe83835f613b3b565b5f6119fe83835f613bb2565b5f612bd782612aaa565b9050612be38282612b1a565b919050565b5f611a018263ffffffff1660046138f0565b5f612c06848484613ccd565b949350505050565b5f82612c2057612c1d5f612be8565b92505b6119fe8363ffffffff84166001613d63565b602c546060905f9060ff16612cfb5760125463ffffffff16612c965760405162461bcd60e51b815260206004820152601260248201527f4e6f206461746120746f2064656372797074000000000000000000000000000060448201526064016106b9565b60035460125463ffffffff6a0100000000000000000000909204821691161015612cfb5760405162461bcd60e51b81526020600482015260166024820152754e6f7420656e6f75676820726573706f6e64656e747360501b60448201526064016106b9565b5060105460115460265460395463ffffffff9091169291905f90612d1e90613a8b565b90505f612d64612d42602d546003600a9054906101000a900463ffffffff16612c0e565b600354610a3b9085906a0100000000000000000000900463ffffffff16612c0e565b9050612d7981612d735f612be8565b84612bfa565b6039819055612d8790613aa3565b5063ffffffff851615612e4757602654600464010000000090910463ffffffff1610612df55760405162461bcd60e51b815260206004820152601860248201527f507269766163792062756467657420657868617573746564000000000000000060448201526064016106b9565b60268054640100000000900463ffffffff16906004612e1383615262565b91906101000a81548163ffffffff021916908363ffffffff16021790555050612e3d848487613dda565b9094509250612e6c565b612e548185603c54613e32565b603c55602d54603d54612e68918391613e32565b603d555b612e7a8484602d5484613e5e565b9550505050509091565b5f612e8e84613f1f565b90505f612e9c828585613ff0565b905080612ebc5760405163cf6c44e960e01b815260040160405180910390fd5b60405185907f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d905f90a25050505050565b5f5f5f612f008585600101602002015190565b9250612f1c85612f11866001614c1d565b600101602002015190565b9150612f2d85612f11866002614c1d565b90509250925092565b5f5f5f612f45878787876140c9565b601580546001810182555f91909152815160039091027f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec47581018054602085015163ffffffff90811664010000000090810267ffffffffffffffff19938416838816171790935560408601517f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec47685015560608601517f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec47790940180546080909701518216909302959091169083161793909317909255935091505094509492505050565b604080518082019091525f8082526020820152606090602c5460ff1615613071575f838152602e602052604090205461306c57613063836141b7565b91509150915091565b613134565b5f838152600e602052604090205463ffffffff166130cc5760405162461bcd60e51b8152602060048201526018602482015277139bc819185d1848199bdc881d1a1a5cc81cdd589a9958dd60421b60448201526064016106b9565b6130d583612a64565b5f848152600e602052604090205463ffffffff918216911610156131345760405162461bcd60e51b81526020600482015260166024820152754e6f7420656e6f75676820726573706f6e64656e747360501b60448201526064016106b9565b5f838152600c6020908152604080832054600d835281842054602e845282852054602490945291842054909391929163ffffffff9091169061317588612bcd565b905063ffffffff821615613213575f888152602560205260409020546004116131e05760405162461bcd60e51b815260206004820152601860248201527f507269766163792062756467657420657868617573746564000000000000000060448201526064016106b9565b5f8881526025602052604081208054916131f983614c30565b9190505550613209858584613dda565b9095509350613264565b5f888152603a602052604090205461322e9082908790613e32565b5f898152603a6020908152604080832093909355603b905220546132559082908590613e32565b5f898152603b60205260409020555b61327085858584613e5e565b6040805180820190915298895263ffffffff90921660208901525096945050505050565b5f5f5f5f6132a2865f612eed565b9450909250905063ffffffff8316156132c5576132c182828588612f36565b5093505b50509250929050565b60608060605f865190508067ffffffffffffffff8111156132f1576132f1614975565b60405190808252806020026020018201604052801561331a578160200160208202803683370190505b5093508067ffffffffffffffff81111561333657613336614975565b60405190808252806020026020018201604052801561335f578160200160208202803683370190505b5092508067ffffffffffffffff81111561337b5761337b614975565b6040519080825280602002602001820160405280156133a4578160200160208202803683370190505b5091505f5b818110156134a4578781815181106133c3576133c3614b53565b60200260200101515f01518582815181106133e0576133e0614b53565b60209081029190910101525f808061340c8a6133fd866003614be7565b613407908c614c1d565b612eed565b9194509250905063ffffffff811615613470576134448b858151811061343457613434614b53565b60200260200101518484846137d5565b5087858151811061345757613457614b53565b602002602001018163ffffffff1663ffffffff16815250505b8086858151811061348357613483614b53565b63ffffffff92909216602092830291909101909101525050506001016133a9565b505093509350939050565b82515f9060608285156134ca576134c4612c32565b90925090505b5f6134d6846003614be7565b83516134e29190614c1d565b67ffffffffffffffff8111156134fa576134fa614975565b604051908082528060200260200182016040528015613523578160200160208202803683370190505b5090505f8467ffffffffffffffff81111561354057613540614975565b60405190808252806020026020018201604052801561358457816020015b604080518082019091525f808252602082015281526020019060019003908161355e5790505b5090505f5b84518110156135d1578481815181106135a4576135a4614b53565b60200260200101518382815181106135be576135be614b53565b6020908102919091010152600101613589565b505f5b85811015613710576060881580159061360c575061360a8b83815181106135fd576135fd614b53565b6020026020010151614286565b155b15613657576136338b838151811061362657613626614b53565b60200260200101516141b7565b84848151811061364557613645614b53565b60209081029190910101529050613699565b6136798b838151811061366c5761366c614b53565b6020026020010151613027565b84848151811061368b5761368b614b53565b602090810291909101015290505b5f5b6003811015613706578181815181106136b6576136b6614b53565b602002602001015185828560036136cd9190614be7565b8a516136d99190614c1d565b6136e39190614c1d565b815181106136f3576136f3614b53565b602090810291909101015260010161369b565b50506001016135d4565b5061372282639e2d985360e01b612bc1565b5f818152603260205260408120805464ffffffffff19168b151564ffffffff0019161761010063ffffffff881602178155600281018a90559197505b868110156137c7578160010183828151811061377c5761377c614b53565b6020908102919091018101518254600180820185555f948552938390208251600290920201908155910151908201805463ffffffff191663ffffffff9092169190911790550161375e565b505050505050509392505050565b5f5f5f6137e88686868a602001516140c9565b96515f908152601360209081526040808320805460018082018355918552938390208b516003909502018054938c015163ffffffff90811664010000000090810267ffffffffffffffff1996871683891617178355938d01519282019290925560608c0151600290910180546080909d015183169093029b90931690831617999099179098559795505050505050565b5f63ffffffff80831690613890906064908616614be7565b6119fe9190614bfe565b5f826138ac576138a95f613aae565b92505b6119fe8367ffffffffffffffff84166001613ac4565b5f826138d4576138d15f613aae565b92505b816138e5576138e25f613aae565b91505b6119fe83835f614310565b5f5160206153f45f395f51905f5254604051639cd07acb60e01b81525f915f5160206154145f395f51905f52916001600160a01b0390911690639cd07acb9061393f90879087906004016152a6565b6020604051808303815f875af115801561395b573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612c0691906152ba565b5f5160206153f45f395f51905f52546040516307227b9160e21b81525f915f5160206154145f395f51905f52916001600160a01b0390911690631c89ee449061393f90879087906004016152a6565b5f5f82156139e15750600160f81b6139e4565b505f5b5f5160206153f45f395f51905f525460405163d99882d560e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b03169063d99882d5906064015b6020604051808303815f875af1158015613a5d573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190613a8191906152ba565b9695505050505050565b5f81613a9f57613a9a5f612be8565b611a01565b5090565b5f613a9f8230614387565b5f611a018267ffffffffffffffff1660056138f0565b5f5f8215613ad75750600160f81b613ada565b505f5b5f5160206153f45f395f51905f5254604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b0316906357f0a56890606401613a41565b5f5f8215613b4e5750600160f81b613b51565b505f5b5f5160206153f45f395f51905f52546040516385362ee760e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b0316906385362ee790606401613a41565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f5160206154145f395f51905f528054604051637d6e912360e11b81529293926001600160a01b039091169063fadd224690613c159089906004016152d1565b5f604051808303815f87803b158015613c2c575f5ffd5b505af1158015613c3e573d5f5f3e3d5ffd5b5050506002820154604051633263b83b60e01b81526001600160a01b039091169150633263b83b908690613c7a9087908b908b906004016152e3565b5f604051808303818588803b158015613c91575f5ffd5b505af1158015613ca3573d5f5f3e3d5ffd5b5050505050613cb283876143fd565b8154825f613cbf83614c30565b919050555050509392505050565b5f805f5160206154145f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af1158015613d36573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190613d5a91906152ba565b95945050505050565b5f5f8215613d765750600160f81b613d79565b505f5b5f5160206153f45f395f51905f5254604051631391547f60e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b031690631391547f90606401613a41565b5f80613df885613df3613dee866002615314565b61448a565b61449c565b613e2685613e216010613e0c886002615314565b613e169190615314565b63ffffffff166144ca565b6144e0565b91509150935093915050565b5f613e4b848484612d7357613e465f612be8565b612bfa565b9050613e5681613aa3565b509392505050565b60605f613e6a5f612be8565b6040805160038082526080820190925291925060208201606080368337019050509150613e9b610bd7848884612bfa565b825f81518110613ead57613ead614b53565b602002602001018181525050613eca610bd78487613e465f613aae565b82600181518110613edd57613edd614b53565b602002602001018181525050613ef7610bd7848684612bfa565b82600281518110613f0a57613f0a614b53565b60200260200101818152505050949350505050565b5f8181527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260408120546060917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00919003613f905760405163d66ca67560e01b815260040160405180910390fd5b5f83815260018201602090815260409182902080548351818402810184019094528084529091830182828015613fe357602002820191905f5260205f20905b815481526020019060010190808311613fcf575b5050505050915050919050565b5f5f835160206140009190614c1d565b61400b906020614c1d565b90505f848260405160200161402192919061533a565b60405160208183030381529060405290505f6140475f5160206154145f395f51905f5290565b60038101546040516378542ead60e01b81529192506001600160a01b0316906378542ead9061407e908a9086908a90600401615382565b6020604051808303815f875af115801561409a573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906140be91906153ba565b979650505050505050565b6040805160a0810182525f8082526020820181905291810182905260608101829052608081019190915263ffffffff821615614134576141158563ffffffff168363ffffffff16614500565b945061413184614126601085615314565b63ffffffff16614500565b93505b61413e8584613878565b63ffffffff1681526141526064600a615314565b63ffffffff16815f015163ffffffff16111561417d576141746064600a615314565b63ffffffff1681525b63ffffffff8316602082015243604082015261419a85858561452c565b63ffffffff90811660608301529190911660808201529392505050565b604080518082019091525f80825260208201526060905f6141d75f612be8565b604080516003808252608082019092529192506020820160608036833701905050925080835f8151811061420d5761420d614b53565b602002602001018181525050614225610bd75f613aae565b8360018151811061423857614238614b53565b6020908102919091010152808360028151811061425757614257614b53565b60200260200101818152505060405180604001604052808581526020015f63ffffffff16815250915050915091565b602c545f9060ff161580156142d457505f828152600e602052604090205463ffffffff1615806142d457506142ba82612a64565b5f838152600e602052604090205463ffffffff9182169116105b156142e057505f919050565b5f8281526024602052604090205463ffffffff161580611a015750505f9081526025602052604090205460041190565b5f5f82156143235750600160f81b614326565b505f5b5f5160206153f45f395f51905f5254604051637210768160e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b031690637210768190606401613a41565b5f5f5160206154145f395f51905f528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b1580156143e2575f5ffd5b505af11580156143f4573d5f5f3e3d5ffd5b50505050505050565b5f8281527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260409020547f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00901561446a57604051633f06d22b60e01b815260040160405180910390fd5b5f83815260018201602090815260409091208351612b5f92850190614841565b5f611a018263ffffffff1660046145cb565b5f826144ae576144ab5f612be8565b92505b816144bf576144bc5f612be8565b91505b6119fe83835f61461a565b5f611a018267ffffffffffffffff1660056145cb565b5f826144f2576144ef5f613aae565b92505b816144bf576144bc5f613aae565b5f8167ffffffffffffffff168367ffffffffffffffff1611614522575f6119fe565b6119fe82846153d3565b5f61453d63ffffffff851680614be7565b61455767ffffffffffffffff851663ffffffff8516614be7565b1161456357505f611508565b5f61457463ffffffff861680614be7565b61458e67ffffffffffffffff861663ffffffff8616614be7565b6145989190614bd4565b90505f6145a6606480614be7565b905063ffffffff84166145c16145bc8385614be7565b614691565b613a819190614bfe565b5f5160206153f45f395f51905f52546040516324777a3f60e11b81525f915f5160206154145f395f51905f52916001600160a01b03909116906348eef47e9061393f90879087906004016152a6565b5f5f821561462d5750600160f81b614630565b505f5b5f5160206153f45f395f51905f525460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206154145f395f51905f52916001600160a01b03169063117b2f3890606401613a41565b5f815f036146a057505f919050565b5f60026146ae846001614c1d565b6146b89190614bfe565b90508291505b818110156146f1579050806002816146d68186614bfe565b6146e09190614c1d565b6146ea9190614bfe565b90506146be565b50919050565b600283019183908215614782579160200282015f5b8382111561475057835183826101000a81548163ffffffff021916908363ffffffff160217905550926020019260040160208160030104928301926001030261470c565b80156147805782816101000a81549063ffffffff0219169055600401602081600301049283019260010302614750565b505b50613a9f92915061487a565b5080545f8255905f5260205f20908101906147a9919061488e565b50565b5080545f8255600202905f5260205f20908101906147a991906148aa565b6040518061010001604052806008906020820280368337509192915050565b600183019183908215614782579160200282015f8382111561475057835183826101000a81548163ffffffff021916908363ffffffff160217905550926020019260040160208160030104928301926001030261470c565b828054828255905f5260205f20908101928215614782579160200282015b8281111561478257825182559160200191906001019061485f565b5b80821115613a9f575f815560010161487b565b80821115613a9f575f6148a182826148cd565b5060010161488e565b5b80821115613a9f575f815560018101805463ffffffff191690556002016148ab565b5080546148d990614c48565b5f825580601f106148e8575050565b601f0160209004905f5260205f20908101906147a9919061487a565b5f5f60208385031215614915575f5ffd5b823567ffffffffffffffff81111561492b575f5ffd5b8301601f8101851361493b575f5ffd5b803567ffffffffffffffff811115614951575f5ffd5b8560208260051b8401011115614965575f5ffd5b6020919091019590945092505050565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f1916810167ffffffffffffffff811182821017156149b2576149b2614975565b604052919050565b5f5f67ffffffffffffffff8411156149d4576149d4614975565b50601f8301601f19166020016149e981614989565b9150508281528383830111156149fd575f5ffd5b828260208301375f602084830101529392505050565b5f60208284031215614a23575f5ffd5b813567ffffffffffffffff811115614a39575f5ffd5b8201601f81018413614a49575f5ffd5b612c06848235602084016149ba565b5f82601f830112614a67575f5ffd5b6119fe838335602085016149ba565b5f5f5f60608486031215614a88575f5ffd5b83359250602084013567ffffffffffffffff811115614aa5575f5ffd5b614ab186828701614a58565b925050604084013567ffffffffffffffff811115614acd575f5ffd5b614ad986828701614a58565b9150509250925092565b80356001600160a01b0381168114612be3575f5ffd5b5f60208284031215614b09575f5ffd5b6119fe82614ae3565b5f5f60408385031215614b23575f5ffd5b82359150614b3360208401614ae3565b90509250929050565b5f60208284031215614b4c575f5ffd5b5035919050565b634e487b7160e01b5f52603260045260245ffd5b5f5f8335601e19843603018112614b7c575f5ffd5b83018035915067ffffffffffffffff821115614b96575f5ffd5b602001915036819003821315614baa575f5ffd5b9250929050565b818382375f9101908152919050565b634e487b7160e01b5f52601160045260245ffd5b81810381811115611a0157611a01614bc0565b8082028115828204841417611a0157611a01614bc0565b5f82614c1857634e487b7160e01b5f52601260045260245ffd5b500490565b80820180821115611a0157611a01614bc0565b5f60018201614c4157614c41614bc0565b5060010190565b600181811c90821680614c5c57607f821691505b6020821081036146f157634e487b7160e01b5f52602260045260245ffd5b601f821115614cc157805f5260205f20601f840160051c81016020851015614c9f5750805b601f840160051c820191505b81811015614cbe575f8155600101614cab565b50505b505050565b67ffffffffffffffff831115614cde57614cde614975565b614cf283614cec8354614c48565b83614c7a565b5f601f841160018114614d23575f8515614d0c5750838201355b5f19600387901b1c1916600186901b178355614cbe565b5f83815260208120601f198716915b82811015614d525786850135825560209485019460019092019101614d32565b5086821015614d6e575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b63ffffffff8181168382160190811115611a0157611a01614bc0565b805163ffffffff81168114612be3575f5ffd5b5f6101408284031215614dc0575f5ffd5b5f83601f840112614dcf575f5ffd5b505f80610140614dde81614989565b9250829150840185811115614df1575f5ffd5b845b81811015614e1257614e0481614d9c565b845260209384019301614df3565b509095945050505050565b610160810181845f5b600a811015614e4b57815163ffffffff16835260209283019290910190600101614e26565b50505063ffffffff83166101408301529392505050565b63ffffffff8281168282160390811115611a0157611a01614bc0565b818103614e89575050565b614e938254614c48565b67ffffffffffffffff811115614eab57614eab614975565b614ebf81614eb98454614c48565b84614c7a565b5f601f821160018114614ef0575f8315614ed95750848201545b5f19600385901b1c1916600184901b178455614cbe565b5f8581526020808220868352908220601f198616925b83811015614f265782860154825560019586019590910190602001614f06565b5085831015614f4357818501545f19600388901b60f8161c191681555b5050505050600190811b01905550565b5f602082016020835280845480835260408501915060408160051b8601019250855f5260205f205f5b8281101561501c57603f198786030184525f8254614f9981614c48565b808852600182168015614fb35760018114614fcf57615003565b60ff19831660208a0152602082151560051b8a01019350615003565b855f5260205f205f5b83811015614ffa5781546020828d010152600182019150602081019050614fd8565b8a016020019450505b5091965050506020939093019260019182019101614f7c565b50929695505050505050565b5f8151808452602084019350602083015f5b8281101561505857815186526020958601959091019060010161503a565b5093949350505050565b5f8151808452602084019350602083015f5b8281101561505857815163ffffffff16865260209586019590910190600101615074565b63ffffffff8616815263ffffffff8516602082015260a060408201525f6150c260a0830186615028565b82810360608401526150d48186615062565b905082810360808401526150e88185615062565b98975050505050505050565b5f82601f830112615103575f5ffd5b5f61010061511081614989565b915083018185821115615121575f5ffd5b845b828110156151425761513481614d9c565b825260209182019101615123565b509195945050505050565b5f5f610200838503121561515f575f5ffd5b61516984846150f4565b9150614b338461010085016150f4565b805f5b6008811015612b5f57815163ffffffff1684526020938401939091019060010161517c565b61020081016151b08285615179565b611508610100830184615179565b80518015158114612be3575f5ffd5b5f5f604083850312156151de575f5ffd5b6151e7836151be565b9150614b33602084016151be565b5f5f835461520281614c48565b600182168015615219576001811461522e57615142565b60ff1983168652811515820286019350615142565b865f5260205f205f5b8381101561525357815488820152600190910190602001615237565b50505093909301949350505050565b5f63ffffffff821663ffffffff810361527d5761527d614bc0565b60010192915050565b605481106152a257634e487b7160e01b5f52602160045260245ffd5b9052565b828152604081016115086020830184615286565b5f602082840312156152ca575f5ffd5b5051919050565b602081525f6119fe6020830184615028565b838152606060208201525f6152fb6060830185615028565b905063ffffffff60e01b83166040830152949350505050565b63ffffffff818116838216029081169081811461533357615333614bc0565b5092915050565b5f83518060208601845e9190910191825250602001919050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b606081525f6153946060830186615028565b82810360208401526153a68186615354565b90508281036040840152613a818185615354565b5f602082840312156153ca575f5ffd5b6119fe826151be565b67ffffffffffffffff8281168282160390811115611a0157611a01614bc056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a";
+
+type RatingStatsModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RatingStatsModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RatingStatsModule__factory extends ContractFactory {
+  constructor(...args: RatingStatsModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RatingStatsModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RatingStatsModule__factory {
+    return super.connect(runner) as RatingStatsModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RatingStatsModuleInterface {
+    return new Interface(_abi) as RatingStatsModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RatingStatsModule {
+    return new Contract(address, _abi, runner) as unknown as RatingStatsModule;
+  }
+}
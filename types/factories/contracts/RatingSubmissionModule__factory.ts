@@ -0,0 +1,1692 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RatingSubmissionModule,
+  RatingSubmissionModuleInterface,
+} from "../../contracts/RatingSubmissionModule";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "AlertThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalAverage",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "globalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "subjectHashes",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "averages",
+        type: "uint32[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "counts",
+        type: "uint32[]",
+      },
+    ],
+    name: "AllStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "AllStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "AnonymousMembersRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "AnonymousModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AnonymousRatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "questionCount",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignDeadlineUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignResultsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "respondent",
+        type: "address",
+      },
+    ],
+    name: "CampaignSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "DecryptionAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "EligibilityModuleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "EligibilityRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "GlobalStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GlobalStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+    ],
+    name: "NoiseScaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "PrivateCountsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "rankingId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "subjects",
+        type: "string[]",
+      },
+    ],
+    name: "RankingPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "subjectCount",
+        type: "uint256",
+      },
+    ],
+    name: "RankingRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "RankingWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RatingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RatingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "averages",
+        type: "uint32[8]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[8]",
+        name: "counts",
+        type: "uint32[8]",
+      },
+    ],
+    name: "SegmentStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SegmentStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+    ],
+    name: "SegmentsConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "below",
+        type: "bool",
+      },
+    ],
+    name: "SubjectBelowThreshold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[10]",
+        name: "buckets",
+        type: "uint32[10]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectHistogramPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectHistogramWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minRespondents",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectMinRespondentsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "subjectId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "SubjectRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "snapshotId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageRating",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "stdDev",
+        type: "uint32",
+      },
+    ],
+    name: "SubjectStatsPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectStatsWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum RatingStorage.SubjectStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "SubjectStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "opensAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubjectUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "subjectHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ThresholdAlertWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ANONYMOUS_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CAMPAIGN_QUESTIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NOISE_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANKING_SUBJECTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SEGMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RATING",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MODERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NOISE_BUDGET",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SQUARE_NOISE_FACTOR",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATS_PRECISION",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUBMIT_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPDATE_RATING_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMembersRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "anonymousMode",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+    ],
+    name: "deleteRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "globalMinRespondents",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "privateCounts",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ratingScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "nullifier",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "membershipProof",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "submitAnonymousRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedAnswers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "eligibilityProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitCampaign",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "eligibilityProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "respondent",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "eligibilityProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitRatingFor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSegment",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "eligibilityProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitSegmentedRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "newSubject",
+        type: "string",
+      },
+    ],
+    name: "updateRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "respondent",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "subject",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "newSubject",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "updateRatingFor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b614054806101975f395ff3fe608060405234801561000f575f5ffd5b5060043610610283575f3560e01c806382aafb4611610157578063bb0e4ea2116100d2578063da1f12ab11610088578063e67097e41161006e578063e67097e41461056d578063e933ba6b14610575578063f161bb2e14610588575f5ffd5b8063da1f12ab14610552578063e30c39781461055a575f5ffd5b8063cc581069116100b8578063cc58106914610512578063cc9f114c14610525578063d799479914610538575f5ffd5b8063bb0e4ea2146104fd578063cac64aef14610505575f5ffd5b806391d1485411610127578063a6fe29ab1161010d578063a6fe29ab146104cf578063ac73995e146104d7578063b02128a9146104df575f5ffd5b806391d14854146104b457806394e113ea146104c7575f5ffd5b806382aafb461461045b5780638cbc11471461046e5780638da5cb5b146104775780638fa411fb146104a1575f5ffd5b8063588e85c9116102015780637391036c116101b757806375b238fc1161019d57806375b238fc146103ee578063797669c9146104155780637ecebe001461043c575f5ffd5b80637391036c146103d3578063754830c7146103db575f5ffd5b80635c975abb116101e75780635c975abb1461038c578063625658fc146103995780636e1d616e146103ac575f5ffd5b8063588e85c91461036f5780635a804e7114610377575f5ffd5b806325072caf1161025657806348f4da201161023c57806348f4da2014610316578063553906961461031e57806355e885a414610348575f5ffd5b806325072caf146102e657806335ab904c1461030d575f5ffd5b8063067a8ff9146102875780630da2cf12146102a9578063193a47a7146102de5780631e059895146102de575b5f5ffd5b601a546102949060ff1681565b60405190151581526020015b60405180910390f35b6102d07f44784a982bb4da9f8a6809d66c616d065064f4c1e9e4cbc41ed01e24babd8d8281565b6040519081526020016102a0565b6102d0600a81565b6102d07f4a6ecb79cd81699e4038b7cb505bbec6e129a8441f528a3dea2b5dc98f42099481565b6102d060365481565b6102d0606481565b60035461033390610100900463ffffffff1681565b60405163ffffffff90911681526020016102a0565b6102d07f070dee802a048f2ebd9cd092351d66396d4e4854aeed2aea7ad7359cccc5647d81565b610333600481565b61038a610385366004613669565b610590565b005b6003546102949060ff1681565b61038a6103a7366004613762565b61062e565b6102d07f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b610333606481565b61038a6103e9366004613855565b6109dd565b6102d07fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177581565b6102d07f71f3d55856e4058ed06ee057d79ada615f65cdf5f9ee88181b914225088f834f81565b6102d061044a3660046138fd565b60196020525f908152604090205481565b61038a610469366004613916565b610cc5565b61033361040081565b5f54610489906001600160a01b031681565b6040516001600160a01b0390911681526020016102a0565b61038a6104af366004613948565b610e17565b6102946104c2366004613a21565b610fea565b610333600a81565b610333601081565b6102d0600581565b600354610333906a0100000000000000000000900463ffffffff1681565b610333600181565b602c546102949060ff1681565b61038a610520366004613a4b565b611030565b61038a610533366004613aee565b611161565b600354610333906601000000000000900463ffffffff1681565b6127116102d0565b600154610489906001600160a01b031681565b6102d0600681565b61038a610583366004613b9f565b611323565b6102d0600881565b60035460ff16156105dd5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064015b60405180910390fd5b61062733866106218787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b8461149c565b5050505050565b60035460ff16156106765760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b601a5460ff166106c85760405162461bcd60e51b815260206004820152601560248201527f416e6f6e796d6f7573206d6f6465206973206f6666000000000000000000000060448201526064016105d4565b603654158015906106e257506106e26036548c86866117c8565b61072e5760405162461bcd60e51b815260206004820152601760248201527f4e6f7420612072656769737465726564206d656d62657200000000000000000060448201526064016105d4565b5f868660405161073f929190613c6c565b604080519182900382206001600160a01b038f1660208401529082018190529150606001604051602081830303815290604052805190602001208b146107c75760405162461bcd60e51b815260206004820152601160248201527f496e76616c6964206e756c6c696669657200000000000000000000000000000060448201526064016105d4565b5f8b8152601b6020526040902054156108225760405162461bcd60e51b815260206004820152601660248201527f4e756c6c696669657220616c726561647920757365640000000000000000000060448201526064016105d4565b61082b816118b7565b5f818152601c602052604090205415801561085a57505f818152601d60205260409020546001600160a01b0316155b6108cc5760405162461bcd60e51b815260206004820152602560248201527f5375626a65637420726571756972657320616e20656c69676962696c6974792060448201527f70726f6f6600000000000000000000000000000000000000000000000000000060648201526084016105d4565b6108db8c8c8c8c8c88886119c3565b5f6109695f89898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f81840152601f19601f82011690508083019250505050505050846109648f8f8f8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b611b88565b5050905080600161097a9190613c8f565b5f8d8152601b6020526040902055602c5460ff166109ce578b817f4fda1b214a301c90dbbfd7420424c60d2bc9c08ebb4c96683b8a08a9245d5de4426040516109c591815260200190565b60405180910390a35b50505050505050505050505050565b60035460ff1615610a255760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b5f87118015610a3657506007548711155b610a825760405162461bcd60e51b815260206004820152601060248201527f556e6b6e6f776e2063616d706169676e0000000000000000000000000000000060448201526064016105d4565b5f87815260336020526040902054801580610a9c57508042105b610ae85760405162461bcd60e51b815260206004820152601260248201527f43616d706169676e20697320636c6f736564000000000000000000000000000060448201526064016105d4565b5f6007610af660018b613ca2565b81548110610b0657610b06613cb5565b5f918252602090912060016002909202010180549091508714610b6b5760405162461bcd60e51b815260206004820152601560248201527f416e7377657220636f756e74206d69736d61746368000000000000000000000060448201526064016105d4565b5f5b8154811015610c8257610c7933838381548110610b8c57610b8c613cb5565b905f5260205f20018054610b9f90613cc9565b80601f0160208091040260200160405190810160405280929190818152602001828054610bcb90613cc9565b8015610c165780601f10610bed57610100808354040283529160200191610c16565b820191905f5260205f20905b815481529060010190602001808311610bf957829003601f168201915b5050505050610c728c8c86818110610c3057610c30613cb5565b905060200201358b8b8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b8888611d12565b50600101610b6d565b50602c5460ff16610cba5760405133908a907fcf53edb35aaa99b1bbd009fc4c7420885d4ab7b7ee592a22196a259bb0c90e63905f90a35b505050505050505050565b60035460ff1615610d0d5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b805160208201205f610d1f3383611f24565b5f818152600860205260409020909150610d38836118b7565b610d4c83826002015483600301545f611fa3565b5f828152601f602052604090205415610d8557610d858382600201548360030154601f5f8781526020019081526020015f20545f612203565b60058101805460ff19169055335f90815260376020526040812080548290610dac90613d01565b9182905550335f818152600a60205260409020805460ff191693909211929092179055610dda908490612366565b602c5460ff16610e1157604051339083907fdf31c44878ebbc65485bd6482609d6de1849b9b06faa329a3598795b75bd584a905f90a35b50505050565b60035460ff1615610e5f5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b85610eac5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016105d4565b6064861115610ef05760405162461bcd60e51b815260206004820152601060248201526f5375626a65637420746f6f206c6f6e6760801b60448201526064016105d4565b5f610f4d7f4a6ecb79cd81699e4038b7cb505bbec6e129a8441f528a3dea2b5dc98f4209948d8d8d8d604051610f27929190613c6c565b60405180910390208c8c604051610f3f929190613c6c565b60405180910390208b612414565b9050610f5c8c8288888861248a565b6109ce8c89898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f81840152601f19601f82011690508083019250505050505050610fe38e8e8e8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b8686611d12565b5f80546001600160a01b038381169116148061102757505f8381526002602090815260408083206001600160a01b038616845290915290205460ff165b90505b92915050565b60035460ff16156110785760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b5f8351116110c85760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016105d4565b60648351111561110d5760405162461bcd60e51b815260206004820152601060248201526f5375626a65637420746f6f206c6f6e6760801b60448201526064016105d4565b61115833846111518989898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b8585611d12565b50505050505050565b60035460ff16156111a95760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b601e546111f85760405162461bcd60e51b815260206004820152601660248201527f4e6f207365676d656e747320636f6e666967757265640000000000000000000060448201526064016105d4565b5f6112713386868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525050604080516020601f8e018190048102820181019092528c8152610fe393508f9250908d908d90819084018382808284375f9201919091525061148f92505050565b90505f6112b38989898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061148f92505050565b5f838152601f6020526040902081905590506112ce8161266b565b506112d9813361267a565b505f82815260086020526040908190209051611316906112fc9089908990613c6c565b604051809103902082600201548360030154856001612203565b5050505050505050505050565b60035460ff161561136b5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b60448201526064016105d4565b5f6113bf8c8c8c604051611380929190613c6c565b60405180910390208b8b8b604051611399929190613c6c565b60405180910390208a8a6040516113b1929190613c6c565b60405180910390208961268c565b90506113ce8c8286868661248a565b6114818c8c8c8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525050604080516020601f8f018190048102820181019092528d815261144693508f9250908e908e90819084018382808284375f9201919091525061148f92505050565b89898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061149c92505050565b505050505050505050505050565b5f6110278383600261270e565b5f8151116114ec5760405162461bcd60e51b815260206004820152601760248201527f5375626a6563742063616e6e6f7420626520656d70747900000000000000000060448201526064016105d4565b6064815111156115315760405162461bcd60e51b815260206004820152601060248201526f5375626a65637420746f6f206c6f6e6760801b60448201526064016105d4565b82516020808501919091208251918301919091205f6115508784611f24565b90508282146115fe576115638783612808565b156115bb5760405162461bcd60e51b815260206004820152602260248201527f416c7265616479207375626d697474656420666f722074686973207375626a6560448201526118dd60f21b60648201526084016105d4565b6001600160a01b0387165f908152600b602090815260408083208684529091528082208290558382529020819055602c5460ff166115fe576115fe81848461287e565b5f81815260086020526040812090806116168861295c565b91509150611623866118b7565b61162c856118b7565b5f868152601c60205260408082205487835291205414801561166d57505f868152601d6020526040808220548783529120546001600160a01b039081169116145b6116b95760405162461bcd60e51b815260206004820152601d60248201527f4e6f7420656c696769626c6520666f722074686973207375626a65637400000060448201526064016105d4565b6116cd86846002015485600301545f611fa3565b6116da8583836001611fa3565b5f848152601f602052604090205415611725575f848152601f6020526040812054600285015460038601549192611715928a92918590612203565b611723868484846001612203565b505b6002830182905560038301819055600183016117418882613d5a565b504260048401556117518261266b565b5061175c828b61267a565b506117668161266b565b50611771818b61267a565b5061177c858b612366565b602c5460ff166117bc576040516001600160a01b038b169085907f2bbadff8b2df1d75ad74d9b701f08554362b2fbb918716df092024f46b6dffd8905f90a35b50505050505050505050565b604080516001600160a01b03851660208201525f9182910160408051601f198184030181528282528051602091820120908301520160408051601f19818403018152919052805160209091012090505f5b838110156118a9575f85858381811061183457611834613cb5565b9050602002013590508083106118735760408051602081018390529081018490526060016040516020818303038152906040528051906020012061189e565b6040805160208101859052908101829052606001604051602081830303815290604052805190602001205b925050600101611819565b50851490505b949350505050565b5f81815260056020526040812080549091036119155760405162461bcd60e51b815260206004820152600f60248201527f556e6b6e6f776e207375626a656374000000000000000000000000000000000060448201526064016105d4565b61191e816129b3565b61196a5760405162461bcd60e51b815260206004820152601360248201527f5375626a656374206973206e6f74206f70656e0000000000000000000000000060448201526064016105d4565b611973826129fd565b6119bf5760405162461bcd60e51b815260206004820152601260248201527f43616d706169676e20697320636c6f736564000000000000000000000000000060448201526064016105d4565b5050565b5f7f44784a982bb4da9f8a6809d66c616d065064f4c1e9e4cbc41ed01e24babd8d82878787876040516119f7929190613c6c565b604051908190038120611a259493929160200193845260208401929092526040830152606082015260800190565b6040516020818303038152906040528051906020012090505f611ae5604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527faa63517d6cc8b67df6d54fc52a6906f679439a50bdaac2e20551a09884bf9db4918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b60405161190160f01b6020820152602281019190915260428101839052606201604051602081830303815290604052805190602001209050886001600160a01b0316611b32828686612a76565b6001600160a01b031614610cba5760405162461bcd60e51b815260206004820152601160248201527f496e76616c6964207369676e617475726500000000000000000000000000000060448201526064016105d4565b5f5f5f611b948461295c565b600980549294509092505f611ba883613e15565b909155506040805160c0810182526001600160a01b038a8116825260208083018b815283850188905260608401879052426080850152600160a085018190525f878152600890935294909120835181547fffffffffffffffffffffffff00000000000000000000000000000000000000001693169290921782555193965090929091820190611c379082613d5a565b5060408201516002820155606082015160038201556080820151600482015560a0909101516005909101805460ff1916911515919091179055602c5460ff16611cad575f858152602f60208181526040808420805488865260308452918520829055928252600181018355918352909120018390555b6001600160a01b03871615611ce7576001600160a01b0387165f908152603160209081526040822080546001810182559083529120018390555b611cf48583836001611fa3565b611cfd8261266b565b50611d078161266b565b509450945094915050565b601a545f9060ff1615611d675760405162461bcd60e51b815260206004820152601460248201527f416e6f6e796d6f7573206d6f6465206973206f6e00000000000000000000000060448201526064016105d4565b84516020860120611d77816118b7565b611d8381888686612b68565b611dcf5760405162461bcd60e51b815260206004820152601d60248201527f4e6f7420656c696769626c6520666f722074686973207375626a65637400000060448201526064016105d4565b611dd98782612808565b15611e315760405162461bcd60e51b815260206004820152602260248201527f416c7265616479207375626d697474656420666f722074686973207375626a6560448201526118dd60f21b60648201526084016105d4565b5f5f611e3f8989858a611b88565b6001600160a01b038c165f908152600a60209081526040808320805460ff19166001179055603790915281208054949850929550909350611e7f83613e15565b90915550506001600160a01b0389165f908152600b602090815260408083208684529091529020849055611eb3828a61267a565b50611ebe818a61267a565b50611ec9838a612366565b602c5460ff16611f1857886001600160a01b0316847f333bebed08daecca8362db8fead5f4322e8cdeaf9d801dd198819482f3c7c05b42604051611f0f91815260200190565b60405180910390a35b50505095945050505050565b5f611f2f8383612808565b611f7b5760405162461bcd60e51b815260206004820152601560248201527f4e6f2061637469766520656e74727920666f756e64000000000000000000000060448201526064016105d4565b506001600160a01b03919091165f908152600b60209081526040808320938352929052205490565b5f611fad84612c35565b90505f611fc2611fbd8687612c41565b612c6f565b90508215612039575f868152600c6020526040902054611fe29083612c7b565b5f878152600c6020908152604080832093909355600d905220546120069082612ca9565b5f878152600d60205260409020556010546120219083612c7b565b6010556011546120319082612ca9565b6011556120a4565b5f868152600c60205260409020546120519083612cc9565b5f878152600c6020908152604080832093909355600d905220546120759082612cf7565b5f878152600d60205260409020556010546120909083612cc9565b6010556011546120a09082612cf7565b6011555b6120bf866120b96120b487612d17565b612c35565b85612d21565b602c5460ff166121bc578215612142575f868152600e60205260408120805463ffffffff16916120ee83613e2d565b82546101009290920a63ffffffff8181021990931691831602179091556012805490911691505f61211e83613e2d565b91906101000a81548163ffffffff021916908363ffffffff160217905550506121b1565b5f868152600e60205260408120805463ffffffff169161216183613e51565b82546101009290920a63ffffffff8181021990931691831602179091556012805490911691505f61219183613e51565b91906101000a81548163ffffffff021916908363ffffffff160217905550505b6121bc868685612e16565b5f868152600c60205260409020546121d39061266b565b505f868152600d60205260409020546121eb9061266b565b506121f760105461266b565b5061115860115461266b565b5f8581526020808052604080832060219092528220909161222387612c35565b90505f61222f5f612eaf565b90505f61223b88612d17565b90505f5b601e54811015611316575f6122548983612ec1565b90505f612262828787612ee2565b90505f6122726120b48487612eee565b90508961229b5761229689856008811061228e5761228e613cb5565b015483612cc9565b6122b8565b6122b88985600881106122b0576122b0613cb5565b015483612c7b565b8985600881106122ca576122ca613cb5565b0155896122f3576122ee8885600881106122e6576122e6613cb5565b015482612cc9565b612310565b61231088856008811061230857612308613cb5565b015482612c7b565b88856008811061232257612322613cb5565b015561234089856008811061233957612339613cb5565b015461266b565b5061235688856008811061233957612339613cb5565b50506001909201915061223f9050565b602c5460ff1615612375575050565b5f828152603a6020526040902054151580156123a257505f8281526024602052604090205463ffffffff16155b156123da575f828152603a60205260409020546123bf908261267a565b505f828152603b60205260409020546123d8908261267a565b505b603c54151580156123f1575060265463ffffffff16155b156119bf57612402603c548261267a565b5061240f603d548261267a565b505050565b6001600160a01b0385165f8181526019602090815260408083205481519283018b905290820193909352606081018790526080810186905260a0810185905260c081019290925260e0820183905290610100015b6040516020818303038152906040528051906020012090509695505050505050565b824211156124da5760405162461bcd60e51b815260206004820152601160248201527f5369676e6174757265206578706972656400000000000000000000000000000060448201526064016105d4565b5f612582604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527faa63517d6cc8b67df6d54fc52a6906f679439a50bdaac2e20551a09884bf9db4918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b60405161190160f01b602082015260228101919091526042810186905260620160408051601f19818403018152919052805160209091012090506001600160a01b038616158015906125ef5750856001600160a01b03166125e4828585612a76565b6001600160a01b0316145b61263b5760405162461bcd60e51b815260206004820152601160248201527f496e76616c6964207369676e617475726500000000000000000000000000000060448201526064016105d4565b6001600160a01b0386165f90815260196020526040812080549161265e83613e15565b9190505550505050505050565b5f6126768230612f1c565b5090565b5f6126858383612f1c565b5090919050565b6001600160a01b0386165f8181526019602090815260408083205481517f070dee802a048f2ebd9cd092351d66396d4e4854aeed2aea7ad7359cccc5647d9381019390935290820193909352606081018890526080810187905260a0810186905260c0810185905260e081019290925261010082018390529061012001612468565b5f5160206140085f395f51905f525460405163196d0b9b60e01b81525f915f5160206140285f395f51905f52916001600160a01b039091169063196d0b9b90612761908890339089908990600401613ea3565b6020604051808303815f875af115801561277d573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906127a19190613ef4565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b1580156127ea575f5ffd5b505af11580156127fc573d5f5f3e3d5ffd5b50505050509392505050565b6001600160a01b0382165f908152600b60209081526040808320848452825280832054835260089091528120600581015460ff168015612854575080546001600160a01b038581169116145b80156118af5750828160010160405161286d9190613f0b565b604051809103902014949350505050565b5f828152602f60209081526040808320868452603090925282205481549192909183906128ad90600190613ca2565b815481106128bd576128bd613cb5565b905f5260205f2001549050808383815481106128db576128db613cb5565b5f918252602080832090910192909255828152603090915260409020829055825483908061290b5761290b613f7c565b5f828152602080822083015f19908101839055909201909255948152602f808652604080832080548a8552603089529184208290559187526001810182559082529490209093019490945550505050565b5f5f5f61298b61296d856001612f89565b600354612986908790610100900463ffffffff16612faa565b612eee565b90506129a0818561299b5f612fcb565b612ee2565b92506129ab81612d17565b915050915091565b5f6001600583015460ff1660038111156129cf576129cf613e6f565b1480156129e0575081600301544210155b801561102a57506004820154158061102a57505060040154421090565b5f818152603560205260408120815b8154811015612a6c575f60335f848481548110612a2b57612a2b613cb5565b905f5260205f20015481526020019081526020015f20549050805f14158015612a545750804210155b15612a6357505f949350505050565b50600101612a0c565b5060019392505050565b5f60418214612a8657505f612b61565b5f612a946020828587613f90565b612a9d91613fb7565b90505f612aae604060208688613f90565b612ab791613fb7565b90507f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0811115612aeb575f92505050612b61565b60018686866040818110612b0157612b01613cb5565b604080515f8152602081018083529590955292013560f81c9183019190915250606081018490526080810183905260a0016020604051602081039080840390855afa158015612b52573d5f5f3e3d5ffd5b50505060206040510351925050505b9392505050565b5f848152601d60205260408120546001600160a01b03168015801590612bfa575060405163db3ebef160e01b81526001600160a01b0386811660048301526024820188905282169063db3ebef190604401602060405180830381865afa158015612bd4573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612bf89190613fd4565b155b15612c08575f9150506118af565b5f868152601c6020526040902054801580612c2a5750612c2a818787876117c8565b979650505050505050565b5f61102a826004612fda565b5f82612c5357612c505f612fcb565b92505b81612c6457612c615f612fcb565b91505b61102783835f613069565b5f61102a826005612fda565b5f82612c8d57612c8a5f612eaf565b92505b81612c9e57612c9b5f612eaf565b91505b61102783835f613126565b5f82612cbb57612cb85f61319d565b92505b81612c9e57612c9b5f61319d565b5f82612cdb57612cd85f612eaf565b92505b81612cec57612ce95f612eaf565b91505b61102783835f6131b3565b5f82612d0957612d065f61319d565b92505b81612cec57612ce95f61319d565b5f61102a8261322a565b8015612d62575f838152602e6020526040902054612d3f9083612c7b565b5f848152602e6020526040902055602d54612d5a9083612c7b565b602d55612d99565b5f838152602e6020526040902054612d7a9083612cc9565b5f848152602e6020526040902055602d54612d959083612cc9565b602d555b5f83815260386020526040902054612db19083612c7b565b5f84815260386020526040902055603954612dcc9083612c7b565b6039555f838152602e6020526040902054612de69061266b565b50612df2602d5461266b565b505f83815260386020526040902054612e0a9061266b565b50610e1160395461266b565b5f838152600f60205260408120905b600a811015610627575f612e466120b486612e41856001613c8f565b612ec1565b905083612e6757612e628383600a81106122e6576122e6613cb5565b612e7c565b612e7c8383600a811061230857612308613cb5565b8383600a8110612e8e57612e8e613cb5565b0155612ea58383600a811061233957612339613cb5565b5050600101612e25565b5f61102a8263ffffffff1660046132a9565b5f82612ed357612ed05f612fcb565b92505b6110278360ff841660016132f8565b5f6118af84848461336f565b5f82612f0057612efd5f613405565b92505b81612f1157612f0e5f613405565b91505b61102783835f613420565b5f5f5160206140285f395f51905f528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015612f77575f5ffd5b505af1158015611158573d5f5f3e3d5ffd5b5f82612f9b57612f985f612fcb565b92505b6110278360ff84166001613497565b5f82612fbc57612fb95f612fcb565b92505b6110278360ff8416600161350e565b5f61102a8260ff1660026132a9565b5f5160206140085f395f51905f52546040516307227b9160e21b81525f915f5160206140285f395f51905f52916001600160a01b0390911690631c89ee44906130299087908790600401613ff3565b6020604051808303815f875af1158015613045573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906118af9190613ef4565b5f5f821561307c5750600160f81b61307f565b505f5b5f5160206140085f395f51905f5254604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b0316906357f0a568906064015b6020604051808303815f875af11580156130f8573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061311c9190613ef4565b9695505050505050565b5f5f82156131395750600160f81b61313c565b505f5b5f5160206140085f395f51905f525460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b03169063117b2f38906064016130dc565b5f61102a8267ffffffffffffffff1660056132a9565b5f5f82156131c65750600160f81b6131c9565b505f5b5f5160206140085f395f51905f52546040516303056db360e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b03169063182b6d98906064016130dc565b5f805f5160206140285f395f51905f526001810154604051630f51ccfb60e41b8152600481018690529192506001600160a01b03169063f51ccfb0906024016020604051808303815f875af1158015613285573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612b619190613ef4565b5f5160206140085f395f51905f5254604051639cd07acb60e01b81525f915f5160206140285f395f51905f52916001600160a01b0390911690639cd07acb906130299087908790600401613ff3565b5f5f821561330b5750600160f81b61330e565b505f5b5f5160206140085f395f51905f525460405163f77f3f1d60e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b03169063f77f3f1d906064016130dc565b5f805f5160206140285f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af11580156133d8573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906133fc9190613ef4565b95945050505050565b5f61102a82613414575f613417565b60015b60ff165f6132a9565b5f5f82156134335750600160f81b613436565b505f5b5f5160206140085f395f51905f525460405163d99882d560e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b03169063d99882d5906064016130dc565b5f5f82156134aa5750600160f81b6134ad565b505f5b5f5160206140085f395f51905f5254604051631391547f60e01b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b031690631391547f906064016130dc565b5f5f82156135215750600160f81b613524565b505f5b5f5160206140085f395f51905f5254604051631d44e90160e21b815260048101879052602481018690526001600160f81b0319831660448201525f5160206140285f395f51905f52916001600160a01b031690637513a404906064016130dc565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126135a8575f5ffd5b813567ffffffffffffffff8111156135c2576135c2613585565b604051601f8201601f19908116603f0116810167ffffffffffffffff811182821017156135f1576135f1613585565b604052818152838201602001851015613608575f5ffd5b816020850160208301375f918101602001919091529392505050565b5f5f83601f840112613634575f5ffd5b50813567ffffffffffffffff81111561364b575f5ffd5b602083019150836020828501011115613662575f5ffd5b9250929050565b5f5f5f5f5f6080868803121561367d575f5ffd5b853567ffffffffffffffff811115613693575f5ffd5b61369f88828901613599565b95505060208601359350604086013567ffffffffffffffff8111156136c2575f5ffd5b6136ce88828901613624565b909450925050606086013567ffffffffffffffff8111156136ed575f5ffd5b6136f988828901613599565b9150509295509295909350565b80356001600160a01b038116811461371c575f5ffd5b919050565b5f5f83601f840112613731575f5ffd5b50813567ffffffffffffffff811115613748575f5ffd5b6020830191508360208260051b8501011115613662575f5ffd5b5f5f5f5f5f5f5f5f5f5f5f60e08c8e03121561377c575f5ffd5b6137858c613706565b9a5060208c0135995060408c0135985060608c013567ffffffffffffffff8111156137ae575f5ffd5b6137ba8e828f01613624565b90995097505060808c013567ffffffffffffffff8111156137d9575f5ffd5b6137e58e828f01613624565b90975095505060a08c013567ffffffffffffffff811115613804575f5ffd5b6138108e828f01613721565b90955093505060c08c013567ffffffffffffffff81111561382f575f5ffd5b61383b8e828f01613624565b915080935050809150509295989b509295989b9093969950565b5f5f5f5f5f5f5f6080888a03121561386b575f5ffd5b87359650602088013567ffffffffffffffff811115613888575f5ffd5b6138948a828b01613721565b909750955050604088013567ffffffffffffffff8111156138b3575f5ffd5b6138bf8a828b01613624565b909550935050606088013567ffffffffffffffff8111156138de575f5ffd5b6138ea8a828b01613721565b989b979a50959850939692959293505050565b5f6020828403121561390d575f5ffd5b61102782613706565b5f60208284031215613926575f5ffd5b813567ffffffffffffffff81111561393c575f5ffd5b6118af84828501613599565b5f5f5f5f5f5f5f5f5f5f5f60e08c8e031215613962575f5ffd5b61396b8c613706565b9a5060208c0135995060408c013567ffffffffffffffff81111561398d575f5ffd5b6139998e828f01613624565b909a5098505060608c013567ffffffffffffffff8111156139b8575f5ffd5b6139c48e828f01613624565b90985096505060808c0135945060a08c013567ffffffffffffffff8111156139ea575f5ffd5b6139f68e828f01613624565b90955093505060c08c013567ffffffffffffffff811115613a15575f5ffd5b61383b8e828f01613721565b5f5f60408385031215613a32575f5ffd5b82359150613a4260208401613706565b90509250929050565b5f5f5f5f5f5f60808789031215613a60575f5ffd5b86359550602087013567ffffffffffffffff811115613a7d575f5ffd5b613a8989828a01613624565b909650945050604087013567ffffffffffffffff811115613aa8575f5ffd5b613ab489828a01613599565b935050606087013567ffffffffffffffff811115613ad0575f5ffd5b613adc89828a01613721565b979a9699509497509295939492505050565b5f5f5f5f5f5f5f5f60a0898b031215613b05575f5ffd5b8835975060208901359650604089013567ffffffffffffffff811115613b29575f5ffd5b613b358b828c01613624565b909750955050606089013567ffffffffffffffff811115613b54575f5ffd5b613b608b828c01613624565b909550935050608089013567ffffffffffffffff811115613b7f575f5ffd5b613b8b8b828c01613721565b999c989b5096995094979396929594505050565b5f5f5f5f5f5f5f5f5f5f5f60e08c8e031215613bb9575f5ffd5b613bc28c613706565b9a5060208c013567ffffffffffffffff811115613bdd575f5ffd5b613be98e828f01613624565b909b5099505060408c0135975060608c013567ffffffffffffffff811115613c0f575f5ffd5b613c1b8e828f01613624565b90985096505060808c013567ffffffffffffffff811115613c3a575f5ffd5b613c468e828f01613624565b90965094505060a08c0135925060c08c013567ffffffffffffffff81111561382f575f5ffd5b818382375f9101908152919050565b634e487b7160e01b5f52601160045260245ffd5b8082018082111561102a5761102a613c7b565b8181038181111561102a5761102a613c7b565b634e487b7160e01b5f52603260045260245ffd5b600181811c90821680613cdd57607f821691505b602082108103613cfb57634e487b7160e01b5f52602260045260245ffd5b50919050565b5f81613d0f57613d0f613c7b565b505f190190565b601f82111561240f57805f5260205f20601f840160051c81016020851015613d3b5750805b601f840160051c820191505b81811015610627575f8155600101613d47565b815167ffffffffffffffff811115613d7457613d74613585565b613d8881613d828454613cc9565b84613d16565b6020601f821160018114613dba575f8315613da35750848201515b5f19600385901b1c1916600184901b178455610627565b5f84815260208120601f198516915b82811015613de95787850151825560209485019460019092019101613dc9565b5084821015613e0657868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b5f60018201613e2657613e26613c7b565b5060010190565b5f63ffffffff821663ffffffff8103613e4857613e48613c7b565b60010192915050565b5f63ffffffff821680613e6657613e66613c7b565b5f190192915050565b634e487b7160e01b5f52602160045260245ffd5b60548110613e9f57634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f8351806080840152806020860160a085015e5f60a0828501015260a0601f19601f8301168401019150506133fc6060830184613e83565b5f60208284031215613f04575f5ffd5b5051919050565b5f5f8354613f1881613cc9565b600182168015613f2f5760018114613f4457613f71565b60ff1983168652811515820286019350613f71565b865f5260205f205f5b83811015613f6957815488820152600190910190602001613f4d565b505081860193505b509195945050505050565b634e487b7160e01b5f52603160045260245ffd5b5f5f85851115613f9e575f5ffd5b83861115613faa575f5ffd5b5050820193919092039150565b8035602083101561102a575f19602084900360031b1b1692915050565b5f60208284031215613fe4575f5ffd5b81518015158114612b61575f5ffd5b82815260408101612b616020830184613e8356fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a";
+
+type RatingSubmissionModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RatingSubmissionModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RatingSubmissionModule__factory extends ContractFactory {
+  constructor(...args: RatingSubmissionModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RatingSubmissionModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): RatingSubmissionModule__factory {
+    return super.connect(runner) as RatingSubmissionModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RatingSubmissionModuleInterface {
+    return new Interface(_abi) as RatingSubmissionModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RatingSubmissionModule {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as RatingSubmissionModule;
+  }
+}
@@ -1,5 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as erc20ThresholdEligibilitySol from "./ERC20ThresholdEligibility.sol";
+export * as erc721OwnershipEligibilitySol from "./ERC721OwnershipEligibility.sol";
+export * as mocks from "./mocks";
 export { EncryptedRatingSystem__factory } from "./EncryptedRatingSystem__factory";
 export { FHECounter__factory } from "./FHECounter__factory";
+export { IRatingEligibility__factory } from "./IRatingEligibility__factory";
+export { RatingAdminModule__factory } from "./RatingAdminModule__factory";
+export { RatingCampaignFactory__factory } from "./RatingCampaignFactory__factory";
+export { RatingStatsModule__factory } from "./RatingStatsModule__factory";
+export { RatingStorage__factory } from "./RatingStorage__factory";
+export { RatingSubmissionModule__factory } from "./RatingSubmissionModule__factory";
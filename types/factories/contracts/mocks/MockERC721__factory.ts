@@ -0,0 +1,216 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockERC721,
+  MockERC721Interface,
+} from "../../../contracts/mocks/MockERC721";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b5060405161080f38038061080f83398101604081905261002e916100eb565b5f61003983826101d4565b50600161004682826101d4565b50505061028e565b634e487b7160e01b5f52604160045260245ffd5b5f82601f830112610071575f5ffd5b81516001600160401b0381111561008a5761008a61004e565b604051601f8201601f19908116603f011681016001600160401b03811182821017156100b8576100b861004e565b6040528181528382016020018510156100cf575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f604083850312156100fc575f5ffd5b82516001600160401b03811115610111575f5ffd5b61011d85828601610062565b602085015190935090506001600160401b0381111561013a575f5ffd5b61014685828601610062565b9150509250929050565b600181811c9082168061016457607f821691505b60208210810361018257634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156101cf57805f5260205f20601f840160051c810160208510156101ad5750805b601f840160051c820191505b818110156101cc575f81556001016101b9565b50505b505050565b81516001600160401b038111156101ed576101ed61004e565b610201816101fb8454610150565b84610188565b6020601f821160018114610233575f831561021c5750848201515b5f19600385901b1c1916600184901b1784556101cc565b5f84815260208120601f198516915b828110156102625787850151825560209485019460019092019101610242565b508482101561027f57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b6105748061029b5f395ff3fe608060405234801561000f575f5ffd5b506004361061006f575f3560e01c80636352211e1161004d5780636352211e146100b957806370a08231146100f957806395d89b4114610126575f5ffd5b806306fdde031461007357806323b872dd1461009157806340c10f19146100a6575b5f5ffd5b61007b61012e565b6040516100889190610406565b60405180910390f35b6100a461009f366004610456565b6101b9565b005b6100a46100b4366004610490565b610302565b6100e16100c73660046104b8565b60026020525f90815260409020546001600160a01b031681565b6040516001600160a01b039091168152602001610088565b6101186101073660046104cf565b60036020525f908152604090205481565b604051908152602001610088565b61007b6103f9565b5f805461013a906104ef565b80601f0160208091040260200160405190810160405280929190818152602001828054610166906104ef565b80156101b15780601f10610188576101008083540402835291602001916101b1565b820191905f5260205f20905b81548152906001019060200180831161019457829003601f168201915b505050505081565b5f818152600260205260409020546001600160a01b0384811691161480156101e957506001600160a01b03831633145b61023a5760405162461bcd60e51b815260206004820152600f60248201527f4e6f7420746f6b656e206f776e6572000000000000000000000000000000000060448201526064015b60405180910390fd5b5f818152600260209081526040808320805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0387811691909117909155861683526003909152812080546001929061029190849061053b565b90915550506001600160a01b0382165f9081526003602052604081208054600192906102be908490610554565b909155505060405181906001600160a01b0380851691908616907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef905f90a4505050565b5f818152600260205260409020546001600160a01b0316156103665760405162461bcd60e51b815260206004820152601460248201527f546f6b656e20616c7265616479206d696e7465640000000000000000000000006044820152606401610231565b5f818152600260209081526040808320805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0387169081179091558352600390915281208054600192906103b9908490610554565b909155505060405181906001600160a01b038416905f907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908290a45050565b6001805461013a906104ef565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610451575f5ffd5b919050565b5f5f5f60608486031215610468575f5ffd5b6104718461043b565b925061047f6020850161043b565b929592945050506040919091013590565b5f5f604083850312156104a1575f5ffd5b6104aa8361043b565b946020939093013593505050565b5f602082840312156104c8575f5ffd5b5035919050565b5f602082840312156104df575f5ffd5b6104e88261043b565b9392505050565b600181811c9082168061050357607f821691505b60208210810361052157634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561054e5761054e610527565b92915050565b8082018082111561054e5761054e61052756fea164736f6c634300081b000a";
+
+type MockERC721ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC721ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC721__factory extends ContractFactory {
+  constructor(...args: MockERC721ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, symbol_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, overrides || {}) as Promise<
+      MockERC721 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC721__factory {
+    return super.connect(runner) as MockERC721__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC721Interface {
+    return new Interface(_abi) as MockERC721Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockERC721 {
+    return new Contract(address, _abi, runner) as unknown as MockERC721;
+  }
+}
@@ -49,10 +49,58 @@ declare module "hardhat/types/runtime" {
       name: "EncryptedRatingSystem",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.EncryptedRatingSystem__factory>;
+    getContractFactory(
+      name: "ERC20ThresholdEligibility",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ERC20ThresholdEligibility__factory>;
+    getContractFactory(
+      name: "IERC20Balance",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IERC20Balance__factory>;
+    getContractFactory(
+      name: "ERC721OwnershipEligibility",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ERC721OwnershipEligibility__factory>;
+    getContractFactory(
+      name: "IERC721Balance",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IERC721Balance__factory>;
     getContractFactory(
       name: "FHECounter",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.FHECounter__factory>;
+    getContractFactory(
+      name: "IRatingEligibility",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IRatingEligibility__factory>;
+    getContractFactory(
+      name: "MockERC20",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockERC20__factory>;
+    getContractFactory(
+      name: "MockERC721",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockERC721__factory>;
+    getContractFactory(
+      name: "RatingAdminModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RatingAdminModule__factory>;
+    getContractFactory(
+      name: "RatingCampaignFactory",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RatingCampaignFactory__factory>;
+    getContractFactory(
+      name: "RatingStatsModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RatingStatsModule__factory>;
+    getContractFactory(
+      name: "RatingStorage",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RatingStorage__factory>;
+    getContractFactory(
+      name: "RatingSubmissionModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RatingSubmissionModule__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -99,11 +147,71 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.EncryptedRatingSystem>;
+    getContractAt(
+      name: "ERC20ThresholdEligibility",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ERC20ThresholdEligibility>;
+    getContractAt(
+      name: "IERC20Balance",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IERC20Balance>;
+    getContractAt(
+      name: "ERC721OwnershipEligibility",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ERC721OwnershipEligibility>;
+    getContractAt(
+      name: "IERC721Balance",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IERC721Balance>;
     getContractAt(
       name: "FHECounter",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.FHECounter>;
+    getContractAt(
+      name: "IRatingEligibility",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IRatingEligibility>;
+    getContractAt(
+      name: "MockERC20",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockERC20>;
+    getContractAt(
+      name: "MockERC721",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockERC721>;
+    getContractAt(
+      name: "RatingAdminModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.RatingAdminModule>;
+    getContractAt(
+      name: "RatingCampaignFactory",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.RatingCampaignFactory>;
+    getContractAt(
+      name: "RatingStatsModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.RatingStatsModule>;
+    getContractAt(
+      name: "RatingStorage",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.RatingStorage>;
+    getContractAt(
+      name: "RatingSubmissionModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.RatingSubmissionModule>;
 
     deployContract(
       name: "EthereumConfig",
@@ -141,10 +249,58 @@ declare module "hardhat/types/runtime" {
       name: "EncryptedRatingSystem",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.EncryptedRatingSystem>;
+    deployContract(
+      name: "ERC20ThresholdEligibility",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC20ThresholdEligibility>;
+    deployContract(
+      name: "IERC20Balance",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC20Balance>;
+    deployContract(
+      name: "ERC721OwnershipEligibility",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC721OwnershipEligibility>;
+    deployContract(
+      name: "IERC721Balance",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC721Balance>;
     deployContract(
       name: "FHECounter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.FHECounter>;
+    deployContract(
+      name: "IRatingEligibility",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IRatingEligibility>;
+    deployContract(
+      name: "MockERC20",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockERC20>;
+    deployContract(
+      name: "MockERC721",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockERC721>;
+    deployContract(
+      name: "RatingAdminModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingAdminModule>;
+    deployContract(
+      name: "RatingCampaignFactory",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingCampaignFactory>;
+    deployContract(
+      name: "RatingStatsModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingStatsModule>;
+    deployContract(
+      name: "RatingStorage",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingStorage>;
+    deployContract(
+      name: "RatingSubmissionModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingSubmissionModule>;
 
     deployContract(
       name: "EthereumConfig",
@@ -191,11 +347,71 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.EncryptedRatingSystem>;
+    deployContract(
+      name: "ERC20ThresholdEligibility",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC20ThresholdEligibility>;
+    deployContract(
+      name: "IERC20Balance",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC20Balance>;
+    deployContract(
+      name: "ERC721OwnershipEligibility",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC721OwnershipEligibility>;
+    deployContract(
+      name: "IERC721Balance",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC721Balance>;
     deployContract(
       name: "FHECounter",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.FHECounter>;
+    deployContract(
+      name: "IRatingEligibility",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IRatingEligibility>;
+    deployContract(
+      name: "MockERC20",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockERC20>;
+    deployContract(
+      name: "MockERC721",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockERC721>;
+    deployContract(
+      name: "RatingAdminModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingAdminModule>;
+    deployContract(
+      name: "RatingCampaignFactory",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingCampaignFactory>;
+    deployContract(
+      name: "RatingStatsModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingStatsModule>;
+    deployContract(
+      name: "RatingStorage",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingStorage>;
+    deployContract(
+      name: "RatingSubmissionModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RatingSubmissionModule>;
 
     // default types
     getContractFactory(
@@ -24,5 +24,29 @@ export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifi
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
 export type { EncryptedRatingSystem } from "./contracts/EncryptedRatingSystem";
 export { EncryptedRatingSystem__factory } from "./factories/contracts/EncryptedRatingSystem__factory";
+export type { ERC20ThresholdEligibility } from "./contracts/ERC20ThresholdEligibility.sol/ERC20ThresholdEligibility";
+export { ERC20ThresholdEligibility__factory } from "./factories/contracts/ERC20ThresholdEligibility.sol/ERC20ThresholdEligibility__factory";
+export type { IERC20Balance } from "./contracts/ERC20ThresholdEligibility.sol/IERC20Balance";
+export { IERC20Balance__factory } from "./factories/contracts/ERC20ThresholdEligibility.sol/IERC20Balance__factory";
+export type { ERC721OwnershipEligibility } from "./contracts/ERC721OwnershipEligibility.sol/ERC721OwnershipEligibility";
+export { ERC721OwnershipEligibility__factory } from "./factories/contracts/ERC721OwnershipEligibility.sol/ERC721OwnershipEligibility__factory";
+export type { IERC721Balance } from "./contracts/ERC721OwnershipEligibility.sol/IERC721Balance";
+export { IERC721Balance__factory } from "./factories/contracts/ERC721OwnershipEligibility.sol/IERC721Balance__factory";
 export type { FHECounter } from "./contracts/FHECounter";
 export { FHECounter__factory } from "./factories/contracts/FHECounter__factory";
+export type { IRatingEligibility } from "./contracts/IRatingEligibility";
+export { IRatingEligibility__factory } from "./factories/contracts/IRatingEligibility__factory";
+export type { MockERC20 } from "./contracts/mocks/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/mocks/MockERC20__factory";
+export type { MockERC721 } from "./contracts/mocks/MockERC721";
+export { MockERC721__factory } from "./factories/contracts/mocks/MockERC721__factory";
+export type { RatingAdminModule } from "./contracts/RatingAdminModule";
+export { RatingAdminModule__factory } from "./factories/contracts/RatingAdminModule__factory";
+export type { RatingCampaignFactory } from "./contracts/RatingCampaignFactory";
+export { RatingCampaignFactory__factory } from "./factories/contracts/RatingCampaignFactory__factory";
+export type { RatingStatsModule } from "./contracts/RatingStatsModule";
+export { RatingStatsModule__factory } from "./factories/contracts/RatingStatsModule__factory";
+export type { RatingStorage } from "./contracts/RatingStorage";
+export { RatingStorage__factory } from "./factories/contracts/RatingStorage__factory";
+export type { RatingSubmissionModule } from "./contracts/RatingSubmissionModule";
+export { RatingSubmissionModule__factory } from "./factories/contracts/RatingSubmissionModule__factory";
@@ -1,4 +1,18 @@
+// Addresses from deploy/deploy.ts. A fresh `npx hardhat node` deploys to the same localhost addresses every time;
+// replace the Sepolia ones once npm run deploy:sepolia has deployed the current contracts.
 export const RATING_SYSTEM_ADDRESS = {
-  localhost: "0x8A791620dd6260079BF849Dc5567aDC3F2FdC318", // Deployed contract address
-  sepolia: "0x1D730828E112d9E5fE08756fA82Fc05f11237e95", // New contract deployed to Sepolia testnet
+  localhost: "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9", // EncryptedRatingSystem on a fresh Hardhat node
+  sepolia: "0x1D730828E112d9E5fE08756fA82Fc05f11237e95", // Live Sepolia deployment
+};
+
+// RatingCampaignFactory deployments; per-campaign rating instances are discovered through them
+export const RATING_FACTORY_ADDRESS = {
+  localhost: "0xa85233C63b9Ee964Add6F2cffe00Fd84eb32338f", // RatingCampaignFactory on a fresh Hardhat node
+  sepolia: "0x0000000000000000000000000000000000000000", // Set after npm run deploy:sepolia
+};
+
+// Gasless relayers (scripts/relayer.ts, e.g. "http://localhost:8787"); "Submit without gas" is offered when set
+export const RELAYER_URL = {
+  localhost: "", // Set after npm run relayer:local
+  sepolia: "",
 };
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BrowserProvider } from 'ethers';
+
+import {
+  getContractAddress,
+  getRatingInstances,
+  setActiveContractAddress,
+  RatingInstanceInfo
+} from '@/lib/contract';
+
+interface CampaignSelectorProps {
+  // Called with the instance address after every contract helper has been pointed at it
+  onChange: (address: string) => void;
+}
+
+// Lists the rating instances on the connected chain; hidden while there is only one to choose from
+export const CampaignSelector = ({ onChange }: CampaignSelectorProps) => {
+  const { isConnected } = useAccount();
+  const chainId = useChainId();
+  const [instances, setInstances] = useState<RatingInstanceInfo[]>([]);
+  const [selected, setSelected] = useState<string>(getContractAddress(chainId));
+
+  useEffect(() => {
+    const loadInstances = async () => {
+      if (!isConnected || !window.ethereum) return;
+      const provider = new BrowserProvider(window.ethereum);
+      setInstances(await getRatingInstances(provider, chainId));
+      setSelected(getContractAddress(chainId));
+    };
+    loadInstances();
+  }, [isConnected, chainId]);
+
+  const handleChange = (address: string) => {
+    setActiveContractAddress(chainId, address);
+    setSelected(address);
+    onChange(address);
+  };
+
+  if (instances.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 pt-12">
+      <Label htmlFor="campaign-instance">Campaign</Label>
+      <Select value={selected} onValueChange={handleChange}>
+        <SelectTrigger id="campaign-instance">
+          <SelectValue placeholder="Select a campaign..." />
+        </SelectTrigger>
+        <SelectContent>
+          {instances.map((instance) => (
+            <SelectItem key={instance.address} value={instance.address}>
+              {instance.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground mt-1">
+        Each campaign keeps its own subjects and results.
+      </p>
+    </div>
+  );
+};
+
+export default CampaignSelector;
@@ -8,8 +8,8 @@ import { Download, FileText, FileSpreadsheet } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface ExportDialogProps {
-  globalStats: { average: number; count: number; finalized: boolean } | null;
-  leadershipStats: { average: number; count: number; finalized: boolean } | null;
+  globalStats: { average: number; count: number; stdDev: number; finalized: boolean } | null;
+  leadershipStats: { average: number; count: number; stdDev: number; finalized: boolean } | null;
   decryptedGlobalTotal: bigint;
   decryptedGlobalCount: bigint;
   decryptedLeadershipTotal: bigint;
@@ -49,6 +49,9 @@ export const ExportDialog = ({
           total: decryptedGlobalTotal.toString(),
           count: decryptedGlobalCount.toString(),
           average: decryptedGlobalCount > 0n ? Number(decryptedGlobalTotal) / Number(decryptedGlobalCount) : 0,
+          // Published with the latest decrypted snapshot
+          publishedAverage: globalStats?.finalized ? globalStats.average : null,
+          standardDeviation: globalStats?.finalized ? globalStats.stdDev : null,
           finalized: globalStats?.finalized || false
         };
       }
@@ -58,6 +61,9 @@ export const ExportDialog = ({
           total: decryptedLeadershipTotal.toString(),
           count: decryptedLeadershipCount.toString(),
           average: decryptedLeadershipCount > 0n ? Number(decryptedLeadershipTotal) / Number(decryptedLeadershipCount) : 0,
+          // Published with the latest decrypted snapshot
+          publishedAverage: leadershipStats?.finalized ? leadershipStats.average : null,
+          standardDeviation: leadershipStats?.finalized ? leadershipStats.stdDev : null,
           finalized: leadershipStats?.finalized || false
         };
       }
@@ -72,7 +78,7 @@ export const ExportDialog = ({
         mimeType = 'application/json';
       } else {
         // CSV format
-        const headers = ['Category', 'Total', 'Count', 'Average', 'Finalized'];
+        const headers = ['Category', 'Total', 'Count', 'Average', 'Published Average', 'Std Dev', 'Finalized'];
         const rows = [];
 
         if (includeGlobal) {
@@ -81,6 +87,8 @@ export const ExportDialog = ({
             exportData.data.global.total,
             exportData.data.global.count,
             exportData.data.global.average.toFixed(2),
+            exportData.data.global.publishedAverage ?? '',
+            exportData.data.global.standardDeviation ?? '',
             exportData.data.global.finalized ? 'Yes' : 'No'
           ]);
         }
@@ -91,6 +99,8 @@ export const ExportDialog = ({
             exportData.data.leadership.total,
             exportData.data.leadership.count,
             exportData.data.leadership.average.toFixed(2),
+            exportData.data.leadership.publishedAverage ?? '',
+            exportData.data.leadership.standardDeviation ?? '',
             exportData.data.leadership.finalized ? 'Yes' : 'No'
           ]);
         }
@@ -17,12 +17,12 @@ const Hero = () => {
             Rate. Compute. Stay Private.
           </h2>
           <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
-            Submit anonymous ratings using fully homomorphic encryption. View aggregated statistics without revealing individual data. Perfect for private feedback and anonymous polling.
+            Submit encrypted ratings using fully homomorphic encryption. View aggregated statistics without revealing individual data. Perfect for private feedback and confidential polling.
           </p>
           <div className="flex flex-wrap justify-center gap-4">
             <div className="flex items-center gap-2 bg-card/50 backdrop-blur px-6 py-3 rounded-lg border border-primary/30">
               <div className="w-2 h-2 bg-primary rounded-full animate-glow-pulse" />
-              <span className="text-sm text-foreground">Anonymous Ratings (1-10)</span>
+              <span className="text-sm text-foreground">Encrypted Ratings</span>
             </div>
             <div className="flex items-center gap-2 bg-card/50 backdrop-blur px-6 py-3 rounded-lg border border-primary/30">
               <div className="w-2 h-2 bg-accent rounded-full animate-glow-pulse" />
@@ -11,31 +11,27 @@ import { toast } from 'sonner';
 import {
   getContractAddress,
   isContractDeployed,
-  getEntryCount,
-  getEntry
+  isAnonymousMode,
+  isPrivateCounts,
+  getUserEntries,
+  RatingEntry
 } from '@/lib/contract';
 import { BrowserProvider } from 'ethers';
 
-interface RatingEntry {
-  id: number;
-  subject: string;
-  timestamp: number;
-  submitter: string;
-  isActive: boolean;
-}
-
 export const RatingHistory = () => {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const [entries, setEntries] = useState<RatingEntry[]>([]);
   const [loading, setLoading] = useState(false);
-  const [totalEntries, setTotalEntries] = useState<number>(0);
+  const [anonymousMode, setAnonymousMode] = useState(false);
+  const [privateCounts, setPrivateCounts] = useState(false); // The contract serves no entries, so they stay local
 
   const contractDeployed = isContractDeployed(chainId);
   const contractAddress = getContractAddress(chainId);
 
+  // Entries of other respondents are never listed; anonymous entries can only be found with the user's own key
   const loadRatingHistory = useCallback(async () => {
-    if (!isConnected || !contractDeployed || !contractAddress) {
+    if (!isConnected || !contractDeployed || !contractAddress || !address) {
       return;
     }
 
@@ -43,28 +39,7 @@ export const RatingHistory = () => {
 
     try {
       const provider = new BrowserProvider(window.ethereum);
-      const entryCount = await getEntryCount(provider, Number(chainId));
-      setTotalEntries(entryCount);
-
-      // Load last 20 entries (or all if less than 20)
-      const entriesToLoad = Math.min(entryCount, 20);
-      const loadedEntries: RatingEntry[] = [];
-
-      for (let i = Math.max(0, entryCount - entriesToLoad); i < entryCount; i++) {
-        try {
-          const entry = await getEntry(provider, i, Number(chainId));
-          loadedEntries.push({
-            id: i,
-            subject: entry.subject,
-            timestamp: Number(entry.timestamp),
-            submitter: entry.submitter,
-            isActive: entry.isActive
-          });
-        } catch (entryError) {
-          console.warn(`Failed to load entry ${i}:`, entryError);
-          // Continue loading other entries
-        }
-      }
+      const loadedEntries = await getUserEntries(provider, address, Number(chainId));
 
       // Sort by timestamp (newest first)
       loadedEntries.sort((a, b) => b.timestamp - a.timestamp);
@@ -76,16 +51,27 @@ export const RatingHistory = () => {
     } finally {
       setLoading(false);
     }
-  }, [isConnected, contractDeployed, contractAddress, chainId]);
+  }, [isConnected, contractDeployed, contractAddress, chainId, address]);
 
   useEffect(() => {
-    if (isConnected && contractDeployed) {
-      loadRatingHistory();
-    } else {
+    const load = async () => {
       setEntries([]);
-      setTotalEntries(0);
-    }
-  }, [isConnected, chainId, contractDeployed]);
+      if (!isConnected || !contractDeployed) {
+        return;
+      }
+      const provider = new BrowserProvider(window.ethereum);
+      const anonymous = await isAnonymousMode(provider, Number(chainId));
+      const hiddenCounts = await isPrivateCounts(provider, Number(chainId));
+      setAnonymousMode(anonymous);
+      setPrivateCounts(hiddenCounts);
+
+      // Finding anonymous entries needs a wallet signature, so wait until the user asks for them
+      if (!anonymous || hiddenCounts) {
+        loadRatingHistory();
+      }
+    };
+    load();
+  }, [isConnected, chainId, contractDeployed, address]);
 
   const formatTimestamp = useCallback((timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString();
@@ -99,13 +85,9 @@ export const RatingHistory = () => {
       <TrendingDown className="h-4 w-4 text-red-500" />;
   }, []);
 
-  const truncateAddress = useCallback((addr: string) => {
-    return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
-  }, []);
-
   const displayedEntriesText = useMemo(() => {
-    return `Showing last ${Math.min(entries.length, 20)} of ${totalEntries} total entries`;
-  }, [entries.length, totalEntries]);
+    return `${entries.length} ${entries.length === 1 ? 'rating' : 'ratings'} submitted by you`;
+  }, [entries.length]);
 
   return (
     <Card>
@@ -115,7 +97,8 @@ export const RatingHistory = () => {
           Rating History
         </CardTitle>
         <CardDescription>
-          Recent rating submissions across all subjects
+          Your own rating submissions across all subjects
+          {privateCounts && ', as remembered by this browser. Responses are private on this deployment, so the contract lists no entries.'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -149,7 +132,7 @@ export const RatingHistory = () => {
               >
                 {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 <RefreshCw className="h-4 w-4" />
-                Refresh
+                {anonymousMode && !privateCounts ? 'Load my ratings' : 'Refresh'}
               </Button>
             </div>
 
@@ -161,9 +144,11 @@ export const RatingHistory = () => {
             ) : entries.length === 0 ? (
               <div className="text-center py-8">
                 <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">No ratings submitted yet.</p>
+                <p className="text-muted-foreground">No ratings found.</p>
                 <p className="text-sm text-muted-foreground mt-2">
-                  Be the first to submit a rating and see it appear here!
+                  {anonymousMode && !privateCounts
+                    ? 'Your ratings here are recorded under your member key. Load them by signing with the wallet you rated with.'
+                    : 'Submit a rating and see it appear here!'}
                 </p>
               </div>
             ) : (
@@ -186,9 +171,11 @@ export const RatingHistory = () => {
                       <Badge variant={entry.isActive ? "default" : "secondary"} className="text-xs">
                         {entry.isActive ? "Active" : "Inactive"}
                       </Badge>
-                      <code className="text-xs bg-muted px-2 py-1 rounded truncate max-w-[80px] sm:max-w-none">
-                        {truncateAddress(entry.submitter)}
-                      </code>
+                      {anonymousMode && (
+                        <Badge variant="outline" className="text-xs">
+                          Anonymous
+                        </Badge>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -6,8 +6,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Star, TrendingUp, Users, Shield, RefreshCw, AlertCircle } from 'lucide-react';
+import { Loader2, Star, TrendingUp, Users, Shield, RefreshCw, AlertCircle, Lock, Trophy } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Import FHEVM utilities and contract functions
@@ -26,27 +27,72 @@ import {
   getActiveEntryCount,
   getSubjectEntryCount,
   hasSubmittedForSubject,
+  getSubjects,
+  isSubjectAcceptingRatings,
+  SubjectInfo,
+  getSubjectMinRespondents,
+  getGlobalMinRespondents,
+  getRatingScale,
   mockDecryptGlobalStats,
   mockDecryptSubjectStats,
-  allowUserToDecrypt
+  allowUserToDecrypt,
+  getRelayerUrl,
+  getRelayerAddress,
+  relayRating,
+  isAnonymousMode,
+  isPrivateCounts,
+  rememberOwnRatings,
+  signAnonymousRating,
+  submitAnonymousRating,
+  relayAnonymousRating,
+  getSegments,
+  submitSegmentedRating,
+  getLatestRanking,
+  requestRanking,
+  MAX_RANKING_SUBJECTS,
+  requestAllStats,
+  getPublishableSubjects,
+  MAX_BATCH_SUBJECTS,
+  awaitLocalDecryptionOracle
 } from '@/lib/contract';
 import { BrowserProvider, Contract } from 'ethers';
 import RatingSystemArtifact from '@/abi/EncryptedRatingSystem.json';
 
+const PRIVATE_COUNTS_NOTE =
+  'Response counts are private. This page only shows them with published results, which are withheld until enough ratings exist.';
+const NOISE_NOTE =
+  'Random noise is added before decryption so no single rating can be inferred. Only a few results can be published, since averaging many would wear the noise down.';
+
 const RatingSystem = () => {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const [rating, setRating] = useState<number>(5);
+  const [ratingScale, setRatingScale] = useState<number>(10); // Highest rating this instance accepts
   const [subject, setSubject] = useState<string>('');
+  const [subjects, setSubjects] = useState<SubjectInfo[]>([]); // On-chain subject registry
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitWithoutGas, setSubmitWithoutGas] = useState(false); // Hand the signed rating to the relayer
+  const [anonymousMode, setAnonymousMode] = useState(false); // Ratings are keyed by nullifiers, not addresses
+  const [segments, setSegments] = useState<string[]>([]); // Respondent segments configured by the admins
+  const [segment, setSegment] = useState<string>(''); // Index of the respondent's segment, empty to leave it out
+  const [rankingSubjects, setRankingSubjects] = useState<string[]>([]); // Subjects picked for the next ranking
+  const [ranking, setRanking] = useState<{ subjects: string[]; blockNumber: number } | null>(null); // Latest published
+  const [isRanking, setIsRanking] = useState(false);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
-  const [globalStats, setGlobalStats] = useState<{ average: number; count: number; finalized: boolean } | null>(null);
-  const [leadershipStats, setLeadershipStats] = useState<{ average: number; count: number; finalized: boolean } | null>(null);
+  const [globalStats, setGlobalStats] = useState<{ average: number; count: number; stdDev: number; noise: number; finalized: boolean } | null>(null);
+  const [leadershipStats, setLeadershipStats] = useState<{ average: number; count: number; stdDev: number; noise: number; finalized: boolean } | null>(null);
   const [activeCount, setActiveCount] = useState<number>(0);
   const [isLoadingStatistics, setIsLoadingStatistics] = useState(false);
   const [statsLoaded, setStatsLoaded] = useState<boolean>(false);
   const [userHasSubmitted, setUserHasSubmitted] = useState<boolean>(false);
 
+  // Minimum respondent counts (k-anonymity) before aggregates unlock
+  const [globalMinRespondents, setGlobalMinRespondents] = useState<number>(0);
+  const [leadershipMinRespondents, setLeadershipMinRespondents] = useState<number>(0);
+  const [leadershipNoiseScale, setLeadershipNoiseScale] = useState<number>(0); // Noisy subjects only publish snapshots
+  const [globalNoiseScale, setGlobalNoiseScale] = useState<number>(0); // Set once any subject is noisy
+  const [privateCounts, setPrivateCounts] = useState(false); // The contract serves no live counts
+
   // Decrypted data (like secret-vault-check)
   const [decryptedGlobalTotal, setDecryptedGlobalTotal] = useState<bigint>(0n);
   const [decryptedGlobalCount, setDecryptedGlobalCount] = useState<bigint>(0n);
@@ -96,11 +142,13 @@ const RatingSystem = () => {
         let globalStatsResult;
         let globalTotalHandle = "0x";
         let globalCountValue = 0;
+        let globalCountHandle = "0x";
         
         try {
           globalStatsResult = await contract.getEncryptedGlobalStats();
           globalTotalHandle = String(globalStatsResult[0]); // encryptedSum (euint32)
-          globalCountValue = Number(globalStatsResult[1]); // count (uint32) - already decrypted!
+          globalCountValue = Number(globalStatsResult[1]); // count (uint32), rejected ratings included
+          globalCountHandle = String(globalStatsResult[2]); // encryptedCount (euint32), accepted ratings only
         } catch (error: any) {
           console.warn("[AutoDecrypt] Failed to get global stats (may be normal if no entries):", error.message);
           // Continue with default values
@@ -110,16 +158,54 @@ const RatingSystem = () => {
         let leadershipStatsResult;
         let leadershipTotalHandle = "0x";
         let leadershipCountValue = 0;
+        let leadershipCountHandle = "0x";
         
         try {
           leadershipStatsResult = await contract.getEncryptedSubjectStats('Leadership');
           leadershipTotalHandle = String(leadershipStatsResult[0]); // encryptedSum (euint32)
-          leadershipCountValue = Number(leadershipStatsResult[1]); // count (uint32) - already decrypted!
+          leadershipCountValue = Number(leadershipStatsResult[1]); // count (uint32), rejected ratings included
+          leadershipCountHandle = String(leadershipStatsResult[2]); // encryptedCount (euint32), accepted ratings only
         } catch (error: any) {
           console.warn("[AutoDecrypt] Failed to get leadership stats (may be normal if no entries):", error.message);
           // Continue with default values
         }
         
+        // Read minimum respondent thresholds; sums below them are not decryptable
+        let globalThreshold = 0;
+        let leadershipThreshold = 0;
+        try {
+          globalThreshold = Number(await contract.globalMinRespondents());
+          leadershipThreshold = Number(await contract.getSubjectMinRespondents('Leadership'));
+        } catch (error: any) {
+          console.warn("[AutoDecrypt] Failed to get minimum respondents (older contract?):", error.message);
+        }
+        setGlobalMinRespondents(globalThreshold);
+        setLeadershipMinRespondents(leadershipThreshold);
+
+        // Subjects with differential-privacy noise never share their exact sum, and then neither does the global sum
+        let leadershipNoise = 0;
+        let globalNoise = 0;
+        try {
+          leadershipNoise = Number(await contract.getSubjectNoiseScale('Leadership'));
+          globalNoise = Number(await contract.getGlobalNoiseScale());
+        } catch (error: any) {
+          console.warn("[AutoDecrypt] Failed to get the noise scale (older contract?):", error.message);
+        }
+        setLeadershipNoiseScale(leadershipNoise);
+        setGlobalNoiseScale(globalNoise);
+
+        // With private counts no sum is shared and the live counts are hidden
+        let hiddenCounts = false;
+        try {
+          hiddenCounts = await contract.privateCounts();
+        } catch (error: any) {
+          console.warn("[AutoDecrypt] Failed to get the counts mode (older contract?):", error.message);
+        }
+        setPrivateCounts(hiddenCounts);
+        if (hiddenCounts) {
+          return;
+        }
+
         console.log("[AutoDecrypt] Handles from contract:", {
           globalTotalHandle: globalTotalHandle?.slice(0, 20) + "...",
           globalCount: globalCountValue,
@@ -139,15 +225,19 @@ const RatingSystem = () => {
         // Collect handles to decrypt
         const handlesToDecrypt: { handle: string; contractAddress: string; type: string }[] = [];
         
-        if (isValidHandle(globalTotalHandle)) {
+        // Each sum is decrypted with its count of accepted ratings, since rejected ratings do not count. The handles
+        // are those of the last released statistics, which stay unset until a statistics request is published
+        if (isValidHandle(globalTotalHandle) && isValidHandle(globalCountHandle) && globalNoise === 0) {
           handlesToDecrypt.push({ handle: globalTotalHandle, contractAddress, type: 'globalTotal' });
+          handlesToDecrypt.push({ handle: globalCountHandle, contractAddress, type: 'globalCount' });
         }
         
-        if (isValidHandle(leadershipTotalHandle)) {
+        if (isValidHandle(leadershipTotalHandle) && isValidHandle(leadershipCountHandle) && leadershipNoise === 0) {
           handlesToDecrypt.push({ handle: leadershipTotalHandle, contractAddress, type: 'leadershipTotal' });
+          handlesToDecrypt.push({ handle: leadershipCountHandle, contractAddress, type: 'leadershipCount' });
         }
         
-        // Set counts (these are already decrypted uint32 values)
+        // Set counts from the plaintext entry counts until the accepted counts are decrypted
         setDecryptedGlobalCount(BigInt(globalCountValue));
         setDecryptedLeadershipCount(BigInt(leadershipCountValue));
         setActiveCount(globalCountValue);
@@ -178,6 +268,10 @@ const RatingSystem = () => {
             } else if (item.type === 'leadershipTotal') {
               setDecryptedLeadershipTotal(bigValue);
               console.log("[AutoDecrypt] ✅ Leadership total:", value);
+            } else if (item.type === 'globalCount') {
+              setDecryptedGlobalCount(bigValue);
+            } else if (item.type === 'leadershipCount') {
+              setDecryptedLeadershipCount(bigValue);
             }
           }
         }
@@ -194,10 +288,10 @@ const RatingSystem = () => {
             if (!window.ethereum || !address) return;
             
             const provider = new BrowserProvider((window as any).ethereum);
-            const predefinedSubjects = ["Leadership", "Team Performance", "Service Quality", "Innovation", "Communication"];
+            const subjectNames = (await getSubjects(provider, Number(chainId))).map((s) => s.name);
             
-            // Grant permission for all predefined subjects
-            await allowUserToDecrypt(provider, address, predefinedSubjects, Number(chainId));
+            // Grant permission for all registered subjects
+            await allowUserToDecrypt(provider, address, subjectNames, Number(chainId));
             
             console.log("[AutoDecrypt] ✅ Permission granted! Retrying decryption...");
             toast.success("Decryption permission granted! Please refresh the page.");
@@ -250,6 +344,8 @@ const RatingSystem = () => {
       setGlobalStats(null);
       setLeadershipStats(null);
       setUserHasSubmitted(false);
+      setSubjects([]);
+      setSegments([]);
     }
   }, [isConnected, address, chainId, contractDeployed]);
 
@@ -272,6 +368,20 @@ const RatingSystem = () => {
         console.debug('[loadBasicContractData] Could not get active count (may be normal):', countError.message);
       }
 
+      // Load the subject registry
+      setSubjects(await getSubjects(provider, Number(chainId)));
+      setAnonymousMode(await isAnonymousMode(provider, Number(chainId)));
+      setPrivateCounts(await isPrivateCounts(provider, Number(chainId)));
+      setSegments(await getSegments(provider, Number(chainId)));
+      const scale = await getRatingScale(provider, Number(chainId));
+      setRatingScale(scale);
+      setRating((current) => Math.min(current, scale));
+      setRanking(await getLatestRanking(provider, Number(chainId)));
+
+      // Load minimum respondent thresholds
+      setGlobalMinRespondents(await getGlobalMinRespondents(provider, Number(chainId)));
+      setLeadershipMinRespondents(await getSubjectMinRespondents(provider, 'Leadership', Number(chainId)));
+
       // Set empty stats initially
       setGlobalStats(null);
       setLeadershipStats(null);
@@ -300,8 +410,8 @@ const RatingSystem = () => {
 
       // Check if contract is deployed before attempting to load
       if (!isContractDeployed(Number(chainId))) {
-        setGlobalStats({ average: 0, count: 0, finalized: false });
-        setLeadershipStats({ average: 0, count: 0, finalized: false });
+        setGlobalStats({ average: 0, count: 0, stdDev: 0, noise: 0, finalized: false });
+        setLeadershipStats({ average: 0, count: 0, stdDev: 0, noise: 0, finalized: false });
         setStatsLoaded(true);
         setIsLoadingStatistics(false);
         return;
@@ -353,8 +463,8 @@ const RatingSystem = () => {
       console.error('Error loading FHEVM contract data:', error);
       
       // Set default values on error to prevent UI issues
-      setGlobalStats({ average: 0, count: 0, finalized: false });
-      setLeadershipStats({ average: 0, count: 0, finalized: false });
+      setGlobalStats({ average: 0, count: 0, stdDev: 0, noise: 0, finalized: false });
+      setLeadershipStats({ average: 0, count: 0, stdDev: 0, noise: 0, finalized: false });
       setStatsLoaded(true);
       setIsLoadingStatistics(false);
       
@@ -376,6 +486,34 @@ const RatingSystem = () => {
     }
 
     setIsLoadingStatistics(true);
+
+    // Publish fresh global and subject statistics in one decryption request before reading them
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const names = subjects.map((subj) => subj.name);
+      const batch = (await getPublishableSubjects(provider, names, chainId)).slice(0, MAX_BATCH_SUBJECTS);
+
+      if (batch.length > 0) {
+        toast.info('Requesting statistics decryption...');
+        const tx = await requestAllStats(provider, batch, chainId);
+        await tx.wait();
+        await awaitLocalDecryptionOracle(chainId);
+        if (chainId !== 31337) {
+          toast.success('Statistics decryption requested! Results will be available shortly.');
+        }
+      }
+    } catch (error: any) {
+      console.error('Error requesting statistics:', error);
+      if (error.message?.includes('Not enough respondents') || error.message?.includes('No data to decrypt')) {
+        toast.error('Not enough ratings yet to publish global statistics.');
+      } else if (error.message?.includes('Privacy budget exhausted')) {
+        toast.error('No more noisy results can be published without wearing the noise down.');
+      } else {
+        toast.error(`Failed to request statistics: ${error.message || "Unknown error"}`);
+      }
+    }
+
     await loadContractData();
   };
 
@@ -400,18 +538,9 @@ const RatingSystem = () => {
     }
   };
 
-  const predefinedSubjects = [
-    'Leadership',
-    'Team Performance',
-    'Customer Service',
-    'Product Quality',
-    'Work Environment',
-    'Company Culture',
-    'Management',
-    'Communication',
-    'Innovation',
-    'Work-Life Balance'
-  ];
+  // Only subjects that currently accept ratings can be selected
+  const openSubjects = subjects.filter((subj) => isSubjectAcceptingRatings(subj));
+  const selectedSubject = subjects.find((subj) => subj.name === subject);
 
   const handleSubmitRating = async () => {
     if (!isConnected || !address) {
@@ -424,6 +553,12 @@ const RatingSystem = () => {
       return;
     }
 
+    // The contract zeroes out-of-range ratings but still counts them, so refuse them before encrypting
+    if (rating < 1 || rating > ratingScale) {
+      toast.error(`Please pick a rating between 1 and ${ratingScale}`);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -451,25 +586,70 @@ const RatingSystem = () => {
         throw new Error("Contract address not configured. Please deploy the contract first.");
       }
 
+      // Relayed ratings are encrypted for the relayer, which sends the transaction.
+      // A segment is only submitted directly, since the relayer forwards plain ratings.
+      const segmented = segment !== '' && !anonymousMode;
+      const relayed = !segmented && submitWithoutGas && !!getRelayerUrl(chainId);
+      const sender = relayed ? await getRelayerAddress(chainId) : address;
+
       // Encrypt the rating using fhe.encrypt (like secret-vault-check)
       // Note: On Sepolia, this will trigger MetaMask signature request
       console.log('[handleSubmitRating] Starting encryption (MetaMask may prompt for signature)...');
       toast.info('Encrypting your rating... (Please approve MetaMask signature if prompted)');
       
-      const encrypted = await fhe.encrypt(contractAddress, address, rating);
+      const encrypted = await fhe.encrypt(
+        contractAddress,
+        sender,
+        rating,
+        segmented ? Number(segment) : undefined,
+        ratingScale
+      );
       const handles = encrypted.handles;
       const inputProof = encrypted.inputProof;
       
       console.log('[handleSubmitRating] Encryption successful, handles:', handles.length);
 
-      // Submit to contract
-      console.log('[handleSubmitRating] Submitting to contract...');
-      toast.info('Submitting encrypted rating to blockchain...');
-      const tx = await submitRating(provider, handles[0], inputProof, subject, chainId);
+      // Submit to contract, directly or through the relayer
+      let receipt;
+      if (segmented) {
+        // The segment is encrypted next to the rating, so only segment aggregates ever reveal it
+        toast.info('Submitting encrypted rating and segment to blockchain...');
+        const tx = await submitSegmentedRating(provider, handles[0], handles[1], inputProof, subject, chainId);
+        toast.info('Waiting for transaction confirmation...');
+        receipt = await tx.wait();
+      } else if (anonymousMode) {
+        // The member key's nullifier blocks a second rating of this subject; the rating is tied to the key, not the wallet
+        toast.info('Sign to unlock your anonymous rating key...');
+        const anonymousRating = await signAnonymousRating(provider, handles[0], inputProof, subject, chainId);
+
+        if (relayed) {
+          const txHash = await relayAnonymousRating(anonymousRating, handles[0], inputProof, subject, chainId);
+          toast.info('Waiting for transaction confirmation...');
+          receipt = await provider.waitForTransaction(txHash);
+        } else {
+          const tx = await submitAnonymousRating(provider, anonymousRating, handles[0], inputProof, subject, chainId);
+          toast.info('Waiting for transaction confirmation...');
+          receipt = await tx.wait();
+        }
+      } else if (relayed) {
+        console.log('[handleSubmitRating] Submitting through the relayer...');
+        toast.info('Sign your rating to submit it without gas...');
+        const txHash = await relayRating(provider, 'submit', handles[0], inputProof, subject, chainId);
+
+        toast.info('Waiting for transaction confirmation...');
+        receipt = await provider.waitForTransaction(txHash);
+      } else {
+        console.log('[handleSubmitRating] Submitting to contract...');
+        toast.info('Submitting encrypted rating to blockchain...');
+        const tx = await submitRating(provider, handles[0], inputProof, subject, chainId);
 
-      // Wait for confirmation
-      toast.info('Waiting for transaction confirmation...');
-      const receipt = await tx.wait();
+        // Wait for confirmation
+        toast.info('Waiting for transaction confirmation...');
+        receipt = await tx.wait();
+      }
+      if (!receipt) {
+        throw new Error('Transaction failed');
+      }
       console.log('[handleSubmitRating] Transaction confirmed:', {
         hash: receipt.hash,
         blockNumber: receipt.blockNumber,
@@ -481,6 +661,7 @@ const RatingSystem = () => {
       }
 
       toast.success('Rating submitted successfully!');
+      await rememberOwnRatings(provider, address, [subject], anonymousMode, chainId);
 
       // Wait a bit for contract state to update (especially on local network)
       // Local networks sometimes need a moment for state to sync
@@ -511,6 +692,10 @@ const RatingSystem = () => {
       // Handle specific error types
       if (error.message?.includes('Already submitted for this subject')) {
         toast.error('You have already submitted a rating for this subject. Please choose a different subject or update your existing rating.');
+      } else if (error.message?.includes('already submitted a rating')) {
+        toast.error(error.message);
+      } else if (error.message?.includes('not accepting ratings')) {
+        toast.error('This subject is not accepting ratings.');
       } else if (error.message?.includes('user rejected')) {
         toast.error('Transaction was rejected by user.');
       } else if (error.message?.includes('insufficient funds')) {
@@ -547,7 +732,7 @@ const RatingSystem = () => {
         console.log('[handleRequestGlobalStats] Using mock decryption for localhost');
         toast.info('Decrypting global statistics (local test mode)...');
         const result = await mockDecryptGlobalStats(provider, chainId);
-        toast.success(`Global statistics decrypted! Average: ${result.average}/10, Count: ${result.count}`);
+        toast.success(`Global statistics decrypted! Average: ${result.average.toFixed(2)}/${ratingScale}, Count: ${result.count}`);
       } else {
         // Real network - request decryption via oracle
         console.log('[handleRequestGlobalStats] Requesting decryption via oracle for network:', chainId);
@@ -562,7 +747,9 @@ const RatingSystem = () => {
 
     } catch (error: any) {
       console.error('Error requesting global stats:', error);
-      if (error.message?.includes('initSDK') ||
+      if (error.message?.includes('was not published')) {
+        toast.error('Not enough new ratings since the last result. The result was withheld without revealing the count.');
+      } else if (error.message?.includes('initSDK') ||
           error.message?.includes('FHEVM') ||
           error.message?.includes('relayer-sdk') ||
           error.message?.includes('Cannot read properties of undefined')) {
@@ -593,7 +780,7 @@ const RatingSystem = () => {
         console.log('[handleRequestSubjectStats] Using mock decryption for localhost');
         toast.info(`Decrypting ${subjectName} statistics (local test mode)...`);
         const result = await mockDecryptSubjectStats(provider, subjectName, chainId);
-        toast.success(`${subjectName} statistics decrypted! Average: ${result.average}/10, Count: ${result.count}`);
+        toast.success(`${subjectName} statistics decrypted! Average: ${result.average.toFixed(2)}/${ratingScale}, Count: ${result.count}`);
       } else {
         // Real network - request decryption via oracle
         console.log('[handleRequestSubjectStats] Requesting decryption via oracle for network:', chainId);
@@ -608,11 +795,15 @@ const RatingSystem = () => {
 
     } catch (error: any) {
       console.error('Error requesting subject stats:', error);
-      if (error.message?.includes('initSDK') ||
+      if (error.message?.includes('was not published')) {
+        toast.error(`Not enough new ${subjectName} ratings since the last result. The result was withheld without revealing the count.`);
+      } else if (error.message?.includes('initSDK') ||
           error.message?.includes('FHEVM') ||
           error.message?.includes('relayer-sdk') ||
           error.message?.includes('Cannot read properties of undefined')) {
         toast.error('FHEVM encryption service is not available. Please try again later.');
+      } else if (error.message?.includes('Privacy budget exhausted')) {
+        toast.error(`No more ${subjectName} results can be published without wearing the noise down.`);
       } else {
         toast.error(`Failed to request ${subjectName} statistics: ${error.message || "Unknown error"}`);
       }
@@ -621,15 +812,60 @@ const RatingSystem = () => {
     }
   };
 
+  const toggleRankingSubject = (name: string) => {
+    setRankingSubjects((selected) =>
+      selected.includes(name) ? selected.filter((s) => s !== name) : [...selected, name]
+    );
+  };
+
+  const handleRequestRanking = async () => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+    if (rankingSubjects.length < 2 || rankingSubjects.length > MAX_RANKING_SUBJECTS) {
+      toast.error(`Pick between 2 and ${MAX_RANKING_SUBJECTS} subjects to rank`);
+      return;
+    }
+
+    setIsRanking(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const previous = await getLatestRanking(provider, chainId);
+      const tx = await requestRanking(provider, rankingSubjects, chainId);
+      await tx.wait();
+      // On localhost the Hardhat node publishes the decryption right away
+      await awaitLocalDecryptionOracle(chainId);
+      const latest = await getLatestRanking(provider, chainId);
+      if (chainId === 31337 && latest?.blockNumber === previous?.blockNumber) {
+        toast.error('Every ranked subject needs enough new ratings since its last result. The ranking was withheld.');
+      } else {
+        toast.success('Ranking requested! It will appear once the comparisons are decrypted, unless it is withheld.');
+      }
+      setRanking(latest);
+    } catch (error: any) {
+      console.error('Error requesting ranking:', error);
+      if (error.message?.includes('Not enough respondents') || error.message?.includes('No data for this subject')) {
+        toast.error('Every ranked subject needs enough ratings to meet its respondent threshold');
+      } else {
+        toast.error(`Failed to request the ranking: ${error.message || "Unknown error"}`);
+      }
+    } finally {
+      setIsRanking(false);
+    }
+  };
+
+  // Averages carry two decimals; stars are filled to the nearest whole rating, one star per point of the scale
   const renderStars = (rating: number, interactive = false) => {
+    const filled = Math.round(rating);
     return (
       <div className="flex gap-1">
-        {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((star) => (
+        {Array.from({ length: ratingScale }, (_, i) => i + 1).map((star) => (
           <button
             key={star}
             onClick={interactive ? () => setRating(star) : undefined}
             className={`text-2xl ${interactive ? 'cursor-pointer hover:scale-110 transition-transform' : ''} ${
-              star <= rating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'
+              star <= filled ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'
             }`}
             disabled={!interactive}
           >
@@ -640,6 +876,58 @@ const RatingSystem = () => {
     );
   };
 
+  // Shown in place of the decrypt button while an aggregate is below its respondent threshold
+  const renderLockedNotice = (count: bigint, threshold: number) => {
+    const remaining = threshold - Number(count);
+    return (
+      <div className="text-center py-8 space-y-2">
+        <Lock className="h-6 w-6 text-muted-foreground mx-auto" />
+        <p className="text-muted-foreground">
+          {remaining} more {remaining === 1 ? 'rating' : 'ratings'} needed before results unlock
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {count.toString()} of {threshold} required ratings submitted
+        </p>
+      </div>
+    );
+  };
+
+  // With private counts only published snapshots are shown, since a live count reveals who has responded
+  const renderPublishedResults = (
+    stats: { average: number; count: number; finalized: boolean; noise?: number } | null,
+    onDecrypt: () => void,
+    note: string = PRIVATE_COUNTS_NOTE
+  ) => (
+    <div className="space-y-4">
+      {stats?.finalized ? (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Count:</span>
+            <Badge variant="outline">{stats.count}</Badge>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Average Rating:</span>
+            <div className="flex items-center gap-2">
+              {renderStars(stats.average)}
+              <Badge variant="secondary">
+                {stats.noise ? `${stats.average.toFixed(2)} ± ${stats.noise.toFixed(2)}` : `${stats.average.toFixed(2)}/${ratingScale}`}
+              </Badge>
+            </div>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center">No results published yet.</p>
+      )}
+      <p className="text-xs text-muted-foreground text-center">{note}</p>
+      <div className="flex justify-center mt-2">
+        <Button size="sm" onClick={onDecrypt} disabled={isLoadingStats}>
+          {isLoadingStats && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Decrypt Results
+        </Button>
+      </div>
+    </div>
+  );
+
   const networkName = chainId === 11155111 ? 'Sepolia' : chainId === 31337 ? 'Localhost' : `Chain ID ${chainId}`;
 
   return (
@@ -677,6 +965,7 @@ const RatingSystem = () => {
           </CardTitle>
           <CardDescription>
             Rate anonymously using fully homomorphic encryption. Your individual rating remains private.
+            {anonymousMode && ' Ratings here are recorded under your registered member key instead of your address, and cannot be changed once submitted.'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -701,25 +990,77 @@ const RatingSystem = () => {
                   <SelectValue placeholder="Select a subject..." />
                 </SelectTrigger>
                 <SelectContent>
-                  {predefinedSubjects.map((subj) => (
-                    <SelectItem key={subj} value={subj}>
-                      {subj}
+                  {openSubjects.map((subj) => (
+                    <SelectItem key={subj.id} value={subj.name}>
+                      {subj.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {selectedSubject?.description && (
+                <p className="text-sm text-muted-foreground mt-1">{selectedSubject.description}</p>
+              )}
+              {isConnected && contractDeployed && subjects.length > 0 && openSubjects.length === 0 && (
+                <p className="text-sm text-muted-foreground mt-1">No subjects are open for ratings right now.</p>
+              )}
             </div>
 
             <div>
-              <Label>Rating (1-10)</Label>
+              <Label>Rating (1-{ratingScale})</Label>
               <div className="mt-2">
                 {renderStars(rating, isConnected && contractDeployed)}
                 <p className="text-sm text-muted-foreground mt-1">
-                  Selected rating: {rating}/10
+                  Selected rating: {rating}/{ratingScale}
                 </p>
               </div>
             </div>
 
+            {segments.length > 0 && !anonymousMode && (
+              <div>
+                <Label htmlFor="segment">Your segment (optional)</Label>
+                <Select
+                  value={segment}
+                  onValueChange={(value) => setSegment(value === 'none' ? '' : value)}
+                  disabled={!isConnected || (isConnected && !contractDeployed)}
+                >
+                  <SelectTrigger id="segment">
+                    <SelectValue placeholder="Prefer not to say" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Prefer not to say</SelectItem>
+                    {segments.map((name, index) => (
+                      <SelectItem key={name} value={String(index)}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Encrypted like your rating. Results are only shown per segment once enough people in it have rated.
+                  {segment !== '' && getRelayerUrl(chainId) && ' Ratings with a segment are not relayed.'}
+                </p>
+              </div>
+            )}
+
+            {getRelayerUrl(chainId) && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="submit-without-gas">Submit without gas</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {anonymousMode
+                      ? 'Let the relayer send your rating, so your wallet does not send the transaction.'
+                      : 'Sign your rating and let the relayer pay for the transaction.'}
+                  </p>
+                </div>
+                <Switch
+                  id="submit-without-gas"
+                  checked={submitWithoutGas}
+                  onCheckedChange={setSubmitWithoutGas}
+                  disabled={!isConnected || (isConnected && !contractDeployed)}
+                />
+              </div>
+            )}
+
             <Button
               onClick={handleSubmitRating}
               disabled={!isConnected || !subject || isSubmitting || (isConnected && !contractDeployed)}
@@ -747,7 +1088,14 @@ const RatingSystem = () => {
           </CardHeader>
           <CardContent>
             {/* Display decrypted data (like secret-vault-check) */}
-            {decryptedGlobalCount > 0n ? (
+            {privateCounts ? (
+              renderPublishedResults(globalStats, handleRequestGlobalStats)
+            ) : decryptedGlobalCount > 0n && decryptedGlobalCount < BigInt(globalMinRespondents) ? (
+              renderLockedNotice(decryptedGlobalCount, globalMinRespondents)
+            ) : decryptedGlobalCount > 0n && globalNoiseScale > 0 ? (
+              // Noisy global sums: only published snapshots, with their error bar
+              renderPublishedResults(globalStats, handleRequestGlobalStats, NOISE_NOTE)
+            ) : decryptedGlobalCount > 0n ? (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Total:</span>
@@ -764,13 +1112,13 @@ const RatingSystem = () => {
                       <>
                         {renderStars(Number(decryptedGlobalTotal) / Number(decryptedGlobalCount))}
                         <Badge variant="secondary">
-                          {(Number(decryptedGlobalTotal) / Number(decryptedGlobalCount)).toFixed(2)}/10
+                          {(Number(decryptedGlobalTotal) / Number(decryptedGlobalCount)).toFixed(2)}/{ratingScale}
                         </Badge>
                       </>
                     )}
                   </div>
                 </div>
-                <div className="flex justify-center mt-2">
+                <div className="flex justify-center gap-2 mt-2">
                   <Button
                     variant="outline"
                     size="sm"
@@ -779,6 +1127,14 @@ const RatingSystem = () => {
                   >
                     🔄 Refresh Data
                   </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleRequestGlobalStats}
+                    disabled={isLoadingStats}
+                  >
+                    {isLoadingStats && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Decrypt Results
+                  </Button>
                 </div>
                 {fhe.loading && (
                   <p className="text-xs text-muted-foreground text-center">
@@ -823,7 +1179,45 @@ const RatingSystem = () => {
           </CardHeader>
           <CardContent>
             {/* Display decrypted data (like secret-vault-check) */}
-            {decryptedLeadershipCount > 0n ? (
+            {privateCounts ? (
+              renderPublishedResults(leadershipStats, () => handleRequestSubjectStats('Leadership'))
+            ) : decryptedLeadershipCount > 0n && decryptedLeadershipCount < BigInt(leadershipMinRespondents) ? (
+              renderLockedNotice(decryptedLeadershipCount, leadershipMinRespondents)
+            ) : decryptedLeadershipCount > 0n && leadershipNoiseScale > 0 ? (
+              // Noisy subjects: only the published snapshot is available, with its error bar
+              <div className="space-y-4">
+                {leadershipStats?.finalized ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Count:</span>
+                      <Badge variant="outline">{leadershipStats.count}</Badge>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Average Rating:</span>
+                      <div className="flex items-center gap-2">
+                        {renderStars(leadershipStats.average)}
+                        <Badge variant="secondary">
+                          {leadershipStats.average.toFixed(2)} ± {leadershipStats.noise.toFixed(2)}
+                        </Badge>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center">No results published yet.</p>
+                )}
+                <p className="text-xs text-muted-foreground text-center">{NOISE_NOTE}</p>
+                <div className="flex justify-center mt-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRequestSubjectStats('Leadership')}
+                    disabled={isLoadingStats}
+                  >
+                    {isLoadingStats && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Decrypt Results
+                  </Button>
+                </div>
+              </div>
+            ) : decryptedLeadershipCount > 0n ? (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Total:</span>
@@ -840,12 +1234,22 @@ const RatingSystem = () => {
                       <>
                         {renderStars(Number(decryptedLeadershipTotal) / Number(decryptedLeadershipCount))}
                         <Badge variant="secondary">
-                          {(Number(decryptedLeadershipTotal) / Number(decryptedLeadershipCount)).toFixed(2)}/10
+                          {(Number(decryptedLeadershipTotal) / Number(decryptedLeadershipCount)).toFixed(2)}/{ratingScale}
                         </Badge>
                       </>
                     )}
                   </div>
                 </div>
+                <div className="flex justify-center mt-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRequestSubjectStats('Leadership')}
+                    disabled={isLoadingStats}
+                  >
+                    {isLoadingStats && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Decrypt Results
+                  </Button>
+                </div>
               </div>
             ) : (
               <div className="text-center py-8">
@@ -858,6 +1262,58 @@ const RatingSystem = () => {
         </Card>
       </div>
 
+      {/* Ranking Section (compares against plaintext counts) */}
+      {isConnected && contractDeployed && subjects.length >= 2 && !privateCounts && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Ranking
+            </CardTitle>
+            <CardDescription>
+              Order subjects by average rating. Only which of two subjects rates higher is decrypted, never an average.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {subjects.map((subj) => (
+                <Badge
+                  key={subj.id}
+                  variant={rankingSubjects.includes(subj.name) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleRankingSubject(subj.name)}
+                >
+                  {subj.name}
+                </Badge>
+              ))}
+            </div>
+            <Button
+              onClick={handleRequestRanking}
+              disabled={isRanking || rankingSubjects.length < 2 || rankingSubjects.length > MAX_RANKING_SUBJECTS}
+            >
+              {isRanking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Rank {rankingSubjects.length} Subjects
+            </Button>
+
+            {ranking ? (
+              <div className="space-y-2">
+                <ol className="space-y-2">
+                  {ranking.subjects.map((name, index) => (
+                    <li key={name} className="flex items-center gap-3 rounded-lg border p-3">
+                      <Badge variant={index === 0 ? 'default' : 'secondary'}>#{index + 1}</Badge>
+                      <span className="font-medium">{name}</span>
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-muted-foreground">Published in block {ranking.blockNumber}.</p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">No ranking published yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* How It Works Section */}
       <Card>
         <CardHeader>
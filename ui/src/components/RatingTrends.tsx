@@ -1,7 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, TrendingUp, BarChart3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, TrendingUp, BarChart3, Shield, Users, Bell } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { useAccount, useChainId } from 'wagmi';
 import { toast } from 'sonner';
@@ -10,8 +13,18 @@ import { toast } from 'sonner';
 import {
   getContractAddress,
   isContractDeployed,
-  getEntryCount,
-  getEntry
+  getSubjects,
+  getEntriesBySubject,
+  getSubjectHistogram,
+  requestSubjectHistogram,
+  getSegments,
+  getSegmentStats,
+  requestSegmentStats,
+  getThresholdAlert,
+  setAlertThreshold,
+  requestThresholdAlert,
+  isPrivateCounts,
+  awaitLocalDecryptionOracle
 } from '@/lib/contract';
 import { BrowserProvider } from 'ethers';
 
@@ -26,6 +39,23 @@ export const RatingTrends = () => {
   const chainId = useChainId();
   const [entries, setEntries] = useState<RatingData[]>([]);
   const [loading, setLoading] = useState(false);
+  const [privateCounts, setPrivateCounts] = useState(false); // The contract serves no live counts
+
+  // Published (decrypted) rating histogram for the selected subject
+  const [histogramSubject, setHistogramSubject] = useState<string>('Leadership');
+  const [histogram, setHistogram] = useState<{ buckets: number[]; count: number; published: boolean } | null>(null);
+  const [loadingHistogram, setLoadingHistogram] = useState(false);
+  const [requestingHistogram, setRequestingHistogram] = useState(false);
+
+  // Published per-segment averages for the same subject
+  const [segments, setSegments] = useState<string[]>([]);
+  const [segmentStats, setSegmentStats] = useState<{ averages: number[]; counts: number[]; published: boolean } | null>(null);
+  const [requestingSegmentStats, setRequestingSegmentStats] = useState(false);
+
+  // Threshold alert of the same subject: only whether its average is below the threshold is published
+  const [thresholdAlert, setThresholdAlert] = useState<Awaited<ReturnType<typeof getThresholdAlert>> | null>(null);
+  const [alertInput, setAlertInput] = useState<string>('');
+  const [updatingAlert, setUpdatingAlert] = useState(false);
 
   const contractDeployed = isContractDeployed(chainId);
   const contractAddress = getContractAddress(chainId);
@@ -39,25 +69,29 @@ export const RatingTrends = () => {
 
     try {
       const provider = new BrowserProvider(window.ethereum);
-      const entryCount = await getEntryCount(provider, Number(chainId));
-      const maxEntries = Math.min(entryCount, 50); // Limit to last 50 entries for performance
-
-      const loadedEntries: RatingData[] = [];
-
-      for (let i = Math.max(0, entryCount - maxEntries); i < entryCount; i++) {
-        try {
-          const entry = await getEntry(provider, i, Number(chainId));
-          if (entry.isActive) {
-            loadedEntries.push({
-              timestamp: Number(entry.timestamp),
-              rating: 0, // We can't decrypt individual ratings, but we can show trends
-              subject: entry.subject
-            });
-          }
-        } catch (entryError) {
-          console.warn(`Failed to load entry ${i}:`, entryError);
-        }
+      const hiddenCounts = await isPrivateCounts(provider, Number(chainId));
+      setPrivateCounts(hiddenCounts);
+      if (hiddenCounts) {
+        // The contract keeps no per-subject entry list with private counts
+        setEntries([]);
+        return;
       }
+      // Read each subject's entries page by page from the contract's subject index
+      const subjects = await getSubjects(provider, Number(chainId));
+      const subjectEntries = await Promise.all(
+        subjects.map((subject) => getEntriesBySubject(provider, subject.name, Number(chainId)))
+      );
+
+      const loadedEntries: RatingData[] = subjectEntries
+        .flat()
+        .filter((entry) => entry.isActive)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-50) // Chart the latest 50 entries
+        .map((entry) => ({
+          timestamp: entry.timestamp,
+          rating: 0, // We can't decrypt individual ratings, but we can show trends
+          subject: entry.subject
+        }));
 
       setEntries(loadedEntries);
 
@@ -69,6 +103,154 @@ export const RatingTrends = () => {
     }
   };
 
+  const loadHistogram = async () => {
+    if (!isConnected || !contractDeployed || !histogramSubject) {
+      return;
+    }
+
+    setLoadingHistogram(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      setHistogram(await getSubjectHistogram(provider, histogramSubject, Number(chainId)));
+    } finally {
+      setLoadingHistogram(false);
+    }
+  };
+
+  const handleRequestHistogram = async () => {
+    if (!isConnected || !contractDeployed) {
+      return;
+    }
+
+    setRequestingHistogram(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const tx = await requestSubjectHistogram(provider, histogramSubject, Number(chainId));
+      await tx.wait();
+      // On localhost the Hardhat node publishes the decryption right away
+      await awaitLocalDecryptionOracle(Number(chainId));
+      toast.success('Distribution requested! It will appear once the decryption is published, unless too few ratings changed since the last result.');
+      await loadHistogram();
+    } catch (error: any) {
+      console.error('Error requesting histogram:', error);
+      if (error.message?.includes('Not enough respondents')) {
+        toast.error('Not enough ratings yet to publish this distribution');
+      } else {
+        toast.error(error.message || 'Failed to request distribution');
+      }
+    } finally {
+      setRequestingHistogram(false);
+    }
+  };
+
+  const loadSegmentStats = async () => {
+    if (!isConnected || !contractDeployed || !histogramSubject) {
+      return;
+    }
+
+    const provider = new BrowserProvider(window.ethereum);
+    const names = await getSegments(provider, Number(chainId));
+    setSegments(names);
+    setSegmentStats(names.length > 0 ? await getSegmentStats(provider, histogramSubject, Number(chainId)) : null);
+  };
+
+  const handleRequestSegmentStats = async () => {
+    if (!isConnected || !contractDeployed) {
+      return;
+    }
+
+    setRequestingSegmentStats(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const tx = await requestSegmentStats(provider, histogramSubject, Number(chainId));
+      await tx.wait();
+      // On localhost the Hardhat node publishes the decryption right away
+      await awaitLocalDecryptionOracle(Number(chainId));
+      toast.success('Segment results requested! They will appear once the decryption is published.');
+      await loadSegmentStats();
+    } catch (error: any) {
+      console.error('Error requesting segment stats:', error);
+      if (error.message?.includes('No data for this subject')) {
+        toast.error('No ratings with a segment for this subject yet');
+      } else {
+        toast.error(error.message || 'Failed to request segment results');
+      }
+    } finally {
+      setRequestingSegmentStats(false);
+    }
+  };
+
+  const loadAlert = async () => {
+    if (!isConnected || !contractDeployed || !histogramSubject) {
+      return;
+    }
+
+    const provider = new BrowserProvider(window.ethereum);
+    const result = await getThresholdAlert(provider, histogramSubject, Number(chainId));
+    setThresholdAlert(result);
+    setAlertInput(result.threshold > 0 ? String(result.threshold) : '');
+  };
+
+  const handleSetAlert = async () => {
+    const threshold = Number(alertInput || 0);
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 10) {
+      toast.error('The alert threshold must be an average between 0 and 10');
+      return;
+    }
+
+    setUpdatingAlert(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const tx = await setAlertThreshold(provider, histogramSubject, threshold, Number(chainId));
+      await tx.wait();
+      toast.success(threshold > 0 ? `Alert set below ${threshold.toFixed(2)}` : 'Alert removed');
+      await loadAlert();
+    } catch (error: any) {
+      console.error('Error setting alert threshold:', error);
+      if (error.message?.includes('Caller is missing role')) {
+        toast.error('Only admins can configure alerts');
+      } else {
+        toast.error(error.message || 'Failed to set the alert');
+      }
+    } finally {
+      setUpdatingAlert(false);
+    }
+  };
+
+  const handleCheckAlert = async () => {
+    setUpdatingAlert(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const tx = await requestThresholdAlert(provider, histogramSubject, Number(chainId));
+      await tx.wait();
+      // On localhost the Hardhat node publishes the decryption right away
+      await awaitLocalDecryptionOracle(Number(chainId));
+      toast.success('Alert check requested! The result will appear once the decryption is published, unless too few ratings changed since the last result.');
+      await loadAlert();
+    } catch (error: any) {
+      console.error('Error checking alert:', error);
+      if (error.message?.includes('Not enough respondents')) {
+        toast.error('Not enough ratings yet to check this alert');
+      } else {
+        toast.error(error.message || 'Failed to check the alert');
+      }
+    } finally {
+      setUpdatingAlert(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected && contractDeployed) {
+      loadHistogram();
+      loadSegmentStats();
+      loadAlert();
+    } else {
+      setHistogram(null);
+      setSegmentStats(null);
+      setThresholdAlert(null);
+    }
+  }, [isConnected, chainId, contractDeployed, histogramSubject]);
+
   useEffect(() => {
     if (isConnected && contractDeployed) {
       loadRatingTrends();
@@ -109,6 +291,17 @@ export const RatingTrends = () => {
       .slice(0, 10); // Top 10 subjects
   }, [entries]);
 
+  const histogramSubjects = useMemo(() => {
+    const subjects = new Set<string>(['Leadership']);
+    entries.forEach(entry => subjects.add(entry.subject));
+    return Array.from(subjects);
+  }, [entries]);
+
+  const histogramData = useMemo(() => {
+    if (!histogram?.published) return [];
+    return histogram.buckets.map((count, i) => ({ rating: String(i + 1), count }));
+  }, [histogram]);
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -165,6 +358,14 @@ export const RatingTrends = () => {
                   <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
                   <p className="text-muted-foreground">Loading rating trends...</p>
                 </div>
+              ) : privateCounts ? (
+                <div className="text-center py-8">
+                  <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">Response counts are private on this deployment.</p>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    This page only shows them with published statistics.
+                  </p>
+                </div>
               ) : chartData.length === 0 ? (
                 <div className="text-center py-8">
                   <TrendingUp className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -219,6 +420,11 @@ export const RatingTrends = () => {
                   <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
                   <p className="text-muted-foreground">Loading subject distribution...</p>
                 </div>
+              ) : privateCounts ? (
+                <div className="text-center py-8">
+                  <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">Response counts are private on this deployment.</p>
+                </div>
               ) : subjectDistribution.length === 0 ? (
                 <div className="text-center py-8">
                   <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -251,6 +457,196 @@ export const RatingTrends = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Rating Distribution (decrypted histogram) */}
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Rating Distribution
+          </CardTitle>
+          <CardDescription>
+            How many people gave each rating, decrypted only as an aggregate
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isConnected && contractDeployed && (
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={histogramSubject} onValueChange={setHistogramSubject}>
+                  <SelectTrigger className="sm:w-64">
+                    <SelectValue placeholder="Select a subject..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {histogramSubjects.map((subj) => (
+                      <SelectItem key={subj} value={subj}>
+                        {subj}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={handleRequestHistogram}
+                  disabled={requestingHistogram || privateCounts}
+                >
+                  {requestingHistogram ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Shield className="mr-2 h-4 w-4" />
+                  )}
+                  Decrypt Distribution
+                </Button>
+              </div>
+
+              {privateCounts ? (
+                <div className="text-center py-8">
+                  <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">
+                    Distributions are unavailable while response counts are private, since they add up to the count.
+                  </p>
+                </div>
+              ) : loadingHistogram ? (
+                <div className="text-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+                  <p className="text-muted-foreground">Loading rating distribution...</p>
+                </div>
+              ) : histogramData.length === 0 ? (
+                <div className="text-center py-8">
+                  <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No distribution published for {histogramSubject} yet.</p>
+                </div>
+              ) : (
+                <>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={histogramData}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis dataKey="rating" tick={{ fontSize: 12 }} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                      <Tooltip
+                        formatter={(value: number) => [`${value} ratings`, 'Count']}
+                        labelFormatter={(label) => `Rating: ${label}/10`}
+                      />
+                      <Bar
+                        dataKey="count"
+                        fill="hsl(var(--primary))"
+                        radius={[4, 4, 0, 0]}
+                      />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <p className="text-xs text-muted-foreground text-center">
+                    Based on {histogram?.count} ratings. Out-of-range ratings are not counted in any bar.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Threshold Alert (decrypted comparison only; compares against the plaintext count) */}
+      {isConnected && contractDeployed && !privateCounts && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Threshold Alert
+            </CardTitle>
+            <CardDescription>
+              Whether {histogramSubject} averages below a threshold. The average itself is never decrypted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                step={0.1}
+                placeholder="Alert below (e.g. 6)"
+                value={alertInput}
+                onChange={(e) => setAlertInput(e.target.value)}
+                className="sm:w-48"
+              />
+              <Button variant="outline" onClick={handleSetAlert} disabled={updatingAlert}>
+                Set Alert (admin)
+              </Button>
+              <Button onClick={handleCheckAlert} disabled={updatingAlert || !thresholdAlert?.threshold}>
+                {updatingAlert ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shield className="mr-2 h-4 w-4" />}
+                Check Alert
+              </Button>
+            </div>
+
+            {!thresholdAlert?.threshold ? (
+              <p className="text-muted-foreground text-center py-4">No alert configured for {histogramSubject}.</p>
+            ) : !thresholdAlert.published ? (
+              <p className="text-muted-foreground text-center py-4">
+                Alert set below {thresholdAlert.threshold.toFixed(2)}. Not checked yet.
+              </p>
+            ) : (
+              <Alert variant={thresholdAlert.published.below ? 'destructive' : 'default'}>
+                <AlertDescription>
+                  {thresholdAlert.published.below
+                    ? `${histogramSubject} is below an average of ${thresholdAlert.published.threshold.toFixed(2)}`
+                    : `${histogramSubject} is at or above an average of ${thresholdAlert.published.threshold.toFixed(2)}`}{' '}
+                  (checked over {thresholdAlert.published.count} ratings).
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Segment Breakdown (decrypted per-segment averages) */}
+      {isConnected && contractDeployed && segments.length > 0 && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Segment Breakdown
+            </CardTitle>
+            <CardDescription>
+              Average rating of {histogramSubject} per respondent segment. Segments with too few ratings stay hidden.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button
+              variant="outline"
+              onClick={handleRequestSegmentStats}
+              disabled={requestingSegmentStats}
+            >
+              {requestingSegmentStats ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Shield className="mr-2 h-4 w-4" />
+              )}
+              Decrypt Segment Results
+            </Button>
+
+            {!segmentStats?.published ? (
+              <p className="text-muted-foreground text-center py-4">
+                No segment results published for {histogramSubject} yet.
+              </p>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-2">
+                {segments.map((name, index) => (
+                  <div key={name} className="flex items-center justify-between rounded-lg border p-3">
+                    <span className="font-medium">{name}</span>
+                    {segmentStats.counts[index] > 0 ? (
+                      <span className="text-sm">
+                        {segmentStats.averages[index].toFixed(2)}/10
+                        <span className="text-muted-foreground"> ({segmentStats.counts[index]} ratings)</span>
+                      </span>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Not enough ratings</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, ClipboardList } from 'lucide-react';
+import { toast } from 'sonner';
+import { BrowserProvider } from 'ethers';
+
+import { useFhevm } from '@/hooks/useFhevm';
+import {
+  getContractAddress,
+  isContractDeployed,
+  getCampaigns,
+  getRatingScale,
+  submitCampaign,
+  rememberOwnRatings,
+  CampaignInfo
+} from '@/lib/contract';
+
+export const SurveyQuestionnaire = () => {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const fhe = useFhevm(chainId);
+  const contractDeployed = isContractDeployed(chainId);
+
+  const [campaigns, setCampaigns] = useState<CampaignInfo[]>([]);
+  const [campaignId, setCampaignId] = useState<string>('');
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [ratingScale, setRatingScale] = useState<number>(10); // Highest rating this instance accepts
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedCampaign = campaigns.find((c) => c.id.toString() === campaignId);
+
+  useEffect(() => {
+    const loadCampaigns = async () => {
+      if (!isConnected || !contractDeployed || !window.ethereum) return;
+      const provider = new BrowserProvider(window.ethereum);
+      setCampaigns(await getCampaigns(provider, chainId));
+      setRatingScale(await getRatingScale(provider, chainId));
+    };
+    loadCampaigns();
+  }, [isConnected, contractDeployed, chainId]);
+
+  // Every question starts at the middle of the scale
+  const middle = Math.ceil(ratingScale / 2);
+  useEffect(() => {
+    setAnswers(selectedCampaign ? selectedCampaign.questions.map(() => middle) : []);
+  }, [campaignId, campaigns, middle]);
+
+  const setAnswer = (index: number, value: number) => {
+    setAnswers((prev) => prev.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  const handleSubmitSurvey = async () => {
+    if (!isConnected || !address) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    if (!selectedCampaign) {
+      toast.error('Please select a survey');
+      return;
+    }
+
+    // The contract zeroes out-of-range answers but still counts them, so refuse them before encrypting
+    if (answers.some((answer) => answer < 1 || answer > ratingScale)) {
+      toast.error(`Please answer every question between 1 and ${ratingScale}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const network = await provider.getNetwork();
+      const currentChainId = Number(network.chainId);
+
+      if (!fhe.isReady) {
+        throw new Error("FHEVM is not ready. Please wait for initialization.");
+      }
+
+      const contractAddress = getContractAddress(currentChainId);
+
+      // All answers go into one encrypted input so a single proof covers the whole survey
+      toast.info('Encrypting your answers... (Please approve MetaMask signature if prompted)');
+      const encrypted = await fhe.encrypt(contractAddress, address, answers, undefined, ratingScale);
+
+      toast.info('Submitting encrypted survey to blockchain...');
+      const tx = await submitCampaign(
+        provider,
+        selectedCampaign.id,
+        encrypted.handles,
+        encrypted.inputProof,
+        currentChainId
+      );
+
+      toast.info('Waiting for transaction confirmation...');
+      const receipt = await tx.wait();
+      if (receipt.status !== 1) {
+        throw new Error("Transaction failed");
+      }
+
+      toast.success('Survey submitted successfully!');
+      await rememberOwnRatings(provider, address, selectedCampaign.questions, false, currentChainId);
+      setCampaignId('');
+    } catch (error: any) {
+      console.error('[handleSubmitSurvey] Error:', error);
+      toast.error(error.message || 'Failed to submit survey');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderScale = (index: number, value: number) => (
+    <div className="flex gap-1">
+      {Array.from({ length: ratingScale }, (_, i) => i + 1).map((star) => (
+        <button
+          key={star}
+          onClick={() => setAnswer(index, star)}
+          className={`text-2xl cursor-pointer hover:scale-110 transition-transform ${
+            star <= value ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'
+          }`}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+
+  if (!isConnected || !contractDeployed || campaigns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 pb-12">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Answer a Survey
+          </CardTitle>
+          <CardDescription>
+            Rate every question of a survey at once. All answers are encrypted together and submitted in one transaction.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <Label htmlFor="campaign">Survey</Label>
+            <Select value={campaignId} onValueChange={setCampaignId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a survey..." />
+              </SelectTrigger>
+              <SelectContent>
+                {campaigns.map((campaign) => (
+                  <SelectItem key={campaign.id} value={campaign.id.toString()}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedCampaign?.questions.map((question, index) => (
+            <div key={question}>
+              <Label>{question}</Label>
+              <div className="mt-2">
+                {renderScale(index, answers[index] ?? 5)}
+                <p className="text-sm text-muted-foreground mt-1">
+                  Selected rating: {answers[index] ?? middle}/{ratingScale}
+                </p>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            onClick={handleSubmitSurvey}
+            disabled={!selectedCampaign || isSubmitting}
+            className="w-full"
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Encrypted Survey
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SurveyQuestionnaire;
@@ -73,13 +73,19 @@ export function useFhevm(chainId?: number) {
     };
   }, [chainId]);
 
-  // Encryption function
+  // Encryption function (an array of ratings is encrypted into one batched input, followed by the segment if given)
   const encrypt = useCallback(
-    async (contractAddress: string, userAddress: string, rating: number) => {
+    async (
+      contractAddress: string,
+      userAddress: string,
+      rating: number | number[],
+      segment?: number,
+      ratingScale?: number
+    ) => {
       if (!instance) {
         throw new Error("FHEVM instance not initialized");
       }
-      return encryptRating(instance, contractAddress, userAddress, rating);
+      return encryptRating(instance, contractAddress, userAddress, rating, segment, ratingScale);
     },
     [instance]
   );
@@ -1,10 +1,30 @@
-import { BrowserProvider, Contract, JsonRpcProvider } from "ethers";
-import { RATING_SYSTEM_ADDRESS } from "@/abi/RatingSystemAddresses";
+import { AbiCoder, BrowserProvider, Contract, id, JsonRpcProvider, keccak256, Wallet, ZeroAddress } from "ethers";
+import { RATING_SYSTEM_ADDRESS, RATING_FACTORY_ADDRESS, RELAYER_URL } from "@/abi/RatingSystemAddresses";
 import RatingSystemArtifact from "@/abi/EncryptedRatingSystem.json";
+import RatingCampaignFactoryArtifact from "@/abi/RatingCampaignFactory.json";
 import { batchDecrypt, getFHEVMInstance } from "./fhevm";
 
 // Extract ABI from Hardhat artifact
 const ABI = (RatingSystemArtifact as any).abi;
+const FACTORY_ABI = (RatingCampaignFactoryArtifact as any).abi;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Published averages and deviations are fixed-point, scaled by the contract's STATS_PRECISION
+export const STATS_PRECISION = 100;
+
+// Mirrors EncryptedRatingSystem.MAX_RANKING_SUBJECTS
+export const MAX_RANKING_SUBJECTS = 5;
+
+// Mirrors EncryptedRatingSystem.MAX_BATCH_SUBJECTS
+export const MAX_BATCH_SUBJECTS = 10;
+
+// Mirrors EncryptedRatingSystem.MAX_PAGE_SIZE: the most rows a paginated view returns per call
+const MAX_PAGE_SIZE = 100;
+
+export function fromFixedPoint(value: bigint | number): number {
+  return Number(value) / STATS_PRECISION;
+}
 
 export interface RatingEntry {
   id: number;
@@ -14,20 +34,79 @@ export interface RatingEntry {
   isActive: boolean;
 }
 
+// Convert an EntryInfo struct returned by the paginated views
+function toRatingEntry(entry: any): RatingEntry {
+  return {
+    id: Number(entry.id),
+    subject: entry.subject,
+    timestamp: Number(entry.timestamp),
+    submitter: entry.submitter,
+    isActive: entry.isActive,
+  };
+}
+
+// Read every page of a paginated view, which returns (items, total) for an offset
+async function readAllPages<T>(readPage: (offset: number, limit: number) => Promise<[T[], bigint]>): Promise<T[]> {
+  const items: T[] = [];
+  for (;;) {
+    const [page, total] = await readPage(items.length, MAX_PAGE_SIZE);
+    items.push(...page);
+    if (page.length === 0 || items.length >= Number(total)) {
+      return items;
+    }
+  }
+}
+
+// Mirrors EncryptedRatingSystem.SubjectStatus
+export enum SubjectStatus {
+  Draft = 0,
+  Open = 1,
+  Closed = 2,
+  Archived = 3,
+}
+
+export interface SubjectInfo {
+  id: number;
+  name: string;
+  description: string;
+  opensAt: number;
+  closesAt: number;
+  status: SubjectStatus;
+}
+
+// Whether a subject currently accepts ratings (Open and within its schedule)
+export function isSubjectAcceptingRatings(subject: SubjectInfo, now = Math.floor(Date.now() / 1000)): boolean {
+  return (
+    subject.status === SubjectStatus.Open &&
+    now >= subject.opensAt &&
+    (subject.closesAt === 0 || now < subject.closesAt)
+  );
+}
+
+export interface CampaignInfo {
+  id: number;
+  name: string;
+  questions: string[]; // Subject names, in question order
+}
+
+// A rating instance: the shared deployment (id 0) or a clone deployed by the campaign factory
+export interface RatingInstanceInfo {
+  id: number;
+  address: string;
+  name: string;
+  owner: string;
+  createdAt: number;
+}
+
 // Check if contract is deployed on current network
 export function isContractDeployed(chainId?: number): boolean {
   const id = chainId ?? 31337;
-  let address: string;
-  
-  if (id === 31337) {
-    address = RATING_SYSTEM_ADDRESS.localhost;
-  } else if (id === 11155111) {
-    address = RATING_SYSTEM_ADDRESS.sepolia;
-  } else {
+  if (id !== 31337 && id !== 11155111) {
     return false; // Unsupported network
   }
+  const address = getContractAddress(id);
   
-  const isDeployed = address && address !== "0x0000000000000000000000000000000000000000";
+  const isDeployed = address && address !== ZERO_ADDRESS;
   
   // Debug logging
   if (typeof window !== 'undefined') {
@@ -63,6 +142,67 @@ export function getContractAddress(chainId?: number): string {
   return address;
 }
 
+// Point every contract helper at another rating instance on this chain
+export function setActiveContractAddress(chainId: number, address: string) {
+  addressCache.set(chainId, address);
+}
+
+export function getFactoryAddress(chainId?: number): string {
+  const id = chainId ?? 31337;
+  if (id === 31337) {
+    return RATING_FACTORY_ADDRESS.localhost || ZERO_ADDRESS;
+  } else if (id === 11155111) {
+    return RATING_FACTORY_ADDRESS.sepolia || ZERO_ADDRESS;
+  }
+  return ZERO_ADDRESS;
+}
+
+// Gasless relayer for this chain ("" when none is configured)
+export function getRelayerUrl(chainId?: number): string {
+  const id = chainId ?? 31337;
+  if (id === 31337) {
+    return RELAYER_URL.localhost;
+  } else if (id === 11155111) {
+    return RELAYER_URL.sepolia;
+  }
+  return "";
+}
+
+// List the rating instances on this chain: the shared deployment followed by every factory campaign
+export async function getRatingInstances(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<RatingInstanceInfo[]> {
+  const id = chainId ?? 31337;
+  const instances: RatingInstanceInfo[] = [];
+
+  const sharedAddress =
+    id === 31337 ? RATING_SYSTEM_ADDRESS.localhost : id === 11155111 ? RATING_SYSTEM_ADDRESS.sepolia : "";
+  if (sharedAddress && sharedAddress !== ZERO_ADDRESS) {
+    instances.push({ id: 0, address: sharedAddress, name: "Shared ratings", owner: "", createdAt: 0 });
+  }
+
+  const factoryAddress = getFactoryAddress(id);
+  if (factoryAddress === ZERO_ADDRESS) {
+    return instances;
+  }
+  try {
+    const factory = new Contract(factoryAddress, FACTORY_ABI, provider);
+    const count = Number(await factory.getInstanceCount());
+    const ids = Array.from({ length: count }, (_, i) => i + 1);
+    const created = await Promise.all(
+      ids.map(async (instanceId) => {
+        const [address, owner, name, createdAt] = await factory.getInstance(instanceId);
+        return { id: instanceId, address, name, owner, createdAt: Number(createdAt) };
+      })
+    );
+    return [...instances, ...created];
+  } catch (error: any) {
+    console.error("Error loading rating instances:", error);
+    return instances;
+  }
+}
+
 export function getRatingSystemContract(
   provider: BrowserProvider | JsonRpcProvider,
   chainId?: number
@@ -88,6 +228,9 @@ export async function hasUserSubmitted(
     return false;
   }
   try {
+    if (await isPrivateCounts(provider, chainId)) {
+      return getOwnRatings(userAddress, chainId).some((entry) => entry.isActive);
+    }
     const contract = getRatingSystemContract(provider, chainId);
     return await contract.hasSubmitted(userAddress);
   } catch (error: any) {
@@ -121,6 +264,10 @@ export async function hasSubmittedForSubject(
   }
   
   try {
+    // The contract answers no one with private counts
+    if (await isPrivateCounts(provider, chainId)) {
+      return getOwnRatings(userAddress, chainId).some((entry) => entry.isActive && entry.subject === subject);
+    }
     const contract = getRatingSystemContract(provider, chainId);
     const result = await contract.hasSubmittedForSubject(userAddress, subject);
     return result;
@@ -155,40 +302,201 @@ export async function getUserEntry(
     return null;
   }
   try {
+    if (await isPrivateCounts(provider, chainId)) {
+      return getOwnRatings(userAddress, chainId).find((entry) => entry.isActive) ?? null;
+    }
     const contract = getRatingSystemContract(provider, chainId);
     const submitted = await contract.hasSubmitted(userAddress);
     if (!submitted) return null;
-    
-    // Note: Users can only have one active rating at a time
-    // We'll need to find their active entry
-    // Optimize by limiting search range
-    const entryCount = await contract.getEntryCount();
-    const maxSearch = Math.min(Number(entryCount), 100); // Limit search to prevent gas issues
-    
-    for (let i = 0; i < maxSearch; i++) {
-      try {
-        const entry = await contract.getEntry(i);
-        if (entry.submitter === userAddress && entry.isActive) {
-          return {
-            id: i,
-            subject: entry.subject,
-            timestamp: Number(entry.timestamp),
-            submitter: entry.submitter,
-            isActive: entry.isActive,
-          };
-        }
-      } catch (error) {
-        // Skip invalid entries
-        continue;
-      }
-    }
-    return null;
+
+    // The user's first active entry, from the contract's per-submitter index
+    const entries = await getEntriesBySubmitter(provider, userAddress, chainId);
+    return entries.find((entry) => entry.isActive) ?? null;
   } catch (error: any) {
     console.error("Error getting user entry:", error);
     return null;
   }
 }
 
+// Load the subject registry
+export async function getSubjects(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<SubjectInfo[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const subjects = await readAllPages((offset, limit) => contract.getSubjects(offset, limit));
+    return subjects.map((subject: any) => ({
+      id: Number(subject.id),
+      name: subject.name,
+      description: subject.description,
+      opensAt: Number(subject.opensAt),
+      closesAt: Number(subject.closesAt),
+      status: Number(subject.status) as SubjectStatus,
+    }));
+  } catch (error: any) {
+    console.error("Error loading subjects:", error);
+    return [];
+  }
+}
+
+// Load survey campaigns
+export async function getCampaigns(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<CampaignInfo[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const count = Number(await contract.getCampaignCount());
+    const ids = Array.from({ length: count }, (_, i) => i + 1);
+    return await Promise.all(
+      ids.map(async (id) => {
+        const campaign = await contract.getCampaign(id);
+        return { id, name: campaign.name, questions: [...campaign.questions] };
+      })
+    );
+  } catch (error: any) {
+    console.error("Error loading campaigns:", error);
+    return [];
+  }
+}
+
+// Submit all answers of a campaign; handles must come from one encrypted input, in question order
+export async function submitCampaign(
+  provider: BrowserProvider,
+  campaignId: number,
+  encryptedHandles: string[],
+  inputProof: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  try {
+    const signer = await provider.getSigner();
+    const contract = getRatingSystemContract(provider, chainId).connect(signer);
+
+    // One proof is checked against every question, so any restricted question's allowlist yields it
+    const [, questions]: [string, string[]] = await contract.getCampaign(campaignId);
+    const account = await signer.getAddress();
+    let eligibilityProof: string[] = [];
+    for (const question of questions) {
+      const proof = await getEligibilityProof(provider, question, account, chainId);
+      if (proof.length > 0) {
+        eligibilityProof = proof;
+        break;
+      }
+    }
+
+    const tx = await contract.submitCampaign(campaignId, encryptedHandles, inputProof, eligibilityProof);
+
+    console.log("Campaign submission transaction submitted:", tx.hash);
+    return tx;
+  } catch (error: any) {
+    console.error("Error submitting campaign:", error);
+
+    // Parse common errors
+    if (error.message?.includes("Already submitted for this subject")) {
+      throw new Error("You have already answered one or more questions of this survey.");
+    } else if (error.message?.includes("Subject is not open")) {
+      throw new Error("One or more questions of this survey are not accepting answers.");
+    } else if (error.message?.includes("not on the allowlist")) {
+      throw new Error("Your address is not on the allowlist for this survey.");
+    } else if (error.message?.includes("Not eligible for this subject")) {
+      // Token- or NFT-gated questions: the eligibility module rejected the address
+      throw new Error("Your address is not eligible to answer this survey.");
+    } else if (error.message?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
+    } else if (error.message?.includes("user rejected")) {
+      throw new Error("Transaction was rejected by user.");
+    } else if (error.message?.includes("insufficient funds")) {
+      throw new Error("Insufficient funds to pay for gas. Please add more ETH to your wallet.");
+    } else {
+      throw new Error(`Failed to submit survey: ${error.message || "Unknown error"}`);
+    }
+  }
+}
+
+export async function getEntryCount(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<number> {
+  if (!isContractDeployed(chainId)) {
+    return 0;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return Number(await contract.getEntryCount());
+  } catch (error: any) {
+    console.error("Error getting entry count:", error);
+    return 0;
+  }
+}
+
+export async function getEntry(
+  provider: BrowserProvider | JsonRpcProvider,
+  entryId: number,
+  chainId?: number
+): Promise<RatingEntry> {
+  const contract = getRatingSystemContract(provider, chainId);
+  const entry = await contract.getEntry(entryId);
+  return {
+    id: entryId,
+    subject: entry.subject,
+    timestamp: Number(entry.timestamp),
+    submitter: entry.submitter,
+    isActive: entry.isActive,
+  };
+}
+
+// Entries currently about a subject, deleted ones included
+export async function getEntriesBySubject(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  chainId?: number
+): Promise<RatingEntry[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const entries = await readAllPages((offset, limit) => contract.getEntriesBySubject(subject, offset, limit));
+    return entries.map(toRatingEntry);
+  } catch (error: any) {
+    console.error("Error loading subject entries:", error);
+    return [];
+  }
+}
+
+// Entries an address submitted, deleted ones included (anonymous entries are never listed). The contract lists
+// none with private counts
+export async function getEntriesBySubmitter(
+  provider: BrowserProvider | JsonRpcProvider,
+  submitter: string,
+  chainId?: number
+): Promise<RatingEntry[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const entries = await readAllPages((offset, limit) => contract.getEntriesBySubmitter(submitter, offset, limit));
+    return entries.map(toRatingEntry);
+  } catch (error: any) {
+    console.error("Error loading submitter entries:", error);
+    return [];
+  }
+}
+
 export async function getActiveEntryCount(
   provider: BrowserProvider | JsonRpcProvider,
   chainId?: number
@@ -284,14 +592,14 @@ export async function isGlobalStatsFinalized(
 export async function getGlobalStats(
   provider: BrowserProvider | JsonRpcProvider,
   chainId?: number
-): Promise<{ average: number; count: number; finalized: boolean }> {
+): Promise<{ average: number; count: number; stdDev: number; noise: number; finalized: boolean }> {
   if (!isContractDeployed(chainId)) {
-    return { average: 0, count: 0, finalized: false };
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
   }
   
   const address = getContractAddress(chainId);
   if (!address || address === "0x0000000000000000000000000000000000000000") {
-    return { average: 0, count: 0, finalized: false };
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
   }
   
   try {
@@ -311,18 +619,21 @@ export async function getGlobalStats(
       console.log('[getGlobalStats] Active entry count:', activeCount, 'Finalized:', finalized);
     } catch (error: any) {
       console.warn('[getGlobalStats] Failed to get stats:', error);
-      return { average: 0, count: 0, finalized: false };
+      return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
     }
 
     if (!finalized) {
-      return { average: 0, count: activeCount, finalized: false };
+      return { average: 0, count: activeCount, stdDev: 0, noise: 0, finalized: false };
     }
 
     // Stats are finalized, get the actual stats
     const stats = await contract.getGlobalStats();
     return {
-      average: Number(stats.averageRating),
+      average: fromFixedPoint(stats.averageRating),
       count: Number(stats.totalCount),
+      stdDev: fromFixedPoint(stats.stdDev),
+      // Once any subject has a noise scale the global sum is noised too, so the average is off by noiseScale / count
+      noise: Number(stats.totalCount) > 0 ? Number(stats.noiseScale) / Number(stats.totalCount) : 0,
       finalized: true,
     };
   } catch (error: any) {
@@ -332,10 +643,10 @@ export async function getGlobalStats(
         error.code === "BAD_DATA" ||
         error.message?.includes("not configured")) {
       console.warn("Contract may not be deployed at address:", address);
-      return { average: 0, count: 0, finalized: false };
+      return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
     }
     console.error("Error getting global stats:", error);
-    return { average: 0, count: 0, finalized: false };
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
   }
 }
 
@@ -399,11 +710,14 @@ export async function submitRating(
       contractAddress
     });
 
+    const eligibilityProof = await getEligibilityProof(provider, subject, await signer.getAddress(), chainId);
+
     // Call submitRating with correct parameter types
     const tx = await contract.submitRating(
       encryptedHandle as `0x${string}`, // bytes32
       inputProof as `0x${string}`,       // bytes
-      subject                             // string
+      subject,                            // string
+      eligibilityProof                    // bytes32[]
     );
 
     console.log("Transaction submitted:", tx.hash);
@@ -414,6 +728,15 @@ export async function submitRating(
     // Parse common errors
     if (error.message?.includes("Already submitted for this subject")) {
       throw new Error("You have already submitted a rating for this subject. Please choose a different subject or update your existing rating.");
+    } else if (error.message?.includes("Subject is not open") || error.message?.includes("Unknown subject")) {
+      throw new Error("This subject is not accepting ratings.");
+    } else if (error.message?.includes("not on the allowlist")) {
+      throw new Error(`Your address is not on the allowlist for "${subject}".`);
+    } else if (error.message?.includes("Not eligible for this subject")) {
+      // Token- or NFT-gated subjects: the eligibility module rejected the address
+      throw new Error(`Your address is not eligible to rate "${subject}". It may require holding a token or NFT.`);
+    } else if (error.message?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
     } else if (error.message?.includes("user rejected")) {
       throw new Error("Transaction was rejected by user.");
     } else if (error.message?.includes("insufficient funds")) {
@@ -426,122 +749,537 @@ export async function submitRating(
   }
 }
 
-export async function updateRating(
-  provider: BrowserProvider,
-  encryptedHandle: string,
-  inputProof: string,
-  newSubject: string,
+// Proofs published by task:set-eligibility, served from public/eligibility/<contract address>.json
+type EligibilityFile = {
+  subjects: Record<string, { root: string; proofs: Record<string, string[]> }>;
+  members?: { root: string; proofs: Record<string, string[]> };
+};
+
+// Merkle proof that an account may rate a subject; empty when the subject has no allowlist
+export async function getEligibilityProof(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  account: string,
   chainId?: number
-) {
-  if (!isContractDeployed(chainId)) {
-    throw new Error(
-      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
-      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
-    );
+): Promise<string[]> {
+  const contract = getRatingSystemContract(provider, chainId);
+  const root: string = await contract.getEligibilityRoot(subject);
+  if (BigInt(root) === 0n) {
+    return [];
   }
-  try {
-    if (!newSubject || newSubject.trim().length === 0) {
-      throw new Error("Subject cannot be empty");
-    }
-    if (newSubject.length > 100) {
-      throw new Error("Subject is too long (max 100 characters)");
-    }
-
-    const signer = await provider.getSigner();
-    const contract = getRatingSystemContract(provider, chainId).connect(signer);
-    const tx = await contract.updateRating(encryptedHandle, inputProof, newSubject);
 
-    console.log("Update transaction submitted:", tx.hash);
-    return tx;
-  } catch (error: any) {
-    console.error("Error updating rating:", error);
+  const contractAddress = getContractAddress(chainId).toLowerCase();
+  const response = await fetch(`/eligibility/${contractAddress}.json`);
+  const published: EligibilityFile | null = response.ok ? await response.json() : null;
+  const allowlist = published?.subjects[subject];
+  const proof = allowlist?.root === root ? allowlist.proofs[account.toLowerCase()] : undefined;
+  if (!proof) {
+    throw new Error(`Your address is not on the allowlist for "${subject}".`);
+  }
+  return proof;
+}
 
-    // Parse common errors
-    if (error.message?.includes("No entry to update")) {
-      throw new Error("You don't have a rating entry to update. Please submit a rating first.");
-    } else if (error.message?.includes("user rejected")) {
-      throw new Error("Transaction was rejected by user.");
-    } else if (error.message?.includes("insufficient funds")) {
-      throw new Error("Insufficient funds to pay for gas. Please add more ETH to your wallet.");
-    } else {
-      throw new Error(`Failed to update rating: ${error.message || "Unknown error"}`);
-    }
+// Account that sends relayed ratings; inputs must be encrypted for it, since input proofs are bound to the sender
+export async function getRelayerAddress(chainId?: number): Promise<string> {
+  const response = await fetch(`${getRelayerUrl(chainId)}/relayer`);
+  if (!response.ok) {
+    throw new Error("Relayer is not available");
   }
+  const { address } = await response.json();
+  return address;
 }
 
-export async function deleteRating(
+// Sign a rating (EIP-712) and hand it to the relayer, which pays the gas; returns the relayer's transaction hash.
+// Updates change the respondent's rating of subject and may move it to newSubject
+export async function relayRating(
   provider: BrowserProvider,
-  chainId?: number
-) {
-  if (!isContractDeployed(chainId)) {
-    throw new Error(
-      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
-      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
-    );
+  kind: "submit" | "update",
+  encryptedHandle: string,
+  inputProof: string,
+  subject: string,
+  chainId?: number,
+  newSubject: string = subject
+): Promise<string> {
+  const relayerUrl = getRelayerUrl(chainId);
+  if (!relayerUrl) {
+    throw new Error("No relayer configured for this network");
   }
-  try {
-    const signer = await provider.getSigner();
-    const contract = getRatingSystemContract(provider, chainId).connect(signer);
-    const tx = await contract.deleteRating();
 
-    console.log("Delete transaction submitted:", tx.hash);
-    return tx;
-  } catch (error: any) {
-    console.error("Error deleting rating:", error);
+  const signer = await provider.getSigner();
+  const respondent = await signer.getAddress();
+  const contractAddress = getContractAddress(chainId);
+  const contract = getRatingSystemContract(provider, chainId);
+
+  // Mirrors the SubmitRating / UpdateRating types in RatingStorage.sol
+  const deadline = Math.floor(Date.now() / 1000) + 3600;
+  const nonce = await contract.nonces(respondent);
+  const domain = { name: "EncryptedRatingSystem", version: "1", chainId: chainId ?? 31337, verifyingContract: contractAddress };
+
+  const signature = kind === "submit"
+    ? await signer.signTypedData(
+        domain,
+        {
+          SubmitRating: [
+            { name: "respondent", type: "address" },
+            { name: "encryptedRating", type: "bytes32" },
+            { name: "inputProof", type: "bytes" },
+            { name: "subject", type: "string" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { respondent, encryptedRating: encryptedHandle, inputProof, subject, nonce, deadline }
+      )
+    : await signer.signTypedData(
+        domain,
+        {
+          UpdateRating: [
+            { name: "respondent", type: "address" },
+            { name: "subject", type: "string" },
+            { name: "encryptedRating", type: "bytes32" },
+            { name: "inputProof", type: "bytes" },
+            { name: "newSubject", type: "string" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { respondent, subject, encryptedRating: encryptedHandle, inputProof, newSubject, nonce, deadline }
+      );
 
-    // Parse common errors
-    if (error.message?.includes("No entry to delete")) {
-      throw new Error("You don't have a rating entry to delete.");
-    } else if (error.message?.includes("user rejected")) {
-      throw new Error("Transaction was rejected by user.");
-    } else if (error.message?.includes("insufficient funds")) {
-      throw new Error("Insufficient funds to pay for gas. Please add more ETH to your wallet.");
-    } else {
-      throw new Error(`Failed to delete rating: ${error.message || "Unknown error"}`);
+  const response = await fetch(`${relayerUrl}/${kind}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      contract: contractAddress,
+      respondent,
+      encryptedRating: encryptedHandle,
+      inputProof,
+      subject,
+      newSubject,
+      deadline,
+      signature,
+      eligibilityProof: kind === "submit" ? await getEligibilityProof(provider, subject, respondent, chainId) : [],
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    if (result.error?.includes("Already submitted for this subject")) {
+      throw new Error("You have already submitted a rating for this subject. Please choose a different subject or update your existing rating.");
+    } else if (result.error?.includes("No active entry found")) {
+      throw new Error(`You don't have a rating for "${subject}" to update.`);
+    } else if (result.error?.includes("Not eligible for this subject")) {
+      throw new Error(`Your address is not eligible to rate "${subject}".`);
+    } else if (result.error?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
     }
+    throw new Error(`Relayer rejected the rating: ${result.error || "Unknown error"}`);
   }
+
+  console.log("[relayRating] Relayed transaction:", result.txHash);
+  return result.txHash;
 }
 
-// Get subject-specific statistics
-export async function getSubjectStats(
+// Whether this instance keys ratings by nullifiers instead of addresses
+export async function isAnonymousMode(
   provider: BrowserProvider | JsonRpcProvider,
-  subject: string,
   chainId?: number
-): Promise<{ average: number; count: number; finalized: boolean }> {
+): Promise<boolean> {
   if (!isContractDeployed(chainId)) {
-    return { average: 0, count: 0, finalized: false };
-  }
-  
-  const address = getContractAddress(chainId);
-  if (!address || address === "0x0000000000000000000000000000000000000000") {
-    return { average: 0, count: 0, finalized: false };
+    return false;
   }
-  
   try {
     const contract = getRatingSystemContract(provider, chainId);
-    const finalized = await contract.isSubjectStatsFinalized(subject);
-    if (!finalized) return { average: 0, count: 0, finalized: false };
-    const stats = await contract.getSubjectStats(subject);
-    return {
-      average: Number(stats.averageRating),
-      count: Number(stats.count),
-      finalized: true,
-    };
+    return await contract.anonymousMode();
   } catch (error: any) {
-    // Check if error is due to invalid contract address or contract not deployed
-    if (error.message?.includes("could not decode result data") || 
-        error.message?.includes("BAD_DATA") ||
-        error.code === "BAD_DATA" ||
-        error.message?.includes("not configured")) {
-      console.warn("Contract may not be deployed at address:", address);
-      return { average: 0, count: 0, finalized: false };
-    }
-    console.error("Error getting subject stats:", error);
-    return { average: 0, count: 0, finalized: false };
+    console.error("Error checking anonymity mode:", error);
+    return false;
   }
 }
 
-export async function requestSubjectStats(
+// Whether this instance keeps entry counts encrypted, revealing them only in published statistics
+export async function isPrivateCounts(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<boolean> {
+  if (!isContractDeployed(chainId)) {
+    return false;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return await contract.privateCounts();
+  } catch (error: any) {
+    console.error("Error checking private counts:", error);
+    return false;
+  }
+}
+
+// With private counts the contract serves no entries to anyone, so the user's own ratings are remembered in this
+// browser only. They are lost with the browser's storage and not shared with other devices.
+function ownRatingsKey(userAddress: string, chainId?: number): string {
+  return `own-ratings:${chainId ?? 31337}:${getContractAddress(chainId)}:${userAddress}`.toLowerCase();
+}
+
+export function getOwnRatings(userAddress: string, chainId?: number): RatingEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(ownRatingsKey(userAddress, chainId)) ?? "[]");
+  } catch (error) {
+    console.error("Error reading remembered ratings:", error);
+    return [];
+  }
+}
+
+// Record ratings the user just submitted, if the instance keeps counts private. Entries get local IDs, since the
+// contract reports none in that mode
+export async function rememberOwnRatings(
+  provider: BrowserProvider,
+  userAddress: string,
+  subjects: string[],
+  anonymous: boolean,
+  chainId?: number
+): Promise<void> {
+  if (!(await isPrivateCounts(provider, chainId))) {
+    return;
+  }
+  const entries = getOwnRatings(userAddress, chainId);
+  const timestamp = Math.floor(Date.now() / 1000);
+  for (const subject of subjects) {
+    entries.push({
+      id: entries.length,
+      subject,
+      timestamp,
+      submitter: anonymous ? ZeroAddress : userAddress,
+      isActive: true,
+    });
+  }
+  localStorage.setItem(ownRatingsKey(userAddress, chainId), JSON.stringify(entries));
+}
+
+// Secret behind the user's member key on this instance. It is derived from a wallet signature, so the same
+// wallet re-derives it on any device, and it never leaves the browser.
+const anonymitySecrets = new Map<string, string>();
+
+export async function getAnonymitySecret(provider: BrowserProvider, chainId?: number): Promise<string> {
+  const signer = await provider.getSigner();
+  const account = await signer.getAddress();
+  const contractAddress = getContractAddress(chainId);
+  const key = `${chainId ?? 31337}:${contractAddress}:${account}`.toLowerCase();
+
+  if (!anonymitySecrets.has(key)) {
+    const signature = await signer.signMessage(
+      `Unlock my anonymous ratings\n\nContract: ${contractAddress}\nChain: ${chainId ?? 31337}`
+    );
+    anonymitySecrets.set(key, keccak256(signature));
+  }
+  return anonymitySecrets.get(key)!;
+}
+
+// Key that signs the user's anonymous ratings; the administrators register its address, never the wallet's
+export async function getMemberKey(provider: BrowserProvider, chainId?: number): Promise<Wallet> {
+  return new Wallet(await getAnonymitySecret(provider, chainId));
+}
+
+// Mirrors EncryptedRatingSystem.getAnonymousNullifier()
+export function computeNullifier(member: string, subject: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [member, id(subject)]));
+}
+
+// Merkle proof that a member key was registered, published by task:set-anonymous-members
+async function getMembershipProof(
+  provider: BrowserProvider,
+  member: string,
+  chainId?: number
+): Promise<string[]> {
+  const contract = getRatingSystemContract(provider, chainId);
+  const root: string = await contract.anonymousMembersRoot();
+
+  const contractAddress = getContractAddress(chainId).toLowerCase();
+  const response = await fetch(`/eligibility/${contractAddress}.json`);
+  const published: EligibilityFile | null = response.ok ? await response.json() : null;
+  const proof = published?.members?.root === root ? published.members.proofs[member.toLowerCase()] : undefined;
+  if (BigInt(root) === 0n || !proof) {
+    throw new Error(
+      `Your anonymous key ${member} is not registered. Ask the administrators to add it to the member list.`
+    );
+  }
+  return proof;
+}
+
+// What submitAnonymousRating() needs besides the encrypted rating and subject
+export type AnonymousRating = {
+  member: string;
+  nullifier: string;
+  membershipProof: string[];
+  signature: string;
+};
+
+// Sign an encrypted rating of subject with the user's member key (EIP-712)
+export async function signAnonymousRating(
+  provider: BrowserProvider,
+  encryptedHandle: string,
+  inputProof: string,
+  subject: string,
+  chainId?: number
+): Promise<AnonymousRating> {
+  const memberKey = await getMemberKey(provider, chainId);
+  const membershipProof = await getMembershipProof(provider, memberKey.address, chainId);
+  const nullifier = computeNullifier(memberKey.address, subject);
+
+  // Mirrors the AnonymousRating type in RatingStorage.sol
+  const signature = await memberKey.signTypedData(
+    { name: "EncryptedRatingSystem", version: "1", chainId: chainId ?? 31337, verifyingContract: getContractAddress(chainId) },
+    {
+      AnonymousRating: [
+        { name: "nullifier", type: "bytes32" },
+        { name: "encryptedRating", type: "bytes32" },
+        { name: "inputProof", type: "bytes" },
+      ],
+    },
+    { nullifier, encryptedRating: encryptedHandle, inputProof }
+  );
+  return { member: memberKey.address, nullifier, membershipProof, signature };
+}
+
+function parseAnonymousRatingError(message: string | undefined): Error {
+  if (message?.includes("Nullifier already used")) {
+    return new Error("You have already submitted a rating for this subject.");
+  } else if (message?.includes("Not a registered member")) {
+    return new Error("Your anonymous key is not registered. Ask the administrators to add it to the member list.");
+  } else if (message?.includes("Subject is not open") || message?.includes("Unknown subject")) {
+    return new Error("This subject is not accepting ratings.");
+  } else if (message?.includes("Subject requires an eligibility proof")) {
+    return new Error("This subject is restricted to eligible addresses and does not accept anonymous ratings.");
+  } else if (message?.includes("Contract is paused")) {
+    return new Error("Ratings are temporarily paused by the administrators. Please try again later.");
+  }
+  return new Error(`Failed to submit anonymous rating: ${message || "Unknown error"}`);
+}
+
+// Submit a rating keyed by a nullifier; the entry stores no address, but this transaction's sender is public
+export async function submitAnonymousRating(
+  provider: BrowserProvider,
+  rating: AnonymousRating,
+  encryptedHandle: string,
+  inputProof: string,
+  subject: string,
+  chainId?: number
+) {
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  try {
+    const tx = await contract.submitAnonymousRating(
+      rating.member,
+      rating.nullifier,
+      encryptedHandle,
+      inputProof,
+      subject,
+      rating.membershipProof,
+      rating.signature
+    );
+    console.log("Anonymous rating transaction submitted:", tx.hash);
+    return tx;
+  } catch (error: any) {
+    console.error("Error submitting anonymous rating:", error);
+    if (error.message?.includes("user rejected")) {
+      throw new Error("Transaction was rejected by user.");
+    }
+    throw parseAnonymousRatingError(error.message);
+  }
+}
+
+// Hand an anonymous rating to the relayer, so the user's wallet does not send the transaction
+export async function relayAnonymousRating(
+  rating: AnonymousRating,
+  encryptedHandle: string,
+  inputProof: string,
+  subject: string,
+  chainId?: number
+): Promise<string> {
+  const relayerUrl = getRelayerUrl(chainId);
+  if (!relayerUrl) {
+    throw new Error("No relayer configured for this network");
+  }
+
+  const response = await fetch(`${relayerUrl}/anonymous`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      contract: getContractAddress(chainId),
+      ...rating,
+      encryptedRating: encryptedHandle,
+      inputProof,
+      subject,
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw parseAnonymousRatingError(result.error);
+  }
+
+  console.log("[relayAnonymousRating] Relayed transaction:", result.txHash);
+  return result.txHash;
+}
+
+// The connected user's own entries: looked up by address, or by their nullifiers in anonymity mode. With private
+// counts the contract serves none, so only the ratings remembered in this browser are known
+export async function getUserEntries(
+  provider: BrowserProvider,
+  userAddress: string,
+  chainId?: number
+): Promise<RatingEntry[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  if (await isPrivateCounts(provider, chainId)) {
+    return getOwnRatings(userAddress, chainId);
+  }
+  if (!(await isAnonymousMode(provider, chainId))) {
+    return getEntriesBySubmitter(provider, userAddress, chainId);
+  }
+
+  // Anonymous entries store no address, so look them up by the nullifier of every subject
+  const contract = getRatingSystemContract(provider, chainId);
+  const subjects = await getSubjects(provider, chainId);
+  const member = (await getMemberKey(provider, chainId)).address;
+
+  const entryIds: number[] = [];
+  for (const subject of subjects) {
+    const [used, entryId] = await contract.getNullifierEntry(computeNullifier(member, subject.name));
+    if (used) entryIds.push(Number(entryId));
+  }
+  return Promise.all(entryIds.map((entryId) => getEntry(provider, entryId, chainId)));
+}
+
+// Replace the caller's rating of subject, optionally moving it to newSubject
+export async function updateRating(
+  provider: BrowserProvider,
+  subject: string,
+  encryptedHandle: string,
+  inputProof: string,
+  newSubject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  try {
+    if (!newSubject || newSubject.trim().length === 0) {
+      throw new Error("Subject cannot be empty");
+    }
+    if (newSubject.length > 100) {
+      throw new Error("Subject is too long (max 100 characters)");
+    }
+
+    const signer = await provider.getSigner();
+    const contract = getRatingSystemContract(provider, chainId).connect(signer);
+    const tx = await contract.updateRating(subject, encryptedHandle, inputProof, newSubject);
+
+    console.log("Update transaction submitted:", tx.hash);
+    return tx;
+  } catch (error: any) {
+    console.error("Error updating rating:", error);
+
+    // Parse common errors
+    if (error.message?.includes("No active entry found")) {
+      throw new Error(`You don't have a rating for "${subject}" to update. Please submit a rating first.`);
+    } else if (error.message?.includes("Already submitted for this subject")) {
+      throw new Error(`You have already rated "${newSubject}". Update that rating instead.`);
+    } else if (error.message?.includes("Subject is not open") || error.message?.includes("Unknown subject")) {
+      throw new Error("This subject is not accepting ratings.");
+    } else if (error.message?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
+    } else if (error.message?.includes("user rejected")) {
+      throw new Error("Transaction was rejected by user.");
+    } else if (error.message?.includes("insufficient funds")) {
+      throw new Error("Insufficient funds to pay for gas. Please add more ETH to your wallet.");
+    } else {
+      throw new Error(`Failed to update rating: ${error.message || "Unknown error"}`);
+    }
+  }
+}
+
+// Delete the caller's rating of subject
+export async function deleteRating(
+  provider: BrowserProvider,
+  subject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  try {
+    const signer = await provider.getSigner();
+    const contract = getRatingSystemContract(provider, chainId).connect(signer);
+    const tx = await contract.deleteRating(subject);
+
+    console.log("Delete transaction submitted:", tx.hash);
+    return tx;
+  } catch (error: any) {
+    console.error("Error deleting rating:", error);
+
+    // Parse common errors
+    if (error.message?.includes("No active entry found")) {
+      throw new Error(`You don't have a rating for "${subject}" to delete.`);
+    } else if (error.message?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
+    } else if (error.message?.includes("user rejected")) {
+      throw new Error("Transaction was rejected by user.");
+    } else if (error.message?.includes("insufficient funds")) {
+      throw new Error("Insufficient funds to pay for gas. Please add more ETH to your wallet.");
+    } else {
+      throw new Error(`Failed to delete rating: ${error.message || "Unknown error"}`);
+    }
+  }
+}
+
+// Get subject-specific statistics
+export async function getSubjectStats(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  chainId?: number
+): Promise<{ average: number; count: number; stdDev: number; noise: number; finalized: boolean }> {
+  if (!isContractDeployed(chainId)) {
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
+  }
+  
+  const address = getContractAddress(chainId);
+  if (!address || address === "0x0000000000000000000000000000000000000000") {
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
+  }
+  
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const finalized = await contract.isSubjectStatsFinalized(subject);
+    if (!finalized) return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
+    const stats = await contract.getSubjectStats(subject);
+    return {
+      average: fromFixedPoint(stats.averageRating),
+      count: Number(stats.count),
+      stdDev: fromFixedPoint(stats.stdDev),
+      // Subjects with a noise scale publish a sum that is off by at most noiseScale, so the average by noiseScale / count
+      noise: Number(stats.count) > 0 ? Number(stats.noiseScale) / Number(stats.count) : 0,
+      finalized: true,
+    };
+  } catch (error: any) {
+    // Check if error is due to invalid contract address or contract not deployed
+    if (error.message?.includes("could not decode result data") || 
+        error.message?.includes("BAD_DATA") ||
+        error.code === "BAD_DATA" ||
+        error.message?.includes("not configured")) {
+      console.warn("Contract may not be deployed at address:", address);
+      return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
+    }
+    console.error("Error getting subject stats:", error);
+    return { average: 0, count: 0, stdDev: 0, noise: 0, finalized: false };
+  }
+}
+
+export async function requestSubjectStats(
   provider: BrowserProvider,
   subject: string,
   chainId?: number
@@ -557,6 +1295,44 @@ export async function requestSubjectStats(
   return await contract.requestSubjectStats(subject);
 }
 
+// Decrypt global statistics and those of several subjects in one request, published together
+export async function requestAllStats(
+  provider: BrowserProvider,
+  subjects: string[],
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.requestAllStats(subjects);
+}
+
+// Subjects requestAllStats accepts now: those meeting their respondent threshold, or with private counts
+// every subject, since the contract withholds those below their threshold or unrated without revealing which
+export async function getPublishableSubjects(
+  provider: BrowserProvider | JsonRpcProvider,
+  subjects: string[],
+  chainId?: number
+): Promise<string[]> {
+  const privateCounts = await isPrivateCounts(provider, chainId);
+  const publishable: string[] = [];
+  for (const subject of subjects) {
+    const ready =
+      privateCounts ||
+      (await getSubjectEntryCount(provider, subject, chainId)) >=
+        Math.max(1, await getSubjectMinRespondents(provider, subject, chainId));
+    if (ready) {
+      publishable.push(subject);
+    }
+  }
+  return publishable;
+}
+
 export async function getSubjectEntryCount(
   provider: BrowserProvider | JsonRpcProvider,
   subject: string,
@@ -574,107 +1350,319 @@ export async function getSubjectEntryCount(
   }
 }
 
-// Mock decryption for localhost network only
-// Uses userDecryptHandleBytes32 from @fhevm/mock-utils (like secret-vault-check)
-export async function mockDecryptGlobalStats(
-  provider: BrowserProvider,
+// Get the latest published rating histogram for a subject (buckets[i] counts rating i + 1)
+export async function getSubjectHistogram(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
   chainId?: number
-): Promise<{ average: number; count: number }> {
-  const id = chainId ?? 31337;
-  if (id !== 31337) {
-    throw new Error("Mock decryption is only available on localhost network (chainId 31337)");
+): Promise<{ buckets: number[]; count: number; published: boolean }> {
+  const empty = { buckets: new Array(10).fill(0), count: 0, published: false };
+  if (!isContractDeployed(chainId)) {
+    return empty;
   }
-
   try {
-    const signer = await provider.getSigner();
-    const userAddress = await signer.getAddress();
-    const contract = getRatingSystemContract(provider, chainId).connect(signer);
-    const contractAddress = getContractAddress(chainId);
-
-    // Check if already finalized
-    const isFinalized = await contract.isGlobalStatsFinalized();
-    if (isFinalized) {
-      const stats = await contract.getGlobalStats();
-      return {
-        average: Number(stats.averageRating),
-        count: Number(stats.totalCount),
-      };
+    const contract = getRatingSystemContract(provider, chainId);
+    const histogram = await contract.getSubjectHistogram(subject);
+    return {
+      buckets: histogram.buckets.map((bucket: bigint) => Number(bucket)),
+      count: Number(histogram.count),
+      published: true,
+    };
+  } catch (error: any) {
+    if (error.message?.includes("Histogram not available yet")) {
+      return empty;
     }
+    console.error("Error getting subject histogram:", error);
+    return empty;
+  }
+}
 
-    // Get encrypted stats
-    const stats = await contract.getEncryptedGlobalStats();
-    const encryptedTotal = stats.encryptedSum;
-    const count = Number(stats.count);
+export async function requestSubjectHistogram(
+  provider: BrowserProvider,
+  subject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.requestSubjectHistogram(subject);
+}
 
+// Latest published ranking of subjects, from the highest to the lowest average (null before the first one)
+export async function getLatestRanking(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<{ subjects: string[]; blockNumber: number } | null> {
+  if (!isContractDeployed(chainId)) {
+    return null;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const count = Number(await contract.getRankingCount());
     if (count === 0) {
-      throw new Error("No active entries to decrypt");
+      return null;
     }
+    const ranking = await contract.getRanking(count);
+    return { subjects: [...ranking.subjects], blockNumber: Number(ranking.blockNumber) };
+  } catch (error: any) {
+    console.error("Error getting ranking:", error);
+    return null;
+  }
+}
 
-    console.log("[mockDecryptGlobalStats] Starting mock decryption for global stats...");
-    console.log("[mockDecryptGlobalStats] Encrypted total handle:", encryptedTotal);
-    console.log("[mockDecryptGlobalStats] Active count:", count);
+// Rank subjects by average rating; only pairwise comparison results are decrypted
+export async function requestRanking(
+  provider: BrowserProvider,
+  subjects: string[],
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.requestRanking(subjects);
+}
 
-    // Convert handle to correct format
-    let handleToDecrypt = String(encryptedTotal);
-    if (handleToDecrypt.startsWith("0x")) {
-      // Already in hex format
-    } else if (typeof encryptedTotal === "bigint") {
-      handleToDecrypt = "0x" + encryptedTotal.toString(16).padStart(64, '0');
-    } else {
-      // Try to convert to hex
-      handleToDecrypt = "0x" + String(encryptedTotal).padStart(64, '0');
-    }
+// Alert threshold of a subject and its latest published result; only whether the average is below it is decrypted
+export async function getThresholdAlert(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  chainId?: number
+): Promise<{ threshold: number; published: { threshold: number; below: boolean; count: number } | null }> {
+  if (!isContractDeployed(chainId)) {
+    return { threshold: 0, published: null };
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const threshold = fromFixedPoint(await contract.getAlertThreshold(subject));
+    const alert = await contract.getThresholdAlert(subject);
+    return {
+      threshold,
+      published:
+        alert.blockNumber > 0n
+          ? { threshold: fromFixedPoint(alert.threshold), below: alert.below, count: Number(alert.count) }
+          : null,
+    };
+  } catch (error: any) {
+    console.error("Error getting threshold alert:", error);
+    return { threshold: 0, published: null };
+  }
+}
 
-    // Validate handle format
-    if (!handleToDecrypt || handleToDecrypt === "0x" || handleToDecrypt.length !== 66) {
-      throw new Error(`Invalid handle format: ${handleToDecrypt}`);
-    }
+// Set the average below which a subject raises an alert (admin only); 0 removes the alert
+export async function setAlertThreshold(
+  provider: BrowserProvider,
+  subject: string,
+  threshold: number,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.setAlertThreshold(subject, Math.round(threshold * STATS_PRECISION));
+}
 
-    // Import userDecryptHandleBytes32 from @fhevm/mock-utils
-    const { userDecryptHandleBytes32 } = await import("@fhevm/mock-utils");
-    const rpcProvider = new JsonRpcProvider("http://localhost:8545");
+export async function requestThresholdAlert(
+  provider: BrowserProvider,
+  subject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.requestThresholdAlert(subject);
+}
 
-    console.log("[mockDecryptGlobalStats] Decrypting handle using userDecryptHandleBytes32...");
-    
-    // Decrypt using userDecryptHandleBytes32 (no Ethereum request needed)
-    const decryptedTotal = await userDecryptHandleBytes32(
-      rpcProvider,
-      signer,
-      contractAddress,
-      handleToDecrypt,
-      userAddress
+// Respondent segments configured by the admins, in the order of their encrypted index (empty when not used)
+export async function getSegments(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<string[]> {
+  if (!isContractDeployed(chainId)) {
+    return [];
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return [...(await contract.getSegments())];
+  } catch (error: any) {
+    console.error("Error getting segments:", error);
+    return [];
+  }
+}
+
+// Submit a rating with the respondent's segment; both handles come from one encrypted input
+export async function submitSegmentedRating(
+  provider: BrowserProvider,
+  ratingHandle: string,
+  segmentHandle: string,
+  inputProof: string,
+  subject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
     );
+  }
+  if (!subject || subject.trim().length === 0) {
+    throw new Error("Subject cannot be empty");
+  }
 
-    console.log("[mockDecryptGlobalStats] Decrypted total:", decryptedTotal);
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
 
-    const totalValue = Number(decryptedTotal);
-    const average = Math.floor(totalValue / count);
+  try {
+    const eligibilityProof = await getEligibilityProof(provider, subject, await signer.getAddress(), chainId);
+    return await contract.submitSegmentedRating(ratingHandle, segmentHandle, inputProof, subject, eligibilityProof);
+  } catch (error: any) {
+    console.error("Error submitting segmented rating:", error);
 
-    console.log(`[mockDecryptGlobalStats] Result: total=${totalValue}, count=${count}, average=${average}`);
+    if (error.message?.includes("Already submitted for this subject")) {
+      throw new Error("You have already submitted a rating for this subject. Please choose a different subject or update your existing rating.");
+    } else if (error.message?.includes("Subject is not open") || error.message?.includes("Unknown subject")) {
+      throw new Error("This subject is not accepting ratings.");
+    } else if (error.message?.includes("not on the allowlist")) {
+      throw new Error(`Your address is not on the allowlist for "${subject}".`);
+    } else if (error.message?.includes("Not eligible for this subject")) {
+      throw new Error(`Your address is not eligible to rate "${subject}". It may require holding a token or NFT.`);
+    } else if (error.message?.includes("Contract is paused")) {
+      throw new Error("Ratings are temporarily paused by the administrators. Please try again later.");
+    } else if (error.message?.includes("user rejected")) {
+      throw new Error("Transaction was rejected by user.");
+    }
+    throw new Error(`Failed to submit rating: ${error.message || "Unknown error"}`);
+  }
+}
 
-    // Trigger callback manually to finalize stats
-    const requestId = 1; // Mock request ID
-    const averageBytes = "0x" + average.toString(16).padStart(8, '0'); // Convert to hex bytes (uint32)
+// Latest published per-segment statistics; segments below the respondent threshold report a count of 0
+export async function getSegmentStats(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  chainId?: number
+): Promise<{ averages: number[]; counts: number[]; published: boolean }> {
+  const empty = { averages: [], counts: [], published: false };
+  if (!isContractDeployed(chainId)) {
+    return empty;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const stats = await contract.getSegmentStats(subject);
+    if (stats.blockNumber === 0n) {
+      return empty;
+    }
+    return {
+      averages: stats.averages.map((average: bigint) => fromFixedPoint(average)),
+      counts: stats.counts.map((count: bigint) => Number(count)),
+      published: true,
+    };
+  } catch (error: any) {
+    console.error("Error getting segment stats:", error);
+    return empty;
+  }
+}
 
-    console.log("[mockDecryptGlobalStats] Triggering callback with average:", average);
-    const tx = await contract.globalStatsCallback(requestId, averageBytes, []);
-    await tx.wait();
+export async function requestSegmentStats(
+  provider: BrowserProvider,
+  subject: string,
+  chainId?: number
+) {
+  if (!isContractDeployed(chainId)) {
+    throw new Error(
+      `EncryptedRatingSystem contract address not configured for chainId ${chainId ?? 31337}.\n` +
+      `Please deploy the contract first: npm run deploy:${chainId === 11155111 ? 'sepolia' : 'local'}`
+    );
+  }
+  const signer = await provider.getSigner();
+  const contract = getRatingSystemContract(provider, chainId).connect(signer);
+  return await contract.requestSegmentStats(subject);
+}
 
-    console.log("[mockDecryptGlobalStats] ✅ Mock decryption completed successfully");
+// Minimum number of ratings a subject needs before its aggregate can be decrypted
+export async function getSubjectMinRespondents(
+  provider: BrowserProvider | JsonRpcProvider,
+  subject: string,
+  chainId?: number
+): Promise<number> {
+  if (!isContractDeployed(chainId)) {
+    return 0;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return Number(await contract.getSubjectMinRespondents(subject));
+  } catch (error: any) {
+    console.error("Error getting subject minimum respondents:", error);
+    return 0;
+  }
+}
 
-    return { average, count };
+// Minimum number of ratings before the global aggregate can be decrypted
+export async function getGlobalMinRespondents(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<number> {
+  if (!isContractDeployed(chainId)) {
+    return 0;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return Number(await contract.globalMinRespondents());
   } catch (error: any) {
-    console.error("[mockDecryptGlobalStats] ❌ Mock decryption failed:", error);
+    console.error("Error getting global minimum respondents:", error);
+    return 0;
+  }
+}
 
-    throw new Error(`Mock decryption failed: ${error.message || "Unknown error"}`);
+// Highest rating the instance accepts; factory instances may use a smaller scale than MAX_RATING (10)
+export async function getRatingScale(
+  provider: BrowserProvider | JsonRpcProvider,
+  chainId?: number
+): Promise<number> {
+  if (!isContractDeployed(chainId)) {
+    return 10;
+  }
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    return Number(await contract.ratingScale());
+  } catch (error: any) {
+    console.error("Error getting rating scale:", error);
+    return 10;
   }
 }
 
-// Mock decryption for subject stats on localhost network only
-// Uses userDecryptHandleBytes32 from @fhevm/mock-utils (like secret-vault-check)
-export async function mockDecryptSubjectStats(
+// Localhost only: the Hardhat node's mock decryption oracle fulfills pending requests with mock KMS
+// signatures, which the contract's callbacks verify exactly like the real ones on Sepolia
+export async function awaitLocalDecryptionOracle(chainId?: number): Promise<void> {
+  if ((chainId ?? 31337) !== 31337) {
+    return;
+  }
+  const rpcProvider = new JsonRpcProvider("http://localhost:8545");
+  await rpcProvider.send("fhevm_awaitDecryptionOracle", []);
+}
+
+// Mock decryption for localhost network only
+// Requests decryption like on Sepolia, then has the local oracle publish the signed result
+export async function mockDecryptGlobalStats(
   provider: BrowserProvider,
-  subject: string,
   chainId?: number
 ): Promise<{ average: number; count: number }> {
   const id = chainId ?? 31337;
@@ -683,83 +1671,60 @@ export async function mockDecryptSubjectStats(
   }
 
   try {
-    const signer = await provider.getSigner();
-    const userAddress = await signer.getAddress();
-    const contract = getRatingSystemContract(provider, chainId).connect(signer);
-    const contractAddress = getContractAddress(chainId);
-
-    // Check if already finalized
-    const isFinalized = await contract.isSubjectStatsFinalized(subject);
-    if (isFinalized) {
-      const stats = await contract.getSubjectStats(subject);
-      return {
-        average: Number(stats.averageRating),
-        count: Number(stats.count),
-      };
-    }
-
-    // Get encrypted subject stats
-    const stats = await contract.getEncryptedSubjectStats(subject);
-    const encryptedTotal = stats.encryptedSum;
-    const count = Number(stats.count);
+    // A withheld request publishes no snapshot, so the previous result must not be reported as the new one
+    const before = await getRatingSystemContract(provider, chainId).getGlobalSnapshotCount();
 
-    if (count === 0) {
-      throw new Error(`No entries for subject: ${subject}`);
-    }
+    console.log("[mockDecryptGlobalStats] Requesting global stats decryption...");
+    const tx = await requestGlobalStats(provider, chainId);
+    await tx.wait();
 
-    console.log(`[mockDecryptSubjectStats] Starting mock decryption for subject "${subject}"...`);
-    console.log("[mockDecryptSubjectStats] Encrypted total handle:", encryptedTotal);
-    console.log("[mockDecryptSubjectStats] Entry count:", count);
+    console.log("[mockDecryptGlobalStats] Waiting for the local decryption oracle...");
+    await awaitLocalDecryptionOracle(chainId);
 
-    // Convert handle to correct format
-    let handleToDecrypt = String(encryptedTotal);
-    if (handleToDecrypt.startsWith("0x")) {
-      // Already in hex format
-    } else if (typeof encryptedTotal === "bigint") {
-      handleToDecrypt = "0x" + encryptedTotal.toString(16).padStart(64, '0');
-    } else {
-      // Try to convert to hex
-      handleToDecrypt = "0x" + String(encryptedTotal).padStart(64, '0');
+    const stats = await getGlobalStats(provider, chainId);
+    if (!stats.finalized || (await getRatingSystemContract(provider, chainId).getGlobalSnapshotCount()) === before) {
+      throw new Error("Decryption result was not published");
     }
 
-    // Validate handle format
-    if (!handleToDecrypt || handleToDecrypt === "0x" || handleToDecrypt.length !== 66) {
-      throw new Error(`Invalid handle format: ${handleToDecrypt}`);
-    }
-
-    // Import userDecryptHandleBytes32 from @fhevm/mock-utils
-    const { userDecryptHandleBytes32 } = await import("@fhevm/mock-utils");
-    const rpcProvider = new JsonRpcProvider("http://localhost:8545");
-
-    console.log("[mockDecryptSubjectStats] Decrypting handle using userDecryptHandleBytes32...");
-    
-    // Decrypt using userDecryptHandleBytes32 (no Ethereum request needed)
-    const decryptedTotal = await userDecryptHandleBytes32(
-      rpcProvider,
-      signer,
-      contractAddress,
-      handleToDecrypt,
-      userAddress
-    );
-
-    console.log("[mockDecryptSubjectStats] Decrypted total:", decryptedTotal);
+    console.log(`[mockDecryptGlobalStats] Result: average=${stats.average}, count=${stats.count}`);
+    return { average: stats.average, count: stats.count };
+  } catch (error: any) {
+    console.error("[mockDecryptGlobalStats] ❌ Mock decryption failed:", error);
 
-    const totalValue = Number(decryptedTotal);
-    const average = Math.floor(totalValue / count);
+    throw new Error(`Mock decryption failed: ${error.message || "Unknown error"}`);
+  }
+}
 
-    console.log(`[mockDecryptSubjectStats] Result for "${subject}": total=${totalValue}, count=${count}, average=${average}`);
+// Mock decryption for subject stats on localhost network only
+// Requests decryption like on Sepolia, then has the local oracle publish the signed result
+export async function mockDecryptSubjectStats(
+  provider: BrowserProvider,
+  subject: string,
+  chainId?: number
+): Promise<{ average: number; count: number }> {
+  const id = chainId ?? 31337;
+  if (id !== 31337) {
+    throw new Error("Mock decryption is only available on localhost network (chainId 31337)");
+  }
 
-    // Trigger callback manually to finalize stats
-    const requestId = 1; // Mock request ID
-    const averageBytes = "0x" + average.toString(16).padStart(8, '0'); // Convert to hex bytes (uint32)
+  try {
+    const contract = getRatingSystemContract(provider, chainId);
+    const before = await contract.getSubjectSnapshotCount(subject);
 
-    console.log("[mockDecryptSubjectStats] Triggering callback with average:", average);
-    const tx = await contract.subjectStatsCallback(requestId, averageBytes, []);
+    console.log(`[mockDecryptSubjectStats] Requesting decryption for subject "${subject}"...`);
+    const tx = await requestSubjectStats(provider, subject, chainId);
     await tx.wait();
 
-    console.log("[mockDecryptSubjectStats] ✅ Mock subject decryption completed successfully");
+    console.log("[mockDecryptSubjectStats] Waiting for the local decryption oracle...");
+    await awaitLocalDecryptionOracle(chainId);
+
+    const stats = await getSubjectStats(provider, subject, chainId);
+    if (!stats.finalized || (await contract.getSubjectSnapshotCount(subject)) === before) {
+      throw new Error("Decryption result was not published");
+    }
 
-    return { average, count };
+    console.log(`[mockDecryptSubjectStats] Result for "${subject}": average=${stats.average}, count=${stats.count}`);
+    return { average: stats.average, count: stats.count };
   } catch (error: any) {
     console.error("[mockDecryptSubjectStats] ❌ Mock subject decryption failed:", error);
 
@@ -174,13 +174,20 @@ export async function initializeFHEVM(chainId?: number): Promise<FhevmInstance>
   return initializeFHEVM(chainId);
 }
 
-// Encrypt a rating value
+// Encrypt a rating value as an 8-bit ciphertext (ratings are 1 to the instance's ratingScale(), at most 10;
+// the contract widens them into its sums)
+// Pass an array to encrypt several ratings (e.g. a questionnaire) into one input:
+// one handle per rating, all covered by a single input proof.
+// A respondent segment index is appended as an 8-bit value after the ratings.
 export async function encryptRating(
   fhevm: FhevmInstance,
   contractAddress: string,
   userAddress: string,
-  rating: number
+  rating: number | number[],
+  segment?: number,
+  ratingScale: number = 10
 ): Promise<EncryptedInput> {
+  const ratings = Array.isArray(rating) ? rating : [rating];
   try {
     console.log("[encryptRating] Starting encryption...", {
       contractAddress,
@@ -199,14 +206,22 @@ export async function encryptRating(
     if (!userAddress || userAddress === "0x0000000000000000000000000000000000000000") {
       throw new Error("Invalid user address");
     }
-    if (rating < 1 || rating > 10) {
-      throw new Error("Rating must be between 1 and 10");
+    if (ratings.length === 0) {
+      throw new Error("No ratings to encrypt");
+    }
+    // The contract would zero an out-of-range rating and still count its respondent, so never encrypt one
+    if (ratings.some((value) => !Number.isInteger(value) || value < 1 || value > ratingScale)) {
+      throw new Error(`Rating must be between 1 and ${ratingScale}`);
     }
 
-    console.log("[encryptRating] Creating encrypted input...");
-    const encryptedInput = fhevm
-      .createEncryptedInput(contractAddress, userAddress)
-      .add32(rating);
+    console.log("[encryptRating] Creating encrypted input...", { values: ratings.length });
+    const encryptedInput = fhevm.createEncryptedInput(contractAddress, userAddress);
+    for (const value of ratings) {
+      encryptedInput.add8(value);
+    }
+    if (segment !== undefined) {
+      encryptedInput.add8(segment);
+    }
 
     console.log("[encryptRating] Calling encrypt() - this may trigger MetaMask signature request...");
     console.log("[encryptRating] Note: On Sepolia network, encrypt() requires MetaMask signature for input proof");
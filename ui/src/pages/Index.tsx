@@ -1,14 +1,22 @@
+import { useState } from "react";
 import Header from "@/components/Header";
 import Hero from "@/components/Hero";
+import CampaignSelector from "@/components/CampaignSelector";
 import RatingSystem from "@/components/RatingSystem";
+import SurveyQuestionnaire from "@/components/SurveyQuestionnaire";
 
 const Index = () => {
+  // Remount the rating views whenever another campaign instance is selected
+  const [instanceAddress, setInstanceAddress] = useState<string>("");
+
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Header />
       <main className="flex-1">
         <Hero />
-        <RatingSystem />
+        <CampaignSelector onChange={setInstanceAddress} />
+        <RatingSystem key={`rating-${instanceAddress}`} />
+        <SurveyQuestionnaire key={`survey-${instanceAddress}`} />
       </main>
     </div>
   );